@@ -0,0 +1,103 @@
+// -----------------------------------------------------------------------------
+// functions/getPdf.ts – Cloudflare Pages Function (PDF aus R2 ausliefern)
+// -----------------------------------------------------------------------------
+// Liefert ein PDF aus dem R2‑Bucket für den PDF‑Viewer im Chat, z.B. um eine
+// zitierte Seite einer Antwort anzuzeigen.
+//
+// * GET ?key=978....pdf   → application/pdf (gestreamt)
+//
+// Es gelten die gleichen Sichtbarkeitsregeln wie in listPdfs und processPdf
+// (`book_files.visibility`, Clerk‑Metadaten `role`/`schools`), siehe
+// src/lib/pdf-access.ts.
+// -----------------------------------------------------------------------------
+
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { createClient as createSupabase } from '@supabase/supabase-js';
+import { createClerkClient } from '@clerk/backend';
+import { canAccessPdfKey, getPdfAccess, type PdfAccess } from '../src/lib/pdf-access';
+
+// -----------------------------------------------------------------------------
+// Env‑Binding‑Interface ---------------------------------------------------------
+// -----------------------------------------------------------------------------
+interface Env {
+  R2_BUCKET_BINDING: R2Bucket;
+  VITE_SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+  CLERK_SECRET_KEY: string;
+  VITE_CLERK_PUBLISHABLE_KEY: string;
+}
+
+// -----------------------------------------------------------------------------
+// Konstante Einstellungen ------------------------------------------------------
+// -----------------------------------------------------------------------------
+const ALLOWED_ORIGINS = [
+  'http://localhost:5173',
+  'https://tempo-wanna-project.pages.dev',
+  'https://wanna-books.ch',
+  'https://www.wanna-books.ch',
+];
+
+// -----------------------------------------------------------------------------
+// Utils ------------------------------------------------------------------------
+// -----------------------------------------------------------------------------
+function cors(request: Request): Headers {
+  const h = new Headers({
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Credentials': 'true',
+    Vary: 'Origin',
+  });
+  const origin = request.headers.get('Origin');
+  if (origin && ALLOWED_ORIGINS.includes(origin)) h.set('Access-Control-Allow-Origin', origin);
+  return h;
+}
+
+// -----------------------------------------------------------------------------
+// Haupt‑Handler ---------------------------------------------------------------
+// -----------------------------------------------------------------------------
+export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
+  // CORS Pre‑flight
+  if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: cors(request) });
+
+  if (request.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405, headers: cors(request) });
+  }
+
+  // Clerk Auth ----------------------------------------------------------------
+  const clerk = createClerkClient({ secretKey: env.CLERK_SECRET_KEY, publishableKey: env.VITE_CLERK_PUBLISHABLE_KEY });
+  let access: PdfAccess;
+  try {
+    const auth = await clerk.authenticateRequest(request.clone());
+    if (!auth.isSignedIn) throw new Error('not signed in');
+    access = await getPdfAccess(clerk, auth.toAuth().userId!);
+  } catch {
+    return Response.json({ error: 'Unauthorized' }, { status: 401, headers: cors(request) });
+  }
+
+  const key = new URL(request.url).searchParams.get('key') || '';
+  if (!key) return Response.json({ error: 'Missing "key"' }, { status: 400, headers: cors(request) });
+
+  const supabase = createSupabase(env.VITE_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    if (!(await canAccessPdfKey(supabase, key, access))) {
+      return Response.json({ error: 'Kein Zugriff auf dieses PDF' }, { status: 403, headers: cors(request) });
+    }
+  } catch (err) {
+    console.error('Access check failed', err);
+    return Response.json({ error: 'Zugriffsprüfung fehlgeschlagen' }, { status: 500, headers: cors(request) });
+  }
+
+  // PDF aus R2 direkt weiterstreamen
+  const obj = await env.R2_BUCKET_BINDING.get(key);
+  if (!obj) return Response.json({ error: 'File not found' }, { status: 404, headers: cors(request) });
+
+  const headers = cors(request);
+  headers.set('Content-Type', 'application/pdf');
+  headers.set('Content-Length', String(obj.size));
+  headers.set('Content-Disposition', `inline; filename="${encodeURIComponent(key)}"`);
+  // Persönlich, weil die Sichtbarkeit von der angemeldeten Person abhängt
+  headers.set('Cache-Control', 'private, max-age=300');
+  headers.set('ETag', obj.httpEtag);
+  return new Response(obj.body as unknown as ReadableStream, { headers });
+};
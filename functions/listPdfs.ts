@@ -1,18 +1,43 @@
 // ----------------------------------------------
 // functions/lisPdfs.ts
 // Cloudflare Pages Function – list objects in an R2 bucket
+//
+// Liefert nur PDFs, die die angemeldete Person sehen darf (book_files.visibility,
+// Clerk-Metadaten role/schools). Admins sehen alle Objekte, auch solche ohne
+// Eintrag in book_files.
+//
+// Query-Parameter
+// * limit   Einträge pro Seite (Standard 50, höchstens 100)
+// * cursor  aus der vorherigen Antwort, für die nächste Seite
+// * q       Suche in Dateiname, Bezeichnung, Titel, Autor, Fach und ISBN des Buchs
+//           (nur zugeordnete Dateien, über search_pdf_files)
+// * key     genau eine Datei, z.B. um ein verlinktes PDF im Chat zu öffnen
+// * prefix  nur Objekte mit diesem Präfix (ohne q)
+//
+// Antwort: { files: [{ name, size, lastModified, etag, bookId, kind, label,
+//            visibility, book: { title, author, subject } | null }], cursor: string | null }
 // ----------------------------------------------
 import type { PagesFunction } from '@cloudflare/workers-types';
+import { createClient as createSupabase } from '@supabase/supabase-js';
 import { createClerkClient } from '@clerk/backend';
+import { canAccessPdfFile, getPdfAccess, type PdfAccess } from '../src/lib/pdf-access';
 
 interface Env {
   CLERK_SECRET_KEY: string;
   VITE_CLERK_PUBLISHABLE_KEY: string;
   R2_BUCKET_NAME_ENV?: string;
   R2_BUCKET_BINDING: R2Bucket; 
+  VITE_SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
   NODE_ENV?: string;
 }
 
+const DEFAULT_LIMIT = 50;
+// Die Keys einer Seite landen im Query-String der Supabase-Abfrage
+const MAX_LIMIT = 100;
+// Obergrenze für R2-Abfragen pro Seite, falls viele Objekte nicht sichtbar sind
+const MAX_LIST_ROUNDS = 10;
+
 const ALLOWED_ORIGINS = [
   'http://localhost:5173',
   'http://127.0.0.1:5173',
@@ -38,6 +63,58 @@ function getCorsHeaders(request: Request): Headers {
   return headers;
 }
 
+/* ---------- Zuordnung in book_files (Sichtbarkeit siehe src/lib/pdf-access.ts) ---------- */
+interface BookFileAccess {
+  key: string;
+  book_id: string;
+  kind: string;
+  label: string | null;
+  visibility: string;
+  schools: string[];
+  books: { title: string; author: string; subject: string; deleted_at: string | null } | null;
+}
+
+interface ListedPdf {
+  name: string;
+  size: number | null;
+  lastModified: string | Date | null;
+  etag: string | null;
+  bookId: string | null;
+  kind: string | null;
+  label: string | null;
+  visibility: string | null;
+  book: { title: string; author: string; subject: string } | null;
+}
+
+type SupabaseClient = ReturnType<typeof createSupabase>;
+
+/* ---------- Zuordnungen und Buchangaben zu einer Seite von R2-Objekten ---------- */
+async function loadBookFiles(supabase: SupabaseClient, keys: string[]): Promise<Map<string, BookFileAccess>> {
+  if (keys.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('book_files')
+    .select('key, book_id, kind, label, visibility, schools, books(title, author, subject, deleted_at)')
+    .in('key', keys);
+  if (error) throw error;
+
+  return new Map(((data || []) as unknown as BookFileAccess[]).map((file) => [file.key, file]));
+}
+
+function toListedPdf(object: R2Object, file: BookFileAccess | undefined): ListedPdf {
+  return {
+    name: object.key,
+    size: object.size,
+    lastModified: object.uploaded,
+    etag: object.httpEtag || object.etag,
+    bookId: file?.book_id ?? null,
+    kind: file?.kind ?? null,
+    label: file?.label ?? null,
+    visibility: file?.visibility ?? null,
+    book: file?.books ? { title: file.books.title, author: file.books.author, subject: file.books.subject } : null,
+  };
+}
+
 export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
   /* ---------- CORS pre‑flight ---------- */
   if (request.method === 'OPTIONS') {
@@ -57,22 +134,28 @@ export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
     publishableKey: env.VITE_CLERK_PUBLISHABLE_KEY,
   });
 
+  let access: PdfAccess;
   try {
     const authHeader = request.headers.get('Authorization');
     let isSignedIn = false;
+    let userId: string | null = null;
 
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const clerkRequest = new Request(request.url, { headers: request.headers, method: request.method });
       const authResult = await clerk.authenticateRequest(clerkRequest.clone(), { authorizedParties: ALLOWED_ORIGINS });
       isSignedIn = authResult.isSignedIn;
+      userId = isSignedIn ? authResult.toAuth().userId : null;
     } else {
       const authResult = await clerk.authenticateRequest(request.clone(), { authorizedParties: ALLOWED_ORIGINS });
       isSignedIn = authResult.isSignedIn;
+      userId = isSignedIn ? authResult.toAuth().userId : null;
     }
 
-    if (!isSignedIn) {
+    if (!isSignedIn || !userId) {
       return Response.json({ error: 'Unauthorized' }, { status: 401, headers: getCorsHeaders(request) });
     }
+
+    access = await getPdfAccess(clerk, userId);
   } catch (authError: any) {
     console.error('Authentication error:', authError.message);
     return Response.json({ error: 'Unauthorized' }, { status: 401, headers: getCorsHeaders(request) });
@@ -81,25 +164,78 @@ export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
   /* ---------- List objects in R2 ---------- */
   const url = new URL(request.url);
   const prefix = url.searchParams.get('prefix') || url.searchParams.get('path') || undefined;
+  const query = url.searchParams.get('q')?.trim() || '';
+  const singleKey = url.searchParams.get('key');
+  const requestedLimit = Number(url.searchParams.get('limit')) || DEFAULT_LIMIT;
+  const limit = Math.min(Math.max(Math.floor(requestedLimit), 1), MAX_LIMIT);
+  const isVisible = (file: BookFileAccess | undefined) => canAccessPdfFile(file, access);
 
   try {
-    const listOptions: R2ListOptions = {
-      prefix,
-      limit: 1000,
-    };
-
-    const listed = await env.R2_BUCKET_BINDING.list(listOptions);
-
-    const files = listed.objects.map((o) => ({
-      name: o.key,
-      size: o.size,
-      lastModified: o.uploaded,
-      etag: o.httpEtag || o.etag,
-    }));
+    const supabase = createSupabase(env.VITE_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+    let files: ListedPdf[] = [];
+    let nextCursor: string | null = null;
+
+    if (singleKey) {
+      /* ---------- Einzelne Datei ---------- */
+      const object = await env.R2_BUCKET_BINDING.head(singleKey);
+      if (object) {
+        const file = (await loadBookFiles(supabase, [singleKey])).get(singleKey);
+        if (isVisible(file)) files = [toListedPdf(object, file)];
+      }
+    } else if (query) {
+      /* ---------- Suche (Cursor = Offset) ---------- */
+      const offset = Math.max(Number(url.searchParams.get('cursor')) || 0, 0);
+      const { data, error } = await supabase.rpc('search_pdf_files', {
+        p_query: query,
+        p_role: access.role,
+        p_schools: access.schools,
+        p_limit: limit + 1,
+        p_offset: offset,
+      });
+      if (error) throw error;
+
+      const rows = data || [];
+      files = rows.slice(0, limit).map((row: any) => ({
+        name: row.key,
+        size: row.size,
+        lastModified: row.created_at,
+        etag: row.etag,
+        bookId: row.book_id,
+        kind: row.kind,
+        label: row.label,
+        visibility: row.visibility,
+        book: { title: row.title, author: row.author, subject: row.subject },
+      }));
+      nextCursor = rows.length > limit ? String(offset + limit) : null;
+    } else {
+      /* ---------- Blättern (Cursor = R2-Cursor) ---------- */
+      // Nicht sichtbare Objekte fallen weg, deshalb so lange nachladen, bis die Seite voll ist.
+      // R2 liefert nie mehr als angefragt, der Cursor zeigt also immer auf das nächste ungesehene Objekt.
+      let cursor = url.searchParams.get('cursor') || undefined;
+      let truncated = true;
+      for (let round = 0; round < MAX_LIST_ROUNDS && truncated && files.length < limit; round++) {
+        const listOptions: R2ListOptions = {
+          prefix,
+          cursor,
+          limit: limit - files.length,
+        };
+        const listed = await env.R2_BUCKET_BINDING.list(listOptions);
+        const fileByKey = await loadBookFiles(supabase, listed.objects.map((o) => o.key));
+
+        for (const object of listed.objects) {
+          const file = fileByKey.get(object.key);
+          if (isVisible(file)) files.push(toListedPdf(object, file));
+        }
+
+        truncated = listed.truncated;
+        cursor = listed.truncated ? listed.cursor : undefined;
+      }
+      nextCursor = truncated && cursor ? cursor : null;
+    }
 
     const responseHeaders = getCorsHeaders(request);
     responseHeaders.set('Cache-Control', 'no-store');
-    return Response.json({ files }, { headers: responseHeaders });
+    return Response.json({ files, cursor: nextCursor }, { headers: responseHeaders });
   } catch (error: any) {
     console.error('R2 list error:', error);
     return Response.json(
@@ -3,13 +3,35 @@
 // -----------------------------------------------------------------------------
 // Ablauf
 // ======
-// 1. Prüfe Clerk‑Auth + CORS.
-// 2. Lade ein PDF‐Objekt aus R2 (`?key=` Query‑Param).
-// 3. Lade es *streamend* via **Gemini Files API** (`media.upload` – Resumable)
-//    hoch und erhalte `file_uri` zurück. (→ kein Base64 im Speicher)
-// 4. Schicke `file_uri` an `models:streamGenerateContent` + Prompt.
-// 5. Persistiere Metadaten & Summary in Supabase.
-// 6. Cache das Ergebnis 1 h In‑Memory und antworte als JSON.
+// 1. Prüfe Clerk‑Auth + CORS und ob die Person das PDF sehen darf
+//    (`book_files.visibility`, Clerk‑Metadaten `role`/`schools`, Regeln in
+//    src/lib/pdf-access.ts).
+// 2. Prüfe das PDF‐Objekt in R2 (`key` im JSON‑Body eines POST) und suche in
+//    `gemini_files` (Supabase) eine gültige Gemini‑Datei mit gleichem ETag.
+// 3. Nur falls keine vorhanden: lade das PDF *streamend* via **Gemini Files API**
+//    (`media.upload` – Resumable) hoch, erhalte `file_uri` zurück (→ kein Base64
+//    im Speicher) und merke sie in `gemini_files` für weitere Fragen.
+// 4. Schicke `file_uri` an `models:streamGenerateContent?alt=sse`, zusammen mit
+//    dem bisherigen Gesprächsverlauf (`history`) als Multi‑Turn‑`contents`, und
+//    leite den Text laufend als NDJSON an den Client weiter. Die Quellen (Seite +
+//    Zitat) hängt Gemini als Block an, der nicht gestreamt, sondern im
+//    `done`‑Ereignis als `citations` mitgeschickt wird.
+// 5. Nach dem Ende des Streams (per `waitUntil`): Metadaten & Antwort in Supabase
+//    persistieren und Ergebnis 1 h In‑Memory cachen (nur Einzelfragen ohne
+//    Verlauf). Die Gemini‑Datei bleibt bis zu ihrem Ablauf (48 h) bestehen.
+//
+// Antwort
+// -------
+// * Cache‑Treffer: JSON `{ answer, citations, key, question }`.
+// * Sonst `application/x-ndjson`, ein Ereignis pro Zeile:
+//   `{"type":"delta","text":"…"}` … `{"type":"done","answer":"…","citations":[{"page":12,"quote":"…"}]}` bzw.
+//   `{"type":"error","error":"…"}`. Bricht der Client ab, wird auch die
+//   Gemini‑Anfrage abgebrochen.
+//
+// Request‑Body
+// ------------
+// { "key": "978....pdf", "question": "…", "history": [{ "role": "user" | "assistant", "content": "…" }] }
+// Der Verlauf kommt vom Client (PdfChatSession) und wird hier nochmals begrenzt.
 //
 // Kompatibilität
 // --------------
@@ -26,6 +48,7 @@
 import type { PagesFunction } from '@cloudflare/workers-types';
 import { createClient as createSupabase } from '@supabase/supabase-js';
 import { createClerkClient } from '@clerk/backend';
+import { canAccessPdfKey, getPdfAccess, type PdfAccess } from '../src/lib/pdf-access';
 
 // -----------------------------------------------------------------------------
 // Env‑Binding‑Interface ---------------------------------------------------------
@@ -44,6 +67,14 @@ export interface Env {
 // -----------------------------------------------------------------------------
 const MODEL_ID = 'gemini-2.5-flash-preview-04-17';
 const MAX_CACHE_AGE = 1000 * 60 * 60; // 1 h
+// Obergrenzen für den mitgeschickten Gesprächsverlauf (die neuesten Beiträge gewinnen)
+const MAX_HISTORY_TURNS = 20;
+const MAX_HISTORY_CHARS = 24000;
+const DEFAULT_QUESTION = 'Bitte gib mir eine kurze Zusammenfassung auf Deutsch.';
+// Gemini löscht hochgeladene Dateien nach 48 h, falls die API keinen Ablauf nennt
+const GEMINI_FILE_TTL = 1000 * 60 * 60 * 48;
+// Dateien, die bald ablaufen, nicht mehr verwenden (die Antwort braucht etwas Zeit)
+const GEMINI_FILE_EXPIRY_MARGIN = 1000 * 60 * 10; // 10 min
 const ALLOWED_ORIGINS = [
   'http://localhost:5173',
   'https://tempo-wanna-project.pages.dev',
@@ -57,6 +88,8 @@ interface CacheEntry {
 }
 const cache = new Map<string, CacheEntry>();
 
+type SupabaseClient = ReturnType<typeof createSupabase>;
+
 // -----------------------------------------------------------------------------
 // Utils ------------------------------------------------------------------------
 // -----------------------------------------------------------------------------
@@ -73,186 +106,234 @@ function cors(request: Request): Headers {
 }
 
 // -----------------------------------------------------------------------------
-// SSE‑Parser: Extrahiert und kombiniert Text aus JSON-Blöcken
-async function parseGeminiSSE(res: Response): Promise<string> {
-  console.log("Parsen der Gemini-Antwort beginnt...");
-  const reader = res.body!.getReader();
-  const decoder = new TextDecoder();
-  let rawText = "";
-  
-  try {
-    // Sammle den gesamten Rohtext
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      
-      // Dekodiere den Chunk und füge ihn zum gesammelten Text hinzu
-      const chunk = decoder.decode(value, { stream: true });
-      rawText += chunk;
+// Gesprächsverlauf -------------------------------------------------------------
+// -----------------------------------------------------------------------------
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: Array<{ text: string } | { file_data: { mime_type: string; file_uri: string } }>;
+}
+
+// Verlauf aus dem Request prüfen und auf die neuesten Beiträge begrenzen
+function sanitizeHistory(history: unknown): ChatTurn[] {
+  if (!Array.isArray(history)) return [];
+
+  const turns = history
+    .filter((turn): turn is ChatTurn =>
+      !!turn &&
+      (turn.role === 'user' || turn.role === 'assistant') &&
+      typeof turn.content === 'string' &&
+      turn.content.trim() !== '')
+    .slice(-MAX_HISTORY_TURNS);
+
+  const bounded: ChatTurn[] = [];
+  let chars = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    chars += turns[i].content.length;
+    if (chars > MAX_HISTORY_CHARS) break;
+    bounded.unshift({ role: turns[i].role, content: turns[i].content });
+  }
+  return bounded;
+}
+
+// Multi‑Turn‑`contents` für Gemini: Das PDF hängt am ersten Beitrag, damit jede
+// Folgefrage den Dokumentkontext hat. Gemini erwartet abwechselnde Rollen und
+// einen ersten Beitrag von `user`, aufeinanderfolgende Beiträge werden deshalb zusammengelegt.
+function buildContents(history: ChatTurn[], question: string, fileUri: string): GeminiContent[] {
+  const turns = [...history, { role: 'user' as const, content: question }];
+  while (turns.length > 1 && turns[0].role !== 'user') turns.shift();
+
+  const contents: GeminiContent[] = [];
+  for (const turn of turns) {
+    const role = turn.role === 'assistant' ? 'model' : 'user';
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push({ text: turn.content });
+    } else {
+      contents.push({ role, parts: [{ text: turn.content }] });
     }
-    
-    // Extrahiere alle JSON-Objekte 
-    // Gemini antwortet im Format: Objekt1, Objekt2, Objekt3, ...
-    const combinedText: string[] = [];
-    
-    // Versuche, den Text als JSON-Array zu parsen
-    // Die rohe Antwort beginnt mit '[' und endet mit ']'
+  }
+
+  contents[0].parts.push({ file_data: { mime_type: 'application/pdf', file_uri: fileUri } });
+  return contents;
+}
+
+// -----------------------------------------------------------------------------
+// Quellenangaben ---------------------------------------------------------------
+// -----------------------------------------------------------------------------
+// Gemini schreibt die Quellen nach der Antwort als Block, eine JSON‑Zeile pro Quelle.
+// Seitenzahlen zählen die Seiten der Datei (nicht die gedruckten), damit der
+// PDF‑Viewer im Client direkt dorthin springen kann.
+const CITATION_MARKER = '<<<QUELLEN';
+const CITATION_END_MARKER = 'QUELLEN>>>';
+const MAX_CITATIONS = 8;
+const MAX_QUOTE_LENGTH = 300;
+
+const SYSTEM_INSTRUCTION = [
+  'Du beantwortest Fragen zu dem angehängten PDF. Stütze dich auf den Inhalt des PDFs.',
+  'Verweise im Text mit [S. n] auf die Seiten, aus denen die Information stammt.',
+  'n ist die Seitennummer in der PDF‑Datei (die erste Seite der Datei ist 1), nicht die gedruckte Seitenzahl.',
+  `Schreibe nach der Antwort auf einer eigenen Zeile ${CITATION_MARKER}, danach pro Quelle eine Zeile JSON`,
+  '{"page": n, "quote": "wörtliches, kurzes Zitat aus dieser Seite"} und zum Schluss',
+  `${CITATION_END_MARKER}. Höchstens ${MAX_CITATIONS} Quellen. Ohne passende Stelle im PDF lässt du den Block weg.`,
+].join(' ');
+
+interface Citation {
+  page: number;
+  quote: string;
+}
+
+// Quellen aus dem Block lesen; ungültige Zeilen werden übersprungen
+function parseCitations(block: string): Citation[] {
+  const citations: Citation[] = [];
+  for (const line of block.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) continue;
+
     try {
-      // Wenn es wie ein Array aussieht, versuche es als Array zu parsen
-      if (rawText.trim().startsWith('[') && rawText.trim().endsWith(']')) {
-        const jsonArray = JSON.parse(rawText) as any[];
-        console.log(`Gefundene JSON-Objekte: ${jsonArray.length}`);
-        
-        // Durchlaufe alle Objekte im Array
-        for (const jsonObj of jsonArray) {
-          // Extrahiere Text aus candidates[0].content.parts[].text
-          if (jsonObj.candidates && 
-              jsonObj.candidates[0] && 
-              jsonObj.candidates[0].content &&
-              jsonObj.candidates[0].content.parts) {
-            
-            for (const part of jsonObj.candidates[0].content.parts) {
-              if (part.text) {
-                combinedText.push(part.text);
-              }
-            }
-          }
-        }
-      } else {
-        // Alternativ: Suche nach einzelnen JSON-Objekten im Text
-        // Muster: Ein JSON-Objekt pro Zeile nach "data: "
-        const jsonPattern = /data:\s*({.*?})\n/g;
-        const matches = Array.from(rawText.matchAll(jsonPattern));
-        
-        console.log(`Gefundene JSON-Objekte mit Regex: ${matches.length}`);
-        
-        for (const match of matches) {
-          try {
-            const jsonObj = JSON.parse(match[1]);
-            
-            // Extrahiere Text aus candidates[0].content.parts[].text
-            if (jsonObj.candidates && 
-                jsonObj.candidates[0] && 
-                jsonObj.candidates[0].content &&
-                jsonObj.candidates[0].content.parts) {
-              
-              for (const part of jsonObj.candidates[0].content.parts) {
-                if (part.text) {
-                  combinedText.push(part.text);
-                }
-              }
-            }
-          } catch (e) {
-            console.warn("Fehler beim Parsen eines JSON-Objekts:", e);
-          }
-        }
-      }
-    } catch (e) {
-      console.warn("Fehler beim Parsen des JSON-Arrays:", e);
-      
-      // Fallback: Versuche, die JSON-Objekte einzeln zu parsen
-      // Trenne den Text an Kommas, die zwischen den JSON-Objekten stehen könnten
-      const parts = rawText.split('} , {');
-      const jsonBlocks: string[] = parts.map((block, i) => {
-        // Erster Block beginnt mit '['
-        if (i === 0) return block.startsWith('[') ? block : '{' + block;
-        // Letzter Block endet mit ']'
-        if (i === parts.length - 1) return block.endsWith(']') ? block : block + '}';
-        // Mittlere Blöcke
-        return '{' + block + '}';
+      const entry = JSON.parse(trimmed);
+      const page = Number(entry?.page);
+      const quote = typeof entry?.quote === 'string' ? entry.quote.trim() : '';
+      if (!Number.isInteger(page) || page < 1) continue;
+      if (citations.some((citation) => citation.page === page && citation.quote === quote)) continue;
+
+      citations.push({
+        page,
+        quote: quote.length > MAX_QUOTE_LENGTH ? `${quote.slice(0, MAX_QUOTE_LENGTH)}…` : quote,
       });
-      
-      console.log(`Gefundene JSON-Blöcke durch Splitting: ${jsonBlocks.length}`);
-      
-      for (const block of jsonBlocks) {
-        try {
-          const jsonObj = JSON.parse(block) as any;
-          
-          // Extrahiere Text aus candidates[0].content.parts[].text
-          if (jsonObj.candidates && 
-              jsonObj.candidates[0] && 
-              jsonObj.candidates[0].content &&
-              jsonObj.candidates[0].content.parts) {
-            
-            for (const part of jsonObj.candidates[0].content.parts) {
-              if (part.text) {
-                combinedText.push(part.text);
-              }
-            }
-          }
-        } catch (e) {
-          // Ignoriere fehlerhafte JSON-Blöcke
-        }
-      }
-    }
-    
-    // Kombiniere alle gefundenen Textteile
-    const resultText = combinedText.join("");
-    
-    if (!resultText.trim()) {
-      console.warn("Keine Textteile extrahiert, verwende Fallback-Text");
-      return "Es tut mir leid, aber ich konnte keine Informationen zu diesem PDF extrahieren. Bitte versuche es mit einer anderen Frage oder einem anderen PDF.";
+    } catch {
+      // Keine gültige Quellenzeile
     }
-    
-    console.log("Extrahierter Text:", resultText.substring(0, 200) + (resultText.length > 200 ? '...' : ''));
-    return resultText;
-  } catch (error) {
-    console.error("Fehler beim Parsen der Gemini-Antwort:", error);
-    return "Es ist ein Fehler beim Verarbeiten der Anfrage aufgetreten. Bitte versuche es später noch einmal.";
+    if (citations.length >= MAX_CITATIONS) break;
+  }
+  return citations;
+}
+
+// Trennt die Antwort vom Quellenblock
+function splitCitations(text: string): { answer: string; citations: Citation[] } {
+  const start = text.indexOf(CITATION_MARKER);
+  if (start < 0) return { answer: text, citations: [] };
+
+  const block = text.slice(start + CITATION_MARKER.length).split(CITATION_END_MARKER)[0];
+  return { answer: text.slice(0, start), citations: parseCitations(block) };
+}
+
+// Wie viel vom bisherigen Text an den Client gehen darf: alles vor dem Quellenblock,
+// ohne ein Ende, das noch zum Anfang des Markers werden könnte
+function streamableLength(text: string): number {
+  const start = text.indexOf(CITATION_MARKER);
+  if (start >= 0) return start;
+
+  for (let length = Math.min(CITATION_MARKER.length - 1, text.length); length > 0; length--) {
+    if (CITATION_MARKER.startsWith(text.slice(-length))) return text.length - length;
   }
+  return text.length;
 }
 
 // -----------------------------------------------------------------------------
-// Haupt‑Handler ---------------------------------------------------------------
+// Gemini‑Stream ----------------------------------------------------------------
 // -----------------------------------------------------------------------------
-export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
-  // CORS Pre‑flight
-  if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: cors(request) });
+const FALLBACK_ANSWER = 'Es tut mir leid, aber ich konnte keine Informationen zu diesem PDF extrahieren. Bitte versuche es mit einer anderen Frage oder einem anderen PDF.';
 
-  // Clerk Auth ----------------------------------------------------------------
-  const clerk = createClerkClient({ secretKey: env.CLERK_SECRET_KEY, publishableKey: env.VITE_CLERK_PUBLISHABLE_KEY });
+type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; answer: string; citations: Citation[] }
+  | { type: 'error'; error: string };
+
+// Text aus einem Antwort‑Chunk (candidates[0].content.parts[].text)
+function extractText(json: string): string {
   try {
-    const auth = await clerk.authenticateRequest(request.clone());
-    if (!auth.isSignedIn) throw new Error('not signed in');
-  } catch {
-    return Response.json({ error: 'Unauthorized' }, { status: 401, headers: cors(request) });
+    const chunk = JSON.parse(json);
+    const parts = chunk?.candidates?.[0]?.content?.parts ?? [];
+    return parts.map((part: { text?: string }) => part.text ?? '').join('');
+  } catch (e) {
+    console.warn('Ungültiger Chunk im Gemini‑Stream:', e);
+    return '';
   }
+}
 
-  // Nur GET zulassen
-  if (request.method !== 'GET') {
-    return Response.json({ error: 'Method not allowed' }, { status: 405, headers: cors(request) });
+// Liest die SSE‑Antwort von `streamGenerateContent?alt=sse` und liefert die
+// Textteile, sobald sie ankommen (ein `data: {…}`‑Ereignis pro Chunk)
+async function* readGeminiStream(res: Response): AsyncGenerator<string> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseLine = (line: string) => {
+    const trimmed = line.trim();
+    return trimmed.startsWith('data:') ? extractText(trimmed.slice(5).trim()) : '';
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const text = parseLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (text) yield text;
+    }
   }
 
-  // URL Parameter abrufen
-  const url = new URL(request.url);
-  const key = url.searchParams.get('key');
-  const question = url.searchParams.get('question') || 'Bitte gib mir eine kurze Zusammenfassung auf Deutsch.';
-  
-  // Parameter validieren
-  if (!key) return Response.json({ error: 'Missing "key"' }, { status: 400, headers: cors(request) });
+  const rest = parseLine(buffer + decoder.decode());
+  if (rest) yield rest;
+}
 
-  // Cache Hit? Wir müssen auch den Frage-Parameter berücksichtigen
-  const cacheKey = `${key}:${question}`;
-  const now = Date.now();
-  const c = cache.get(cacheKey);
-  if (c && now - c.last < MAX_CACHE_AGE) {
-    c.last = now; // sliding
-    return Response.json(c.data, { headers: cors(request) });
+// -----------------------------------------------------------------------------
+// Gemini Files API -------------------------------------------------------------
+// -----------------------------------------------------------------------------
+interface GeminiFile {
+  name: string; // files/abc-123
+  uri: string;
+  expiresAt: string;
+}
+
+class GeminiUploadError extends Error {
+  constructor(message: string, public detail?: string) {
+    super(message);
   }
+}
 
-  // PDF aus R2 holen (Streaming)
-  let obj: R2ObjectBody | null = null;
-  try {
-    obj = await env.R2_BUCKET_BINDING.get(key);
-    if (!obj) return Response.json({ error: 'File not found' }, { status: 404, headers: cors(request) });
-  } catch (err) {
-    console.error('R2 error', err);
-    return Response.json({ error: 'R2 fetch failed' }, { status: 500, headers: cors(request) });
+// Bereits hochgeladene, noch gültige Datei zu diesem R2‑Objekt (gleiches ETag)
+async function findGeminiFile(supabase: SupabaseClient, key: string, etag: string): Promise<GeminiFile | null> {
+  const { data, error } = await supabase
+    .from('gemini_files')
+    .select('etag, file_name, file_uri, expires_at')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Supabase gemini_files select error', error);
+    return null;
   }
+  if (!data || data.etag !== etag) return null;
+  if (new Date(data.expires_at).getTime() - Date.now() < GEMINI_FILE_EXPIRY_MARGIN) return null;
 
-  // -------------------------------------------------------------------------
-  // 1. Resumable Upload – "start" ------------------------------------------
-  // -------------------------------------------------------------------------
+  return { name: data.file_name, uri: data.file_uri, expiresAt: data.expires_at };
+}
+
+async function saveGeminiFile(supabase: SupabaseClient, key: string, object: R2Object, file: GeminiFile): Promise<void> {
+  const { error } = await supabase.from('gemini_files').upsert({
+    key,
+    etag: object.etag,
+    size: object.size,
+    file_name: file.name,
+    file_uri: file.uri,
+    expires_at: file.expiresAt,
+    created_at: new Date().toISOString(),
+  });
+  if (error) console.error('Supabase gemini_files upsert error', error);
+}
+
+// Lädt das PDF streamend in die Gemini Files API (Resumable Upload)
+async function uploadToGemini(key: string, obj: R2ObjectBody, env: Env): Promise<GeminiFile> {
+  // 1. Resumable Upload – "start"
   const startRes = await fetch(`https://generativelanguage.googleapis.com/upload/v1beta/files?key=${env.GEMINI_API_KEY}`, {
     method: 'POST',
     headers: {
@@ -268,17 +349,13 @@ export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
   if (!startRes.ok) {
     const msg = await startRes.text();
     console.error('Gemini upload start failed', msg);
-    return Response.json({ error: 'Gemini upload start failed', detail: msg }, { status: 502, headers: cors(request) });
+    throw new GeminiUploadError('Gemini upload start failed', msg);
   }
 
   const uploadUrl = startRes.headers.get('X-Goog-Upload-URL');
-  if (!uploadUrl) {
-    return Response.json({ error: 'Upload URL missing' }, { status: 502, headers: cors(request) });
-  }
+  if (!uploadUrl) throw new GeminiUploadError('Upload URL missing');
 
-  // -------------------------------------------------------------------------
-  // 2. Resumable Upload – "upload, finalize" --------------------------------
-  // -------------------------------------------------------------------------
+  // 2. Resumable Upload – "upload, finalize"
   const uploadRes = await fetch(uploadUrl, {
     method: 'POST',
     headers: {
@@ -293,38 +370,144 @@ export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
   if (!uploadRes.ok) {
     const msg = await uploadRes.text();
     console.error('Gemini upload failed', msg);
-    return Response.json({ error: 'Gemini upload failed', detail: msg }, { status: 502, headers: cors(request) });
+    throw new GeminiUploadError('Gemini upload failed', msg);
   }
 
-  let fileUri: string | undefined;
+  let file: { name?: string; uri?: string; expirationTime?: string } = {};
   try {
-    const { uri } = (await uploadRes.json()).file ?? {};
-    fileUri = uri;
+    file = (await uploadRes.json()).file ?? {};
   } catch {
     /* ignore */
   }
-  if (!fileUri) return Response.json({ error: 'file_uri missing' }, { status: 502, headers: cors(request) });
+  if (!file.uri) throw new GeminiUploadError('file_uri missing');
+
+  return {
+    name: file.name ?? `files/${file.uri.split('/').pop()}`,
+    uri: file.uri,
+    expiresAt: file.expirationTime ?? new Date(Date.now() + GEMINI_FILE_TTL).toISOString(),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Haupt‑Handler ---------------------------------------------------------------
+// -----------------------------------------------------------------------------
+export const onRequest: PagesFunction<Env> = async ({ request, env, waitUntil }) => {
+  // CORS Pre‑flight
+  if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: cors(request) });
+
+  // Clerk Auth ----------------------------------------------------------------
+  const clerk = createClerkClient({ secretKey: env.CLERK_SECRET_KEY, publishableKey: env.VITE_CLERK_PUBLISHABLE_KEY });
+  let access: PdfAccess;
+  try {
+    const auth = await clerk.authenticateRequest(request.clone());
+    if (!auth.isSignedIn) throw new Error('not signed in');
+    access = await getPdfAccess(clerk, auth.toAuth().userId!);
+  } catch {
+    return Response.json({ error: 'Unauthorized' }, { status: 401, headers: cors(request) });
+  }
+
+  // Nur POST zulassen (Frage und Verlauf im Body)
+  if (request.method !== 'POST') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405, headers: cors(request) });
+  }
+
+  // Body lesen
+  let body: { key?: unknown; question?: unknown; history?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Invalid JSON body' }, { status: 400, headers: cors(request) });
+  }
+
+  const key = typeof body.key === 'string' ? body.key : '';
+  const question = typeof body.question === 'string' && body.question.trim() ? body.question.trim() : DEFAULT_QUESTION;
+  const history = sanitizeHistory(body.history);
+  
+  // Parameter validieren
+  if (!key) return Response.json({ error: 'Missing "key"' }, { status: 400, headers: cors(request) });
+
+  const supabase = createSupabase(env.VITE_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+
+  // Sichtbarkeit vor dem Cache prüfen, sonst könnte eine gecachte Antwort durchrutschen
+  try {
+    if (!(await canAccessPdfKey(supabase, key, access))) {
+      return Response.json({ error: 'Kein Zugriff auf dieses PDF' }, { status: 403, headers: cors(request) });
+    }
+  } catch (err) {
+    console.error('Access check failed', err);
+    return Response.json({ error: 'Zugriffsprüfung fehlgeschlagen' }, { status: 500, headers: cors(request) });
+  }
+
+  // Cache Hit? Nur für Einzelfragen, mit Verlauf hängt die Antwort vom Gespräch ab
+  const cacheKey = history.length === 0 ? `${key}:${question}` : null;
+  const now = Date.now();
+  const c = cacheKey ? cache.get(cacheKey) : undefined;
+  if (c && now - c.last < MAX_CACHE_AGE) {
+    c.last = now; // sliding
+    return Response.json(c.data, { headers: cors(request) });
+  }
+
+  // PDF in R2 prüfen (nur Metadaten, der Inhalt wird nur für einen Upload gelesen)
+  let head: R2Object | null = null;
+  try {
+    head = await env.R2_BUCKET_BINDING.head(key);
+    if (!head) return Response.json({ error: 'File not found' }, { status: 404, headers: cors(request) });
+  } catch (err) {
+    console.error('R2 error', err);
+    return Response.json({ error: 'R2 fetch failed' }, { status: 500, headers: cors(request) });
+  }
+
+  // -------------------------------------------------------------------------
+  // 1. Bereits hochgeladene Gemini‑Datei wiederverwenden ----------------------
+  // -------------------------------------------------------------------------
+  let geminiFile = await findGeminiFile(supabase, key, head.etag);
+
+  // -------------------------------------------------------------------------
+  // 2. Sonst PDF aus R2 streamend zu Gemini hochladen -------------------------
+  // -------------------------------------------------------------------------
+  const upload = async (): Promise<GeminiFile | Response> => {
+    let obj: R2ObjectBody | null = null;
+    try {
+      obj = await env.R2_BUCKET_BINDING.get(key);
+      if (!obj) return Response.json({ error: 'File not found' }, { status: 404, headers: cors(request) });
+    } catch (err) {
+      console.error('R2 error', err);
+      return Response.json({ error: 'R2 fetch failed' }, { status: 500, headers: cors(request) });
+    }
+
+    try {
+      const file = await uploadToGemini(key, obj, env);
+      console.log(`PDF zu Gemini hochgeladen: ${file.name} (gültig bis ${file.expiresAt})`);
+      await saveGeminiFile(supabase, key, obj, file);
+      return file;
+    } catch (err) {
+      if (!(err instanceof GeminiUploadError)) throw err;
+      return Response.json({ error: err.message, detail: err.detail }, { status: 502, headers: cors(request) });
+    }
+  };
+
+  const reused = geminiFile !== null;
+  if (!geminiFile) {
+    const result = await upload();
+    if (result instanceof Response) return result;
+    geminiFile = result;
+  }
 
   // -------------------------------------------------------------------------
   // 3. streamGenerateContent --------------------------------------------------
   // -------------------------------------------------------------------------
-  // URL-decodierte Benutzerfrage verwenden
-  const decodedQuestion = decodeURIComponent(question);
-  console.log('Verarbeite Frage:', decodedQuestion);
+  console.log(`Verarbeite Frage (Verlauf: ${history.length} Beiträge):`, question);
+
+  // Wird abgebrochen, wenn der Client den Stream schliesst
+  const abort = new AbortController();
   
-  const geminiRes = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${MODEL_ID}:streamGenerateContent?key=${env.GEMINI_API_KEY}`, {
+  const generate = (fileUri: string) => fetch(`https://generativelanguage.googleapis.com/v1beta/models/${MODEL_ID}:streamGenerateContent?alt=sse&key=${env.GEMINI_API_KEY}`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
+    signal: abort.signal,
     body: JSON.stringify({
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            { text: decodedQuestion },
-            { file_data: { mime_type: 'application/pdf', file_uri: fileUri } },
-          ],
-        },
-      ],
+      systemInstruction: { parts: [{ text: SYSTEM_INSTRUCTION }] },
+      contents: buildContents(history, question, fileUri),
       generationConfig: { 
         temperature: 0.3,
         maxOutputTokens: 4096, // Erhöhung des Ausgabe-Limits für deutlich längere Antworten
@@ -333,88 +516,116 @@ export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
     }),
   });
 
+  let geminiRes = await generate(geminiFile.uri);
+
+  // Wiederverwendete Datei inzwischen gelöscht oder abgelaufen? Einmal neu hochladen.
+  if (!geminiRes.ok && reused && [400, 403, 404].includes(geminiRes.status)) {
+    console.warn(`Gemini‑Datei ${geminiFile.name} nicht mehr verfügbar, lade neu hoch:`, await geminiRes.text());
+    const result = await upload();
+    if (result instanceof Response) return result;
+    geminiFile = result;
+    geminiRes = await generate(geminiFile.uri);
+  }
+
   if (!geminiRes.ok) {
     const msg = await geminiRes.text();
     console.error('Gemini summary failed', msg);
     return Response.json({ error: 'Gemini summary failed', detail: msg }, { status: 502, headers: cors(request) });
   }
 
-  const answer = await parseGeminiSSE(geminiRes);
-  
-  // Fallback für leere Antworten
-  const finalAnswer = answer.trim() 
-    ? answer 
-    : "Es tut mir leid, aber ich konnte keine Informationen zu diesem PDF extrahieren. Bitte versuche es mit einer anderen Frage oder einem anderen PDF.";
-
   // -------------------------------------------------------------------------
-  // 4. Supabase persistieren --------------------------------------------------
+  // 4. Nach dem Stream: Supabase und Cache -----------------------------------
   // -------------------------------------------------------------------------
-  try {
-    const supabase = createSupabase(env.VITE_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
-    const metadata = { 
-      key, 
-      size: obj.size, 
-      processed_at: new Date().toISOString(), 
-      question: decodedQuestion, 
-      answer: finalAnswer 
-    };
-    
-    // Wir fangen Supabase-Fehler ab, aber lassen sie die Hauptfunktionalität nicht beeinflussen
-    try {
-      const { error } = await supabase.from('pdf_metadata').insert(metadata);
-      if (error) console.error('Supabase insert error', error);
-    } catch (err) {
-      console.error('Supabase error', err);
-      // Wir ignorieren Supabase-Fehler, da sie für die Hauptfunktionalität nicht kritisch sind
-    }
+  // Roher Text von Gemini, inkl. Quellenblock
+  let answer = '';
 
-    // -------------------------------------------------------------------------
-    // 5. Cache + Antwort --------------------------------------------------------
-    // -------------------------------------------------------------------------
-    // Vereinfachte Antwortstruktur, die nur das Wichtigste enthält
-    const responseData = {
-      answer: finalAnswer, // Das einzige, was das Frontend wirklich braucht
-      key: key,       // Optional für Debug-Zwecke
-      question: decodedQuestion // Optional für Debug-Zwecke
-    };
-    
-    // Im Cache speichern
-    cache.set(cacheKey, { last: Date.now(), data: responseData });
-    
-    // Zum Debuggen die Antwort in die Konsole schreiben
-    console.log("Sende Antwort:", JSON.stringify(responseData).substring(0, 100) + "...");
-    
-    // -------------------------------------------------------------------------
-    // 5. Datei aus Gemini File API löschen ---------------------------------
-    // -------------------------------------------------------------------------
-    try {
-      // Extrahieren des Dateinamens aus der URI (format: files/abc-123)
-      const fileName = fileUri.split('/').pop();
-      const fileApiName = `files/${fileName}`;
-      
-      console.log(`Lösche Datei von Gemini File API: ${fileApiName}`);
-      
-      const deleteRes = await fetch(`https://generativelanguage.googleapis.com/v1beta/${fileApiName}?key=${env.GEMINI_API_KEY}`, {
-        method: 'DELETE',
-      });
-      
-      if (deleteRes.ok) {
-        console.log(`Datei ${fileApiName} erfolgreich gelöscht`);
-      } else {
-        const errorMsg = await deleteRes.text();
-        console.error(`Fehler beim Löschen der Datei ${fileApiName}:`, errorMsg);
+  const finishRequest = async (completed: boolean) => {
+    if (completed) {
+      const result = splitCitations(answer);
+      const finalAnswer = result.answer.trim() ? result.answer.trim() : FALLBACK_ANSWER;
+
+      // Wir fangen Supabase-Fehler ab, da sie für die Hauptfunktionalität nicht kritisch sind
+      try {
+        const metadata = { 
+          key, 
+          size: head!.size, 
+          processed_at: new Date().toISOString(), 
+          question, 
+          answer: finalAnswer 
+        };
+        const { error } = await supabase.from('pdf_metadata').insert(metadata);
+        if (error) console.error('Supabase insert error', error);
+      } catch (err) {
+        console.error('Supabase error', err);
+      }
+
+      if (cacheKey) {
+        cache.set(cacheKey, { last: Date.now(), data: { answer: finalAnswer, citations: result.citations, key, question } });
       }
-    } catch (deleteError) {
-      console.error("Fehler beim Löschen der Datei:", deleteError);
-      // Wir ignorieren Fehler beim Löschen, um die Hauptfunktionalität nicht zu beeinträchtigen
     }
-    
-    return Response.json(responseData, { headers: cors(request) });
-  } catch (finalError) {
-    console.error("Unerwarteter Fehler:", finalError);
-    return Response.json({ 
-      error: "Unerwarteter Fehler beim Verarbeiten der Anfrage", 
-      details: finalError.message 
-    }, { status: 500, headers: cors(request) });
-  }
+  };
+
+  // -------------------------------------------------------------------------
+  // 5. Antwort als NDJSON streamen --------------------------------------------
+  // -------------------------------------------------------------------------
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      let completed = false;
+
+      // Bis hierhin an den Client geschickt (der Quellenblock wird zurückgehalten)
+      let sent = 0;
+
+      try {
+        for await (const text of readGeminiStream(geminiRes)) {
+          answer += text;
+          const end = streamableLength(answer);
+          if (end > sent) {
+            send({ type: 'delta', text: answer.slice(sent, end) });
+            sent = end;
+          }
+        }
+
+        const result = splitCitations(answer);
+        // Zurückgehaltenes Ende, das doch kein Marker war
+        if (result.answer.length > sent) {
+          send({ type: 'delta', text: result.answer.slice(sent) });
+        }
+        completed = true;
+        send({
+          type: 'done',
+          answer: result.answer.trim() ? result.answer.trim() : FALLBACK_ANSWER,
+          citations: result.citations,
+        });
+      } catch (err) {
+        // Nach einem Abbruch durch den Client ist niemand mehr da, der die Meldung liest
+        if (!abort.signal.aborted) {
+          console.error('Gemini‑Stream abgebrochen:', err);
+          try {
+            send({ type: 'error', error: 'Die Verbindung zu Gemini wurde unterbrochen' });
+          } catch {
+            /* Client bereits weg */
+          }
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          /* bereits geschlossen */
+        }
+        waitUntil(finishRequest(completed));
+      }
+    },
+    cancel() {
+      console.log('Client hat den Stream abgebrochen');
+      abort.abort();
+    },
+  });
+
+  const headers = cors(request);
+  headers.set('Content-Type', 'application/x-ndjson; charset=utf-8');
+  headers.set('Cache-Control', 'no-store');
+  return new Response(stream, { headers });
 };
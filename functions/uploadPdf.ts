@@ -0,0 +1,338 @@
+// -----------------------------------------------------------------------------
+// functions/uploadPdf.ts – Cloudflare Pages Function (PDF‑Upload nach R2)
+// -----------------------------------------------------------------------------
+// Lädt PDFs zu einem Buch in den R2‑Bucket und trägt sie in `book_files` ein
+// (has_pdf führt ein Trigger nach). Nur für Admins (Clerk‑Rolle admin/superadmin).
+//
+// Aktionen (`action` im Query‑String)
+// ----------------------------------
+// * PUT    ?action=upload&bookId=…&filename=…&kind=…&label=…&visibility=…&schools=a,b
+//                           Body: PDF (bis 25 MB)
+// * POST   ?action=create    { bookId, filename, size }        → { key, uploadId }
+// * PUT    ?action=part&key=…&uploadId=…&partNumber=…          Body: Teil (≥ 5 MB ausser dem letzten)
+// * POST   ?action=complete  { bookId, key, uploadId, parts, kind, label, visibility, schools } → { file }
+// * DELETE ?action=abort&key=…&uploadId=…
+// * DELETE ?fileId=…   Datei löschen (R2‑Objekt + Eintrag in book_files)
+// * DELETE ?key=…      R2‑Objekt löschen, das keinem Buch mehr zugeordnet ist
+//                      (z.B. nach dem endgültigen Löschen eines Buchs)
+//
+// Grosse Dateien lädt der Client als R2‑Multipart‑Upload in Teilen hoch, damit
+// keine Anfrage das Body‑Limit der Workers erreicht.
+// -----------------------------------------------------------------------------
+
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { createClient as createSupabase } from '@supabase/supabase-js';
+import { createClerkClient } from '@clerk/backend';
+
+// -----------------------------------------------------------------------------
+// Env‑Binding‑Interface ---------------------------------------------------------
+// -----------------------------------------------------------------------------
+interface Env {
+  R2_BUCKET_BINDING: R2Bucket;
+  VITE_SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+  CLERK_SECRET_KEY: string;
+  VITE_CLERK_PUBLISHABLE_KEY: string;
+}
+
+// -----------------------------------------------------------------------------
+// Konstante Einstellungen ------------------------------------------------------
+// -----------------------------------------------------------------------------
+const MAX_PDF_SIZE = 1024 * 1024 * 200; // 200 MB
+const MAX_SINGLE_UPLOAD_SIZE = 1024 * 1024 * 25; // grössere Dateien nur als Multipart
+const FILE_KINDS = ['student_book', 'solutions', 'worksheets', 'other'];
+const FILE_VISIBILITIES = ['public', 'teachers', 'admins', 'schools'];
+const ADMIN_ROLES = ['admin', 'superadmin'];
+const ALLOWED_ORIGINS = [
+  'http://localhost:5173',
+  'https://tempo-wanna-project.pages.dev',
+  'https://wanna-books.ch',
+  'https://www.wanna-books.ch',
+];
+
+type SupabaseClient = ReturnType<typeof createSupabase>;
+
+// -----------------------------------------------------------------------------
+// Utils ------------------------------------------------------------------------
+// -----------------------------------------------------------------------------
+function cors(request: Request): Headers {
+  const h = new Headers({
+    'Access-Control-Allow-Methods': 'POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Credentials': 'true',
+    Vary: 'Origin',
+  });
+  const origin = request.headers.get('Origin');
+  if (origin && ALLOWED_ORIGINS.includes(origin)) h.set('Access-Control-Allow-Origin', origin);
+  return h;
+}
+
+// PDFs beginnen mit "%PDF-"
+function isPdf(bytes: ArrayBuffer): boolean {
+  const head = new Uint8Array(bytes, 0, Math.min(5, bytes.byteLength));
+  return String.fromCharCode(...head) === '%PDF-';
+}
+
+// R2‑Schlüssel nach dem bisherigen Muster ISBN_Name.pdf (ohne ISBN: Buch‑ID)
+async function buildKey(supabase: SupabaseClient, env: Env, book: { id: string; isbn: string | null }, filename: string): Promise<string> {
+  const name = filename
+    .replace(/\.pdf$/i, '')
+    .replace(/[^\w\säöüÄÖÜß-]/g, '')
+    .trim()
+    .replace(/\s+/g, '_') || 'Dokument';
+  const base = `${book.isbn || book.id}_${name}`;
+
+  let key = `${base}.pdf`;
+  const { data: taken } = await supabase.from('book_files').select('id').eq('key', key).maybeSingle();
+  if (taken || (await env.R2_BUCKET_BINDING.head(key))) {
+    key = `${base}_${Date.now()}.pdf`;
+  }
+  return key;
+}
+
+async function getBook(supabase: SupabaseClient, bookId: string | null) {
+  if (!bookId) return null;
+  const { data, error } = await supabase
+    .from('books')
+    .select('id, isbn')
+    .eq('id', bookId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (error) console.error('Supabase books select error', error);
+  return data as { id: string; isbn: string | null } | null;
+}
+
+// Zuordnung in book_files anlegen, danach ist die Datei im PDF‑Chat verfügbar
+async function registerFile(
+  supabase: SupabaseClient,
+  object: R2Object,
+  file: { bookId: string; kind?: unknown; label?: unknown; visibility?: unknown; schools?: unknown; userId: string }
+) {
+  const kind = typeof file.kind === 'string' && FILE_KINDS.includes(file.kind) ? file.kind : 'student_book';
+  // Ohne Angabe sind Lösungen nur für Lehrpersonen sichtbar (Verlagslizenzen)
+  const visibility = typeof file.visibility === 'string' && FILE_VISIBILITIES.includes(file.visibility)
+    ? file.visibility
+    : kind === 'solutions' ? 'teachers' : 'public';
+  const schools = Array.isArray(file.schools)
+    ? file.schools.filter((school): school is string => typeof school === 'string' && school.trim() !== '')
+    : [];
+  if (visibility === 'schools' && schools.length === 0) {
+    throw new Error('Bitte mindestens ein Schulhaus auswählen');
+  }
+
+  const { data, error } = await supabase
+    .from('book_files')
+    .insert({
+      book_id: file.bookId,
+      key: object.key,
+      kind,
+      label: typeof file.label === 'string' && file.label.trim() ? file.label.trim() : null,
+      visibility,
+      schools: visibility === 'schools' ? schools : [],
+      size: object.size,
+      etag: object.etag,
+      uploaded_by: file.userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// -----------------------------------------------------------------------------
+// Haupt‑Handler ---------------------------------------------------------------
+// -----------------------------------------------------------------------------
+export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
+  // CORS Pre‑flight
+  if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: cors(request) });
+
+  const json = (body: unknown, status = 200) => Response.json(body, { status, headers: cors(request) });
+
+  // Clerk Auth, nur Admins --------------------------------------------------------
+  const clerk = createClerkClient({ secretKey: env.CLERK_SECRET_KEY, publishableKey: env.VITE_CLERK_PUBLISHABLE_KEY });
+  let userId: string;
+  try {
+    const auth = await clerk.authenticateRequest(request.clone());
+    if (!auth.isSignedIn) throw new Error('not signed in');
+    userId = auth.toAuth().userId!;
+  } catch {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const user = await clerk.users.getUser(userId);
+    if (!ADMIN_ROLES.includes(user.publicMetadata?.role as string)) {
+      return json({ error: 'Nur Administratoren dürfen PDFs hochladen oder löschen' }, 403);
+    }
+  } catch (err) {
+    console.error('Clerk user lookup failed', err);
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabase = createSupabase(env.VITE_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+  const url = new URL(request.url);
+  const action = url.searchParams.get('action');
+
+  try {
+    // -------------------------------------------------------------------------
+    // Einzel‑Upload -------------------------------------------------------------
+    // -------------------------------------------------------------------------
+    if (request.method === 'PUT' && action === 'upload') {
+      const book = await getBook(supabase, url.searchParams.get('bookId'));
+      if (!book) return json({ error: 'Buch nicht gefunden' }, 404);
+
+      const declaredSize = Number(request.headers.get('Content-Length') || 0);
+      if (declaredSize > MAX_SINGLE_UPLOAD_SIZE) {
+        return json({ error: 'Datei zu gross für einen Einzel‑Upload, bitte in Teilen hochladen' }, 413);
+      }
+      if (!request.headers.get('Content-Type')?.startsWith('application/pdf')) {
+        return json({ error: 'Nur PDF‑Dateien sind erlaubt' }, 415);
+      }
+
+      const bytes = await request.arrayBuffer();
+      if (bytes.byteLength === 0 || bytes.byteLength > MAX_SINGLE_UPLOAD_SIZE) {
+        return json({ error: 'Ungültige Dateigrösse' }, 413);
+      }
+      if (!isPdf(bytes)) return json({ error: 'Die Datei ist kein gültiges PDF' }, 415);
+
+      const key = await buildKey(supabase, env, book, url.searchParams.get('filename') || 'Dokument.pdf');
+      const object = await env.R2_BUCKET_BINDING.put(key, bytes, { httpMetadata: { contentType: 'application/pdf' } });
+
+      try {
+        const file = await registerFile(supabase, object, {
+          bookId: book.id,
+          kind: url.searchParams.get('kind'),
+          label: url.searchParams.get('label'),
+          visibility: url.searchParams.get('visibility'),
+          schools: url.searchParams.get('schools')?.split(',') ?? [],
+          userId,
+        });
+        return json({ file });
+      } catch (err) {
+        await env.R2_BUCKET_BINDING.delete(key);
+        throw err;
+      }
+    }
+
+    // -------------------------------------------------------------------------
+    // Multipart‑Upload ------------------------------------------------------------
+    // -------------------------------------------------------------------------
+    if (request.method === 'POST' && action === 'create') {
+      const body = await request.json() as { bookId?: string; filename?: string; size?: number };
+      const book = await getBook(supabase, body.bookId ?? null);
+      if (!book) return json({ error: 'Buch nicht gefunden' }, 404);
+      if (typeof body.size !== 'number' || body.size <= 0 || body.size > MAX_PDF_SIZE) {
+        return json({ error: `PDFs dürfen höchstens ${MAX_PDF_SIZE / 1024 / 1024} MB gross sein` }, 413);
+      }
+
+      const key = await buildKey(supabase, env, book, body.filename || 'Dokument.pdf');
+      const upload = await env.R2_BUCKET_BINDING.createMultipartUpload(key, { httpMetadata: { contentType: 'application/pdf' } });
+      return json({ key: upload.key, uploadId: upload.uploadId });
+    }
+
+    if (request.method === 'PUT' && action === 'part') {
+      const key = url.searchParams.get('key');
+      const uploadId = url.searchParams.get('uploadId');
+      const partNumber = Number(url.searchParams.get('partNumber'));
+      if (!key || !uploadId || !Number.isInteger(partNumber) || partNumber < 1) {
+        return json({ error: 'Missing "key", "uploadId" or "partNumber"' }, 400);
+      }
+
+      const bytes = await request.arrayBuffer();
+      if (bytes.byteLength === 0 || bytes.byteLength > MAX_SINGLE_UPLOAD_SIZE) {
+        return json({ error: 'Ungültige Teilgrösse' }, 413);
+      }
+      if (partNumber === 1 && !isPdf(bytes)) return json({ error: 'Die Datei ist kein gültiges PDF' }, 415);
+
+      const upload = env.R2_BUCKET_BINDING.resumeMultipartUpload(key, uploadId);
+      const part = await upload.uploadPart(partNumber, bytes);
+      return json(part);
+    }
+
+    if (request.method === 'POST' && action === 'complete') {
+      const body = await request.json() as {
+        bookId?: string;
+        key?: string;
+        uploadId?: string;
+        parts?: R2UploadedPart[];
+        kind?: string;
+        label?: string;
+        visibility?: string;
+        schools?: string[];
+      };
+      if (!body.key || !body.uploadId || !Array.isArray(body.parts) || body.parts.length === 0) {
+        return json({ error: 'Missing "key", "uploadId" or "parts"' }, 400);
+      }
+      const book = await getBook(supabase, body.bookId ?? null);
+      if (!book) return json({ error: 'Buch nicht gefunden' }, 404);
+
+      const upload = env.R2_BUCKET_BINDING.resumeMultipartUpload(body.key, body.uploadId);
+      const object = await upload.complete(body.parts);
+
+      if (object.size > MAX_PDF_SIZE) {
+        await env.R2_BUCKET_BINDING.delete(object.key);
+        return json({ error: `PDFs dürfen höchstens ${MAX_PDF_SIZE / 1024 / 1024} MB gross sein` }, 413);
+      }
+
+      try {
+        const file = await registerFile(supabase, object, {
+          bookId: book.id,
+          kind: body.kind,
+          label: body.label,
+          visibility: body.visibility,
+          schools: body.schools,
+          userId,
+        });
+        return json({ file });
+      } catch (err) {
+        await env.R2_BUCKET_BINDING.delete(object.key);
+        throw err;
+      }
+    }
+
+    if (request.method === 'DELETE' && action === 'abort') {
+      const key = url.searchParams.get('key');
+      const uploadId = url.searchParams.get('uploadId');
+      if (!key || !uploadId) return json({ error: 'Missing "key" or "uploadId"' }, 400);
+
+      await env.R2_BUCKET_BINDING.resumeMultipartUpload(key, uploadId).abort();
+      return json({ aborted: true });
+    }
+
+    // -------------------------------------------------------------------------
+    // Löschen ---------------------------------------------------------------------
+    // -------------------------------------------------------------------------
+    if (request.method === 'DELETE') {
+      const fileId = url.searchParams.get('fileId');
+      if (fileId) {
+        const { data: file, error } = await supabase.from('book_files').select('id, key').eq('id', fileId).maybeSingle();
+        if (error) throw error;
+        if (!file) return json({ error: 'Datei nicht gefunden' }, 404);
+
+        await env.R2_BUCKET_BINDING.delete(file.key);
+        const { error: deleteError } = await supabase.from('book_files').delete().eq('id', file.id);
+        if (deleteError) throw deleteError;
+        return json({ deleted: file.key });
+      }
+
+      const key = url.searchParams.get('key');
+      if (key) {
+        // Nur Objekte ohne Zuordnung, sonst würde einem Buch das PDF fehlen
+        const { data: attached, error } = await supabase.from('book_files').select('id').eq('key', key).maybeSingle();
+        if (error) throw error;
+        if (attached) return json({ error: 'Die Datei ist noch einem Buch zugeordnet' }, 409);
+
+        await env.R2_BUCKET_BINDING.delete(key);
+        return json({ deleted: key });
+      }
+
+      return json({ error: 'Missing "fileId" or "key"' }, 400);
+    }
+
+    return json({ error: 'Method not allowed' }, 405);
+  } catch (err: any) {
+    console.error('uploadPdf error', err);
+    return json({ error: err?.message || 'Unerwarteter Fehler' }, 500);
+  }
+};
@@ -0,0 +1,60 @@
+// Ordnet PDFs, die schon vor book_files im R2-Bucket lagen, den Büchern zu
+// (Dateiname beginnt mit der ISBN, z.B. 9783292004231_Mathematik.pdf).
+// Einmalig nach der Migration 20250601090000_book_files.sql ausführen, bereits
+// zugeordnete Dateien werden übersprungen.
+//
+// Benötigte Umgebungsvariablen:
+//   R2_ACCOUNT_ID, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY  (R2-API-Token mit Lesezugriff)
+//   R2_BUCKET_NAME                                         (Standard: books)
+//   VITE_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+//
+// Aufruf: npm run r2:backfill
+import { S3Client, ListObjectsV2Command } from "@aws-sdk/client-s3";
+import { createClient } from "@supabase/supabase-js";
+
+const required = ["R2_ACCOUNT_ID", "R2_ACCESS_KEY_ID", "R2_SECRET_ACCESS_KEY", "VITE_SUPABASE_URL", "SUPABASE_SERVICE_ROLE_KEY"];
+const missing = required.filter((name) => !process.env[name]);
+if (missing.length > 0) {
+  console.error(`❌ Fehlende Umgebungsvariablen: ${missing.join(", ")}`);
+  process.exit(1);
+}
+
+const bucket = process.env.R2_BUCKET_NAME || "books";
+const r2 = new S3Client({
+  region: "auto",
+  endpoint: `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+  credentials: {
+    accessKeyId: process.env.R2_ACCESS_KEY_ID,
+    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY,
+  },
+});
+const supabase = createClient(process.env.VITE_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+let listed = 0;
+let attached = 0;
+let continuationToken;
+
+do {
+  const page = await r2.send(new ListObjectsV2Command({ Bucket: bucket, ContinuationToken: continuationToken }));
+  const objects = (page.Contents || [])
+    .filter((object) => object.Key?.toLowerCase().endsWith(".pdf"))
+    .map((object) => ({ key: object.Key, size: object.Size ?? null, etag: object.ETag?.replace(/"/g, "") ?? null }));
+
+  if (objects.length > 0) {
+    const { data, error } = await supabase.rpc("backfill_book_files", { p_objects: objects });
+    if (error) {
+      console.error("❌ Fehler beim Zuordnen:", error.message);
+      process.exit(1);
+    }
+    listed += objects.length;
+    attached += data || 0;
+    console.log(`${listed} PDFs geprüft, ${attached} zugeordnet...`);
+  }
+
+  continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+} while (continuationToken);
+
+console.log("------------------------");
+console.log(`✅ ${attached} von ${listed} PDFs wurden einem Buch zugeordnet.`);
+console.log("   PDFs ohne passende ISBN bitte in den Buchdetails zuordnen.");
+console.log("------------------------");
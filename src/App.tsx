@@ -5,10 +5,20 @@ import BookManagement from "./components/dashboard/BookManagement";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import { UserManagement } from "./components/admin/UserManagement";
 import BulkImportBooks from "./components/admin/BulkImportBooks";
+import { ReservationManagement } from "./components/admin/ReservationManagement";
+import { LabelPrinting } from "./components/admin/LabelPrinting";
+import { InventoryManagement } from "./components/admin/InventoryManagement";
+import { IsbnCacheManagement } from "./components/admin/IsbnCacheManagement";
+import { DuplicateManagement } from "./components/admin/DuplicateManagement";
+import { AuditLog } from "./components/admin/AuditLog";
+import { TrashManagement } from "./components/admin/TrashManagement";
 import routes from "tempo-routes";
 import { useAuth } from "./hooks/useAuth";
 import { SignIn, SignUp } from "@clerk/clerk-react";
 import PdfChatPage from "./pages/PdfChatPage";
+import MyLoansPage from "./pages/MyLoansPage";
+import CopyPage from "./pages/CopyPage";
+import KioskPage from "./pages/KioskPage";
 import Dashboard from "./components/dashboard/Dashboard";
 
 // Komponente für die Prüfung von Admin- und Superadmin-Rechten
@@ -75,6 +85,25 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/my-loans"
+          element={
+            <ProtectedRoute>
+              <MyLoansPage />
+            </ProtectedRoute>
+          }
+        />
+        {/* Kiosk-Modus mit eigenem Sperrbildschirm */}
+        <Route path="/kiosk" element={<KioskPage />} />
+        {/* Exemplar über den Code auf dem Etikett öffnen */}
+        <Route
+          path="/copy/:barcode"
+          element={
+            <ProtectedRoute>
+              <CopyPage />
+            </ProtectedRoute>
+          }
+        />
         {/* PDF Chat Route */}
         <Route path="/pdf-chat" element={<PdfChatPage />} />
         {/* Chat Route mit ID Parameter */}
@@ -96,6 +125,62 @@ function App() {
             </AdminRoute>
           }
         />
+        <Route
+          path="/admin/reservations"
+          element={
+            <AdminRoute>
+              <ReservationManagement />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="/admin/labels"
+          element={
+            <AdminRoute>
+              <LabelPrinting />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="/admin/inventory"
+          element={
+            <AdminRoute>
+              <InventoryManagement />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="/admin/isbn-cache"
+          element={
+            <AdminRoute>
+              <IsbnCacheManagement />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="/admin/duplicates"
+          element={
+            <AdminRoute>
+              <DuplicateManagement />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="/admin/audit"
+          element={
+            <AdminRoute>
+              <AuditLog />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="/admin/trash"
+          element={
+            <AdminRoute>
+              <TrashManagement />
+            </AdminRoute>
+          }
+        />
       </Routes>
     </Suspense>
   );
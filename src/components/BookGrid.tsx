@@ -13,6 +13,9 @@ import { Button } from "./ui/button";
 import { BookForm } from "./books/BookForm";
 import { FetchedBook, Book as FullBookType } from "./dashboard/BookManagement";
 import { NewBook, BookUpdate } from "@/lib/books";
+import { addCopies, formatCopyAvailability } from "@/lib/copies";
+import { trashBooks } from "@/lib/trash";
+import { getBookFiles, getPdfChatPath, canAccessBookFile } from "@/lib/book-files";
 import { useSupabase } from '@/contexts/SupabaseContext';
 import { useToast } from "./ui/use-toast";
 import {
@@ -34,7 +37,7 @@ interface BookGridProps {
 }
 
 export default function BookGrid({ books = [], onBookChange }: BookGridProps) {
-  const { isAdmin } = useAuth();
+  const { isAdmin, userRole, userSchools } = useAuth();
   const supabase = useSupabase();
   const navigate = useNavigate();
   const [selectedBook, setSelectedBook] = useState<FetchedBook | null>(null);
@@ -57,14 +60,17 @@ export default function BookGrid({ books = [], onBookChange }: BookGridProps) {
         throw queryError;
       }
 
-      // Wenn das Buch bereits existiert, zeige eine Fehlermeldung an
+      // Pro ISBN gibt es nur einen Katalogeintrag: stattdessen ein weiteres Exemplar anlegen
       if (existingBook) {
+        await addCopies(existingBook.id, 1, { location: bookData.location, school: bookData.school }, supabase);
+
+        if (onBookChange) onBookChange();
+
         toast({
-          variant: "destructive",
-          title: "Duplikat",
-          description: `Ein Buch mit der ISBN ${bookData.isbn} existiert bereits: "${existingBook.title}"`
+          title: "Exemplar hinzugefügt",
+          description: `"${existingBook.title}" ist bereits im Katalog. Es wurde ein weiteres Exemplar angelegt.`
         });
-        throw new Error(`Ein Buch mit dieser ISBN existiert bereits: ${existingBook.title}`);
+        return;
       }
 
       // Verwende den authentifizierten Client
@@ -105,7 +111,10 @@ export default function BookGrid({ books = [], onBookChange }: BookGridProps) {
       toast({
         variant: "destructive",
         title: "Fehler",
-        description: "Das Buch konnte nicht hinzugefügt werden. Bitte versuche es erneut."
+        // Die ISBN ist eindeutig, auch für Einträge im Papierkorb (dort unsichtbar)
+        description: error?.code === "23505"
+          ? "Ein Buch mit dieser ISBN liegt im Papierkorb. Bitte dort wiederherstellen."
+          : "Das Buch konnte nicht hinzugefügt werden. Bitte versuche es erneut."
       });
       
       throw error;
@@ -162,32 +171,35 @@ export default function BookGrid({ books = [], onBookChange }: BookGridProps) {
     if (!selectedBook) return;
     
     try {
-      const { error } = await supabase
-        .from("books")
-        .delete()
-        .eq("id", selectedBook.id);
-      
-      if (error) throw error;
+      // Nur in den Papierkorb, endgültig gelöscht wird unter /admin/trash
+      await trashBooks([selectedBook.id], supabase);
       
       setShowDeleteDialog(false);
       if (onBookChange) onBookChange();
       
       toast({
         title: "Buch gelöscht",
-        description: "Das Buch wurde erfolgreich gelöscht."
+        description: "Das Buch wurde in den Papierkorb verschoben und kann dort wiederhergestellt werden."
       });
     } catch (error) {
       toast({
         variant: "destructive",
         title: "Fehler",
-        description: "Das Buch konnte nicht gelöscht werden. Bitte versuche es erneut."
+        description: error?.message || "Das Buch konnte nicht gelöscht werden. Bitte versuche es erneut."
       });
     }
   };
 
-  // Funktion zum Öffnen des PDF-Chats
-  const openPdfChat = (book: FetchedBook) => {
-    navigate(`/chat/${book.id}`);
+  // Funktion zum Öffnen des PDF-Chats, mit der ersten sichtbaren Datei (Schülerbuch zuerst)
+  const openPdfChat = async (book: FetchedBook) => {
+    try {
+      const files = await getBookFiles(book.id, supabase);
+      const file = files.find((entry) => canAccessBookFile(entry, { role: userRole, schools: userSchools }));
+      navigate(getPdfChatPath(book.id, file));
+    } catch (error) {
+      // Die Chat-Seite sucht die Datei dann selbst
+      navigate(getPdfChatPath(book.id));
+    }
   };
 
   return (
@@ -277,6 +289,12 @@ export default function BookGrid({ books = [], onBookChange }: BookGridProps) {
                     )}
                   </div>
                   
+                  {book.copy_count > 1 && (
+                    <p className={`mt-2 text-xs font-medium ${book.available ? "text-green-700" : "text-red-600"}`}>
+                      {formatCopyAvailability(book)}
+                    </p>
+                  )}
+
                   <div className="mt-2 text-xs text-gray-500 flex justify-between items-center">
                     <span className="truncate pr-2">ISBN: {book.isbn}</span>
                     <span>{book.year}</span>
@@ -371,15 +389,15 @@ export default function BookGrid({ books = [], onBookChange }: BookGridProps) {
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>Buch löschen?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the
-              book.
+              {selectedBook ? `"${selectedBook.title}" ` : 'Das Buch '}wird in den Papierkorb verschoben.
+              Admins können es dort wiederherstellen oder endgültig löschen.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+            <AlertDialogCancel>Abbrechen</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>In den Papierkorb</AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
@@ -17,6 +17,7 @@ import {
   TooltipTrigger,
 } from "./ui/tooltip";
 import { debounce } from "lodash";
+import { matchesIsbn } from "@/lib/isbn";
 
 // Übernehme den BookSuggestion Typ oder definiere ihn hier, falls er nicht global verfügbar ist
 // Annahme: BookSuggestion ist global oder wird hier importiert/definiert
@@ -94,11 +95,6 @@ const SearchHeader = ({
     };
   }, []);
 
-  // Helper function to normalize ISBN (remove all non-alphanumeric characters)
-  const normalizeISBN = (isbn: string): string => {
-    return isbn.replace(/[^0-9a-zA-Z]/g, '');
-  };
-
   // Debounced function to fetch suggestions
   const debouncedFetchSuggestions = useRef(
     debounce(async (query: string) => {
@@ -138,16 +134,13 @@ const SearchHeader = ({
     // falls das Debouncing und die Backend-Antwort nicht perfekt synchron sind.
     return sourceBooks.filter(book => {
       const query = searchQuery.toLowerCase().trim();
-      const normalizedQuery = normalizeISBN(query);
 
       // Grundlegende Prüfung, ob Titel, Autor, ISBN oder Verlag passen
       if (book.title && book.title.toLowerCase().includes(query)) return true;
       if (book.author && book.author.toLowerCase().includes(query)) return true;
       if (book.publisher && book.publisher.toLowerCase().includes(query)) return true;
-      if (book.isbn) {
-        const normalizedBookISBN = normalizeISBN(book.isbn);
-        if (normalizedBookISBN.includes(normalizedQuery)) return true;
-      }
+      // ISBN mit oder ohne Bindestriche, als ISBN-10 oder ISBN-13
+      if (matchesIsbn(book.isbn, query)) return true;
       return false;
     });
   }, [suggestionItems, searchQuery]);
@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { DashboardHeader } from '../dashboard/DashboardHeader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Search } from 'lucide-react';
+import {
+  getAuditLog,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from '@/lib/audit-log';
+
+const ALL_ACTIONS = 'all';
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '–';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export function AuditLog() {
+  const supabase = useSupabase();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [filters, setFilters] = useState<AuditLogFilters>({ userId: '', book: '', action: '' });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = async (activeFilters = filters) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await getAuditLog(activeFilters, supabase));
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Laden des Änderungsprotokolls');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [supabase]);
+
+  const applyFilters = (changes: Partial<AuditLogFilters>) => {
+    const next = { ...filters, ...changes };
+    setFilters(next);
+    fetchEntries(next);
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Intl.DateTimeFormat('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(dateString));
+  };
+
+  const renderChanges = (entry: AuditLogEntry) => {
+    const oldValues = (entry.old_values || {}) as Record<string, unknown>;
+    const newValues = (entry.new_values || {}) as Record<string, unknown>;
+    const keys = [...new Set([...Object.keys(oldValues), ...Object.keys(newValues)])]
+      .filter((key) => !['id', 'created_at'].includes(key));
+
+    if (keys.length === 0) return <span className="text-gray-400">–</span>;
+
+    return (
+      <ul className="space-y-0.5 text-xs">
+        {keys.map((key) => (
+          <li key={key} className="break-all">
+            <span className="font-medium text-gray-700">{key}:</span>{' '}
+            {key in oldValues && key in newValues ? (
+              <>
+                <span className="text-red-700 line-through">{formatValue(oldValues[key])}</span>
+                {' → '}
+                <span className="text-green-700">{formatValue(newValues[key])}</span>
+              </>
+            ) : (
+              <span>{formatValue(key in newValues ? newValues[key] : oldValues[key])}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <DashboardHeader />
+      <div className="container py-4 px-2 sm:py-6 sm:px-4 max-w-6xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl sm:text-2xl font-bold text-gray-800 flex items-center">
+              <History className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+              Änderungsprotokoll
+            </CardTitle>
+            <CardDescription>
+              Wer hat wann Bücher, Exemplare, Ausleihen, Reservationen oder Rollen geändert. Das Protokoll wird von der Datenbank geführt und kann nicht bearbeitet werden.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <form
+              className="flex flex-col sm:flex-row gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                fetchEntries();
+              }}
+            >
+              <Input
+                value={filters.userId}
+                onChange={(event) => setFilters({ ...filters, userId: event.target.value })}
+                placeholder="Benutzer-ID"
+              />
+              <Input
+                value={filters.book}
+                onChange={(event) => setFilters({ ...filters, book: event.target.value })}
+                placeholder="Buchtitel oder Buch-ID"
+              />
+              <Select
+                value={filters.action || ALL_ACTIONS}
+                onValueChange={(value) => applyFilters({ action: value === ALL_ACTIONS ? '' : value })}
+              >
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ACTIONS}>Alle Aktionen</SelectItem>
+                  {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                    <SelectItem key={action} value={action}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" variant="outline" disabled={loading}>
+                <Search className="h-4 w-4 mr-1" />
+                Filtern
+              </Button>
+            </form>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <p className="text-gray-500">Änderungsprotokoll wird geladen...</p>
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                Keine Einträge gefunden.
+              </div>
+            ) : (
+              <div className="rounded-md border bg-white">
+                <Table className="text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Zeitpunkt</TableHead>
+                      <TableHead>Person</TableHead>
+                      <TableHead>Aktion</TableHead>
+                      <TableHead>Objekt</TableHead>
+                      <TableHead>Änderungen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="whitespace-nowrap align-top">{formatDateTime(entry.created_at)}</TableCell>
+                        <TableCell className="align-top max-w-[180px]">
+                          {entry.actor_id ? (
+                            <button
+                              type="button"
+                              className="font-mono text-xs text-blue-600 hover:underline break-all text-left"
+                              onClick={() => applyFilters({ userId: entry.actor_id })}
+                              title="Nach dieser Person filtern"
+                            >
+                              {entry.actor_id}
+                            </button>
+                          ) : (
+                            <span className="text-gray-500">System</span>
+                          )}
+                          {entry.actor_role && <div className="text-xs text-gray-500">{entry.actor_role}</div>}
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Badge variant="outline">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</Badge>
+                        </TableCell>
+                        <TableCell className="align-top max-w-[220px]">
+                          <div className="text-xs text-gray-500">{AUDIT_ENTITY_LABELS[entry.entity_type] || entry.entity_type}</div>
+                          {entry.book_id ? (
+                            <button
+                              type="button"
+                              className="text-left text-blue-600 hover:underline"
+                              onClick={() => applyFilters({ book: entry.book_id })}
+                              title="Nach diesem Buch filtern"
+                            >
+                              {entry.entity_label || entry.book_id}
+                            </button>
+                          ) : (
+                            <div className="truncate">{entry.entity_label || entry.entity_id || '–'}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top">{renderChanges(entry)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default AuditLog;
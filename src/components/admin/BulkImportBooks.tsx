@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useSupabase } from '@/contexts/SupabaseContext';
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -11,6 +11,9 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { DashboardHeader } from "../dashboard/DashboardHeader";
+import { SpreadsheetImport } from "./SpreadsheetImport";
+import { ImportJobProgress } from "./ImportJobProgress";
+import { startImportJob, getRecentImportJobs, type ImportJob } from "@/lib/import-jobs";
 import { 
   Upload, 
   BookOpen, 
@@ -29,7 +32,8 @@ import {
   ChevronDown,
   ChevronUp,
   Loader2,
-  Import
+  Import,
+  FileSpreadsheet
 } from 'lucide-react';
 import {
   Collapsible,
@@ -62,7 +66,9 @@ export function BulkImportBooks() {
   const supabase = useSupabase();
   const [isbnList, setIsbnList] = useState('');
   const [loading, setLoading] = useState(false);
-  const [results, setResults] = useState<any>(null);
+  // Laufender bzw. angezeigter Import-Job (Status wird aus der Datenbank abgefragt)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [recentJobs, setRecentJobs] = useState<ImportJob[]>([]);
   const [error, setError] = useState('');
   const [progress, setProgress] = useState({ current: 0, total: 0 });
   
@@ -80,6 +86,34 @@ export function BulkImportBooks() {
   const [isOnlyValidSelected, setIsOnlyValidSelected] = useState(false);
   const [currentTab, setCurrentTab] = useState('isbn');
 
+  const loadRecentJobs = async () => {
+    try {
+      const jobs = await getRecentImportJobs(supabase, 5);
+      setRecentJobs(jobs);
+      return jobs;
+    } catch (err) {
+      console.error('Fehler beim Laden der letzten Importe:', err);
+      return [];
+    }
+  };
+
+  // Nach dem Zurückkehren auf die Seite einen noch laufenden Import wieder anzeigen
+  useEffect(() => {
+    loadRecentJobs().then((jobs) => {
+      const runningJob = jobs.find((job) => job.status !== 'completed');
+      if (runningJob) {
+        setActiveJobId(runningJob.id);
+        setCurrentTab('results');
+      }
+    });
+  }, [supabase]);
+
+  const showJob = (jobId: string) => {
+    setError('');
+    setActiveJobId(jobId);
+    setCurrentTab('results');
+  };
+
   // Funktion zum Umschalten der Auswahl eines Buchs
   const toggleBookSelection = (isbn: string) => {
     setBookPreviews(books => 
@@ -208,9 +242,6 @@ export function BulkImportBooks() {
   const importSelectedBooks = async () => {
     setLoading(true);
     setError('');
-    setResults(null);
-    setProgressStage('Bücher werden importiert');
-    setProgressPercentage(0);
     
     try {
       // Nur die ausgewählten ISBN-Nummern extrahieren
@@ -224,52 +255,18 @@ export function BulkImportBooks() {
         return;
       }
 
-      setProgress({ current: 0, total: selectedIsbns.length });
-      console.log(`Starte Import von ${selectedIsbns.length} ausgewählten Büchern`);
-      
-      // Simuliere Fortschritt für den Benutzer
-      let currentProgress = 0;
-      const progressInterval = setInterval(() => {
-        // Langsam bis 90% voranschreiten - die letzten 10% sind für die Embedding-Erstellung reserviert
-        if (currentProgress < 90) {
-          currentProgress += (90 - currentProgress) / 10;
-          setProgressPercentage(currentProgress);
-        }
-      }, 500);
-      
-      // Rufe die Edge-Funktion mit dem authentifizierten Supabase-Client auf
-      const { data, error: rpcError } = await supabase.functions.invoke('bulk-import-books', {
-        body: { isbns: selectedIsbns } // Nur ausgewählte ISBNs senden
-      });
-      
-      // Fortschrittsinterval stoppen
-      clearInterval(progressInterval);
-      
-      if (rpcError) {
-        throw new Error(`Fehler beim Aufruf der Funktion: ${rpcError.message}`);
-      }
+      console.log(`Starte Import-Job für ${selectedIsbns.length} ausgewählte Bücher`);
       
-      // Fortschritt erhöhen auf 95%
-      setProgressPercentage(95);
-      setProgressStage('Embeddings werden erstellt...');
-      
-      // Simuliere den letzten Schritt der Embedding-Erstellung
-      setTimeout(() => {
-        setProgressPercentage(100);
-        setProgressStage('Import abgeschlossen');
-      }, 3000);
-      
-      console.log('Import abgeschlossen:', data);
-      setResults(data);
-      
-      // Zur Ergebnisansicht wechseln
-      setCurrentTab('results');
+      // Der Job wird im Hintergrund abschnittsweise verarbeitet
+      const jobId = await startImportJob({ isbns: selectedIsbns }, supabase);
+      showJob(jobId);
+      loadRecentJobs();
       
       // Zurück zum Anfangszustand
       setPreviewMode(false);
       setBookPreviews([]);
       
-      // ISBN-Liste nach erfolgreichem Import leeren
+      // ISBN-Liste nach erfolgreichem Start leeren
       setIsbnList('');
 
     } catch (err: any) {
@@ -277,11 +274,6 @@ export function BulkImportBooks() {
       setError('Fehler beim Import: ' + (err.message || err));
     } finally {
       setLoading(false);
-      // Nach Abschluss und einer Verzögerung Fortschrittsanzeige zurücksetzen
-      setTimeout(() => {
-        setProgressPercentage(0);
-        setProgressStage('');
-      }, 3000);
     }
   };
 
@@ -311,20 +303,23 @@ export function BulkImportBooks() {
               <CardTitle className="text-xl sm:text-2xl font-bold">Bücher Massenimport</CardTitle>
             </div>
             <CardDescription className="text-sm sm:text-base">
-              Importiere mehrere Bücher über ihre ISBN-Nummern und erstelle automatisch Einträge in der Bibliothek.
+              Importiere mehrere Bücher über ihre ISBN-Nummern oder aus einer Tabelle (CSV/Excel) und erstelle automatisch Einträge in der Bibliothek.
             </CardDescription>
           </CardHeader>
           
           <Tabs value={currentTab} onValueChange={setCurrentTab} className="w-full">
             <div className="px-3 sm:px-6 pt-3 sm:pt-4">
-              <TabsList className="grid grid-cols-3 w-full">
+              <TabsList className="grid grid-cols-4 w-full">
                 <TabsTrigger value="isbn" disabled={loading || previewLoading} className="text-xs sm:text-sm py-1.5 sm:py-2">
                   <FileText className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-2" /> ISBN
                 </TabsTrigger>
+                <TabsTrigger value="file" disabled={loading || previewLoading} className="text-xs sm:text-sm py-1.5 sm:py-2">
+                  <FileSpreadsheet className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-2" /> Datei
+                </TabsTrigger>
                 <TabsTrigger value="preview" disabled={!previewMode || loading || previewLoading} className="text-xs sm:text-sm py-1.5 sm:py-2">
                   <BookOpen className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-2" /> Vorschau
                 </TabsTrigger>
-                <TabsTrigger value="results" disabled={!results || loading || previewLoading} className="text-xs sm:text-sm py-1.5 sm:py-2">
+                <TabsTrigger value="results" disabled={!activeJobId || loading || previewLoading} className="text-xs sm:text-sm py-1.5 sm:py-2">
                   <CheckCircle2 className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-2" /> Ergebnisse
                 </TabsTrigger>
               </TabsList>
@@ -378,9 +373,42 @@ export function BulkImportBooks() {
                       </Tooltip>
                     </TooltipProvider>
                   </div>
+
+                  {recentJobs.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium mb-2">Letzte Importe</h3>
+                      <div className="rounded-md border divide-y text-xs sm:text-sm">
+                        {recentJobs.map((job) => (
+                          <div key={job.id} className="flex items-center justify-between gap-2 p-2">
+                            <span>
+                              {new Date(job.created_at).toLocaleString('de-CH')} · {job.total_count} {job.source === 'table' ? 'Tabellenzeilen' : 'ISBNs'}
+                            </span>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline" className={job.status === 'completed' ? 'text-green-700' : 'text-blue-700'}>
+                                {job.status === 'completed' ? 'Abgeschlossen' : 'Läuft'}
+                              </Badge>
+                              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => showJob(job.id)}>
+                                Anzeigen
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </TabsContent>
               
+              <TabsContent value="file" className="mt-0">
+                <SpreadsheetImport
+                  onJobStarted={(jobId) => {
+                    showJob(jobId);
+                    loadRecentJobs();
+                  }}
+                  onError={setError}
+                />
+              </TabsContent>
+              
               <TabsContent value="preview" className="mt-0">
                 <div className="space-y-4">
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between bg-blue-50 p-2 sm:p-3 rounded-md">
@@ -587,114 +615,23 @@ export function BulkImportBooks() {
               </TabsContent>
               
               <TabsContent value="results" className="mt-0">
-                <div className="space-y-4 sm:space-y-6">
-                  <div className="bg-green-50 border border-green-200 rounded-md p-3 sm:p-4 flex items-start">
-                    <CheckCircle2 className="h-4 w-4 sm:h-5 sm:w-5 text-green-600 mt-0.5 mr-2 sm:mr-3 flex-shrink-0" />
-                    <div>
-                      <h3 className="font-medium text-green-800 text-sm sm:text-base">Import abgeschlossen</h3>
-                      <p className="text-green-700 mt-1 text-xs sm:text-sm">
-                        Der Import wurde erfolgreich abgeschlossen. Die Bücher wurden in die Datenbank importiert.
-                      </p>
-                    </div>
-                  </div>
-                  
-                  {results && (
-                    <div className="space-y-3 sm:space-y-4">
-                      <div className="flex flex-wrap gap-2 sm:gap-3">
-                        <Badge variant="outline" className="flex items-center gap-1 text-xs sm:text-sm py-1 sm:py-1.5 px-2 sm:px-3">
-                          <BookOpen className="h-3 w-3 sm:h-3.5 sm:w-3.5" />
-                          Gesamt: {results.total}
-                        </Badge>
-                        <Badge variant="outline" className="flex items-center gap-1 text-xs sm:text-sm py-1 sm:py-1.5 px-2 sm:px-3 bg-green-50 text-green-700 border-green-200">
-                          <CheckCircle2 className="h-3 w-3 sm:h-3.5 sm:w-3.5" />
-                          Erfolgreich: {results.successful?.length || 0}
-                        </Badge>
-                        {results.failed?.length > 0 && (
-                          <Badge variant="outline" className="flex items-center gap-1 text-xs sm:text-sm py-1 sm:py-1.5 px-2 sm:px-3 bg-red-50 text-red-700 border-red-200">
-                            <XCircle className="h-3 w-3 sm:h-3.5 sm:w-3.5" />
-                            Fehlgeschlagen: {results.failed?.length || 0}
-                          </Badge>
-                        )}
-                      </div>
-                      
-                      {results.successful?.length > 0 && (
-                        <Collapsible className="border rounded-md overflow-hidden">
-                          <CollapsibleTrigger asChild>
-                            <button className="w-full bg-green-50 p-2 sm:p-3 flex justify-between items-center">
-                              <div className="flex items-center">
-                                <CheckCircle2 className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-green-600 mr-1 sm:mr-2" />
-                                <h4 className="font-medium text-xs sm:text-sm">Erfolgreich importierte Bücher</h4>
-                              </div>
-                              <ChevronDown className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-gray-500" />
-                            </button>
-                          </CollapsibleTrigger>
-                          <CollapsibleContent>
-                            <ScrollArea className="h-[150px] sm:h-[200px]">
-                              <div className="p-2 sm:p-3 space-y-1.5 sm:space-y-2">
-                                {results.successful.map((item: any, index: number) => (
-                                  <div key={index} className="flex items-center text-xs sm:text-sm border-b pb-1.5 sm:pb-2 last:border-0 last:pb-0">
-                                    <BookMarked className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-green-600 mr-1 sm:mr-2 flex-shrink-0" />
-                                    <span className="font-medium mr-1 sm:mr-2">{item.isbn}:</span>
-                                    <span className="truncate">{item.data?.title || 'Titel nicht verfügbar'}</span>
-                                  </div>
-                                ))}
-                              </div>
-                            </ScrollArea>
-                          </CollapsibleContent>
-                        </Collapsible>
-                      )}
-                      
-                      {results.failed?.length > 0 && (
-                        <Collapsible className="border rounded-md overflow-hidden">
-                          <CollapsibleTrigger asChild>
-                            <button className="w-full bg-red-50 p-2 sm:p-3 flex justify-between items-center">
-                              <div className="flex items-center">
-                                <XCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-red-600 mr-1 sm:mr-2" />
-                                <h4 className="font-medium text-xs sm:text-sm">Fehlgeschlagene Importe</h4>
-                              </div>
-                              <ChevronDown className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-gray-500" />
-                            </button>
-                          </CollapsibleTrigger>
-                          <CollapsibleContent>
-                            <ScrollArea className="h-[150px] sm:h-[200px]">
-                              <div className="p-2 sm:p-3 space-y-1.5 sm:space-y-2">
-                                {results.failed.map((item: any, index: number) => (
-                                  <div key={index} className="flex items-start text-xs sm:text-sm border-b pb-1.5 sm:pb-2 last:border-0 last:pb-0">
-                                    <AlertTriangle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mt-0.5 mr-1 sm:mr-2 flex-shrink-0" />
-                                    <div>
-                                      <span className="font-medium mr-1 sm:mr-2">{item.isbn}:</span>
-                                      <span className="text-red-600">{item.error}</span>
-                                    </div>
-                                  </div>
-                                ))}
-                              </div>
-                            </ScrollArea>
-                          </CollapsibleContent>
-                        </Collapsible>
-                      )}
-                      
-                      <div className="flex justify-end">
-                        <Button 
-                          variant="outline" 
-                          onClick={() => {
-                            setResults(null);
-                            setCurrentTab('isbn');
-                          }}
-                          className="text-xs sm:text-sm"
-                        >
-                          <RotateCcw className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                          Neuer Import
-                        </Button>
-                      </div>
-                    </div>
-                  )}
-                </div>
+                {activeJobId && (
+                  <ImportJobProgress
+                    key={activeJobId}
+                    jobId={activeJobId}
+                    onNewImport={() => {
+                      setActiveJobId(null);
+                      setCurrentTab('isbn');
+                      loadRecentJobs();
+                    }}
+                  />
+                )}
               </TabsContent>
             </CardContent>
           </Tabs>
           
           {/* Fortschrittsanzeige */}
-          {(loading || previewLoading) && (
+          {previewLoading && (
             <div className="px-3 sm:px-6 pb-4 sm:pb-6">
               <div className="bg-blue-50 p-3 sm:p-4 rounded-md border border-blue-200 space-y-2 sm:space-y-3">
                 <div className="flex justify-between items-center">
@@ -704,7 +641,7 @@ export function BulkImportBooks() {
                 <Progress value={progressPercentage} className="w-full h-1.5 sm:h-2" />
                 <p className="text-xs sm:text-sm text-blue-700">
                   <Loader2 className="h-3 w-3 sm:h-3.5 sm:w-3.5 inline mr-1 animate-spin" />
-                  {loading ? 'Bücher werden importiert und Embeddings erstellt...' : 'Buchvorschauen werden geladen...'}
+                  Buchvorschauen werden geladen...
                   <br className="sm:hidden" /><span className="hidden sm:inline"> </span>Dies kann einige Minuten dauern, besonders bei größeren Mengen.
                 </p>
               </div>
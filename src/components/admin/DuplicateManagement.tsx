@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { DashboardHeader } from '../dashboard/DashboardHeader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { CopyCheck, FileText, RefreshCw, X } from 'lucide-react';
+import {
+  findDuplicateCandidates,
+  mergeBooks,
+  dismissDuplicate,
+  DUPLICATE_REASON_LABELS,
+  type DuplicateBook,
+  type DuplicatePair,
+} from '@/lib/duplicates';
+
+const pairKey = (pair: DuplicatePair) => `${pair.a.id}:${pair.b.id}`;
+
+export function DuplicateManagement() {
+  const supabase = useSupabase();
+  const { toast } = useToast();
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPairs = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPairs(await findDuplicateCandidates(supabase));
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Suchen nach Duplikaten');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPairs();
+  }, [supabase]);
+
+  const handleMerge = async (pair: DuplicatePair, keep: DuplicateBook, duplicate: DuplicateBook) => {
+    if (!window.confirm(
+      `"${keep.title}" behalten und "${duplicate.title}" darin zusammenführen? ` +
+      'Exemplare, Dateien, Ausleihen und Reservationen werden übernommen, der andere Eintrag wird gelöscht.'
+    )) return;
+
+    setBusyKey(pairKey(pair));
+    try {
+      await mergeBooks(keep, [duplicate], supabase);
+      // Paare mit dem gelöschten Eintrag sind hinfällig
+      setPairs((current) => current.filter((p) => p.a.id !== duplicate.id && p.b.id !== duplicate.id));
+      toast({
+        title: "Erfolg",
+        description: `"${duplicate.title}" wurde in "${keep.title}" zusammengeführt.`,
+      });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || 'Einträge konnten nicht zusammengeführt werden',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    setBusyKey(pairKey(pair));
+    try {
+      await dismissDuplicate(pair, supabase);
+      setPairs((current) => current.filter((p) => pairKey(p) !== pairKey(pair)));
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || 'Paar konnte nicht ausgeblendet werden',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '–';
+    return new Intl.DateTimeFormat('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    }).format(new Date(dateString));
+  };
+
+  const renderBook = (pair: DuplicatePair, book: DuplicateBook, other: DuplicateBook) => (
+    <div className="flex flex-col gap-2 rounded-md border bg-white p-3">
+      <div>
+        <div className="font-medium text-gray-900">{book.title}</div>
+        <div className="text-sm text-gray-600">{book.author || '–'}</div>
+      </div>
+      <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs text-gray-600">
+        <dt>ISBN</dt>
+        <dd className="font-mono">{book.isbn || '–'}</dd>
+        <dt>Verlag / Jahr</dt>
+        <dd>{[book.publisher, book.year].filter(Boolean).join(', ') || '–'}</dd>
+        <dt>Fach / Stufe</dt>
+        <dd>{[book.subject, book.level].filter(Boolean).join(', ') || '–'}</dd>
+        <dt>Exemplare</dt>
+        <dd>{book.copy_count ?? 0}</dd>
+        <dt>Erfasst am</dt>
+        <dd>{formatDate(book.created_at)}</dd>
+      </dl>
+      {book.has_pdf && (
+        <div className="flex items-center text-xs text-green-700">
+          <FileText className="h-3 w-3 mr-1" />
+          PDF vorhanden
+        </div>
+      )}
+      <Button
+        size="sm"
+        className="mt-auto"
+        onClick={() => handleMerge(pair, book, other)}
+        disabled={busyKey !== null}
+      >
+        Diesen behalten
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <DashboardHeader />
+      <div className="container py-4 px-2 sm:py-6 sm:px-4 max-w-6xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl sm:text-2xl font-bold text-gray-800 flex items-center">
+              <CopyCheck className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+              Duplikate
+            </CardTitle>
+            <CardDescription>
+              Mögliche Doppelerfassungen anhand von ISBN, Titel und Inhalt. Beim Zusammenführen bleiben Exemplare, Ausleihen, Reservationen und PDFs erhalten.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-gray-600">
+                {loading ? '' : `${pairs.length} mögliche Duplikate`}
+              </p>
+              <Button variant="outline" onClick={fetchPairs} disabled={loading}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Neu suchen
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <p className="text-gray-500">Duplikate werden gesucht...</p>
+              </div>
+            ) : pairs.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                Keine möglichen Duplikate gefunden.
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {pairs.map((pair) => (
+                  <div key={pairKey(pair)} className="rounded-md border bg-gray-50 p-3 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {pair.reasons.map((reason) => (
+                        <Badge key={reason} variant="secondary">{DUPLICATE_REASON_LABELS[reason] || reason}</Badge>
+                      ))}
+                      <span className="text-xs text-gray-500">Übereinstimmung {Math.round(pair.score * 100)} %</span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="ml-auto"
+                        onClick={() => handleDismiss(pair)}
+                        disabled={busyKey !== null}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Kein Duplikat
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {renderBook(pair, pair.a, pair.b)}
+                      {renderBook(pair, pair.b, pair.a)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default DuplicateManagement;
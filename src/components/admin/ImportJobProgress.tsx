@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertTriangle,
+  BookMarked,
+  CheckCircle2,
+  Copy,
+  Loader2,
+  PlayCircle,
+  RotateCcw,
+  XCircle
+} from 'lucide-react';
+import {
+  getImportJobWithItems,
+  resumeImportJob,
+  retryFailedImportItems,
+  countImportItems,
+  isImportJobStalled,
+  IMPORT_ITEM_STATUS_LABELS,
+  type ImportJob,
+  type ImportJobItem,
+  type ImportItemStatus,
+} from '@/lib/import-jobs';
+
+// Abfrageintervall, solange der Job läuft (Millisekunden)
+const POLL_INTERVAL_MS = 3000;
+
+interface ImportJobProgressProps {
+  jobId: string;
+  onNewImport: () => void;
+}
+
+const STATUS_CLASSES: Record<ImportItemStatus, string> = {
+  pending: 'text-gray-600',
+  fetched: 'text-blue-700',
+  imported: 'text-green-700',
+  duplicate: 'text-green-700',
+  failed: 'text-red-600',
+};
+
+export function ImportJobProgress({ jobId, onNewImport }: ImportJobProgressProps) {
+  const supabase = useSupabase();
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [items, setItems] = useState<ImportJobItem[]>([]);
+  const [error, setError] = useState('');
+  const [actionInProgress, setActionInProgress] = useState(false);
+
+  const loadJob = async () => {
+    try {
+      const result = await getImportJobWithItems(jobId, supabase);
+      setJob(result.job);
+      setItems(result.items);
+      setError('');
+    } catch (err: any) {
+      setError('Der Import-Status konnte nicht geladen werden: ' + (err.message || err));
+    }
+  };
+
+  // Regelmässig abfragen, bis der Job abgeschlossen ist
+  useEffect(() => {
+    loadJob();
+  }, [jobId, supabase]);
+
+  useEffect(() => {
+    if (job?.status === 'completed') return;
+
+    const interval = setInterval(loadJob, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [jobId, supabase, job?.status]);
+
+  const runAction = async (action: (id: string, client: any) => Promise<void>) => {
+    setActionInProgress(true);
+    try {
+      await action(jobId, supabase);
+      await loadJob();
+    } catch (err: any) {
+      setError(err.message || String(err));
+    } finally {
+      setActionInProgress(false);
+    }
+  };
+
+  if (!job) {
+    return (
+      <div className="flex items-center justify-center h-32 text-sm text-gray-500">
+        {error || (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Import-Status wird geladen...
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const counts = countImportItems(items);
+  const done = counts.imported + counts.duplicate + counts.failed;
+  const total = job.total_count || items.length;
+  const isCompleted = job.status === 'completed';
+  const isStalled = isImportJobStalled(job);
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {isCompleted ? (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3 sm:p-4 flex items-start">
+          <CheckCircle2 className="h-4 w-4 sm:h-5 sm:w-5 text-green-600 mt-0.5 mr-2 sm:mr-3 flex-shrink-0" />
+          <div>
+            <h3 className="font-medium text-green-800 text-sm sm:text-base">Import abgeschlossen</h3>
+            <p className="text-green-700 mt-1 text-xs sm:text-sm">
+              {counts.imported} neue Bücher, {counts.duplicate} weitere Exemplare, {counts.failed} fehlgeschlagen.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-blue-50 p-3 sm:p-4 rounded-md border border-blue-200 space-y-2 sm:space-y-3">
+          <div className="flex justify-between items-center">
+            <p className="font-medium text-blue-800 text-sm sm:text-base">
+              {isStalled ? 'Import unterbrochen' : 'Import läuft im Hintergrund'}
+            </p>
+            <p className="text-xs sm:text-sm text-blue-700">{done} / {total}</p>
+          </div>
+          <Progress value={total > 0 ? (done / total) * 100 : 0} className="w-full h-1.5 sm:h-2" />
+          <p className="text-xs sm:text-sm text-blue-700">
+            {isStalled
+              ? 'Seit längerer Zeit gab es keinen Fortschritt. Der Import kann fortgesetzt werden, bereits importierte Bücher bleiben erhalten.'
+              : 'Du kannst die Seite verlassen, der Import läuft weiter und der Status ist hier jederzeit wieder abrufbar.'}
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 sm:gap-3">
+        {(Object.keys(IMPORT_ITEM_STATUS_LABELS) as ImportItemStatus[])
+          .filter((status) => counts[status] > 0)
+          .map((status) => (
+            <Badge key={status} variant="outline" className={`text-xs sm:text-sm py-1 px-2 sm:px-3 ${STATUS_CLASSES[status]}`}>
+              {IMPORT_ITEM_STATUS_LABELS[status]}: {counts[status]}
+            </Badge>
+          ))}
+      </div>
+
+      <ScrollArea className="h-[250px] sm:h-[350px] rounded-md border">
+        <div className="p-2 sm:p-3 space-y-1.5 sm:space-y-2">
+          {items.map((item) => {
+            const status = item.status as ImportItemStatus;
+            return (
+              <div key={item.id} className="flex items-start text-xs sm:text-sm border-b pb-1.5 sm:pb-2 last:border-0 last:pb-0">
+                {status === 'failed' ? (
+                  <AlertTriangle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mt-0.5 mr-1 sm:mr-2 flex-shrink-0 text-red-600" />
+                ) : status === 'duplicate' ? (
+                  <Copy className="h-3.5 w-3.5 sm:h-4 sm:w-4 mt-0.5 mr-1 sm:mr-2 flex-shrink-0 text-green-600" />
+                ) : status === 'imported' ? (
+                  <BookMarked className="h-3.5 w-3.5 sm:h-4 sm:w-4 mt-0.5 mr-1 sm:mr-2 flex-shrink-0 text-green-600" />
+                ) : (
+                  <Loader2 className="h-3.5 w-3.5 sm:h-4 sm:w-4 mt-0.5 mr-1 sm:mr-2 flex-shrink-0 text-gray-400" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    {item.isbn && <span className="font-medium">{item.isbn}:</span>}
+                    <span className="truncate">{item.title || 'Titel noch nicht bekannt'}</span>
+                  </div>
+                  {item.error && <p className="text-red-600">{item.error}</p>}
+                </div>
+                <span className={`ml-2 whitespace-nowrap ${STATUS_CLASSES[status]}`}>
+                  {IMPORT_ITEM_STATUS_LABELS[status]}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      {error && (
+        <p className="text-xs sm:text-sm text-red-600 flex items-center">
+          <XCircle className="h-3.5 w-3.5 mr-1" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {!isCompleted && isStalled && (
+          <Button
+            variant="outline"
+            onClick={() => runAction(resumeImportJob)}
+            disabled={actionInProgress}
+            className="text-xs sm:text-sm"
+          >
+            <PlayCircle className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+            Fortsetzen
+          </Button>
+        )}
+        {isCompleted && counts.failed > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => runAction(retryFailedImportItems)}
+            disabled={actionInProgress}
+            className="text-xs sm:text-sm"
+          >
+            <RotateCcw className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+            Fehlgeschlagene erneut versuchen
+          </Button>
+        )}
+        <Button variant="outline" onClick={onNewImport} className="text-xs sm:text-sm">
+          <RotateCcw className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+          Neuer Import
+        </Button>
+      </div>
+    </div>
+  );
+}
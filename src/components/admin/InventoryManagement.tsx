@@ -0,0 +1,486 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { useAuth } from '@/hooks/useAuth';
+import { DashboardHeader } from '../dashboard/DashboardHeader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog } from '@/components/ui/dialog';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { BarcodeScanner } from '../books/BarcodeScanner';
+import { ArrowLeft, ClipboardCheck, Download, ScanLine } from 'lucide-react';
+import { SCHOOLS, LOCATIONS } from '@/lib/constants';
+import { getBorrowerDisplayName } from '@/lib/loans';
+import { moveCopies, parseCopyCode } from '@/lib/copies';
+import { toCsv, downloadCsv } from '@/lib/csv';
+import {
+  getInventorySessions,
+  createInventorySession,
+  completeInventorySession,
+  getInventoryScans,
+  addInventoryScan,
+  getCopiesAtLocation,
+  buildInventoryReport,
+  type InventorySession,
+  type InventoryScan,
+  type InventoryCopy,
+  type InventoryReport,
+} from '@/lib/inventory';
+
+// Zeile im CSV-Export des Berichts
+interface ReportRow {
+  finding: string;
+  copy?: InventoryCopy;
+  barcode: string;
+}
+
+export function InventoryManagement() {
+  const supabase = useSupabase();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<InventorySession[]>([]);
+  const [activeSession, setActiveSession] = useState<InventorySession | null>(null);
+  const [scans, setScans] = useState<InventoryScan[]>([]);
+  const [expectedCount, setExpectedCount] = useState(0);
+  const [report, setReport] = useState<InventoryReport | null>(null);
+  const [selectedMisplaced, setSelectedMisplaced] = useState<Set<string>>(new Set());
+  const [newSchool, setNewSchool] = useState(SCHOOLS[0]);
+  const [newLocation, setNewLocation] = useState(LOCATIONS[0]);
+  const [manualCode, setManualCode] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [lastScan, setLastScan] = useState<{ barcode: string; known: boolean; duplicate: boolean } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSessions(await getInventorySessions(supabase));
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Laden der Inventuren');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, [supabase]);
+
+  const openSession = async (session: InventorySession) => {
+    setBusy(true);
+    setError(null);
+    setReport(null);
+    setLastScan(null);
+    try {
+      const [sessionScans, expectedCopies] = await Promise.all([
+        getInventoryScans(session.id, supabase),
+        getCopiesAtLocation(session.school, session.location, supabase),
+      ]);
+      setActiveSession(session);
+      setScans(sessionScans);
+      setExpectedCount(expectedCopies.length);
+
+      if (session.completed_at) {
+        await loadReport(session, sessionScans);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Laden der Inventur');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setBusy(true);
+    try {
+      const session = await createInventorySession(
+        { school: newSchool, location: newLocation, startedByName: getBorrowerDisplayName(user) },
+        supabase
+      );
+      await fetchSessions();
+      await openSession(session);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Fehler beim Starten der Inventur.',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadReport = async (session: InventorySession, sessionScans: InventoryScan[]) => {
+    const inventoryReport = await buildInventoryReport(session, sessionScans, supabase);
+    setReport(inventoryReport);
+    setSelectedMisplaced(new Set(inventoryReport.misplaced.map((copy) => copy.id)));
+  };
+
+  const handleComplete = async () => {
+    if (!activeSession) return;
+
+    setBusy(true);
+    try {
+      const completed = await completeInventorySession(activeSession.id, supabase);
+      setActiveSession(completed);
+      await loadReport(completed, scans);
+      fetchSessions();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Fehler beim Abschliessen der Inventur.',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const processScan = async (rawCode: string) => {
+    if (!activeSession) return;
+
+    const barcode = parseCopyCode(rawCode) || rawCode.trim().toUpperCase();
+    try {
+      const scan = await addInventoryScan(activeSession.id, barcode, supabase);
+      if (scan) {
+        setScans((previous) => [scan, ...previous]);
+      }
+      setLastScan({ barcode, known: scan ? !!scan.copy_id : true, duplicate: !scan });
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: `Fehler beim Erfassen von ${barcode}.`,
+      });
+    }
+  };
+
+  // Stabiler Callback für den Scanner im Dauerbetrieb
+  const processScanRef = useRef(processScan);
+  processScanRef.current = processScan;
+  const handleScan = useCallback((code: string) => {
+    processScanRef.current(code);
+  }, []);
+  const handleScannerClose = useCallback(() => setShowScanner(false), []);
+
+  const handleManualSubmit = () => {
+    const code = manualCode.trim();
+    if (!code) return;
+    setManualCode('');
+    processScan(code);
+  };
+
+  const handleMoveMisplaced = async () => {
+    if (!activeSession || selectedMisplaced.size === 0) return;
+
+    setBusy(true);
+    try {
+      const moved = await moveCopies(
+        [...selectedMisplaced],
+        { school: activeSession.school, location: activeSession.location },
+        supabase
+      );
+      toast({
+        title: 'Erfolg',
+        description: `${moved.length} Exemplare nach ${activeSession.school} · ${activeSession.location} verschoben.`,
+      });
+      await loadReport(activeSession, scans);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Fehler beim Aktualisieren der Standorte.',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!report || !activeSession) return;
+
+    const rows: ReportRow[] = [
+      ...report.missing.map((copy) => ({ finding: 'Fehlend', copy, barcode: copy.barcode })),
+      ...report.misplaced.map((copy) => ({ finding: 'Falscher Standort', copy, barcode: copy.barcode })),
+      ...report.borrowedButPresent.map((copy) => ({ finding: 'Ausgeliehen, aber vorhanden', copy, barcode: copy.barcode })),
+      ...report.unknownBarcodes.map((barcode) => ({ finding: 'Unbekannter Code', barcode })),
+    ];
+
+    const csv = toCsv(rows, [
+      { header: 'Befund', value: (row) => row.finding },
+      { header: 'Exemplar', value: (row) => row.barcode },
+      { header: 'Titel', value: (row) => row.copy?.books?.title },
+      { header: 'Autor', value: (row) => row.copy?.books?.author },
+      { header: 'ISBN', value: (row) => row.copy?.books?.isbn },
+      { header: 'Schule', value: (row) => row.copy?.school },
+      { header: 'Standort', value: (row) => row.copy?.location },
+    ]);
+
+    const date = new Date(activeSession.started_at).toISOString().slice(0, 10);
+    downloadCsv(`inventur-${activeSession.school}-${activeSession.location}-${date}.csv`, csv);
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '–';
+    return new Intl.DateTimeFormat('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    }).format(new Date(dateString));
+  };
+
+  const renderCopyList = (copies: InventoryCopy[], emptyText: string, selectable = false) => {
+    if (copies.length === 0) {
+      return <p className="text-sm text-gray-500">{emptyText}</p>;
+    }
+
+    return (
+      <div className="rounded-md border divide-y bg-white text-sm">
+        {copies.map((copy) => (
+          <div key={copy.id} className="flex items-center justify-between gap-3 p-2">
+            <div className="flex items-center gap-2 min-w-0">
+              {selectable && (
+                <Checkbox
+                  checked={selectedMisplaced.has(copy.id)}
+                  onCheckedChange={(checked) => {
+                    setSelectedMisplaced((selection) => {
+                      const next = new Set(selection);
+                      if (checked === true) {
+                        next.add(copy.id);
+                      } else {
+                        next.delete(copy.id);
+                      }
+                      return next;
+                    });
+                  }}
+                />
+              )}
+              <span className="font-medium">{copy.barcode}</span>
+              <span className="truncate">{copy.books?.title || 'Unbekanntes Buch'}</span>
+            </div>
+            <span className="text-gray-500 whitespace-nowrap">
+              {[copy.school, copy.location].filter(Boolean).join(' · ') || 'Kein Standort'}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const reportSection = report && activeSession && (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-600">
+          {report.scannedCount} Codes gescannt, {report.expectedCount} Exemplare laut Katalog an diesem Standort.
+        </p>
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="h-4 w-4 mr-2" />
+          Bericht als CSV
+        </Button>
+      </div>
+
+      <div>
+        <h3 className="text-md font-semibold mb-2">Fehlend ({report.missing.length})</h3>
+        {renderCopyList(report.missing, 'Alle erwarteten Exemplare wurden gefunden.')}
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <h3 className="text-md font-semibold">Falscher Standort ({report.misplaced.length})</h3>
+          {report.misplaced.length > 0 && (
+            <Button size="sm" onClick={handleMoveMisplaced} disabled={busy || selectedMisplaced.size === 0}>
+              Auswahl nach {activeSession.location} verschieben ({selectedMisplaced.size})
+            </Button>
+          )}
+        </div>
+        {renderCopyList(report.misplaced, 'Keine Exemplare von anderen Standorten gescannt.', true)}
+      </div>
+
+      <div>
+        <h3 className="text-md font-semibold mb-2">Ausgeliehen, aber vorhanden ({report.borrowedButPresent.length})</h3>
+        {renderCopyList(report.borrowedButPresent, 'Keine ausgeliehenen Exemplare gescannt.')}
+      </div>
+
+      {report.unknownBarcodes.length > 0 && (
+        <div>
+          <h3 className="text-md font-semibold mb-2">Unbekannte Codes ({report.unknownBarcodes.length})</h3>
+          <p className="text-sm text-gray-600">{report.unknownBarcodes.join(', ')}</p>
+        </div>
+      )}
+    </div>
+  );
+
+  const scanSection = activeSession && !activeSession.completed_at && (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          autoFocus
+          value={manualCode}
+          onChange={(e) => setManualCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleManualSubmit();
+            }
+          }}
+          placeholder="Exemplar-Code eingeben oder mit Hand-Scanner scannen"
+        />
+        <Button variant="outline" onClick={() => setShowScanner(true)}>
+          <ScanLine className="h-4 w-4 mr-2" />
+          Kamera-Scanner
+        </Button>
+      </div>
+
+      {lastScan && (
+        <div
+          className={`rounded-md p-3 text-sm ${
+            lastScan.duplicate ? 'bg-gray-100 text-gray-700' : lastScan.known ? 'bg-green-50 text-green-800' : 'bg-orange-50 text-orange-800'
+          }`}
+        >
+          {lastScan.barcode}:{' '}
+          {lastScan.duplicate ? 'bereits erfasst' : lastScan.known ? 'erfasst' : 'unbekannter Code (wird im Bericht aufgeführt)'}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-600">
+          {scans.length} gescannt · {expectedCount} laut Katalog erwartet
+        </p>
+        <Button onClick={handleComplete} disabled={busy}>
+          Inventur abschliessen
+        </Button>
+      </div>
+
+      {scans.length > 0 && (
+        <div className="rounded-md border divide-y bg-white text-sm max-h-72 overflow-y-auto">
+          {scans.map((scan) => (
+            <div key={scan.id} className="flex items-center justify-between gap-2 p-2">
+              <span className="font-medium">{scan.barcode}</span>
+              {!scan.copy_id && <Badge variant="outline" className="text-orange-700">Unbekannt</Badge>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <DashboardHeader />
+      <div className="container py-4 px-2 sm:py-6 sm:px-4 max-w-6xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl sm:text-2xl font-bold text-gray-800 flex items-center">
+              <ClipboardCheck className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+              {activeSession ? `Inventur ${activeSession.school} · ${activeSession.location}` : 'Inventur'}
+            </CardTitle>
+            <CardDescription>
+              {activeSession
+                ? `Gestartet am ${formatDate(activeSession.started_at)}${activeSession.started_by_name ? ` von ${activeSession.started_by_name}` : ''}`
+                : 'Alle Exemplare eines Standorts scannen und mit dem Katalog abgleichen'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            {activeSession ? (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => setActiveSession(null)}>
+                  <ArrowLeft className="h-4 w-4 mr-1" />
+                  Alle Inventuren
+                </Button>
+                {scanSection}
+                {reportSection}
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="inventory-school">Schule</Label>
+                    <Select value={newSchool} onValueChange={setNewSchool}>
+                      <SelectTrigger id="inventory-school">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SCHOOLS.map((school) => (
+                          <SelectItem key={school} value={school}>{school}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="inventory-location">Standort</Label>
+                    <Select value={newLocation} onValueChange={setNewLocation}>
+                      <SelectTrigger id="inventory-location">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LOCATIONS.map((location) => (
+                          <SelectItem key={location} value={location}>{location}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={handleStart} disabled={busy}>
+                    Inventur starten
+                  </Button>
+                </div>
+
+                {loading ? (
+                  <div className="flex items-center justify-center h-32">
+                    <p className="text-gray-500">Inventuren werden geladen...</p>
+                  </div>
+                ) : sessions.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    Noch keine Inventuren durchgeführt.
+                  </div>
+                ) : (
+                  <div className="rounded-md border divide-y bg-white">
+                    {sessions.map((session) => (
+                      <div key={session.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{session.school} · {session.location}</span>
+                          <span className="text-sm text-gray-500">
+                            Gestartet am {formatDate(session.started_at)}
+                            {session.started_by_name && ` von ${session.started_by_name}`}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={session.completed_at ? 'secondary' : 'default'}>
+                            {session.completed_at ? 'Abgeschlossen' : 'Laufend'}
+                          </Badge>
+                          <Button size="sm" variant="outline" onClick={() => openSession(session)} disabled={busy}>
+                            Öffnen
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={showScanner} onOpenChange={setShowScanner}>
+        {showScanner && (
+          <BarcodeScanner mode="copy" continuous onScan={handleScan} onClose={handleScannerClose} />
+        )}
+      </Dialog>
+    </div>
+  );
+}
+
+export default InventoryManagement;
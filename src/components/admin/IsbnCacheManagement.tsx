@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { DashboardHeader } from '../dashboard/DashboardHeader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { DatabaseZap, Search, Trash2 } from 'lucide-react';
+import {
+  getIsbnCacheEntries,
+  deleteIsbnCacheEntry,
+  clearIsbnCache,
+  type IsbnCacheEntry,
+  type CachedBookMetadata,
+} from '@/lib/isbn-cache';
+
+export function IsbnCacheManagement() {
+  const supabase = useSupabase();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<IsbnCacheEntry[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = async (term = searchTerm) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await getIsbnCacheEntries(term, supabase));
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Laden des ISBN-Caches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [supabase]);
+
+  const handleDelete = async (isbn: string) => {
+    setBusy(true);
+    try {
+      await deleteIsbnCacheEntry(isbn, supabase);
+      setEntries((current) => current.filter((entry) => entry.isbn !== isbn));
+      toast({
+        title: "Erfolg",
+        description: `ISBN ${isbn} wird beim nächsten Mal neu nachgeschlagen.`,
+      });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || 'Eintrag konnte nicht gelöscht werden',
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Den gesamten ISBN-Cache leeren? Alle ISBNs werden danach neu nachgeschlagen.')) return;
+
+    setBusy(true);
+    try {
+      await clearIsbnCache(supabase);
+      setEntries([]);
+      toast({
+        title: "Erfolg",
+        description: 'Der ISBN-Cache wurde geleert.',
+      });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || 'Der ISBN-Cache konnte nicht geleert werden',
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '–';
+    return new Intl.DateTimeFormat('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    }).format(new Date(dateString));
+  };
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <DashboardHeader />
+      <div className="container py-4 px-2 sm:py-6 sm:px-4 max-w-6xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl sm:text-2xl font-bold text-gray-800 flex items-center">
+              <DatabaseZap className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+              ISBN-Cache
+            </CardTitle>
+            <CardDescription>
+              Bereits nachgeschlagene ISBNs werden aus dem Cache beantwortet. Einträge löschen, um veraltete oder falsche Angaben neu abzufragen.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <form
+                className="flex flex-1 gap-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  fetchEntries();
+                }}
+              >
+                <Input
+                  value={searchTerm}
+                  onChange={(event) => setSearchTerm(event.target.value)}
+                  placeholder="ISBN oder Titel suchen"
+                />
+                <Button type="submit" variant="outline" disabled={loading}>
+                  <Search className="h-4 w-4 mr-1" />
+                  Suchen
+                </Button>
+              </form>
+              <Button variant="destructive" onClick={handleClear} disabled={busy || entries.length === 0}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Cache leeren
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <p className="text-gray-500">ISBN-Cache wird geladen...</p>
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                Keine Einträge im ISBN-Cache.
+              </div>
+            ) : (
+              <div className="rounded-md border bg-white">
+                <Table className="text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>ISBN</TableHead>
+                      <TableHead>Titel</TableHead>
+                      <TableHead>Quellen</TableHead>
+                      <TableHead>Abgefragt am</TableHead>
+                      <TableHead className="text-right">Treffer</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const result = entry.result as unknown as CachedBookMetadata;
+                      return (
+                        <TableRow key={entry.isbn}>
+                          <TableCell className="font-mono">{entry.isbn}</TableCell>
+                          <TableCell className="max-w-[260px]">
+                            <div className="truncate">{result?.title || '–'}</div>
+                            {result?.author && <div className="text-xs text-gray-500 truncate">{result.author}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {entry.sources.map((source) => (
+                                <Badge key={source} variant="outline">{source}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>{formatDate(entry.created_at)}</TableCell>
+                          <TableCell className="text-right">{entry.hit_count}</TableCell>
+                          <TableCell>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => handleDelete(entry.isbn)}
+                              disabled={busy}
+                              title="Eintrag löschen"
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default IsbnCacheManagement;
@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { DashboardHeader } from '../dashboard/DashboardHeader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Download, RefreshCw, Search, Tags } from 'lucide-react';
+import { applyBookFilters, hasActiveFilters, hasCopyFilters, EMPTY_FILTERS, type ActiveFilters } from '@/lib/book-filters';
+import { generateLabelPdf, LABEL_LAYOUTS, type CopyLabel } from '@/lib/labels';
+
+// Maximale Anzahl Katalogeinträge pro Auswahl
+const MAX_BOOKS = 500;
+
+interface LabelBook {
+  id: string;
+  title: string;
+  school: string | null;
+  book_copies: { id: string; barcode: string; school: string | null; location: string | null }[];
+}
+
+// Übergabe aus der Buchübersicht (BookManagement) per Router-State
+interface LabelPrintingState {
+  filters?: ActiveFilters;
+  searchQuery?: string;
+}
+
+export function LabelPrinting() {
+  const supabase = useSupabase();
+  const location = useLocation();
+  const { toast } = useToast();
+  const initialState = (location.state as LabelPrintingState | null) || {};
+  const [filters] = useState<ActiveFilters>(initialState.filters || EMPTY_FILTERS);
+  const [searchTerm, setSearchTerm] = useState(initialState.searchQuery || '');
+  const [books, setBooks] = useState<LabelBook[]>([]);
+  const [selectedCopyIds, setSelectedCopyIds] = useState<Set<string>>(new Set());
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [startPosition, setStartPosition] = useState('1');
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const layout = LABEL_LAYOUTS.find((candidate) => candidate.id === layoutId) || LABEL_LAYOUTS[0];
+
+  const fetchBooks = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      // Bei Schul- oder Standortfiltern werden nur die passenden Exemplare geladen
+      const copyJoin = hasCopyFilters(filters) ? 'book_copies!inner' : 'book_copies';
+      let query = supabase
+        .from('books')
+        .select(`id, title, school, ${copyJoin}(id, barcode, school, location)`);
+      query = applyBookFilters(query, filters, searchTerm.trim());
+
+      const { data, error: queryError } = await query
+        .order('title', { ascending: true })
+        .limit(MAX_BOOKS);
+
+      if (queryError) throw queryError;
+
+      const loadedBooks = ((data || []) as unknown as LabelBook[]).map((book) => ({
+        ...book,
+        book_copies: [...(book.book_copies || [])].sort((a, b) => a.barcode.localeCompare(b.barcode)),
+      }));
+      setBooks(loadedBooks);
+      setSelectedCopyIds(new Set(loadedBooks.flatMap((book) => book.book_copies.map((copy) => copy.id))));
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Laden der Bücher');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBooks();
+  }, [supabase]);
+
+  const toggleBook = (book: LabelBook, checked: boolean) => {
+    setSelectedCopyIds((selection) => {
+      const next = new Set(selection);
+      book.book_copies.forEach((copy) => (checked ? next.add(copy.id) : next.delete(copy.id)));
+      return next;
+    });
+  };
+
+  const toggleCopy = (copyId: string, checked: boolean) => {
+    setSelectedCopyIds((selection) => {
+      const next = new Set(selection);
+      if (checked) {
+        next.add(copyId);
+      } else {
+        next.delete(copyId);
+      }
+      return next;
+    });
+  };
+
+  const allCopyIds = books.flatMap((book) => book.book_copies.map((copy) => copy.id));
+  const allSelected = allCopyIds.length > 0 && allCopyIds.every((id) => selectedCopyIds.has(id));
+
+  const handleGenerate = () => {
+    const labels: CopyLabel[] = books.flatMap((book) =>
+      book.book_copies
+        .filter((copy) => selectedCopyIds.has(copy.id))
+        .map((copy) => ({ barcode: copy.barcode, title: book.title, school: copy.school || book.school }))
+    );
+
+    if (labels.length === 0) return;
+
+    setGenerating(true);
+    try {
+      const blob = generateLabelPdf(labels, layout, parseInt(startPosition, 10) || 1);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `etiketten-${layout.id}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: 'Erfolg',
+        description: `${labels.length} Etiketten erstellt.`,
+      });
+    } catch (err) {
+      console.error('Error generating labels:', err);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Fehler beim Erstellen der Etiketten.',
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <DashboardHeader />
+      <div className="container py-4 px-2 sm:py-6 sm:px-4 max-w-6xl mx-auto">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-xl sm:text-2xl font-bold text-gray-800 flex items-center">
+                <Tags className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+                Etiketten
+              </CardTitle>
+              <Button variant="outline" onClick={fetchBooks} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Aktualisieren
+              </Button>
+            </div>
+            <CardDescription>
+              Etikettenbögen mit QR-Code pro Exemplar. Der QR-Code öffnet beim Scannen direkt das Exemplar.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {hasActiveFilters(filters) && (
+              <div className="rounded-md bg-blue-50 border border-blue-200 p-3 text-sm text-blue-800">
+                Auswahl aus der Buchübersicht mit aktiven Filtern
+                {filters.school && filters.school !== 'Alle' && ` · Schule: ${filters.school}`}
+                {filters.location && filters.location !== 'Alle Standorte' && ` · Standort: ${filters.location}`}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="label-search">Suche</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="label-search"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && fetchBooks()}
+                    placeholder="Titel, Autor, ISBN..."
+                  />
+                  <Button variant="outline" size="icon" onClick={fetchBooks} disabled={loading} aria-label="Suchen">
+                    <Search className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="label-layout">Etikettenbogen</Label>
+                <Select value={layoutId} onValueChange={setLayoutId}>
+                  <SelectTrigger id="label-layout">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LABEL_LAYOUTS.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="label-start">Startposition auf dem ersten Bogen</Label>
+                <Input
+                  id="label-start"
+                  type="number"
+                  min={1}
+                  max={layout.columns * layout.rows}
+                  value={startPosition}
+                  onChange={(e) => setStartPosition(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <p className="text-gray-500">Bücher werden geladen...</p>
+              </div>
+            ) : books.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                Keine Bücher für diese Auswahl gefunden.
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelectedCopyIds(checked === true ? new Set(allCopyIds) : new Set())}
+                    />
+                    Alle auswählen ({selectedCopyIds.size} von {allCopyIds.length} Exemplaren)
+                  </label>
+                  <Button onClick={handleGenerate} disabled={generating || selectedCopyIds.size === 0}>
+                    <Download className="h-4 w-4 mr-2" />
+                    PDF erstellen
+                  </Button>
+                </div>
+
+                <div className="rounded-md border divide-y bg-white">
+                  {books.map((book) => {
+                    const bookSelected = book.book_copies.length > 0 && book.book_copies.every((copy) => selectedCopyIds.has(copy.id));
+
+                    return (
+                      <div key={book.id} className="p-3">
+                        <label className="flex items-center gap-2">
+                          <Checkbox
+                            checked={bookSelected}
+                            onCheckedChange={(checked) => toggleBook(book, checked === true)}
+                          />
+                          <span className="font-medium text-blue-600">{book.title}</span>
+                          <Badge variant="outline">{book.book_copies.length} Exemplare</Badge>
+                        </label>
+                        {book.book_copies.length > 1 && (
+                          <div className="mt-2 ml-6 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                            {book.book_copies.map((copy) => (
+                              <label key={copy.id} className="flex items-center gap-1.5">
+                                <Checkbox
+                                  checked={selectedCopyIds.has(copy.id)}
+                                  onCheckedChange={(checked) => toggleCopy(copy.id, checked === true)}
+                                />
+                                {copy.barcode}
+                                {copy.school && <span className="text-gray-400">({copy.school})</span>}
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                {books.length === MAX_BOOKS && (
+                  <p className="text-sm text-gray-500">
+                    Es werden maximal {MAX_BOOKS} Bücher angezeigt. Bitte die Auswahl weiter einschränken.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default LabelPrinting;
@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { DashboardHeader } from '../dashboard/DashboardHeader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CalendarClock, RefreshCw, XCircle } from 'lucide-react';
+import { SCHOOLS } from '@/lib/constants';
+import {
+  getOpenReservations,
+  cancelReservation,
+  isHoldActive,
+  RESERVATION_STATUS_LABELS,
+  type ReservationWithBook,
+  type ReservationStatus,
+} from '@/lib/reservations';
+
+// Schlüssel für Bücher ohne Exemplar in einem der Schulhäuser
+const NO_SCHOOL = 'Ohne Schule';
+
+export function ReservationManagement() {
+  const supabase = useSupabase();
+  const [reservations, setReservations] = useState<ReservationWithBook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionInProgress, setActionInProgress] = useState<Record<string, boolean>>({});
+
+  const fetchReservations = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReservations(await getOpenReservations(supabase));
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Laden der Reservationen');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReservations();
+  }, [supabase]);
+
+  const handleCancel = async (reservation: ReservationWithBook) => {
+    setActionInProgress((prev) => ({ ...prev, [reservation.id]: true }));
+    try {
+      await cancelReservation(reservation.id, supabase);
+      await fetchReservations();
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Stornieren der Reservation');
+    } finally {
+      setActionInProgress((prev) => ({ ...prev, [reservation.id]: false }));
+    }
+  };
+
+  // Reservationen nach den Schulhäusern der Exemplare gruppieren. Ein Buch mit Exemplaren
+  // in mehreren Schulhäusern erscheint in jedem davon, weil jedes Exemplar die Rückstellung bedienen kann.
+  const schoolKeys = [...SCHOOLS, NO_SCHOOL];
+  const getCopySchools = (reservation: ReservationWithBook) =>
+    (reservation.books?.book_copies || [])
+      .map((copy) => copy.school)
+      .filter((school): school is string => !!school && SCHOOLS.includes(school));
+  const reservationsBySchool = schoolKeys.reduce<Record<string, ReservationWithBook[]>>((groups, school) => {
+    groups[school] = reservations.filter((reservation) => {
+      const copySchools = getCopySchools(reservation);
+      return school === NO_SCHOOL ? copySchools.length === 0 : copySchools.includes(school);
+    });
+    return groups;
+  }, {});
+
+  // Position innerhalb der Warteschlange des jeweiligen Buchs
+  const getQueuePosition = (reservation: ReservationWithBook) => {
+    if (reservation.status !== 'waiting') return 0;
+    return reservations
+      .filter((other) => other.book_id === reservation.book_id && other.status === 'waiting')
+      .findIndex((other) => other.id === reservation.id) + 1;
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '–';
+    return new Intl.DateTimeFormat('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    }).format(new Date(dateString));
+  };
+
+  const renderReservationList = (items: ReservationWithBook[]) => {
+    if (items.length === 0) {
+      return (
+        <div className="text-center py-8 text-gray-500">
+          Keine offenen Reservationen.
+        </div>
+      );
+    }
+
+    return (
+      <div className="rounded-md border divide-y bg-white">
+        {items.map((reservation) => {
+          const position = getQueuePosition(reservation);
+          const holdExpired = reservation.status === 'ready' && !isHoldActive(reservation);
+
+          return (
+            <div key={reservation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3">
+              <div className="flex flex-col">
+                <span className="font-medium text-blue-600">{reservation.books?.title || 'Unbekanntes Buch'}</span>
+                <div className="flex flex-wrap gap-x-4 mt-1 text-sm text-gray-500">
+                  <span>{reservation.user_name || reservation.user_id}</span>
+                  <span>Reserviert am {formatDate(reservation.created_at)}</span>
+                  {reservation.status === 'ready' && (
+                    <span>Zurückgelegt bis {formatDate(reservation.hold_until)}</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {position > 0 && (
+                  <Badge variant="outline">Platz {position}</Badge>
+                )}
+                <Badge variant={reservation.status === 'ready' ? 'default' : 'secondary'}>
+                  {RESERVATION_STATUS_LABELS[reservation.status as ReservationStatus] || reservation.status}
+                </Badge>
+                {holdExpired && (
+                  <Badge variant="destructive">Abgelaufen</Badge>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleCancel(reservation)}
+                  disabled={actionInProgress[reservation.id]}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Stornieren
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <DashboardHeader />
+      <div className="container py-4 px-2 sm:py-6 sm:px-4 max-w-6xl mx-auto">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-xl sm:text-2xl font-bold text-gray-800 flex items-center">
+                <CalendarClock className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+                Reservationen
+              </CardTitle>
+              <Button variant="outline" onClick={fetchReservations} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Aktualisieren
+              </Button>
+            </div>
+            <CardDescription>Alle offenen Reservationen, gruppiert nach Schulhaus der Exemplare</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <p className="text-gray-500">Reservationen werden geladen...</p>
+              </div>
+            ) : (
+              <Tabs defaultValue={SCHOOLS[0]}>
+                <TabsList className="flex flex-wrap h-auto">
+                  {schoolKeys.map((school) => (
+                    <TabsTrigger key={school} value={school}>
+                      {school} ({reservationsBySchool[school].length})
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {schoolKeys.map((school) => (
+                  <TabsContent key={school} value={school} className="mt-4">
+                    {renderReservationList(reservationsBySchool[school])}
+                  </TabsContent>
+                ))}
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default ReservationManagement;
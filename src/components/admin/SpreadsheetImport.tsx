@@ -0,0 +1,261 @@
+import { useMemo, useState, ChangeEvent } from 'react';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileSpreadsheet, Import, Info, Loader2, RotateCcw } from 'lucide-react';
+import {
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  readSpreadsheetFile,
+  guessColumnMapping,
+  buildImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type SpreadsheetData,
+} from '@/lib/book-import';
+import { startImportJob } from '@/lib/import-jobs';
+
+const NOT_MAPPED = 'none';
+
+interface SpreadsheetImportProps {
+  // Wird mit der ID des angelegten Import-Jobs aufgerufen
+  onJobStarted: (jobId: string) => void;
+  onError: (message: string) => void;
+}
+
+export function SpreadsheetImport({ onJobStarted, onError }: SpreadsheetImportProps) {
+  const supabase = useSupabase();
+  const [fileName, setFileName] = useState('');
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  // Vom Benutzer abgewählte Zeilen (Zeilennummern der Datei)
+  const [deselectedRows, setDeselectedRows] = useState<Set<number>>(new Set());
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const importRows = useMemo(
+    () => (spreadsheet && mapping ? buildImportRows(spreadsheet, mapping) : []),
+    [spreadsheet, mapping]
+  );
+  const isSelected = (rowNumber: number, status: string) => status !== 'invalid' && !deselectedRows.has(rowNumber);
+  const selectedRows = importRows.filter((row) => isSelected(row.rowNumber, row.status));
+
+  const stats = {
+    total: importRows.length,
+    complete: importRows.filter((row) => row.status === 'complete').length,
+    lookup: importRows.filter((row) => row.status === 'lookup').length,
+    invalid: importRows.filter((row) => row.status === 'invalid').length,
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const data = await readSpreadsheetFile(file);
+      setFileName(file.name);
+      setSpreadsheet(data);
+      setMapping(guessColumnMapping(data.headers));
+      setDeselectedRows(new Set());
+    } catch (err: any) {
+      console.error('Fehler beim Lesen der Datei:', err);
+      onError('Die Datei konnte nicht gelesen werden: ' + (err.message || err));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((current) => ({ ...current, [field]: value === NOT_MAPPED ? null : parseInt(value, 10) }));
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setDeselectedRows((current) => {
+      const next = new Set(current);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const reset = () => {
+    setSpreadsheet(null);
+    setMapping(null);
+    setFileName('');
+    setDeselectedRows(new Set());
+  };
+
+  const importSelectedRows = async () => {
+    setImporting(true);
+    try {
+      const jobId = await startImportJob({ books: selectedRows.map((row) => row.data) }, supabase);
+      reset();
+      onJobStarted(jobId);
+    } catch (err: any) {
+      console.error('Fehler beim Tabellenimport:', err);
+      onError('Fehler beim Import: ' + (err.message || err));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!spreadsheet || !mapping) {
+    return (
+      <div className="space-y-3 sm:space-y-4">
+        <div>
+          <Label htmlFor="spreadsheet-file" className="block text-sm font-medium mb-2">
+            Tabelle hochladen (CSV oder Excel):
+          </Label>
+          <Input
+            id="spreadsheet-file"
+            type="file"
+            accept=".csv,.txt,.xlsx"
+            onChange={handleFileChange}
+            disabled={reading}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            <Info className="h-3 w-3 inline mr-1" />
+            Die erste Zeile muss die Spaltenüberschriften enthalten. Zeilen mit Titel, Autor, Jahr, Fach und Stufe werden direkt importiert, bei unvollständigen Zeilen werden die fehlenden Angaben über die ISBN ergänzt.
+          </p>
+        </div>
+        {reading && (
+          <p className="text-sm text-gray-500 flex items-center">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Datei wird gelesen...
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <FileSpreadsheet className="h-4 w-4 text-blue-600" />
+          <span className="font-medium">{fileName}</span>
+        </div>
+        <div className="flex flex-wrap gap-1 sm:gap-2 text-xs sm:text-sm">
+          <Badge variant="outline" className="bg-white">Gesamt: {stats.total}</Badge>
+          <Badge variant="outline" className="bg-white text-green-700">Vollständig: {stats.complete}</Badge>
+          {stats.lookup > 0 && (
+            <Badge variant="outline" className="bg-white text-blue-700">Ergänzen per ISBN: {stats.lookup}</Badge>
+          )}
+          {stats.invalid > 0 && (
+            <Badge variant="outline" className="bg-white text-red-700">Fehler: {stats.invalid}</Badge>
+          )}
+          <Badge variant="default" className="bg-blue-600">Ausgewählt: {selectedRows.length}</Badge>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Spaltenzuordnung</h3>
+        <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3">
+          {IMPORT_FIELDS.map((definition) => (
+            <div key={definition.field} className="space-y-1">
+              <Label className="text-xs">
+                {definition.label}
+                {REQUIRED_IMPORT_FIELDS.includes(definition.field) && <span className="text-red-600 ml-0.5">*</span>}
+              </Label>
+              <Select
+                value={mapping[definition.field] === null ? NOT_MAPPED : String(mapping[definition.field])}
+                onValueChange={(value) => handleMappingChange(definition.field, value)}
+                disabled={importing}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>Nicht übernehmen</SelectItem>
+                  {spreadsheet.headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <ScrollArea className="h-[300px] sm:h-[400px] rounded-md border">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead className="w-12">Zeile</TableHead>
+              <TableHead>ISBN</TableHead>
+              <TableHead>Titel</TableHead>
+              <TableHead>Autor</TableHead>
+              <TableHead>Jahr</TableHead>
+              <TableHead>Fach</TableHead>
+              <TableHead>Stufe</TableHead>
+              <TableHead>Standort</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {importRows.map((row) => (
+              <TableRow key={row.rowNumber} className={row.status === 'invalid' ? 'bg-red-50' : ''}>
+                <TableCell>
+                  <Checkbox
+                    checked={isSelected(row.rowNumber, row.status)}
+                    onCheckedChange={() => toggleRow(row.rowNumber)}
+                    disabled={row.status === 'invalid' || importing}
+                  />
+                </TableCell>
+                <TableCell>{row.rowNumber}</TableCell>
+                <TableCell className="font-mono">{row.data.isbn || '–'}</TableCell>
+                <TableCell className="max-w-[200px] truncate">{row.data.title || '–'}</TableCell>
+                <TableCell className="max-w-[150px] truncate">{row.data.author || '–'}</TableCell>
+                <TableCell>{row.data.year || '–'}</TableCell>
+                <TableCell>{row.data.subject || '–'}</TableCell>
+                <TableCell>{row.data.level || '–'}</TableCell>
+                <TableCell>{[row.data.school, row.data.location].filter(Boolean).join(' · ') || '–'}</TableCell>
+                <TableCell>
+                  {row.status === 'complete' && <span className="text-green-700">Vollständig</span>}
+                  {row.status === 'lookup' && <span className="text-blue-700">Wird per ISBN ergänzt</span>}
+                  {row.status === 'invalid' && <span className="text-red-600">{row.errors.join('; ')}</span>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+
+      <div className="flex justify-between sm:justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={reset} disabled={importing} className="text-xs sm:text-sm h-8">
+          <RotateCcw className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
+          Andere Datei
+        </Button>
+        <Button
+          className="flex items-center text-xs sm:text-sm h-8"
+          onClick={importSelectedRows}
+          disabled={importing || selectedRows.length === 0}
+        >
+          {importing ? (
+            <>
+              <Loader2 className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 animate-spin" />
+              Importiere...
+            </>
+          ) : (
+            <>
+              <Import className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1" />
+              {selectedRows.length} importieren
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { DashboardHeader } from '../dashboard/DashboardHeader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { getTrashedBooks, restoreBooks, purgeBooks, type TrashedBook } from '@/lib/trash';
+import { getBookFileKeys } from '@/lib/book-files';
+import { deleteUnattachedPdfs } from '@/lib/api';
+import { useAuth } from '@/hooks/useAuth';
+
+export function TrashManagement() {
+  const supabase = useSupabase();
+  const { toast } = useToast();
+  const { getToken } = useAuth();
+  const [books, setBooks] = useState<TrashedBook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBooks = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setBooks(await getTrashedBooks(supabase));
+    } catch (err: any) {
+      setError(err.message || 'Fehler beim Laden des Papierkorbs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBooks();
+  }, [supabase]);
+
+  const handleRestore = async (book: TrashedBook) => {
+    setBusy(true);
+    try {
+      await restoreBooks([book.id], supabase);
+      setBooks((current) => current.filter((entry) => entry.id !== book.id));
+      toast({
+        title: "Erfolg",
+        description: `"${book.title}" ist wieder im Katalog.`,
+      });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || 'Das Buch konnte nicht wiederhergestellt werden',
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = async (toPurge: TrashedBook[]) => {
+    const question = toPurge.length === 1
+      ? `"${toPurge[0].title}" endgültig löschen? Exemplare, PDFs und Ausleih-Historie gehen verloren.`
+      : `Alle ${toPurge.length} Bücher im Papierkorb endgültig löschen? Exemplare, PDFs und Ausleih-Historie gehen verloren.`;
+    if (!window.confirm(question)) return;
+
+    setBusy(true);
+    try {
+      const ids = toPurge.map((book) => book.id);
+      // Die PDFs im Bucket erst nach dem Löschen entfernen, die Zuordnungen verschwinden mit den Büchern
+      const fileKeys = await getBookFileKeys(ids, supabase);
+      const count = await purgeBooks(ids, supabase);
+      setBooks((current) => current.filter((entry) => !ids.includes(entry.id)));
+
+      const warnings = fileKeys.length > 0
+        ? await deleteUnattachedPdfs(fileKeys, (await getToken()) || undefined)
+        : [];
+      toast({
+        title: "Erfolg",
+        description: (count === 1 ? 'Ein Buch wurde endgültig gelöscht.' : `${count} Bücher wurden endgültig gelöscht.`) +
+          (warnings.length > 0 ? ` ${warnings.length} PDF(s) konnten nicht gelöscht werden: ${warnings.join(', ')}` : ''),
+      });
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || 'Die Bücher konnten nicht gelöscht werden',
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '–';
+    return new Intl.DateTimeFormat('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    }).format(new Date(dateString));
+  };
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <DashboardHeader />
+      <div className="container py-4 px-2 sm:py-6 sm:px-4 max-w-6xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl sm:text-2xl font-bold text-gray-800 flex items-center">
+              <Trash2 className="mr-2 h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+              Papierkorb
+            </CardTitle>
+            <CardDescription>
+              Gelöschte Bücher erscheinen nicht mehr im Katalog, in der Suche und in den Zählern. Hier lassen sie sich wiederherstellen oder endgültig löschen.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button variant="destructive" onClick={() => handlePurge(books)} disabled={busy || books.length === 0}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Papierkorb leeren
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <p className="text-gray-500">Papierkorb wird geladen...</p>
+              </div>
+            ) : books.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                Der Papierkorb ist leer.
+              </div>
+            ) : (
+              <div className="rounded-md border bg-white">
+                <Table className="text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Titel</TableHead>
+                      <TableHead>ISBN</TableHead>
+                      <TableHead className="text-right">Exemplare</TableHead>
+                      <TableHead>Gelöscht am</TableHead>
+                      <TableHead className="text-right">Aktionen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {books.map((book) => (
+                      <TableRow key={book.id}>
+                        <TableCell className="max-w-[280px]">
+                          <div className="truncate font-medium">{book.title}</div>
+                          {book.author && <div className="text-xs text-gray-500 truncate">{book.author}</div>}
+                        </TableCell>
+                        <TableCell className="font-mono">{book.isbn || '–'}</TableCell>
+                        <TableCell className="text-right">{book.copy_count}</TableCell>
+                        <TableCell>
+                          {formatDate(book.deleted_at)}
+                          {book.deleted_by && <div className="text-xs text-gray-500 font-mono truncate max-w-[160px]">{book.deleted_by}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button size="sm" variant="outline" onClick={() => handleRestore(book)} disabled={busy}>
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Wiederherstellen
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => handlePurge([book])}
+                              disabled={busy}
+                              title="Endgültig löschen"
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default TrashManagement;
@@ -17,13 +17,17 @@ import {
   XCircle,
   SearchIcon,
   SlidersHorizontal,
-  RefreshCw
+  RefreshCw,
+  GraduationCap,
+  School
 } from 'lucide-react';
 import { DashboardHeader } from '../dashboard/DashboardHeader';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { SCHOOLS } from '@/lib/constants';
 import { Separator } from '@/components/ui/separator';
 import { 
   Tooltip,
@@ -66,6 +70,8 @@ export function UserManagement() {
   const [userToAction, setUserToAction] = useState<User | null>(null);
   const [isBlockDialogOpen, setIsBlockDialogOpen] = useState(false);
   const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
+  const [isSchoolsDialogOpen, setIsSchoolsDialogOpen] = useState(false);
+  const [selectedSchools, setSelectedSchools] = useState<string[]>([]);
 
   // Clerk Secret Key Prüfung entfernen - dieser sollte nur serverseitig geprüft werden
   // useEffect(() => {
@@ -126,6 +132,42 @@ export function UserManagement() {
     }
   };
   
+  // Lehrpersonen-Rolle umschalten (sieht PDFs mit Sichtbarkeit "Lehrpersonen")
+  const toggleUserTeacher = async (userId: string) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('clerk-users', {
+        body: {
+          action: 'toggle-role',
+          userId,
+          role: 'teacher'
+        }
+      });
+      
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw error;
+    }
+  };
+
+  // Schulhäuser setzen (PDFs mit Sichtbarkeit "Bestimmte Schulhäuser")
+  const setUserSchools = async (userId: string, schools: string[]) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('clerk-users', {
+        body: {
+          action: 'set-schools',
+          userId,
+          schools
+        }
+      });
+      
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw error;
+    }
+  };
+  
   // Benutzer sperren/entsperren
   const blockUnblockUser = async (userId: string, reason?: string) => {
     try {
@@ -226,6 +268,41 @@ export function UserManagement() {
     }
   };
 
+  const handleToggleTeacher = async (userId: string) => {
+    if (actionInProgress[userId]) return;
+    
+    try {
+      setActionInProgress(prev => ({ ...prev, [userId]: true }));
+      await toggleUserTeacher(userId);
+      
+      // Benutzerliste aktualisieren
+      const updatedUsers = await fetchUsers();
+      setUsers(updatedUsers);
+    } catch (err) {
+      setError(err.message || 'Fehler beim Ändern der Lehrpersonen-Rolle');
+    } finally {
+      setActionInProgress(prev => ({ ...prev, [userId]: false }));
+    }
+  };
+
+  const handleSaveSchools = async (userId: string, schools: string[]) => {
+    if (actionInProgress[userId]) return;
+    
+    try {
+      setActionInProgress(prev => ({ ...prev, [userId]: true }));
+      await setUserSchools(userId, schools);
+      setIsSchoolsDialogOpen(false);
+      
+      // Benutzerliste aktualisieren
+      const updatedUsers = await fetchUsers();
+      setUsers(updatedUsers);
+    } catch (err) {
+      setError(err.message || 'Fehler beim Setzen der Schulhäuser');
+    } finally {
+      setActionInProgress(prev => ({ ...prev, [userId]: false }));
+    }
+  };
+
   const handleToggleSuperAdmin = async (userId: string) => {
     if (!isSuperAdmin || actionInProgress[userId]) return;
     
@@ -438,6 +515,8 @@ export function UserManagement() {
                                 <><ShieldAlert className="h-3 w-3 mr-1" /> SuperAdmin</>
                               ) : role === 'admin' ? (
                                 <><Shield className="h-3 w-3 mr-1" /> Admin</>
+                              ) : role === 'teacher' ? (
+                                <><GraduationCap className="h-3 w-3 mr-1" /> Lehrperson</>
                               ) : (
                                 role
                               )}
@@ -461,6 +540,12 @@ export function UserManagement() {
                         )}
                       </Badge>
                       
+                      {userItem.schools?.length > 0 && (
+                        <span className="flex items-center text-xs text-gray-600">
+                          <School className="h-3 w-3 mr-1" /> {userItem.schools.join(', ')}
+                        </span>
+                      )}
+                      
                       {userItem.is_blocked && userItem.block_reason && (
                         <span className="text-red-600 text-xs max-w-full truncate">
                           Grund: {userItem.block_reason}
@@ -515,6 +600,31 @@ export function UserManagement() {
                             )}
                           </DropdownMenuItem>
                           
+                          {/* Nur eine Rolle pro Person: Admins würden sonst zur Lehrperson herabgestuft */}
+                          {!userItem.roles.includes('admin') && !userItem.roles.includes('superadmin') && (
+                            <DropdownMenuItem
+                              onClick={() => handleToggleTeacher(userItem.id)}
+                              disabled={actionInProgress[userItem.id]}
+                            >
+                              {userItem.roles.includes('teacher') ? (
+                                <><GraduationCap className="h-3.5 w-3.5 mr-2 text-red-500" /> Lehrperson entfernen</>
+                              ) : (
+                                <><GraduationCap className="h-3.5 w-3.5 mr-2 text-blue-500" /> Als Lehrperson</>
+                              )}
+                            </DropdownMenuItem>
+                          )}
+                          
+                          <DropdownMenuItem
+                            onClick={() => {
+                              setUserToAction(userItem);
+                              setSelectedSchools(userItem.schools || []);
+                              setIsSchoolsDialogOpen(true);
+                            }}
+                            disabled={actionInProgress[userItem.id]}
+                          >
+                            <School className="h-3.5 w-3.5 mr-2 text-blue-500" /> Schulhäuser
+                          </DropdownMenuItem>
+                          
                           <DropdownMenuItem
                             onClick={() => {
                               setUserToAction(userItem);
@@ -592,6 +702,44 @@ export function UserManagement() {
           </DialogContent>
         </Dialog>
         
+        {/* Schools Dialog */}
+        <Dialog open={isSchoolsDialogOpen} onOpenChange={setIsSchoolsDialogOpen}>
+          <DialogContent className="max-w-[90vw] sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Schulhäuser</DialogTitle>
+              <DialogDescription>
+                {`"${userToAction?.email}" sieht zusätzlich die PDFs, die für diese Schulhäuser freigegeben sind.`}
+              </DialogDescription>
+            </DialogHeader>
+            
+            <div className="py-4 space-y-2">
+              {SCHOOLS.map((school) => (
+                <label key={school} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedSchools.includes(school)}
+                    onCheckedChange={(checked) => setSelectedSchools((current) => (
+                      checked === true ? [...current, school] : current.filter((entry) => entry !== school)
+                    ))}
+                  />
+                  {school}
+                </label>
+              ))}
+            </div>
+            
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button variant="outline">Abbrechen</Button>
+              </DialogClose>
+              <Button 
+                variant="default"
+                onClick={() => userToAction && handleSaveSchools(userToAction.id, selectedSchools)}
+              >
+                Speichern
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+        
         {/* Reset Password Dialog */}
         <Dialog open={isResetDialogOpen} onOpenChange={setIsResetDialogOpen}>
           <DialogContent className="max-w-[90vw] sm:max-w-md">
@@ -9,17 +9,30 @@ import { X, Camera, Loader2 } from "lucide-react";
 import { BrowserMultiFormatReader, IScannerControls } from "@zxing/browser";
 import { BarcodeFormat, DecodeHintType } from "@zxing/library";
 import { useMediaQuery } from "@/hooks/use-media-query";
+import { parseCopyCode } from "@/lib/copies";
+import { parseIsbn } from "@/lib/isbn";
 import "./barcode-scanner.css";
 
 interface BarcodeScannerProps {
   onScan: (code: string) => void;
   onClose: () => void;
+  // "isbn": EAN-13 auf dem Buch, "copy": Exemplar-Etiketten (Code 128 / QR), "any": beides
+  mode?: "isbn" | "copy" | "any";
+  // Scanner bleibt nach einem Treffer offen (z.B. für Klassensätze)
+  continuous?: boolean;
 }
 
-export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
+// Mindestabstand, bevor derselbe Code im Dauerbetrieb erneut gemeldet wird
+const RESCAN_DELAY_MS = 2000;
+
+export function BarcodeScanner({ onScan, onClose, mode = "isbn", continuous = false }: BarcodeScannerProps) {
   const [error, setError] = useState<string>();
   const [isScanning, setIsScanning] = useState(false);
   const [codeDetected, setCodeDetected] = useState(false);
+  const [lastCode, setLastCode] = useState<string>();
+  // EAN-13-Code ohne ISBN (z.B. Spiel oder Händler-Etikett), wird im ISBN-Modus nur auf Nachfrage übernommen
+  const [nonIsbnCode, setNonIsbnCode] = useState<string>();
+  const lastScanRef = useRef<{ code: string; time: number } | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const readerRef = useRef<BrowserMultiFormatReader | null>(null);
   const controlsRef = useRef<IScannerControls | null>(null);
@@ -33,9 +46,14 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
         if (!videoRef.current) return;
         setIsScanning(true);
 
-        // Configure hints for EAN-13 barcodes
+        // Configure hints for EAN-13 barcodes or copy labels
         const hints = new Map();
-        hints.set(DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.EAN_13]);
+        const formats = {
+          isbn: [BarcodeFormat.EAN_13],
+          copy: [BarcodeFormat.CODE_128, BarcodeFormat.QR_CODE],
+          any: [BarcodeFormat.EAN_13, BarcodeFormat.CODE_128, BarcodeFormat.QR_CODE],
+        };
+        hints.set(DecodeHintType.POSSIBLE_FORMATS, formats[mode]);
         hints.set(DecodeHintType.TRY_HARDER, true);
 
         // Create reader instance with hints
@@ -56,9 +74,29 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
           (result, error) => {
             if (!mounted) return;
             if (result?.getText()) {
-              const code = result.getText();
-              console.log("Scanned code:", code);
-              if (code.length === 13) {
+              const text = result.getText().trim();
+              console.log("Scanned code:", text);
+              // Etiketten enthalten den Exemplar-Code oder einen Link darauf
+              const copyCode = mode === "isbn" ? null : parseCopyCode(text);
+              const code = copyCode || text;
+              // Fehllesungen (falsche Prüfziffer) ignorieren
+              const scannedIsbn = copyCode || mode === "copy" ? null : parseIsbn(text);
+              if (mode === "isbn" && scannedIsbn?.kind === "ean") {
+                setNonIsbnCode(text);
+                return;
+              }
+              const isValid = !!copyCode || scannedIsbn?.kind === "isbn13" || scannedIsbn?.kind === "ean";
+              if (isValid) setNonIsbnCode(undefined);
+              if (isValid && continuous) {
+                // Im Dauerbetrieb jeden Code melden, denselben Code aber nicht mehrfach hintereinander
+                const now = Date.now();
+                const last = lastScanRef.current;
+                if (!last || last.code !== code || now - last.time > RESCAN_DELAY_MS) {
+                  lastScanRef.current = { code, time: now };
+                  setLastCode(code);
+                  onScan(code);
+                }
+              } else if (isValid) {
                 setCodeDetected(true);
                 setTimeout(() => {
                   if (mounted) {
@@ -109,7 +147,7 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
         }
       }
     };
-  }, [onScan, onClose]);
+  }, [onScan, onClose, mode, continuous]);
 
   const dialogClass = isMobile 
     ? "!p-0 !pt-2 max-w-[95vw] sm:max-w-[425px] h-[90vh] sm:h-auto flex flex-col" 
@@ -119,7 +157,7 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
     <DialogContent className={dialogClass}>
       <div className="flex justify-between items-center mb-2 px-4">
         <DialogTitle className="text-lg font-semibold">
-          ISBN Scanner
+          {mode === "isbn" ? "ISBN Scanner" : "Exemplar-Scanner"}
         </DialogTitle>
       </div>
       <div className={`relative ${isMobile ? 'flex-1' : 'aspect-[4/3]'} bg-gray-100 rounded-lg overflow-hidden`}>
@@ -165,6 +203,25 @@ export function BarcodeScanner({ onScan, onClose }: BarcodeScannerProps) {
                     </p>
                   </div>
                 </div>
+                {nonIsbnCode && (
+                  <div className="absolute bottom-4 left-4 right-4">
+                    <div className="bg-white/95 rounded-lg shadow p-3 text-center space-y-2">
+                      <p className="text-xs">
+                        Der Barcode {nonIsbnCode} ist keine ISBN. Bitte den ISBN-Barcode (beginnt mit 978 oder 979) scannen.
+                      </p>
+                      <Button size="sm" variant="outline" onClick={() => onScan(nonIsbnCode)}>
+                        Trotzdem übernehmen
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                {continuous && lastCode && !nonIsbnCode && (
+                  <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+                    <div className="bg-white/90 px-3 py-1.5 rounded-full shadow">
+                      <p className="text-xs font-medium">Zuletzt erkannt: {lastCode}</p>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </>
@@ -1,12 +1,48 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogTitle, DialogClose, DialogDescription } from "@/components/ui/dialog";
 import { useToast } from "@/components/ui/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useSupabase } from '@/contexts/SupabaseContext';
 import type { FetchedBook, Book as FullBookType } from "../dashboard/BookManagement";
-import { ArrowLeft, X, ChevronLeft, MessageCircle } from "lucide-react";
+import {
+  borrowBook,
+  returnLoan,
+  getOpenLoans,
+  getLoanHistory,
+  getBorrowerDisplayName,
+  isLoanOverdue,
+  updateLoanDueDate,
+  type Loan,
+} from "@/lib/loans";
+import {
+  getReservationQueue,
+  createReservation,
+  cancelReservation,
+  isHoldActive,
+  type Reservation,
+} from "@/lib/reservations";
+import { getCopies, addCopies, deleteCopy, formatCopyAvailability, type BookCopy } from "@/lib/copies";
+import {
+  getBookFiles,
+  attachBookFile,
+  getBookFileLabel,
+  getPdfChatPath,
+  getDefaultVisibility,
+  canAccessBookFile,
+  BOOK_FILE_KIND_LABELS,
+  BOOK_FILE_VISIBILITY_LABELS,
+  type BookFile,
+  type BookFileKind,
+  type BookFileVisibility,
+} from "@/lib/book-files";
+import { fetchAllPdfs, deleteBookPdf, type ListedPdf } from "@/lib/api";
+import { ClassSetLoanDialog } from "./ClassSetLoanDialog";
+import { BookFileVisibilityFields } from "./BookFileVisibilityFields";
+import { ArrowLeft, X, ChevronLeft, FileText, MessageCircle, Plus, Trash2, Users } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
 interface BookDetailsProps {
@@ -14,6 +50,8 @@ interface BookDetailsProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onBookChange?: () => void;
+  // Hervorgehobenes Exemplar (z.B. nach dem Scannen eines Etiketts)
+  highlightCopyId?: string;
 }
 
 function BookDetails({
@@ -21,13 +59,30 @@ function BookDetails({
   open,
   onOpenChange,
   onBookChange,
+  highlightCopyId,
 }: BookDetailsProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [isDataLoading, setIsDataLoading] = useState(true);
   const [bookData, setBookData] = useState<FetchedBook | null>(null);
+  const [openLoans, setOpenLoans] = useState<Loan[]>([]);
+  const [loanHistory, setLoanHistory] = useState<Loan[]>([]);
+  const [loansLoaded, setLoansLoaded] = useState(false);
+  const [dueDateInputs, setDueDateInputs] = useState<Record<string, string>>({});
+  const [copies, setCopies] = useState<BookCopy[]>([]);
+  const [copiesLoaded, setCopiesLoaded] = useState(false);
+  const [reservationQueue, setReservationQueue] = useState<Reservation[]>([]);
+  const [files, setFiles] = useState<BookFile[]>([]);
+  const [filesLoaded, setFilesLoaded] = useState(false);
+  // Admins: PDFs im R2-Bucket, die zugeordnet werden können
+  const [bucketPdfs, setBucketPdfs] = useState<ListedPdf[]>([]);
+  const [newFileKey, setNewFileKey] = useState("");
+  const [newFileKind, setNewFileKind] = useState<BookFileKind>("student_book");
+  const [newFileVisibility, setNewFileVisibility] = useState<BookFileVisibility>("public");
+  const [newFileSchools, setNewFileSchools] = useState<string[]>([]);
+  const [showClassSetDialog, setShowClassSetDialog] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, isAdmin, getToken, userRole, userSchools } = useAuth();
   const supabase = useSupabase();
   const navigate = useNavigate();
 
@@ -51,50 +106,145 @@ function BookDetails({
   useEffect(() => {
     if (!open || !initialBook?.id) return;
     
-    const fetchCompleteBookData = async () => {
+    fetchCompleteBookData(initialBook.id);
+    loadLoans(initialBook.id);
+    loadCopies(initialBook.id);
+    loadReservations(initialBook.id);
+    loadFiles(initialBook.id);
+  }, [initialBook?.id, open, supabase]);
+
+  // Admins brauchen die Liste der PDFs im Bucket zum Zuordnen
+  useEffect(() => {
+    if (!open || !isAdmin) return;
+
+    const loadBucketPdfs = async () => {
       try {
-        setIsDataLoading(true);
-        
-        // Direktes Laden aus der Datenbank mit Fokus auf Verfügbarkeit
-        const { data, error } = await supabase
-          .from("books")
-          .select("id, title, author, isbn, year, location, subject, level, type, publisher, description, available, borrowed_at, borrowed_by, has_pdf")
-          .eq("id", initialBook.id)
-          .single();
-          
-        if (error) {
-          // Fallback auf initialBook bei Fehler
-          setBookData(initialBook);
-          return;
-        }
-        
-        if (data) {
-          setBookData(data as unknown as FetchedBook);
-        } else {
-          setBookData(initialBook);
-        }
+        const token = await getToken();
+        const bucketFiles = await fetchAllPdfs(token || undefined);
+        setBucketPdfs(bucketFiles.filter((file) => file.name.toLowerCase().endsWith(".pdf")));
       } catch (err) {
-        setBookData(initialBook);
-      } finally {
-        setIsDataLoading(false);
+        setBucketPdfs([]);
       }
     };
-    
-    fetchCompleteBookData();
-  }, [initialBook?.id, open, supabase]);
+
+    loadBucketPdfs();
+  }, [open, isAdmin]);
+
+  const fetchCompleteBookData = async (bookId: string) => {
+    try {
+      setIsDataLoading(true);
+      
+      // Direktes Laden aus der Datenbank mit Fokus auf Verfügbarkeit
+      const { data, error } = await supabase
+        .from("books")
+        .select("id, title, author, isbn, year, location, school, subject, level, type, publisher, description, available, copy_count, available_count, borrowed_at, borrowed_by, has_pdf")
+        .eq("id", bookId)
+        .single();
+        
+      if (error) {
+        // Fallback auf initialBook bei Fehler
+        setBookData(initialBook);
+        return;
+      }
+      
+      if (data) {
+        setBookData(data as unknown as FetchedBook);
+      } else {
+        setBookData(initialBook);
+      }
+    } catch (err) {
+      setBookData(initialBook);
+    } finally {
+      setIsDataLoading(false);
+    }
+  };
+
+  // Lade offene Ausleihen und Ausleih-Verlauf
+  const loadLoans = async (bookId: string) => {
+    try {
+      const [currentLoans, history] = await Promise.all([
+        getOpenLoans(bookId, supabase),
+        getLoanHistory(bookId, supabase),
+      ]);
+      setOpenLoans(currentLoans);
+      setLoanHistory(history);
+      setDueDateInputs(
+        Object.fromEntries(currentLoans.map((loan) => [loan.id, loan.due_at ? loan.due_at.slice(0, 10) : ""]))
+      );
+      setLoansLoaded(true);
+    } catch (err) {
+      // Fallback auf die Spalten in books
+      setOpenLoans([]);
+      setLoanHistory([]);
+      setLoansLoaded(false);
+    }
+  };
+
+  // Lade die physischen Exemplare
+  const loadCopies = async (bookId: string) => {
+    try {
+      setCopies(await getCopies(bookId, supabase));
+      setCopiesLoaded(true);
+    } catch (err) {
+      setCopies([]);
+      setCopiesLoaded(false);
+    }
+  };
+
+  // Lade die zugeordneten Dateien (PDFs)
+  const loadFiles = async (bookId: string) => {
+    try {
+      setFiles(await getBookFiles(bookId, supabase));
+      setFilesLoaded(true);
+    } catch (err) {
+      // Fallback auf has_pdf
+      setFiles([]);
+      setFilesLoaded(false);
+    }
+  };
+
+  // Lade die Warteschlange der Reservationen
+  const loadReservations = async (bookId: string) => {
+    try {
+      setReservationQueue(await getReservationQueue(bookId, supabase));
+    } catch (err) {
+      setReservationQueue([]);
+    }
+  };
 
   // Wenn keine Daten geladen sind, zeige initialBook
   const book = bookData || initialBook;
   
-  // Bestimme den Verfügbarkeitsstatus eindeutig
-  // Explizite Konvertierung zu Boolean für konsistente Behandlung
-  const isAvailable = bookData ? Boolean(bookData.available) : Boolean(initialBook.available);
+  // Verfügbarkeit ergibt sich aus den Exemplaren, die Zähler in books dienen als Fallback
+  const totalCopies = copiesLoaded ? copies.length : book.copy_count ?? 1;
+  const freeCopies = copiesLoaded
+    ? copies.filter((copy) => copy.available).length
+    : book.available_count ?? (book.available ? 1 : 0);
+  const isAvailable = freeCopies > 0;
   
-  // PDF verfügbar?
-  const hasPdf = bookData ? Boolean(bookData.has_pdf) : Boolean(initialBook.has_pdf);
+  // PDF verfügbar? has_pdf deckt Einträge ab, deren PDF noch nicht zugeordnet ist
+  // Nur Dateien, die die Person im PDF-Chat öffnen darf; PDFs ohne Zuordnung sehen nur Admins
+  const visibleFiles = files.filter((file) => canAccessBookFile(file, { role: userRole, schools: userSchools }));
+  const hasPdf = visibleFiles.length > 0 || (isAdmin && Boolean(book.has_pdf));
   
-  // Check if the current user is the one who borrowed the book
-  const isBookBorrowedByCurrentUser = book.borrowed_by === user?.id;
+  // Eigene offene Ausleihe (ein Exemplar dieses Buchs)
+  const myOpenLoan = openLoans.find((loan) => loan.borrower_id === user?.id) || null;
+  const isBookBorrowedByCurrentUser = loansLoaded
+    ? !!myOpenLoan
+    : book.borrowed_by === user?.id;
+
+  // Reservationen: eigene Reservation, Position in der Warteschlange und aktive Rückstellungen
+  const myReservation = reservationQueue.find((reservation) => reservation.user_id === user?.id) || null;
+  const waitingQueue = reservationQueue.filter((reservation) => reservation.status === "waiting");
+  const myQueuePosition = myReservation?.status === "waiting"
+    ? waitingQueue.findIndex((reservation) => reservation.id === myReservation.id) + 1
+    : 0;
+  const holdsForOthers = reservationQueue.filter(
+    (reservation) => isHoldActive(reservation) && reservation.user_id !== user?.id
+  );
+  // Alle freien Exemplare sind für andere Personen zurückgelegt
+  const isHeldForOtherUser = isAvailable && holdsForOthers.length >= freeCopies;
+  const canReserve = !!user && !myReservation && !isBookBorrowedByCurrentUser && (!isAvailable || isHeldForOtherUser);
 
   const handleAvailabilityToggle = async () => {
     if (!user) {
@@ -106,47 +256,185 @@ function BookDetails({
       return;
     }
 
-    if (!isAvailable && !isBookBorrowedByCurrentUser) {
+    const isReturn = isBookBorrowedByCurrentUser;
+
+    if (!isReturn && !isAvailable) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Dieses Buch wurde von einem anderen Benutzer ausgeliehen.",
+        description: "Alle Exemplare dieses Buchs sind ausgeliehen.",
+      });
+      return;
+    }
+
+    if (!isReturn && isHeldForOtherUser && !isAdmin) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Dieses Buch ist für eine andere Person zurückgelegt.",
       });
       return;
     }
 
     setIsLoading(true);
     try {
-      const updateData = isAvailable
-        ? {
-            available: false,
-            borrowed_at: new Date().toISOString(),
-            borrowed_by: user.id,
-          }
-        : {
-            available: true,
-            borrowed_at: null,
-            borrowed_by: null,
-          };
-      
-      const { error } = await supabase
-        .from("books")
-        .update(updateData)
-        .eq("id", book.id);
-        
-      if (error) throw error;
-
-      // Aktualisiere lokalen Status
-      if (bookData) {
-        setBookData({
-          ...bookData,
-          ...updateData,
-        });
+      if (isReturn) {
+        // Offene Ausleihe nachladen, falls sie noch nicht bekannt ist
+        const loan = myOpenLoan
+          || (await getOpenLoans(book.id, supabase)).find((openLoan) => openLoan.borrower_id === user.id);
+        if (!loan) {
+          throw new Error("Keine offene Ausleihe gefunden.");
+        }
+        await returnLoan(loan.id, supabase);
+      } else {
+        // Die Datenbank wählt ein freies Exemplar und setzt das Rückgabedatum
+        await borrowBook(
+          book.id,
+          {
+            borrowerId: user.id,
+            borrowerName: getBorrowerDisplayName(user),
+          },
+          supabase
+        );
+      }
+
+      // Exemplare und Buch werden per Trigger nachgeführt
+      await Promise.all([
+        fetchCompleteBookData(book.id),
+        loadLoans(book.id),
+        loadCopies(book.id),
+        loadReservations(book.id),
+      ]);
+
+      toast({
+        title: "Erfolg",
+        description: `Buch erfolgreich ${isReturn ? "zurückgegeben" : "ausgeliehen"}.`,
+      });
+
+      if (onBookChange) {
+        onBookChange();
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Fehler beim ${isReturn ? "Zurückgeben" : "Ausleihen"} des Buchs.`,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReserve = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      await createReservation(book.id, { userId: user.id, userName: getBorrowerDisplayName(user) }, supabase);
+      await loadReservations(book.id);
+
+      toast({
+        title: "Erfolg",
+        description: "Buch wurde für Sie reserviert.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Fehler beim Reservieren des Buchs.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelReservation = async () => {
+    if (!myReservation) return;
+
+    setIsLoading(true);
+    try {
+      await cancelReservation(myReservation.id, supabase);
+      await loadReservations(book.id);
+
+      toast({
+        title: "Erfolg",
+        description: "Reservation wurde storniert.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Fehler beim Stornieren der Reservation.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Admins können das Rückgabedatum einer laufenden Ausleihe anpassen
+  const handleDueDateSave = async (loan: Loan) => {
+    const dueDateInput = dueDateInputs[loan.id];
+    if (!dueDateInput) return;
+
+    setIsLoading(true);
+    try {
+      const dueDate = new Date(`${dueDateInput}T23:59:59`);
+      const updatedLoan = await updateLoanDueDate(loan.id, dueDate.toISOString(), supabase);
+      setOpenLoans((loans) => loans.map((openLoan) => (openLoan.id === updatedLoan.id ? updatedLoan : openLoan)));
+      setLoanHistory((history) => history.map((entry) => (entry.id === updatedLoan.id ? updatedLoan : entry)));
+
+      toast({
+        title: "Erfolg",
+        description: "Rückgabedatum wurde aktualisiert.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Fehler beim Aktualisieren des Rückgabedatums.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Admins können Exemplare hinzufügen und freie Exemplare entfernen
+  const handleAddCopy = async () => {
+    setIsLoading(true);
+    try {
+      await addCopies(book.id, 1, { location: book.location, school: book.school }, supabase);
+      await Promise.all([fetchCompleteBookData(book.id), loadCopies(book.id)]);
+
+      toast({
+        title: "Erfolg",
+        description: "Exemplar wurde hinzugefügt.",
+      });
+
+      if (onBookChange) {
+        onBookChange();
       }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Fehler beim Hinzufügen des Exemplars.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteCopy = async (copy: BookCopy) => {
+    if (!window.confirm(`Exemplar ${copy.barcode} wirklich entfernen?`)) return;
+
+    setIsLoading(true);
+    try {
+      await deleteCopy(copy.id, supabase);
+      await Promise.all([fetchCompleteBookData(book.id), loadCopies(book.id)]);
 
       toast({
         title: "Erfolg",
-        description: `Buch erfolgreich ${isAvailable ? "ausgeliehen" : "zurückgegeben"}.`,
+        description: "Exemplar wurde entfernt.",
       });
 
       if (onBookChange) {
@@ -156,18 +444,105 @@ function BookDetails({
       toast({
         variant: "destructive",
         title: "Error",
-        description: `Fehler beim ${isAvailable ? "Ausleihen" : "Zurückgeben"} des Buchs.`,
+        description: "Fehler beim Entfernen des Exemplars.",
       });
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Handler für das Öffnen des PDF-Chats
-  const handleOpenPdfChat = () => {
+  // Admins ordnen PDFs aus dem R2-Bucket zu oder löschen sie
+  const handleAttachFile = async () => {
+    const bucketFile = bucketPdfs.find((file) => file.name === newFileKey);
+    if (!bucketFile) return;
+    if (newFileVisibility === "schools" && newFileSchools.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Bitte mindestens ein Schulhaus auswählen.",
+      });
+      return;
+    }
+
+    setIsLoading(true);
     try {
-      // Direkt zur neuen Chat-Route navigieren mit der Buch-ID
-      navigate(`/chat/${book.id}`);
+      await attachBookFile({
+        book_id: book.id,
+        key: bucketFile.name,
+        kind: newFileKind,
+        visibility: newFileVisibility,
+        schools: newFileVisibility === "schools" ? newFileSchools : [],
+        size: bucketFile.size ?? null,
+        etag: bucketFile.etag ?? null,
+      }, supabase);
+      await Promise.all([fetchCompleteBookData(book.id), loadFiles(book.id)]);
+      setNewFileKey("");
+
+      toast({
+        title: "Erfolg",
+        description: "Datei wurde zugeordnet.",
+      });
+
+      if (onBookChange) {
+        onBookChange();
+      }
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error?.message || "Fehler beim Zuordnen der Datei.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteFile = async (file: BookFile) => {
+    if (!window.confirm(`"${getBookFileLabel(file)}" (${file.key}) endgültig löschen?`)) return;
+
+    setIsLoading(true);
+    try {
+      const token = await getToken();
+      await deleteBookPdf(file.id, token || undefined);
+      await Promise.all([fetchCompleteBookData(book.id), loadFiles(book.id)]);
+
+      toast({
+        title: "Erfolg",
+        description: "PDF wurde gelöscht.",
+      });
+
+      if (onBookChange) {
+        onBookChange();
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Fehler beim Löschen des PDFs.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Nach einer Klassensatz-Ausleihe oder -Rückgabe alles neu laden
+  const handleClassSetChange = async () => {
+    await Promise.all([
+      fetchCompleteBookData(book.id),
+      loadLoans(book.id),
+      loadCopies(book.id),
+      loadReservations(book.id),
+    ]);
+
+    if (onBookChange) {
+      onBookChange();
+    }
+  };
+
+  // Handler für das Öffnen des PDF-Chats, ohne Angabe mit der ersten Datei
+  const handleOpenPdfChat = (file?: BookFile) => {
+    try {
+      navigate(getPdfChatPath(book.id, file ?? visibleFiles[0]));
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -178,7 +553,304 @@ function BookDetails({
   };
 
   const isButtonDisabled =
-    isLoading || isDataLoading || (!isAvailable && !isBookBorrowedByCurrentUser);
+    isLoading || isDataLoading || (!isBookBorrowedByCurrentUser && (!isAvailable || (isHeldForOtherUser && !isAdmin)));
+
+  const availabilityButtonLabel = isBookBorrowedByCurrentUser
+    ? "Zurückgeben"
+    : isAvailable
+      ? isHeldForOtherUser ? "Zurückgelegt" : "Ausleihen"
+      : "Ausgeliehen";
+
+  const availabilityBadgeLabel = isHeldForOtherUser
+    ? "Zurückgelegt"
+    : formatCopyAvailability({ copy_count: totalCopies, available_count: freeCopies });
+
+  // Angaben zur eigenen Ausleihe
+  const loanInfo = myOpenLoan && (
+    <>
+      <p className="text-gray-600">
+        Von Ihnen ausgeliehen am: <span className="font-medium">{new Date(myOpenLoan.checked_out_at).toLocaleDateString()}</span>
+      </p>
+      {myOpenLoan.due_at && (
+        <p className="text-gray-600 mt-1">
+          Rückgabe bis: <span className="font-medium">{new Date(myOpenLoan.due_at).toLocaleDateString()}</span>
+          {isLoanOverdue(myOpenLoan) && (
+            <Badge variant="destructive" className="ml-2">Überfällig</Badge>
+          )}
+        </p>
+      )}
+      {copies.find((copy) => copy.id === myOpenLoan.copy_id) && (
+        <p className="text-gray-600 mt-1">
+          Exemplar: <span className="font-medium">{copies.find((copy) => copy.id === myOpenLoan.copy_id)?.barcode}</span>
+        </p>
+      )}
+    </>
+  );
+
+  // Liste der Exemplare mit Status
+  const copyList = (
+    <>
+      <ul className="divide-y divide-gray-200">
+        {copies.map((copy) => {
+          const loan = openLoans.find((openLoan) => openLoan.copy_id === copy.id);
+
+          return (
+            <li
+              key={copy.id}
+              className={`py-2 first:pt-0 last:pb-0 ${copy.id === highlightCopyId ? "bg-yellow-50 -mx-2 px-2 rounded" : ""}`}
+            >
+              <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-700">{copy.barcode}</p>
+                  <p className="text-gray-500 text-xs truncate">
+                    {[copy.school, copy.location].filter(Boolean).join(" · ") || "Kein Standort"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {loan ? (
+                    <span className="text-gray-600 text-right">
+                      {loan.borrower_id === user?.id ? "Sie" : loan.borrower_name || "Ausgeliehen"}
+                      {loan.due_at && ` · bis ${new Date(loan.due_at).toLocaleDateString()}`}
+                      {isLoanOverdue(loan) && (
+                        <Badge variant="destructive" className="ml-2">Überfällig</Badge>
+                      )}
+                    </span>
+                  ) : (
+                    <Badge variant={copy.available ? "default" : "secondary"}>
+                      {copy.available ? "Verfügbar" : "Nicht verfügbar"}
+                    </Badge>
+                  )}
+                  {isAdmin && !loan && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-red-500 hover:text-red-700 hover:bg-red-100"
+                      onClick={() => handleDeleteCopy(copy)}
+                      disabled={isLoading}
+                      aria-label={`Exemplar ${copy.barcode} entfernen`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {isAdmin && loan && (
+                <div className="flex items-center gap-2 mt-2">
+                  <Input
+                    type="date"
+                    value={dueDateInputs[loan.id] || ""}
+                    onChange={(e) => setDueDateInputs((inputs) => ({ ...inputs, [loan.id]: e.target.value }))}
+                    className="h-8 w-auto bg-white"
+                    aria-label="Rückgabedatum"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDueDateSave(loan)}
+                    disabled={isLoading || !dueDateInputs[loan.id]}
+                  >
+                    Datum ändern
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {(isAdmin || (user && copies.length > 1)) && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {user && copies.length > 1 && (
+            <Button size="sm" variant="outline" onClick={() => setShowClassSetDialog(true)} disabled={isLoading}>
+              <Users className="h-4 w-4 mr-1" />
+              Klassensatz
+            </Button>
+          )}
+          {isAdmin && (
+            <Button size="sm" variant="outline" onClick={handleAddCopy} disabled={isLoading}>
+              <Plus className="h-4 w-4 mr-1" />
+              Exemplar hinzufügen
+            </Button>
+          )}
+        </div>
+      )}
+    </>
+  );
+
+  const showCopySection = copiesLoaded && (copies.length > 0 || isAdmin);
+
+  // Dateien des Buchs; zur Auswahl stehen nur PDFs ohne Buch, passende (ISBN im Namen) zuoberst
+  const attachablePdfs = bucketPdfs
+    .filter((file) => !file.bookId && !files.some((attached) => attached.key === file.name))
+    .sort((a, b) => Number(!!book.isbn && b.name.includes(book.isbn)) - Number(!!book.isbn && a.name.includes(book.isbn)));
+
+  const fileList = (
+    <>
+      {visibleFiles.length > 0 ? (
+        <ul className="divide-y divide-gray-200">
+          {visibleFiles.map((file) => (
+            <li key={file.id} className="py-2 first:pt-0 last:pb-0">
+              <div className="flex justify-between items-center gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-700">{getBookFileLabel(file)}</p>
+                  <p className="text-gray-500 text-xs truncate">
+                    {[
+                      file.key,
+                      file.page_count ? `${file.page_count} Seiten` : null,
+                      file.size ? `${(file.size / 1024 / 1024).toFixed(1)} MB` : null,
+                      isAdmin && file.visibility !== "public"
+                        ? file.visibility === "schools"
+                          ? file.schools.join(", ")
+                          : BOOK_FILE_VISIBILITY_LABELS[file.visibility as BookFileVisibility]
+                        : null,
+                    ].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 px-2 bg-blue-50 hover:bg-blue-100 text-blue-600"
+                    onClick={() => handleOpenPdfChat(file)}
+                  >
+                    <MessageCircle className="h-3.5 w-3.5 mr-1" />
+                    Chat
+                  </Button>
+                  {isAdmin && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-red-500 hover:text-red-700 hover:bg-red-100"
+                      onClick={() => handleDeleteFile(file)}
+                      disabled={isLoading}
+                      aria-label={`${getBookFileLabel(file)} löschen`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500">
+          {isAdmin && book.has_pdf ? "Das PDF ist noch keiner Datei zugeordnet." : "Keine Dateien zugeordnet."}
+        </p>
+      )}
+      {isAdmin && (
+        <div className="mt-3 flex flex-col sm:flex-row gap-2">
+          <Select value={newFileKey} onValueChange={setNewFileKey}>
+            <SelectTrigger className="h-8 bg-white sm:flex-1 min-w-0">
+              <SelectValue placeholder="PDF aus dem Speicher wählen" />
+            </SelectTrigger>
+            <SelectContent>
+              {attachablePdfs.map((file) => (
+                <SelectItem key={file.name} value={file.name}>{file.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={newFileKind}
+            onValueChange={(value) => {
+              setNewFileKind(value as BookFileKind);
+              setNewFileVisibility(getDefaultVisibility(value as BookFileKind));
+            }}
+          >
+            <SelectTrigger className="h-8 bg-white sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(BOOK_FILE_KIND_LABELS).map(([kind, label]) => (
+                <SelectItem key={kind} value={kind}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={handleAttachFile} disabled={isLoading || !newFileKey}>
+            <FileText className="h-4 w-4 mr-1" />
+            Zuordnen
+          </Button>
+        </div>
+      )}
+      {isAdmin && newFileKey && (
+        <BookFileVisibilityFields
+          visibility={newFileVisibility}
+          schools={newFileSchools}
+          onChange={(visibility, schools) => {
+            setNewFileVisibility(visibility);
+            setNewFileSchools(schools);
+          }}
+          disabled={isLoading}
+          className="mt-2 sm:max-w-xs"
+        />
+      )}
+    </>
+  );
+
+  const showFileSection = filesLoaded && (visibleFiles.length > 0 || isAdmin);
+
+  // Warteliste / Reservation
+  const reservationInfo = (
+    <>
+      {myReservation && isHoldActive(myReservation) ? (
+        <p className="text-gray-600">
+          Für Sie zurückgelegt bis:{" "}
+          <span className="font-medium">
+            {myReservation.hold_until ? new Date(myReservation.hold_until).toLocaleDateString() : "–"}
+          </span>
+        </p>
+      ) : myQueuePosition > 0 ? (
+        <p className="text-gray-600">
+          Sie sind auf <span className="font-medium">Platz {myQueuePosition}</span> der Warteliste.
+        </p>
+      ) : (
+        <p className="text-gray-600">
+          {waitingQueue.length === 0
+            ? "Niemand wartet auf dieses Buch."
+            : `${waitingQueue.length} ${waitingQueue.length === 1 ? "Person wartet" : "Personen warten"} auf dieses Buch.`}
+        </p>
+      )}
+      {isHeldForOtherUser && (
+        <p className="text-gray-600 mt-1">
+          Zurückgelegt für: <span className="font-medium">
+            {holdsForOthers.map((reservation) => reservation.user_name || "eine andere Person").join(", ")}
+          </span>
+        </p>
+      )}
+      {(canReserve || myReservation) && (
+        <div className="mt-3">
+          {myReservation ? (
+            <Button size="sm" variant="outline" onClick={handleCancelReservation} disabled={isLoading}>
+              Reservation stornieren
+            </Button>
+          ) : (
+            <Button size="sm" onClick={handleReserve} disabled={isLoading || isDataLoading}>
+              Reservieren
+            </Button>
+          )}
+        </div>
+      )}
+    </>
+  );
+
+  const showReservationSection = canReserve || reservationQueue.length > 0;
+
+  // Verlauf der bisherigen Ausleihen
+  const loanHistoryList = (
+    <ul className="divide-y divide-gray-200">
+      {loanHistory.map((loan) => (
+        <li key={loan.id} className="py-2 first:pt-0 last:pb-0 flex justify-between gap-4">
+          <span className="font-medium text-gray-700 truncate">
+            {loan.borrower_id === user?.id ? "Sie" : loan.borrower_name || "Unbekannt"}
+          </span>
+          <span className="text-gray-600 whitespace-nowrap">
+            {new Date(loan.checked_out_at).toLocaleDateString()}
+            {" – "}
+            {loan.returned_at ? new Date(loan.returned_at).toLocaleDateString() : "heute"}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
 
   // Mobile Header Komponente
   const MobileHeader = () => (
@@ -194,7 +866,7 @@ function BookDetails({
         <div className="flex gap-2">
           {hasPdf && (
             <Button
-              onClick={handleOpenPdfChat}
+              onClick={() => handleOpenPdfChat()}
               variant="outline"
               size="sm"
               className="bg-blue-50 hover:bg-blue-100 text-blue-600"
@@ -212,11 +884,7 @@ function BookDetails({
             {(isLoading || isDataLoading) && (
               <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-b-transparent" />
             )}
-            {isAvailable
-              ? "Ausleihen"
-              : isBookBorrowedByCurrentUser
-                ? "Zurückgeben"
-                : "Ausgeliehen"}
+            {availabilityButtonLabel}
           </Button>
         </div>
       </div>
@@ -224,53 +892,189 @@ function BookDetails({
   );
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent 
-        className={`
-          ${isMobile 
-            ? 'w-full h-[100vh] max-h-[100vh] max-w-full p-0 m-0 rounded-none inset-0 translate-x-0 translate-y-0 top-0 left-0' 
-            : 'sm:max-w-[600px] max-h-[90vh]'
-          } overflow-y-auto p-0
-        `}
-        style={isMobile ? {
-          position: 'fixed',
-          transform: 'none',
-          height: '100dvh',
-          overflowY: 'auto',
-          display: 'flex',
-          flexDirection: 'column'
-        } : {}}
-      >
-        <DialogDescription className="sr-only">
-          Detailansicht für das Buch {book.title} von {book.author}
-        </DialogDescription>
-        {isMobile ? (
-          <>
-            <MobileHeader />
-            <div className="pt-14 pb-6 flex-1 overflow-y-auto">
-              {/* Mobile Titel & Autor Bereich */}
-              <div className="px-4 py-5">
-                <h1 className="text-2xl font-bold">{book.title}</h1>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent 
+          className={`
+            ${isMobile 
+              ? 'w-full h-[100vh] max-h-[100vh] max-w-full p-0 m-0 rounded-none inset-0 translate-x-0 translate-y-0 top-0 left-0' 
+              : 'sm:max-w-[600px] max-h-[90vh]'
+            } overflow-y-auto p-0
+          `}
+          style={isMobile ? {
+            position: 'fixed',
+            transform: 'none',
+            height: '100dvh',
+            overflowY: 'auto',
+            display: 'flex',
+            flexDirection: 'column'
+          } : {}}
+        >
+          <DialogDescription className="sr-only">
+            Detailansicht für das Buch {book.title} von {book.author}
+          </DialogDescription>
+          {isMobile ? (
+            <>
+              <MobileHeader />
+              <div className="pt-14 pb-6 flex-1 overflow-y-auto">
+                {/* Mobile Titel & Autor Bereich */}
+                <div className="px-4 py-5">
+                  <h1 className="text-2xl font-bold">{book.title}</h1>
+                  <p className="text-gray-600 text-lg mt-1">{book.author}</p>
+                </div>
+              
+                {/* Mobile Status Bereich */}
+                <div className="px-4 mb-4 flex flex-wrap gap-2">
+                  {isDataLoading ? (
+                    <Badge variant="outline" className="bg-gray-100">Lädt...</Badge>
+                  ) : (
+                    <Badge variant={isAvailable ? "default" : "secondary"} className="font-medium">
+                      {availabilityBadgeLabel}
+                    </Badge>
+                  )}
+                  {book.subject && <Badge variant="outline">{book.subject}</Badge>}
+                  {book.level && <Badge variant="outline">{book.level}</Badge>}
+                  {book.type && <Badge variant="outline" className="bg-gray-100">{book.type}</Badge>}
+                </div>
+              
+                {/* Mobile Buch Details */}
+                <div className="px-4 space-y-5 pb-20">
+                  <div className="grid grid-cols-2 gap-x-6 gap-y-4 bg-gray-50 rounded-lg p-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">ISBN</p>
+                      <p className="font-medium">{book.isbn}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Erscheinungsjahr</p>
+                      <p className="font-medium">{book.year}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Standort</p>
+                      <p className="font-medium">{book.location}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Fach</p>
+                      <p className="font-medium">{book.subject}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Verlag</p>
+                      <p className="font-medium">{book.publisher || "Keine Angabe"}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Typ</p>
+                      <p className="font-medium">{book.type || "Keine Angabe"}</p>
+                    </div>
+                  </div>
+
+                  {book.description && (
+                    <div className="pt-3">
+                      <h3 className="text-md font-semibold mb-2">Beschreibung</h3>
+                      <p className="text-gray-600 whitespace-pre-wrap text-sm bg-gray-50 p-4 rounded-lg">
+                        {book.description}
+                      </p>
+                    </div>
+                  )}
+
+                  {loanInfo && (
+                    <div className="pt-3">
+                      <h3 className="text-md font-semibold mb-2">Ausleih-Information</h3>
+                      <div className="bg-gray-50 p-4 rounded-lg text-sm">
+                        {loanInfo}
+                      </div>
+                    </div>
+                  )}
+
+                  {showFileSection && (
+                    <div className="pt-3">
+                      <h3 className="text-md font-semibold mb-2">Dateien ({visibleFiles.length})</h3>
+                      <div className="bg-gray-50 p-4 rounded-lg text-sm">
+                        {fileList}
+                      </div>
+                    </div>
+                  )}
+
+                  {showCopySection && (
+                    <div className="pt-3">
+                      <h3 className="text-md font-semibold mb-2">Exemplare ({totalCopies})</h3>
+                      <div className="bg-gray-50 p-4 rounded-lg text-sm">
+                        {copyList}
+                      </div>
+                    </div>
+                  )}
+
+                  {showReservationSection && (
+                    <div className="pt-3">
+                      <h3 className="text-md font-semibold mb-2">Warteliste</h3>
+                      <div className="bg-gray-50 p-4 rounded-lg text-sm">
+                        {reservationInfo}
+                      </div>
+                    </div>
+                  )}
+
+                  {loanHistory.length > 0 && (
+                    <div className="pt-3">
+                      <h3 className="text-md font-semibold mb-2">Ausleih-Verlauf</h3>
+                      <div className="bg-gray-50 p-4 rounded-lg text-sm">
+                        {loanHistoryList}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Desktop Version */}
+              <div className="sticky top-0 z-10 bg-white p-6 pb-4 border-b">
+                <div className="flex justify-between items-start">
+                  <DialogTitle className="text-2xl font-bold pr-6">{book.title}</DialogTitle>
+                  <DialogClose className="w-8 h-8 rounded-full flex items-center justify-center hover:bg-gray-100">
+                    <X className="h-4 w-4" />
+                  </DialogClose>
+                </div>
                 <p className="text-gray-600 text-lg mt-1">{book.author}</p>
               </div>
-              
-              {/* Mobile Status Bereich */}
-              <div className="px-4 mb-4 flex flex-wrap gap-2">
-                {isDataLoading ? (
-                  <Badge variant="outline" className="bg-gray-100">Lädt...</Badge>
-                ) : (
-                  <Badge variant={isAvailable ? "default" : "secondary"} className="font-medium">
-                    {isAvailable ? "Verfügbar" : "Ausgeliehen"}
-                  </Badge>
-                )}
-                {book.subject && <Badge variant="outline">{book.subject}</Badge>}
-                {book.level && <Badge variant="outline">{book.level}</Badge>}
-                {book.type && <Badge variant="outline" className="bg-gray-100">{book.type}</Badge>}
+            
+              <div className="px-6 py-3 flex items-center justify-between border-b">
+                <div className="flex flex-wrap gap-2">
+                  {isDataLoading ? (
+                    <Badge variant="outline" className="bg-gray-100">Lädt...</Badge>
+                  ) : (
+                    <Badge variant={isAvailable ? "default" : "secondary"} className="font-medium">
+                      {availabilityBadgeLabel}
+                    </Badge>
+                  )}
+                  {book.subject && <Badge variant="outline">{book.subject}</Badge>}
+                  {book.level && <Badge variant="outline">{book.level}</Badge>}
+                  {book.type && <Badge variant="outline" className="bg-gray-100">{book.type}</Badge>}
+                </div>
+                <div className="flex gap-2">
+                  {hasPdf && (
+                    <Button
+                      onClick={() => handleOpenPdfChat()}
+                      variant="outline"
+                      className="bg-blue-50 hover:bg-blue-100 text-blue-600"
+                    >
+                      <MessageCircle className="h-4 w-4 mr-1" />
+                      <span>Chat mit PDF</span>
+                    </Button>
+                  )}
+                  <Button
+                    onClick={handleAvailabilityToggle}
+                    disabled={isButtonDisabled}
+                    variant={isAvailable ? "default" : "secondary"}
+                    className="ml-2"
+                  >
+                    {(isLoading || isDataLoading) && (
+                      <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-b-transparent" />
+                    )}
+                    {availabilityButtonLabel}
+                  </Button>
+                </div>
               </div>
-              
-              {/* Mobile Buch Details */}
-              <div className="px-4 space-y-5 pb-20">
-                <div className="grid grid-cols-2 gap-x-6 gap-y-4 bg-gray-50 rounded-lg p-4">
+
+              <div className="p-6 space-y-4">
+                <div className="grid grid-cols-2 gap-x-6 gap-y-3">
                   <div>
                     <p className="text-sm font-medium text-gray-500">ISBN</p>
                     <p className="font-medium">{book.isbn}</p>
@@ -298,144 +1102,74 @@ function BookDetails({
                 </div>
 
                 {book.description && (
-                  <div className="pt-3">
+                  <div className="mt-4 pt-4 border-t">
                     <h3 className="text-md font-semibold mb-2">Beschreibung</h3>
-                    <p className="text-gray-600 whitespace-pre-wrap text-sm bg-gray-50 p-4 rounded-lg">
+                    <p className="text-gray-600 whitespace-pre-wrap text-sm">
                       {book.description}
                     </p>
                   </div>
                 )}
 
-                {!isAvailable && book.borrowed_by && book.borrowed_at && (
-                  <div className="pt-3">
+                {loanInfo && (
+                  <div className="mt-4 pt-4 border-t">
                     <h3 className="text-md font-semibold mb-2">Ausleih-Information</h3>
-                    <div className="bg-gray-50 p-4 rounded-lg text-sm">
-                      <p className="text-gray-600">
-                        Ausgeliehen am: <span className="font-medium">{new Date(book.borrowed_at).toLocaleDateString()}</span>
-                      </p>
-                      {isBookBorrowedByCurrentUser && (
-                        <p className="text-gray-600 mt-1">
-                          Von Ihnen ausgeliehen
-                        </p>
-                      )}
+                    <div className="bg-gray-50 p-3 rounded-md text-sm">
+                      {loanInfo}
                     </div>
                   </div>
                 )}
-              </div>
-            </div>
-          </>
-        ) : (
-          <>
-            {/* Desktop Version */}
-            <div className="sticky top-0 z-10 bg-white p-6 pb-4 border-b">
-              <div className="flex justify-between items-start">
-                <DialogTitle className="text-2xl font-bold pr-6">{book.title}</DialogTitle>
-                <DialogClose className="w-8 h-8 rounded-full flex items-center justify-center hover:bg-gray-100">
-                  <X className="h-4 w-4" />
-                </DialogClose>
-              </div>
-              <p className="text-gray-600 text-lg mt-1">{book.author}</p>
-            </div>
-            
-            <div className="px-6 py-3 flex items-center justify-between border-b">
-              <div className="flex flex-wrap gap-2">
-                {isDataLoading ? (
-                  <Badge variant="outline" className="bg-gray-100">Lädt...</Badge>
-                ) : (
-                  <Badge variant={isAvailable ? "default" : "secondary"} className="font-medium">
-                    {isAvailable ? "Verfügbar" : "Ausgeliehen"}
-                  </Badge>
-                )}
-                {book.subject && <Badge variant="outline">{book.subject}</Badge>}
-                {book.level && <Badge variant="outline">{book.level}</Badge>}
-                {book.type && <Badge variant="outline" className="bg-gray-100">{book.type}</Badge>}
-              </div>
-              <div className="flex gap-2">
-                {hasPdf && (
-                  <Button
-                    onClick={handleOpenPdfChat}
-                    variant="outline"
-                    className="bg-blue-50 hover:bg-blue-100 text-blue-600"
-                  >
-                    <MessageCircle className="h-4 w-4 mr-1" />
-                    <span>Chat mit PDF</span>
-                  </Button>
+
+                {showFileSection && (
+                  <div className="mt-4 pt-4 border-t">
+                    <h3 className="text-md font-semibold mb-2">Dateien ({visibleFiles.length})</h3>
+                    <div className="bg-gray-50 p-3 rounded-md text-sm">
+                      {fileList}
+                    </div>
+                  </div>
                 )}
-                <Button
-                  onClick={handleAvailabilityToggle}
-                  disabled={isButtonDisabled}
-                  variant={isAvailable ? "default" : "secondary"}
-                  className="ml-2"
-                >
-                  {(isLoading || isDataLoading) && (
-                    <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-b-transparent" />
-                  )}
-                  {isAvailable
-                    ? "Ausleihen"
-                    : isBookBorrowedByCurrentUser
-                      ? "Zurückgeben"
-                      : "Ausgeliehen"}
-                </Button>
-              </div>
-            </div>
 
-            <div className="p-6 space-y-4">
-              <div className="grid grid-cols-2 gap-x-6 gap-y-3">
-                <div>
-                  <p className="text-sm font-medium text-gray-500">ISBN</p>
-                  <p className="font-medium">{book.isbn}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-gray-500">Erscheinungsjahr</p>
-                  <p className="font-medium">{book.year}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-gray-500">Standort</p>
-                  <p className="font-medium">{book.location}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-gray-500">Fach</p>
-                  <p className="font-medium">{book.subject}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-gray-500">Verlag</p>
-                  <p className="font-medium">{book.publisher || "Keine Angabe"}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-gray-500">Typ</p>
-                  <p className="font-medium">{book.type || "Keine Angabe"}</p>
-                </div>
-              </div>
+                {showCopySection && (
+                  <div className="mt-4 pt-4 border-t">
+                    <h3 className="text-md font-semibold mb-2">Exemplare ({totalCopies})</h3>
+                    <div className="bg-gray-50 p-3 rounded-md text-sm">
+                      {copyList}
+                    </div>
+                  </div>
+                )}
 
-              {book.description && (
-                <div className="mt-4 pt-4 border-t">
-                  <h3 className="text-md font-semibold mb-2">Beschreibung</h3>
-                  <p className="text-gray-600 whitespace-pre-wrap text-sm">
-                    {book.description}
-                  </p>
-                </div>
-              )}
+                {showReservationSection && (
+                  <div className="mt-4 pt-4 border-t">
+                    <h3 className="text-md font-semibold mb-2">Warteliste</h3>
+                    <div className="bg-gray-50 p-3 rounded-md text-sm">
+                      {reservationInfo}
+                    </div>
+                  </div>
+                )}
 
-              {!isAvailable && book.borrowed_by && book.borrowed_at && (
-                <div className="mt-4 pt-4 border-t">
-                  <h3 className="text-md font-semibold mb-2">Ausleih-Information</h3>
-                  <div className="bg-gray-50 p-3 rounded-md text-sm">
-                    <p className="text-gray-600">
-                      Ausgeliehen am: <span className="font-medium">{new Date(book.borrowed_at).toLocaleDateString()}</span>
-                    </p>
-                    {isBookBorrowedByCurrentUser && (
-                      <p className="text-gray-600 mt-1">
-                        Von Ihnen ausgeliehen
-                      </p>
-                    )}
+                {loanHistory.length > 0 && (
+                  <div className="mt-4 pt-4 border-t">
+                    <h3 className="text-md font-semibold mb-2">Ausleih-Verlauf</h3>
+                    <div className="bg-gray-50 p-3 rounded-md text-sm">
+                      {loanHistoryList}
+                    </div>
                   </div>
-                </div>
-              )}
-            </div>
-          </>
-        )}
-      </DialogContent>
-    </Dialog>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {user && (
+        <ClassSetLoanDialog
+          book={book}
+          copies={copies}
+          open={showClassSetDialog}
+          onOpenChange={setShowClassSetDialog}
+          onChange={handleClassSetChange}
+        />
+      )}
+    </>
   );
 }
 
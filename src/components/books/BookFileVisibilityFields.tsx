@@ -0,0 +1,56 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SCHOOLS } from "@/lib/constants";
+import { BOOK_FILE_VISIBILITY_LABELS, type BookFileVisibility } from "@/lib/book-files";
+
+interface BookFileVisibilityFieldsProps {
+  visibility: BookFileVisibility;
+  schools: string[];
+  onChange: (visibility: BookFileVisibility, schools: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Auswahl, wer eine Datei im PDF-Chat sieht; bei "Bestimmte Schulhäuser" zusätzlich die Schulhäuser
+export function BookFileVisibilityFields({ visibility, schools, onChange, disabled, className }: BookFileVisibilityFieldsProps) {
+  const toggleSchool = (school: string, checked: boolean) => {
+    onChange(visibility, checked ? [...schools, school] : schools.filter((entry) => entry !== school));
+  };
+
+  return (
+    <div className={className}>
+      <Label className="text-xs text-gray-500">Sichtbar für</Label>
+      <Select
+        value={visibility}
+        onValueChange={(value) => onChange(value as BookFileVisibility, schools)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="bg-white h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(BOOK_FILE_VISIBILITY_LABELS).map(([value, visibilityLabel]) => (
+            <SelectItem key={value} value={value}>{visibilityLabel}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {visibility === "schools" && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 pt-1.5">
+          {SCHOOLS.map((school) => (
+            <label key={school} className="flex items-center gap-1.5 text-xs text-gray-700">
+              <Checkbox
+                checked={schools.includes(school)}
+                onCheckedChange={(checked) => toggleSchool(school, checked === true)}
+                disabled={disabled}
+              />
+              {school}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BookFileVisibilityFields;
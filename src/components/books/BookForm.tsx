@@ -22,7 +22,9 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/components/ui/use-toast";
 import type { FetchedBook } from "../dashboard/BookManagement";
-import type { NewBook, BookUpdate } from "@/lib/books";
+import { getBookByIsbn, type NewBook, type BookUpdate } from "@/lib/books";
+import { normalizeIsbn, validateIsbn } from "@/lib/isbn";
+import { useSupabase } from "@/contexts/SupabaseContext";
 import { useAuth } from "@/hooks/useAuth";
 import { useAuth as useClerkAuth } from "@clerk/clerk-react";
 import { fetchBookInfo } from "@/lib/api";
@@ -42,6 +44,7 @@ import {
 } from "@/components/ui/command";
 import { Badge } from "@/components/ui/badge";
 import { LEVELS, SUBJECTS, BOOK_TYPES, SCHOOLS } from "@/lib/constants";
+import { BookPdfUpload } from "./BookPdfUpload";
 
 interface BookFormProps {
   book?: FetchedBook;
@@ -66,10 +69,18 @@ export function BookForm({
   const { toast } = useToast();
   const { user } = useAuth();
   const clerkAuth = useClerkAuth();
+  const supabase = useSupabase();
 
   // Gemeinsame Stile für Input-Elemente, um das automatische Zoomen zu verhindern
   const inputStyles = { fontSize: "16px", touchAction: "manipulation" };
 
+  // PDFs werden sofort hochgeladen und brauchen deshalb einen bestehenden Katalogeintrag
+  const pdfUploadSection = initialBook?.id ? (
+    <BookPdfUpload bookId={initialBook.id} />
+  ) : (
+    <p className="text-sm text-gray-500">PDFs können nach dem Erstellen des Buchs hochgeladen werden.</p>
+  );
+
   // Liste der verfügbaren Stufen aus den globalen Konstanten
   const availableLevels = LEVELS;
 
@@ -196,6 +207,13 @@ export function BookForm({
     onOpenChange(false);
   };
 
+  // Anderer Katalogeintrag mit derselben ISBN (ISBN-10 und ISBN-13 gelten als gleich)
+  const findDuplicateBook = async (isbn: string) => {
+    if (!isbn) return null;
+    const existingBook = await getBookByIsbn(isbn, supabase);
+    return existingBook && existingBook.id !== initialBook?.id ? existingBook : null;
+  };
+
   const onSubmitForm = async (data: NewBook) => {
     // Prüfen ob der Titel vorhanden ist
     if (!data.title || data.title.trim() === '') {
@@ -206,13 +224,35 @@ export function BookForm({
       });
       return;
     }
+
+    const isbnError = validateIsbn(data.isbn);
+    if (isbnError) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: isbnError,
+      });
+      return;
+    }
+    const isbn = normalizeIsbn(data.isbn);
     
     try {
       setIsLoading(true);
+
+      const duplicate = await findDuplicateBook(isbn);
+      if (duplicate) {
+        toast({
+          variant: "destructive",
+          title: "ISBN bereits vorhanden",
+          description: `"${duplicate.title}" hat bereits diese ISBN. Bitte dort ein weiteres Exemplar hinzufügen.`,
+        });
+        return;
+      }
+
       if (initialBook) {
-        await onSubmit({ ...data, user_id: user.id, id: initialBook.id });
+        await onSubmit({ ...data, isbn, user_id: user.id, id: initialBook.id });
       } else {
-        await onSubmit({ ...data, user_id: user.id });
+        await onSubmit({ ...data, isbn, user_id: user.id });
       }
       toast({
         title: "Erfolg",
@@ -369,9 +409,34 @@ export function BookForm({
     return cycle.levels.every(level => selectedLevels.includes(level));
   };
 
-  const handleScan = async (isbn: string) => {
+  const handleScan = async (scannedIsbn: string) => {
     setIsLoadingBookInfo(true);
+    let isbn = scannedIsbn;
     try {
+      const isbnError = validateIsbn(scannedIsbn);
+      if (isbnError || !scannedIsbn?.trim()) {
+        toast({
+          variant: "destructive",
+          title: "Fehler",
+          description: isbnError || "Bitte geben Sie eine ISBN ein.",
+        });
+        setValue("isbn", scannedIsbn);
+        return;
+      }
+      isbn = normalizeIsbn(scannedIsbn);
+
+      // Bereits katalogisierte Bücher nicht erneut nachschlagen
+      const duplicate = await findDuplicateBook(isbn);
+      if (duplicate) {
+        toast({
+          variant: "destructive",
+          title: "ISBN bereits vorhanden",
+          description: `"${duplicate.title}" ist bereits im Katalog. Bitte dort ein weiteres Exemplar hinzufügen.`,
+        });
+        setValue("isbn", isbn);
+        return;
+      }
+
       // Hole Clerk-Token für Supabase
       let authToken = null;
       try {
@@ -934,6 +999,11 @@ export function BookForm({
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label>PDFs</Label>
+                  {pdfUploadSection}
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="location">Ort</Label>
                   <Input
@@ -1211,6 +1281,11 @@ export function BookForm({
                 />
               </div>
 
+              <div className="space-y-2 pt-3">
+                <Label className="text-sm font-semibold">PDFs</Label>
+                {pdfUploadSection}
+              </div>
+
               <div className="flex justify-end gap-3 pt-6">
                 <Button
                   type="button"
@@ -0,0 +1,255 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useSupabase } from "@/contexts/SupabaseContext";
+import { uploadBookPdf, deleteBookPdf, MAX_PDF_UPLOAD_SIZE } from "@/lib/api";
+import {
+  getBookFiles,
+  getBookFileLabel,
+  getDefaultVisibility,
+  updateBookFileVisibility,
+  BOOK_FILE_KIND_LABELS,
+  type BookFile,
+  type BookFileKind,
+  type BookFileVisibility,
+} from "@/lib/book-files";
+import { BookFileVisibilityFields } from "./BookFileVisibilityFields";
+import { FileText, Trash2, Upload } from "lucide-react";
+
+interface BookPdfUploadProps {
+  bookId: string;
+  // Wird nach dem Hochladen oder Löschen aufgerufen (has_pdf hat sich evtl. geändert)
+  onChange?: () => void;
+}
+
+// Upload-Bereich für PDFs eines Buchs im Buchformular (nur Admins)
+export function BookPdfUpload({ bookId, onChange }: BookPdfUploadProps) {
+  const [files, setFiles] = useState<BookFile[]>([]);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [kind, setKind] = useState<BookFileKind>("student_book");
+  const [label, setLabel] = useState("");
+  const [visibility, setVisibility] = useState<BookFileVisibility>("public");
+  const [schools, setSchools] = useState<string[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { getToken } = useAuth();
+  const supabase = useSupabase();
+
+  const loadFiles = async () => {
+    try {
+      setFiles(await getBookFiles(bookId, supabase));
+    } catch (err) {
+      setFiles([]);
+    }
+  };
+
+  useEffect(() => {
+    loadFiles();
+  }, [bookId, supabase]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null;
+    if (file && file.size > MAX_PDF_UPLOAD_SIZE) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: `Das PDF ist zu gross (höchstens ${MAX_PDF_UPLOAD_SIZE / 1024 / 1024} MB).`,
+      });
+      event.target.value = "";
+      return;
+    }
+    setSelectedFile(file);
+  };
+
+  const handleKindChange = (value: BookFileKind) => {
+    setKind(value);
+    setVisibility(getDefaultVisibility(value));
+  };
+
+  const handleUpload = async () => {
+    if (!selectedFile) return;
+    if (visibility === "schools" && schools.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: "Bitte mindestens ein Schulhaus auswählen.",
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const token = await getToken();
+      await uploadBookPdf(bookId, selectedFile, {
+        kind,
+        label,
+        visibility,
+        schools,
+        authToken: token || undefined,
+        onProgress: setProgress,
+      });
+      await loadFiles();
+      setSelectedFile(null);
+      setLabel("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+
+      toast({
+        title: "Erfolg",
+        description: "PDF wurde hochgeladen.",
+      });
+      onChange?.();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: error?.message || "Das PDF konnte nicht hochgeladen werden.",
+      });
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const handleVisibilityChange = async (file: BookFile, nextVisibility: BookFileVisibility, nextSchools: string[]) => {
+    setFiles((current) => current.map((entry) => (
+      entry.id === file.id ? { ...entry, visibility: nextVisibility, schools: nextSchools } : entry
+    )));
+    // Erst speichern, wenn mindestens ein Schulhaus gewählt ist
+    if (nextVisibility === "schools" && nextSchools.length === 0) return;
+
+    try {
+      await updateBookFileVisibility(file.id, nextVisibility, nextSchools, supabase);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: error?.message || "Die Sichtbarkeit konnte nicht geändert werden.",
+      });
+      await loadFiles();
+    }
+  };
+
+  const handleDelete = async (file: BookFile) => {
+    if (!window.confirm(`"${getBookFileLabel(file)}" (${file.key}) endgültig löschen?`)) return;
+
+    setBusy(true);
+    try {
+      const token = await getToken();
+      await deleteBookPdf(file.id, token || undefined);
+      setFiles((current) => current.filter((entry) => entry.id !== file.id));
+
+      toast({
+        title: "Erfolg",
+        description: "PDF wurde gelöscht.",
+      });
+      onChange?.();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Fehler",
+        description: error?.message || "Das PDF konnte nicht gelöscht werden.",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border bg-gray-50 p-3">
+      {files.length > 0 ? (
+        <ul className="divide-y divide-gray-200 text-sm">
+          {files.map((file) => (
+            <li key={file.id} className="flex items-start justify-between gap-2 py-1.5">
+              <div className="flex items-start gap-2 min-w-0 flex-1">
+                <FileText className="h-4 w-4 mt-0.5 shrink-0 text-blue-600" />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="font-medium text-gray-700">{getBookFileLabel(file)}</p>
+                  <p className="text-xs text-gray-500 truncate">{file.key}</p>
+                  <BookFileVisibilityFields
+                    visibility={file.visibility as BookFileVisibility}
+                    schools={file.schools}
+                    onChange={(nextVisibility, nextSchools) => handleVisibilityChange(file, nextVisibility, nextSchools)}
+                    disabled={busy}
+                    className="sm:max-w-xs"
+                  />
+                </div>
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-red-500 hover:text-red-700 hover:bg-red-100"
+                onClick={() => handleDelete(file)}
+                disabled={busy}
+                aria-label={`${getBookFileLabel(file)} löschen`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">Noch keine PDFs hochgeladen.</p>
+      )}
+
+      <div className="space-y-2">
+        <Input
+          ref={fileInputRef}
+          type="file"
+          accept="application/pdf,.pdf"
+          onChange={handleFileChange}
+          disabled={busy}
+          className="bg-white"
+        />
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={kind} onValueChange={(value) => handleKindChange(value as BookFileKind)} disabled={busy}>
+            <SelectTrigger className="bg-white sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(BOOK_FILE_KIND_LABELS).map(([value, kindLabel]) => (
+                <SelectItem key={value} value={value}>{kindLabel}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={label}
+            onChange={(event) => setLabel(event.target.value)}
+            placeholder="Bezeichnung (optional)"
+            disabled={busy}
+            className="bg-white sm:flex-1"
+          />
+          <Button type="button" variant="outline" onClick={handleUpload} disabled={busy || !selectedFile}>
+            <Upload className="h-4 w-4 mr-1" />
+            Hochladen
+          </Button>
+        </div>
+        <BookFileVisibilityFields
+          visibility={visibility}
+          schools={schools}
+          onChange={(nextVisibility, nextSchools) => {
+            setVisibility(nextVisibility);
+            setSchools(nextSchools);
+          }}
+          disabled={busy}
+          className="sm:max-w-xs"
+        />
+        {progress !== null && (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Upload {Math.round(progress * 100)} %</Label>
+            <Progress value={progress * 100} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BookPdfUpload;
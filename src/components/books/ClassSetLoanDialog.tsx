@@ -0,0 +1,374 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useSupabase } from "@/contexts/SupabaseContext";
+import { LEVELS } from "@/lib/constants";
+import { getBorrowerDisplayName, getDefaultDueDate, isLoanOverdue } from "@/lib/loans";
+import {
+  getOpenClassLoans,
+  borrowClassSet,
+  returnClassLoan,
+  type ClassLoanWithLoans,
+} from "@/lib/class-loans";
+import type { BookCopy } from "@/lib/copies";
+import { BarcodeScanner } from "./BarcodeScanner";
+import { ScanLine, Users, X } from "lucide-react";
+
+interface ClassSetLoanDialogProps {
+  book: { id: string; title: string; type?: string | null };
+  copies: BookCopy[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange?: () => void;
+}
+
+export function ClassSetLoanDialog({ book, copies, open, onOpenChange, onChange }: ClassSetLoanDialogProps) {
+  const [className, setClassName] = useState("");
+  const [selectionMode, setSelectionMode] = useState<"quantity" | "scan">("quantity");
+  const [quantity, setQuantity] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [scannedBarcodes, setScannedBarcodes] = useState<string[]>([]);
+  const [manualBarcode, setManualBarcode] = useState("");
+  const [showScanner, setShowScanner] = useState(false);
+  const [classLoans, setClassLoans] = useState<ClassLoanWithLoans[]>([]);
+  const [selectedReturns, setSelectedReturns] = useState<Record<string, string[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  const { user, isAdmin } = useAuth();
+  const supabase = useSupabase();
+
+  const freeCopies = copies.filter((copy) => copy.available);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setClassName("");
+    setQuantity("");
+    setScannedBarcodes([]);
+    setManualBarcode("");
+    setDueDate(getDefaultDueDate(book.type).toISOString().slice(0, 10));
+    loadClassLoans();
+  }, [open, book.id]);
+
+  const loadClassLoans = async () => {
+    try {
+      setClassLoans(await getOpenClassLoans(book.id, supabase));
+      setSelectedReturns({});
+    } catch (err) {
+      setClassLoans([]);
+    }
+  };
+
+  // Stabile Callbacks, damit der Scanner im Dauerbetrieb nicht neu startet
+  const handleScan = useCallback((code: string) => {
+    setScannedBarcodes((barcodes) => (barcodes.includes(code) ? barcodes : [...barcodes, code]));
+  }, []);
+
+  const handleScannerClose = useCallback(() => setShowScanner(false), []);
+
+  const handleManualAdd = () => {
+    const code = manualBarcode.trim().toUpperCase();
+    if (!code) return;
+    handleScan(code);
+    setManualBarcode("");
+  };
+
+  // Gescannte Codes den Exemplaren dieses Buchs zuordnen
+  const scannedItems = scannedBarcodes.map((barcode) => {
+    const copy = copies.find((candidate) => candidate.barcode === barcode);
+    const problem = !copy
+      ? "Gehört nicht zu diesem Buch"
+      : !copy.available
+        ? "Bereits ausgeliehen"
+        : null;
+    return { barcode, copy, problem };
+  });
+  const validCopyIds = scannedItems.filter((item) => !item.problem).map((item) => item.copy!.id);
+
+  const requestedCount = selectionMode === "scan" ? validCopyIds.length : parseInt(quantity, 10) || 0;
+  const canSubmit =
+    !!className &&
+    requestedCount > 0 &&
+    requestedCount <= freeCopies.length &&
+    (selectionMode === "quantity" || scannedItems.every((item) => !item.problem));
+
+  const handleBorrow = async () => {
+    if (!user || !canSubmit) return;
+
+    setIsLoading(true);
+    try {
+      await borrowClassSet(
+        book.id,
+        {
+          className,
+          quantity: selectionMode === "quantity" ? requestedCount : undefined,
+          copyIds: selectionMode === "scan" ? validCopyIds : undefined,
+          // Ohne Datum setzt die Datenbank die Standard-Ausleihdauer, nur Admins dürfen abweichen
+          dueAt: isAdmin && dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null,
+          teacherName: getBorrowerDisplayName(user),
+        },
+        supabase
+      );
+
+      toast({
+        title: "Erfolg",
+        description: `${requestedCount} Exemplare für ${className} ausgeliehen.`,
+      });
+
+      setQuantity("");
+      setScannedBarcodes([]);
+      await loadClassLoans();
+      if (onChange) onChange();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error?.message || "Fehler beim Ausleihen des Klassensatzes.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReturn = async (classLoan: ClassLoanWithLoans, copyIds: string[] | null) => {
+    setIsLoading(true);
+    try {
+      const returnedLoans = await returnClassLoan(classLoan.id, copyIds, supabase);
+
+      toast({
+        title: "Erfolg",
+        description: `${returnedLoans.length} Exemplare zurückgegeben.`,
+      });
+
+      await loadClassLoans();
+      if (onChange) onChange();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Fehler beim Zurückgeben des Klassensatzes.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleReturnSelection = (classLoanId: string, copyId: string, checked: boolean) => {
+    setSelectedReturns((selection) => {
+      const current = selection[classLoanId] || [];
+      return {
+        ...selection,
+        [classLoanId]: checked ? [...current, copyId] : current.filter((id) => id !== copyId),
+      };
+    });
+  };
+
+  // Liste der offenen Klassensätze mit Teil-Rückgabe
+  const openClassLoanList = (
+    <div className="space-y-3">
+      {classLoans.map((classLoan) => {
+        const openLoans = classLoan.loans.filter((loan) => !loan.returned_at);
+        const canReturn = isAdmin || classLoan.teacher_id === user?.id;
+        const selection = selectedReturns[classLoan.id] || [];
+        const isOverdue = openLoans.some((loan) => isLoanOverdue(loan));
+
+        return (
+          <div key={classLoan.id} className="rounded-md border bg-white p-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-medium">
+                  {classLoan.class_name}
+                  <span className="text-gray-500 font-normal"> · {classLoan.teacher_id === user?.id ? "Sie" : classLoan.teacher_name || "Unbekannt"}</span>
+                </p>
+                <p className="text-gray-500">
+                  {openLoans.length} von {classLoan.loans.length} Exemplaren offen
+                  {classLoan.due_at && ` · bis ${new Date(classLoan.due_at).toLocaleDateString()}`}
+                </p>
+              </div>
+              {isOverdue && <Badge variant="destructive">Überfällig</Badge>}
+            </div>
+
+            {canReturn && (
+              <>
+                <div className="mt-2 grid grid-cols-2 sm:grid-cols-3 gap-1">
+                  {openLoans.map((loan) => (
+                    <label key={loan.id} className="flex items-center gap-2 text-gray-700">
+                      <Checkbox
+                        checked={!!loan.copy_id && selection.includes(loan.copy_id)}
+                        onCheckedChange={(checked) => loan.copy_id && toggleReturnSelection(classLoan.id, loan.copy_id, checked === true)}
+                        disabled={!loan.copy_id}
+                      />
+                      {loan.book_copies?.barcode || "Ohne Exemplar"}
+                    </label>
+                  ))}
+                </div>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReturn(classLoan, selection)}
+                    disabled={isLoading || selection.length === 0}
+                  >
+                    Auswahl zurückgeben ({selection.length})
+                  </Button>
+                  <Button size="sm" onClick={() => handleReturn(classLoan, null)} disabled={isLoading}>
+                    Alle zurückgeben
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Users className="h-5 w-5 mr-2 text-blue-600" />
+              Klassensatz ausleihen
+            </DialogTitle>
+            <DialogDescription>
+              {book.title} · {freeCopies.length} von {copies.length} Exemplaren verfügbar
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="class-set-class">Klasse</Label>
+                <Select value={className} onValueChange={setClassName}>
+                  <SelectTrigger id="class-set-class">
+                    <SelectValue placeholder="Klasse wählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="class-set-due">Rückgabe bis</Label>
+                {isAdmin ? (
+                  <Input
+                    id="class-set-due"
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                  />
+                ) : (
+                  <p id="class-set-due" className="flex h-10 items-center text-sm">
+                    {dueDate && new Date(`${dueDate}T00:00:00`).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <Tabs value={selectionMode} onValueChange={(value) => setSelectionMode(value as "quantity" | "scan")}>
+              <TabsList className="grid grid-cols-2 w-full">
+                <TabsTrigger value="quantity">Anzahl</TabsTrigger>
+                <TabsTrigger value="scan">Exemplare scannen</TabsTrigger>
+              </TabsList>
+              <TabsContent value="quantity" className="mt-3 space-y-1.5">
+                <Label htmlFor="class-set-quantity">Anzahl Exemplare</Label>
+                <Input
+                  id="class-set-quantity"
+                  type="number"
+                  min={1}
+                  max={freeCopies.length}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  placeholder={`max. ${freeCopies.length}`}
+                />
+                {requestedCount > freeCopies.length && (
+                  <p className="text-sm text-red-600">Nur {freeCopies.length} Exemplare verfügbar.</p>
+                )}
+              </TabsContent>
+              <TabsContent value="scan" className="mt-3 space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    value={manualBarcode}
+                    onChange={(e) => setManualBarcode(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleManualAdd();
+                      }
+                    }}
+                    placeholder="Exemplar-Code, z.B. WB000123"
+                  />
+                  <Button variant="outline" onClick={() => setShowScanner(true)}>
+                    <ScanLine className="h-4 w-4 mr-1" />
+                    Scannen
+                  </Button>
+                </div>
+                {scannedItems.length > 0 ? (
+                  <ul className="rounded-md border divide-y text-sm">
+                    {scannedItems.map((item) => (
+                      <li key={item.barcode} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                        <span className="font-medium">{item.barcode}</span>
+                        <div className="flex items-center gap-2">
+                          {item.problem ? (
+                            <span className="text-red-600">{item.problem}</span>
+                          ) : (
+                            <span className="text-green-700">OK</span>
+                          )}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => setScannedBarcodes((barcodes) => barcodes.filter((code) => code !== item.barcode))}
+                            aria-label={`${item.barcode} entfernen`}
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">Noch keine Exemplare gescannt.</p>
+                )}
+              </TabsContent>
+            </Tabs>
+
+            <Button className="w-full" onClick={handleBorrow} disabled={isLoading || !canSubmit}>
+              {isLoading && (
+                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-b-transparent" />
+              )}
+              {requestedCount > 0 ? `${requestedCount} Exemplare ausleihen` : "Klassensatz ausleihen"}
+            </Button>
+
+            {classLoans.length > 0 && (
+              <div className="pt-4 border-t">
+                <h3 className="text-md font-semibold mb-2">Offene Klassensätze</h3>
+                {openClassLoanList}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showScanner} onOpenChange={setShowScanner}>
+        {showScanner && (
+          <BarcodeScanner mode="copy" continuous onScan={handleScan} onClose={handleScannerClose} />
+        )}
+      </Dialog>
+    </>
+  );
+}
+
+export default ClassSetLoanDialog;
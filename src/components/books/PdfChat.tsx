@@ -4,11 +4,12 @@ import { Card, CardContent } from '../ui/card';
 import { Input } from '../ui/input';
 import { Button } from '../ui/button';
 import { Skeleton } from '../ui/skeleton';
-import { Send, FileText, User, ChevronDown, ChevronLeft, Loader2, RefreshCw } from 'lucide-react';
+import { Send, FileText, User, ChevronDown, ChevronLeft, Loader2, RefreshCw, Square, Search, BookOpen } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar";
 import { ScrollArea } from "../ui/scroll-area";
 import { useToast } from '../ui/use-toast';
-import { askPdfQuestion, fetchPdfs } from '@/lib/api';
+import { askPdfQuestion, fetchPdfs, PdfStreamInterruptedError, type PdfChatTurn, type PdfCitation, type ListedPdf } from '@/lib/api';
+import { BOOK_FILE_KIND_LABELS, type BookFileKind } from '@/lib/book-files';
 import {
   Dialog,
   DialogContent,
@@ -23,12 +24,16 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { useAuth } from '@clerk/clerk-react';
 import ReactMarkdown from 'react-markdown';
+import { PdfViewer } from './PdfViewer';
 
 // Interface für eine Nachricht
 interface Message {
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  error?: boolean; // Fehlermeldung statt Antwort, gehört nicht zum Gesprächsverlauf
+  streaming?: boolean; // Antwort wird gerade noch gestreamt
+  citations?: PdfCitation[]; // Zitierte Seiten im PDF, nur bei Antworten
 }
 
 // Interface für gespeicherte PDF-Chats
@@ -58,6 +63,8 @@ interface SerializedPdfChatSession {
     type: 'user' | 'assistant';
     content: string;
     timestamp: string; // ISO Zeitstempel
+    error?: boolean;
+    citations?: PdfCitation[];
   }>;
   timestamp: string; // ISO Zeitstempel
 }
@@ -68,30 +75,75 @@ interface PdfFile {
   name: string;
 }
 
+// Einträge pro Seite in der PDF-Auswahl
+const PDF_PAGE_SIZE = 50;
+
+// Anzeigename: Buchtitel (mit Bezeichnung oder Art, ausser beim Schülerbuch), sonst aus dem Dateinamen
+const toPdfFile = (file: ListedPdf): PdfFile => {
+  const fileLabel = file.label || (file.kind && file.kind !== 'student_book'
+    ? BOOK_FILE_KIND_LABELS[file.kind as BookFileKind]
+    : null);
+
+  if (file.book?.title) {
+    return {
+      path: file.name,
+      name: fileLabel ? `${file.book.title} – ${fileLabel}` : file.book.title
+    };
+  }
+
+  if (file.label) {
+    return { path: file.name, name: file.label };
+  }
+
+  // Entferne die ISBN-Nummer am Anfang (Format: ISBN_Name.pdf)
+  const fileName = file.name.replace('.pdf', '');
+  const parts = fileName.split('_');
+  // Wenn es ein Unterstrich gibt und davor steht die ISBN, dann nutzen wir alles nach dem ersten Unterstrich
+  const displayName = parts.length > 1 ? parts.slice(1).join('_') : fileName;
+  
+  return {
+    path: file.name,
+    name: displayName.replace(/_/g, ' ') // Unterstriche durch Leerzeichen ersetzen
+  };
+};
+
 // Neuer Kontext für die PDF-Dateien
 interface PdfContextType {
   availablePdfs: PdfFile[];
   isLoadingPdfs: boolean;
   refreshPdfs: () => Promise<void>;
   authToken: string | null;
+  // Weitere Seiten und Suche, siehe functions/listPdfs.ts
+  hasMorePdfs: boolean;
+  loadMorePdfs: () => Promise<void>;
+  searchPdfs: (query: string) => Promise<void>;
+  // Sucht ein bestimmtes PDF (z.B. aus einem Link), das nicht in der geladenen Liste steht
+  findPdf: (path: string) => Promise<PdfFile | null>;
 }
 
 const PdfContext = createContext<PdfContextType>({
   availablePdfs: [],
   isLoadingPdfs: false,
   refreshPdfs: async () => {},
-  authToken: null
+  authToken: null,
+  hasMorePdfs: false,
+  loadMorePdfs: async () => {},
+  searchPdfs: async () => {},
+  findPdf: async () => null
 });
 
 // Provider für den PDF-Kontext
 export function PdfProvider({ children }: { children: React.ReactNode }) {
   const [availablePdfs, setAvailablePdfs] = useState<PdfFile[]>([]);
-  const [isLoadingPdfs, setIsLoadingPdfs] = useState(false);
+  // Die erste Seite wird beim Start geladen
+  const [isLoadingPdfs, setIsLoadingPdfs] = useState(true);
   const [authToken, setAuthToken] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [pdfSearch, setPdfSearch] = useState('');
   const { getToken } = useAuth();
   
-  // Neue Ref zur Verfolgung, ob initial bereits geladen wurde
-  const initialLoadDoneRef = useRef<boolean>(false);
+  // Nur die neueste Anfrage übernehmen (die Suche läuft beim Tippen)
+  const requestIdRef = useRef(0);
   
   const fetchAuthToken = async (): Promise<string | null> => {
     try {
@@ -110,86 +162,102 @@ export function PdfProvider({ children }: { children: React.ReactNode }) {
     }
   };
   
-  // Auth-Token beim Start holen
-  useEffect(() => {
-    if (!authToken) {
-      fetchAuthToken();
-    }
-  }, []);
-  
-  const loadPdfs = async () => {
+  // Lädt die erste Seite (after = null) oder hängt die nächste an
+  const loadPdfs = async (query: string, after: string | null) => {
+    const requestId = ++requestIdRef.current;
     setIsLoadingPdfs(true);
     try {
       // Frischen Auth-Token holen
       const currentToken = await fetchAuthToken();
       
-      // Neue fetchPdfs-Funktion verwenden
-      const files = await fetchPdfs(currentToken || undefined);
-      
-      // PDF-Dateien formatieren
-      const pdfFiles = files
-        .filter((file: any) => file.name.toLowerCase().endsWith('.pdf'))
-        .map((file: any) => {
-          // Entferne die ISBN-Nummer am Anfang (Format: ISBN_Name.pdf)
-          const fileName = file.name.replace('.pdf', '');
-          const parts = fileName.split('_');
-          // Wenn es ein Unterstrich gibt und davor steht die ISBN, dann nutzen wir alles nach dem ersten Unterstrich
-          const displayName = parts.length > 1 ? parts.slice(1).join('_') : fileName;
-          
-          return {
-            path: file.name,
-            name: displayName.replace(/_/g, ' ') // Unterstriche durch Leerzeichen ersetzen
-          };
-        });
+      // listPdfs liefert nur die PDFs, die die Person sehen darf (book_files.visibility)
+      const page = await fetchPdfs(currentToken || undefined, { search: query, cursor: after, limit: PDF_PAGE_SIZE });
+      if (requestId !== requestIdRef.current) return;
       
-      // Aktualisiere den State mit allen gefundenen PDFs
-      setAvailablePdfs(pdfFiles);
+      const pdfFiles = page.files
+        .filter((file) => file.name.toLowerCase().endsWith('.pdf'))
+        .map(toPdfFile);
       
-      // Markiere, dass initial geladen wurde, aber nur wenn PDFs gefunden wurden
-      if (pdfFiles.length > 0) {
-        initialLoadDoneRef.current = true;
-      }
+      setAvailablePdfs((current) => after
+        ? [...current, ...pdfFiles.filter((pdf) => !current.some((entry) => entry.path === pdf.path))]
+        : pdfFiles);
+      setCursor(page.cursor);
     } catch (error) {
       // Fehler beim Laden der PDFs
       console.error("Fehler beim Laden der PDFs:", error);
-      // Auch im Fehlerfall als geladen markieren, um endlose Schleifen zu vermeiden
-      initialLoadDoneRef.current = true;
     } finally {
-      setIsLoadingPdfs(false);
+      if (requestId === requestIdRef.current) {
+        setIsLoadingPdfs(false);
+      }
     }
   };
   
-  // Beim ersten Laden PDFs abrufen - Abhängigkeitsliste verbessert
+  // Beim ersten Laden die erste Seite abrufen
   useEffect(() => {
-    // Nur PDFs laden, wenn wir noch nicht geladen haben
-    if (!initialLoadDoneRef.current && !isLoadingPdfs) {
-      loadPdfs();
-    }
-  }, [isLoadingPdfs]);
+    loadPdfs('', null);
+  }, []);
   
-  // Verwende useCallback für die refreshPdfs-Funktion
   const refreshPdfs = useCallback(async () => {
-    if (isLoadingPdfs) {
+    await loadPdfs(pdfSearch, null);
+  }, [pdfSearch]);
+  
+  const loadMorePdfs = useCallback(async () => {
+    if (!cursor || isLoadingPdfs) {
       return;
     }
+    await loadPdfs(pdfSearch, cursor);
+  }, [cursor, isLoadingPdfs, pdfSearch]);
+  
+  const searchPdfs = useCallback(async (query: string) => {
+    setPdfSearch(query);
+    await loadPdfs(query, null);
+  }, []);
+  
+  const findPdf = useCallback(async (path: string): Promise<PdfFile | null> => {
+    // Gefundenes PDF in die Liste aufnehmen, damit es ausgewählt werden kann
+    const addPdf = (file: ListedPdf) => {
+      const pdf = toPdfFile(file);
+      setAvailablePdfs((current) => current.some((entry) => entry.path === pdf.path) ? current : [pdf, ...current]);
+      return pdf;
+    };
     
-    // Neuen Token holen
-    await fetchAuthToken();
-    
-    // Cache zurücksetzen, damit alle aktuellen Dateien neu geladen werden
-    initialLoadDoneRef.current = false;
-    // State leeren, damit neu geladen wird
-    setAvailablePdfs([]);
-    // PDFs neu laden
-    await loadPdfs();
-  }, [isLoadingPdfs]);
+    try {
+      const token = (await fetchAuthToken()) || undefined;
+      
+      // Pfad wie übergeben, sonst URL-decodiert, falls er zuvor encodiert wurde
+      let decodedPath = path;
+      try {
+        decodedPath = decodeURIComponent(path);
+      } catch {
+        // Kein gültig encodierter Pfad
+      }
+      for (const key of new Set([path, decodedPath])) {
+        const page = await fetchPdfs(token, { key });
+        if (page.files[0]) return addPdf(page.files[0]);
+      }
+      
+      // Ältere Links verweisen auf ISBN.pdf, die Datei heisst aber z.B. ISBN_Titel.pdf
+      const isbnMatch = path.match(/(\d{10,13})/);
+      if (isbnMatch) {
+        const page = await fetchPdfs(token, { search: isbnMatch[1], limit: 1 });
+        if (page.files[0]) return addPdf(page.files[0]);
+      }
+    } catch (error) {
+      console.error("Fehler beim Suchen des PDFs:", error);
+    }
+    return null;
+  }, []);
   
   return (
     <PdfContext.Provider value={{ 
       availablePdfs, 
       isLoadingPdfs, 
       refreshPdfs,
-      authToken
+      authToken,
+      hasMorePdfs: !!cursor,
+      loadMorePdfs,
+      searchPdfs,
+      findPdf
     }}>
       {children}
     </PdfContext.Provider>
@@ -201,6 +269,15 @@ export function usePdfContext() {
   return useContext(PdfContext);
 }
 
+// Gesprächsverlauf für processPdf aus den Nachrichten der Session: Fehlermeldungen und
+// Fragen, auf die keine Antwort kam, werden ausgelassen
+const toChatHistory = (messages: Message[]): PdfChatTurn[] => {
+  const answered = messages.filter(msg => !msg.error);
+  return answered
+    .filter((msg, index) => msg.type === 'assistant' || answered[index + 1]?.type === 'assistant')
+    .map(msg => ({ role: msg.type, content: msg.content }));
+};
+
 // Funktionen für lokale Chat-Historie
 const savePdfChatHistory = (session: PdfChatSession) => {
   try {
@@ -272,9 +349,24 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
   const [pendingPdf, setPendingPdf] = useState<string | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState(`pdf-chat-${Date.now()}`);
   const [chatHistory, setChatHistory] = useState<PdfChatSession[]>([]);
+  // Laufende Anfrage, damit sie abgebrochen werden kann
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Quelle, die im PDF-Viewer angezeigt wird
+  const [viewerCitation, setViewerCitation] = useState<PdfCitation | null>(null);
+  const [isViewerOpen, setIsViewerOpen] = useState(false);
   
   // Zugriff auf den PDF-Kontext
-  const { availablePdfs, isLoadingPdfs, refreshPdfs, authToken } = usePdfContext();
+  const {
+    availablePdfs,
+    isLoadingPdfs,
+    refreshPdfs,
+    authToken,
+    hasMorePdfs,
+    loadMorePdfs,
+    searchPdfs,
+    findPdf
+  } = usePdfContext();
+  const [pdfSearchInput, setPdfSearchInput] = useState('');
   
   // Auth Hook für Direktzugriff
   const { getToken } = useAuth();
@@ -294,6 +386,8 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
       const selectedPdfDetails = availablePdfs.find(pdf => pdf.path === pdfPath);
       
       if (selectedPdfDetails) {
+        discardQuestion();
+
         // Neuen Chat starten mit dem ausgewählten PDF
         setSelectedPdf(pdfPath);
         setSelectedPdfName(selectedPdfDetails.name);
@@ -312,6 +406,25 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
     }
   };
   
+  // Laufende Anfrage beim Schliessen abbrechen
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Laufende Anfrage abbrechen, die bisher gestreamte Antwort bleibt stehen
+  const cancelQuestion = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Laufende Anfrage verwerfen, wenn ein anderer Chat geöffnet wird
+  const discardQuestion = () => {
+    if (!abortControllerRef.current) return;
+    const abortController = abortControllerRef.current;
+    abortControllerRef.current = null;
+    abortController.abort();
+    setIsLoading(false);
+  };
+
   // UseEffect zum Laden der Chat-Historie beim ersten Rendern
   useEffect(() => {
     try {
@@ -337,24 +450,10 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
   // UseEffect für das automatische Öffnen eines PDF, wenn eines übergeben wurde
   useEffect(() => {
     if (initialPdf && open) {
-      // Prüfen, ob die verfügbaren PDFs bereits geladen sind
-      if (availablePdfs.length > 0) {
-        // Versuchen, das PDF zu finden
-        const foundPdf = availablePdfs.find(pdf => pdf.path === initialPdf);
-        
-        if (foundPdf) {
-          // PDF gefunden, auswählen
-          handlePdfSelect(initialPdf);
-        } else {
-          // PDF nicht gefunden, aber wir merken es uns für später
-          setPendingPdf(initialPdf);
-        }
-      } else {
-        // PDFs noch nicht geladen, merken wir uns das zu öffnende PDF
-        setPendingPdf(initialPdf);
-      }
+      // Das PDF steht evtl. nicht auf der ersten Seite, das Öffnen übernimmt der Effect für pendingPdf
+      setPendingPdf(initialPdf);
     }
-  }, [initialPdf, open, availablePdfs]);
+  }, [initialPdf, open]);
   
   // UseEffect für die Erkennung der Fenstergröße
   useEffect(() => {
@@ -377,61 +476,71 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
     }
   }, []);
   
+  // Suche in der PDF-Auswahl, erst nach einer kurzen Tipp-Pause an listPdfs schicken
+  const pdfSearchMountedRef = useRef(false);
+  useEffect(() => {
+    if (!pdfSearchMountedRef.current) {
+      pdfSearchMountedRef.current = true;
+      return;
+    }
+    const timeout = setTimeout(() => searchPdfs(pdfSearchInput), 300);
+    return () => clearTimeout(timeout);
+  }, [pdfSearchInput]);
+  
   // Versuche, ein pending PDF zu öffnen, sobald die PDFs geladen sind
   useEffect(() => {
-    if (pendingPdf && availablePdfs.length > 0) {
-      // Versuchen, das PDF zu finden
-      const foundPdf = availablePdfs.find(pdf => pdf.path === pendingPdf);
+    if (!pendingPdf) return;
+    
+    // Versuchen, das PDF in der geladenen Seite zu finden
+    const foundPdf = availablePdfs.find(pdf => pdf.path === pendingPdf);
+    if (foundPdf) {
+      // PDF gefunden, auswählen
+      handlePdfSelect(pendingPdf);
+      setPendingPdf(null); // Zurücksetzen des Pending-Status
+      return;
+    }
+    
+    // Erste Seite abwarten, danach gezielt bei listPdfs nachfragen
+    if (isLoadingPdfs) return;
+    
+    let cancelled = false;
+    const lookupPendingPdf = async () => {
+      const pdf = await findPdf(pendingPdf);
+      if (cancelled) return;
       
-      if (foundPdf) {
-        // PDF gefunden, auswählen
-        handlePdfSelect(pendingPdf);
-        setPendingPdf(null); // Zurücksetzen des Pending-Status
+      if (pdf) {
+        // findPdf nimmt das PDF in die Liste auf, die Auswahl folgt im nächsten Durchlauf
+        setPendingPdf(pdf.path);
+        return;
+      }
+      
+      setPendingPdf(null);
+      // Falls das pendingPdf eine ISBN ist, gib eine konkretere Fehlermeldung aus
+      if (pendingPdf.match(/^\d+\.pdf$/)) {
+        const isbn = pendingPdf.replace('.pdf', '');
+        toast({
+          variant: "destructive",
+          title: "PDF nicht gefunden",
+          description: `Kein PDF mit ISBN ${isbn} konnte gefunden werden, oder es ist für Sie nicht freigegeben.`
+        });
       } else {
-        // Versuch mit URL-decodiertem Pfad, falls er zuvor encodiert wurde
-        const decodedPendingPdf = decodeURIComponent(pendingPdf);
-        const foundDecodedPdf = availablePdfs.find(pdf => pdf.path === decodedPendingPdf);
-        
-        if (foundDecodedPdf) {
-          handlePdfSelect(foundDecodedPdf.path);
-          setPendingPdf(null);
-          return;
-        }
-        
-        // Versuch, nach ISBN im Dateinamen zu suchen
-        const isbnMatch = pendingPdf.match(/(\d{10,13})[\s_\.]/);
-        if (isbnMatch && isbnMatch[1]) {
-          const isbn = isbnMatch[1];
-          const foundByIsbn = availablePdfs.find(pdf => pdf.path.includes(isbn));
-          
-          if (foundByIsbn) {
-            handlePdfSelect(foundByIsbn.path);
-            setPendingPdf(null);
-            return;
-          }
-        }
-        
-        // Falls das pendingPdf eine ISBN ist, gib eine konkretere Fehlermeldung aus
-        if (pendingPdf.match(/^\d+\.pdf$/)) {
-          const isbn = pendingPdf.replace('.pdf', '');
-          toast({
-            variant: "destructive",
-            title: "PDF nicht gefunden",
-            description: `Kein PDF mit ISBN ${isbn} konnte gefunden werden. Verfügbare PDFs: ${availablePdfs.length}`
-          });
-        } else {
-          toast({
-            variant: "destructive",
-            title: "PDF nicht gefunden",
-            description: `Das PDF "${pendingPdf}" konnte nicht gefunden werden. Prüfen Sie die R2 Bucket.`
-          });
-        }
+        toast({
+          variant: "destructive",
+          title: "PDF nicht gefunden",
+          description: `Das PDF "${pendingPdf}" konnte nicht gefunden werden, oder es ist für Sie nicht freigegeben.`
+        });
       }
-    }
-  }, [availablePdfs, pendingPdf, toast, handlePdfSelect]);
+    };
+    
+    lookupPendingPdf();
+    return () => {
+      cancelled = true;
+    };
+  }, [availablePdfs, pendingPdf, isLoadingPdfs]);
 
   // Funktion zum Laden eines bestehenden Chats
   const loadChatSession = (session: PdfChatSession) => {
+    discardQuestion();
     setSelectedPdf(session.pdfPath);
     setSelectedPdfName(session.pdfName);
     setMessages(session.messages);
@@ -441,6 +550,7 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
 
   // Funktion zum Starten eines neuen Chats
   const startNewChat = () => {
+    discardQuestion();
     setSelectedPdf('');
     setSelectedPdfName('');
     setMessages([]);
@@ -481,62 +591,109 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
       }
     }
     
+    const question = inputValue;
+    // Die Nachrichten der Session sind der Verlauf, der mitgeschickt wird
+    const history = toChatHistory(messages);
+
     const userMessage: Message = {
       type: 'user',
-      content: inputValue,
+      content: question,
       timestamp: new Date()
     };
     
-    // Benutzeranfrage hinzufügen
-    setMessages(prev => [...prev, userMessage]);
+    // Benutzeranfrage und (noch leere) Antwort hinzufügen, die Antwort füllt sich beim Streamen
+    const assistantTimestamp = new Date();
+    setMessages(prev => [...prev, userMessage, { type: 'assistant', content: '', timestamp: assistantTimestamp, streaming: true }]);
     setInputValue('');
     setIsLoading(true);
-    
-    try {
-      // API-Anfrage senden mit dem aktuellen Token
-      const answer = await askPdfQuestion(
-        selectedPdf, 
-        inputValue,
-        currentToken || undefined
-      );
-      
-      // Antwort hinzufügen
-      const assistantMessage: Message = {
-        type: 'assistant',
-        content: answer,
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, assistantMessage]);
-      
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Ersetzt die gestreamte Antwort (letzte Nachricht) durch ihren Endstand
+    const finishAnswer = (assistantMessage: Message) => {
+      setMessages(prev => [...prev.slice(0, -1), assistantMessage]);
+
       // Chat-Session speichern
-      const updatedSession: PdfChatSession = {
+      savePdfChatHistory({
         id: currentSessionId,
         pdfPath: selectedPdf,
         pdfName: selectedPdfName,
         messages: [...messages, userMessage, assistantMessage],
         timestamp: new Date()
-      };
+      });
+    };
+
+    let streamed = '';
+
+    try {
+      // API-Anfrage senden mit dem aktuellen Token
+      const { answer, citations } = await askPdfQuestion(
+        selectedPdf, 
+        question,
+        history,
+        currentToken || undefined,
+        {
+          signal: abortController.signal,
+          onDelta: (text) => {
+            streamed += text;
+            const content = streamed;
+            setMessages(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], content }]);
+          }
+        }
+      );
       
-      savePdfChatHistory(updatedSession);
+      finishAnswer({
+        type: 'assistant',
+        content: answer,
+        timestamp: assistantTimestamp,
+        citations
+      });
     } catch (error: any) {
+      // Abbruch durch den Benutzer: bisherigen Text behalten, kein Fehler
+      if (error?.name === 'AbortError') {
+        if (abortControllerRef.current === abortController) {
+          finishAnswer(streamed.trim()
+            ? { type: 'assistant', content: `${streamed}\n\n*(abgebrochen)*`, timestamp: assistantTimestamp }
+            : { type: 'assistant', content: 'Die Anfrage wurde abgebrochen.', timestamp: assistantTimestamp, error: true });
+        }
+        return;
+      }
+
       console.error("PDF-Chat Fehler:", error);
+
+      // Stream abgerissen: bisherigen Text mit Hinweis behalten
+      const partialAnswer = error instanceof PdfStreamInterruptedError ? error.partialAnswer : streamed;
+      if (partialAnswer.trim()) {
+        finishAnswer({
+          type: 'assistant',
+          content: `${partialAnswer}\n\n*(Verbindung unterbrochen, die Antwort ist unvollständig. Bitte erneut fragen.)*`,
+          timestamp: assistantTimestamp
+        });
+        toast({
+          variant: "destructive",
+          title: "Verbindung unterbrochen",
+          description: "Die Antwort ist unvollständig."
+        });
+        return;
+      }
       
       // Bei 401-Fehlern spezifischere Nachricht anzeigen
       const isAuthError = error.message.includes("401") || 
                           error.message.includes("Unauthorized") ||
                           error.message.includes("Authentifizierung");
       
-      // Fehlermeldung als Nachricht anzeigen
+      // Fehlermeldung anstelle der Antwort anzeigen
       const errorMessage: Message = {
         type: 'assistant',
         content: isAuthError 
           ? "Authentifizierungsfehler: Bitte melden Sie sich erneut an und versuchen Sie es nochmal."
           : `Bei der Verarbeitung ist ein Fehler aufgetreten: ${error.message || 'Unbekannter Fehler'}`,
-        timestamp: new Date()
+        timestamp: new Date(),
+        error: true
       };
       
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.slice(0, -1), errorMessage]);
       
       toast({
         variant: "destructive",
@@ -546,7 +703,10 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
           : error.message || "Bei der Verarbeitung ist ein Fehler aufgetreten."
       });
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
@@ -582,6 +742,11 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
     </div>
   );
   
+  const openCitation = (citation: PdfCitation) => {
+    setViewerCitation(citation);
+    setIsViewerOpen(true);
+  };
+
   // Nachrichtenkomponente
   const MessageItem = ({ message }: { message: Message }) => (
     <div className="mb-4 last:mb-8">
@@ -611,6 +776,24 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
               <ReactMarkdown>{message.content}</ReactMarkdown>
             </div>
           )}
+          {message.citations && message.citations.length > 0 && (
+            // Quellen: öffnen das PDF an der zitierten Seite
+            <div className="flex flex-wrap gap-1.5 mt-3 pt-2 border-t border-border/60">
+              {message.citations.map((citation, i) => (
+                <Button
+                  key={`${citation.page}-${i}`}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs bg-background"
+                  title={citation.quote || `Seite ${citation.page} öffnen`}
+                  onClick={() => openCitation(citation)}
+                >
+                  <BookOpen className="h-3 w-3 mr-1" />
+                  S. {citation.page}
+                </Button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -654,8 +837,13 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
     </div>
   );
 
-  // PDF-Auswahl-Komponente
-  const PdfSelector = () => (
+  // Das gewählte PDF bleibt in der Auswahl, auch wenn es nicht zur aktuellen Suche passt
+  const selectablePdfs = selectedPdf && !availablePdfs.some(pdf => pdf.path === selectedPdf)
+    ? [{ path: selectedPdf, name: selectedPdfName }, ...availablePdfs]
+    : availablePdfs;
+
+  // PDF-Auswahl (als Element statt als Komponente, sonst verliert das Suchfeld beim Tippen den Fokus)
+  const pdfSelector = (
     <div className="p-4 border-b">
       <div className="flex items-center justify-between mb-2">
         <h3 className="font-semibold">PDF auswählen</h3>
@@ -675,7 +863,17 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
         </Button>
       </div>
       
-      {isLoadingPdfs ? (
+      <div className="relative mb-2">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={pdfSearchInput}
+          onChange={(e) => setPdfSearchInput(e.target.value)}
+          placeholder="Titel, Autor, Fach oder Dateiname suchen..."
+          className="pl-9"
+        />
+      </div>
+      
+      {isLoadingPdfs && availablePdfs.length === 0 ? (
         <div className="space-y-2">
           <Skeleton className="h-10 w-full" />
           <Skeleton className="h-10 w-full" />
@@ -683,14 +881,31 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
       ) : (
         <Select value={selectedPdf} onValueChange={handlePdfSelect}>
           <SelectTrigger>
-            <SelectValue placeholder="PDF auswählen" />
+            <SelectValue placeholder={availablePdfs.length === 0 ? "Keine PDFs gefunden" : "PDF auswählen"} />
           </SelectTrigger>
           <SelectContent>
-            {availablePdfs.map((pdf) => (
+            {selectablePdfs.map((pdf) => (
               <SelectItem key={pdf.path} value={pdf.path}>
                 {pdf.name}
               </SelectItem>
             ))}
+            {hasMorePdfs && (
+              <div className="p-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  disabled={isLoadingPdfs}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    loadMorePdfs();
+                  }}
+                >
+                  {isLoadingPdfs ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                  Weitere PDFs laden
+                </Button>
+              </div>
+            )}
           </SelectContent>
         </Select>
       )}
@@ -730,7 +945,7 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
         )}
         
         {/* PDF-Selector */}
-        <PdfSelector />
+        {pdfSelector}
         
         {/* Chat-Bereich mit einfachen Höhenberechnungen */}
         {selectedPdf ? (
@@ -746,9 +961,9 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
               <div className="flex flex-col min-h-full">
                 <div className="flex-1">
                   {messages.map((message, index) => (
-                    <MessageItem key={index} message={message} />
+                    !(message.streaming && !message.content) && <MessageItem key={index} message={message} />
                   ))}
-                  {isLoading && (
+                  {isLoading && !messages[messages.length - 1]?.content && (
                     <div className="flex justify-start mb-4">
                       <div className="bg-muted rounded-lg p-3 flex items-center">
                         <Loader2 className="h-4 w-4 animate-spin mr-2" />
@@ -772,16 +987,22 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
                   disabled={isLoading}
                   className="flex-1"
                 />
-                <Button 
-                  onClick={sendQuestion} 
-                  disabled={!inputValue.trim() || isLoading}
-                >
-                  {isLoading ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
+                {isLoading ? (
+                  <Button 
+                    variant="outline"
+                    onClick={cancelQuestion}
+                    title="Antwort abbrechen"
+                  >
+                    <Square className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button 
+                    onClick={sendQuestion} 
+                    disabled={!inputValue.trim()}
+                  >
                     <Send className="h-4 w-4" />
-                  )}
-                </Button>
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -795,6 +1016,15 @@ export function PdfChat({ open, onOpenChange, fullScreen = false, initialPdf }:
           </div>
         )}
       </div>
+
+      {/* Zitierte Seite einer Antwort */}
+      <PdfViewer
+        open={isViewerOpen}
+        onOpenChange={setIsViewerOpen}
+        pdfPath={selectedPdf}
+        pdfName={selectedPdfName}
+        citation={viewerCitation}
+      />
     </div>
   );
 }
\ No newline at end of file
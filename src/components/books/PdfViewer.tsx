@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { fetchPdfBlob, type PdfCitation } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+
+interface PdfViewerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pdfPath: string;
+  pdfName: string;
+  // Zitierte Stelle einer Antwort im PDF-Chat
+  citation: PdfCitation | null;
+}
+
+// Zeigt ein PDF aus R2 an der zitierten Seite an. Das PDF wird einmal pro Pfad geladen,
+// weitere Quellen aus demselben PDF springen nur noch zur Seite.
+export function PdfViewer({ open, onOpenChange, pdfPath, pdfName, citation }: PdfViewerProps) {
+  const { getToken } = useAuth();
+  const [pdf, setPdf] = useState<{ path: string; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !pdfPath || pdf?.path === pdfPath) return;
+
+    const abortController = new AbortController();
+    setError(null);
+
+    (async () => {
+      try {
+        const blob = await fetchPdfBlob(pdfPath, (await getToken()) || undefined, abortController.signal);
+        const url = URL.createObjectURL(blob);
+        if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+        urlRef.current = url;
+        setPdf({ path: pdfPath, url });
+      } catch (err: any) {
+        if (err?.name === "AbortError") return;
+        setError(err.message || "Das PDF konnte nicht geladen werden");
+      }
+    })();
+
+    return () => abortController.abort();
+  }, [open, pdfPath]);
+
+  // Object-URL freigeben, wenn der Chat geschlossen wird
+  useEffect(() => () => {
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+  }, []);
+
+  const page = citation?.page ?? 1;
+  const loadedUrl = pdf?.path === pdfPath ? pdf.url : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl w-[95vw] h-[90vh] flex flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{pdfName} – Seite {page}</DialogTitle>
+          {citation?.quote && (
+            <DialogDescription className="italic line-clamp-3">„{citation.quote}“</DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="flex-1 min-h-0 rounded-md border bg-muted">
+          {error ? (
+            <div className="flex h-full items-center justify-center p-4 text-sm text-red-600">{error}</div>
+          ) : loadedUrl ? (
+            // Neuer Key pro Seite, sonst springt der Browser-Viewer nicht zur Seite
+            <iframe
+              key={page}
+              src={`${loadedUrl}#page=${page}`}
+              title={pdfName}
+              className="h-full w-full rounded-md"
+            />
+          ) : (
+            <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              PDF wird geladen...
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PdfViewer;
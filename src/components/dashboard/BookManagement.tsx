@@ -6,7 +6,10 @@ import type { Database } from "@/types/supabase";
 import { ChatButton } from "../books/ChatButton";
 import { useSupabase } from '@/contexts/SupabaseContext';
 import { useAuth } from '@/hooks/useAuth';
-import { X } from "lucide-react";
+import { X, ScanLine, Tags, Download } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Dialog } from "@/components/ui/dialog";
+import { BarcodeScanner } from "../books/BarcodeScanner";
 import { toast } from "react-hot-toast";
 import { debounce } from "lodash";
 import {
@@ -14,7 +17,15 @@ import {
   YEAR_RANGE,
 } from "@/lib/constants";
 import { BookFilter } from '../books/BookFilter';
+import { applyBookFilters, hasActiveFilters, hasCopyFilters, isbnOrFilter, isUUID, type ActiveFilters } from "@/lib/book-filters";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getBooksForExport, downloadBookExport, type ExportFormat } from "@/lib/book-export";
 
 // Definiere den Book-Typ basierend auf dem generierten Tabellentyp
 export type Book = Database["public"]["Tables"]["books"]["Row"];
@@ -36,21 +47,13 @@ const API_ENDPOINT = import.meta.env.VITE_SUPABASE_URL
 
 const PAGE_SIZE = 30; // Anzahl der Bücher pro Seite
 
-interface ActiveFilters {
-  levels: string[];
-  school: string;
-  type: string;
-  subjects: string[];
-  yearRange: [number, number];
-  availability: boolean | null;
-  location: string;
-}
-
 const BookManagement = ({
   initialSearchQuery = "",
 }: BookManagementProps) => {
   const supabase = useSupabase();
-  const { loading: authLoading } = useAuth();
+  const { loading: authLoading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [showScanner, setShowScanner] = useState(false);
   const [searchQuery, setSearchQuery] = useState(initialSearchQuery);
   const [displayQuery, setDisplayQuery] = useState(initialSearchQuery);
   const [allBooks, setAllBooks] = useState<FetchedBook[]>([]);
@@ -72,6 +75,7 @@ const BookManagement = ({
   const [selectedYearRange, setSelectedYearRange] = useState<[number, number]>([YEAR_RANGE[0], YEAR_RANGE[1]]);
   const [selectedAvailability, setSelectedAvailability] = useState<boolean | null>(null);
   const [selectedLocation, setSelectedLocation] = useState<string>("");
+  const [exporting, setExporting] = useState(false);
 
   const getCurrentFilters = (): ActiveFilters => ({
     levels: selectedLevels,
@@ -83,8 +87,24 @@ const BookManagement = ({
     location: selectedLocation,
   });
   
-  const normalizeISBN = (isbn: string) => isbn.replace(/[^a-zA-Z0-9]/g, '');
-  const isUUID = (str: string): boolean => !!str.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i);
+  // Exportiert alle Bücher der aktuellen Auswahl, nicht nur die bereits geladene Seite
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const books = await getBooksForExport(getCurrentFilters(), searchQuery, supabase);
+      if (books.length === 0) {
+        toast.error("Keine Bücher für den Export gefunden");
+        return;
+      }
+      await downloadBookExport(books, format);
+      toast.success(`${books.length} Bücher exportiert`);
+    } catch (error) {
+      console.error("Error exporting books:", error);
+      toast.error("Fehler beim Exportieren der Bücher");
+    } finally {
+      setExporting(false);
+    }
+  };
 
   const fetchBooks = async (currentSearchTerm = "", loadMore = false, filters: ActiveFilters) => {
     console.log(`fetchBooks CALLED - searchTerm: '${currentSearchTerm}', loadMore: ${loadMore}, offset_before_request: ${offset}`, filters);
@@ -94,43 +114,12 @@ const BookManagement = ({
       const requestOffset = loadMore ? offset : 0;
 
       let queryBuilder = supabase.from("books");
-      const selectFields = "id, title, author, isbn, subject, level, year, type, publisher, description, available, location, school, has_pdf, created_at, borrowed_at, borrowed_by";
-      let query = queryBuilder.select(selectFields);
-
-      // Suchbegriff-Filterung
-      const uuidSearch = isUUID(currentSearchTerm);
-      if (currentSearchTerm && uuidSearch) {
-        query = query.eq("id", currentSearchTerm);
-      } else if (currentSearchTerm) {
-        const searchTermProcessed = `%${currentSearchTerm.replace(/ /g, '%')}%`;
-        query = query.or(
-          `title.ilike.${searchTermProcessed},author.ilike.${searchTermProcessed},isbn.ilike.${searchTermProcessed},subject.ilike.${searchTermProcessed},description.ilike.${searchTermProcessed},level.ilike.${searchTermProcessed},type.ilike.${searchTermProcessed}`
-        );
-      }
-
-      // Filter anwenden
-      if (filters.levels.length > 0) {
-        query = query.in("level", filters.levels);
-      }
-      if (filters.school && filters.school !== "Alle") {
-        query = query.ilike("school", filters.school);
-      }
-      if (filters.type && filters.type !== "Alle Typen") {
-        query = query.ilike("type", filters.type);
-      }
-      if (filters.subjects.length > 0) {
-        query = query.in("subject", filters.subjects);
-      }
-      if (filters.yearRange[0] !== YEAR_RANGE[0] || filters.yearRange[1] !== YEAR_RANGE[1]) {
-        query = query.gte("year", filters.yearRange[0]);
-        query = query.lte("year", filters.yearRange[1]);
-      }
-      if (filters.availability !== null) {
-        query = query.eq("available", filters.availability);
-      }
-      if (filters.location && filters.location !== "Alle Standorte") {
-        query = query.ilike("location", filters.location);
-      }
+      const selectFields = "id, title, author, isbn, subject, level, year, type, publisher, description, available, copy_count, available_count, location, school, has_pdf, created_at, borrowed_at, borrowed_by";
+      // Schule und Standort gehören zu den Exemplaren: Filter über einen Inner-Join auf book_copies
+      let query = queryBuilder.select(
+        hasCopyFilters(filters) ? `${selectFields}, book_copies!inner(school, location)` : selectFields
+      );
+      query = applyBookFilters(query, filters, currentSearchTerm);
 
       query = query
         .order("created_at", { ascending: false })
@@ -200,7 +189,7 @@ const BookManagement = ({
       const { data, error } = await supabase
         .from("books")
         .select("id, title, author, isbn, subject, level, publisher")
-        .or(`title.ilike.${processedSearchTerm},author.ilike.${processedSearchTerm},isbn.ilike.${processedSearchTerm},subject.ilike.${processedSearchTerm},level.ilike.${processedSearchTerm},publisher.ilike.${processedSearchTerm}`)
+        .or(`title.ilike.${processedSearchTerm},author.ilike.${processedSearchTerm},${isbnOrFilter(searchTerm.trim(), processedSearchTerm)},subject.ilike.${processedSearchTerm},level.ilike.${processedSearchTerm},publisher.ilike.${processedSearchTerm}`)
         .limit(10);
       if (error) {
         console.error("Error fetching client-side suggestions:", error);
@@ -243,22 +232,15 @@ const BookManagement = ({
   useEffect(() => {
     const filters = getCurrentFilters();
     const hasActiveSearch = searchQuery.trim() !== "";
-    const hasActiveFilters =
-      filters.levels.length > 0 ||
-      (filters.school && filters.school !== "Alle") ||
-      (filters.type && filters.type !== "Alle Typen") ||
-      filters.subjects.length > 0 ||
-      (filters.yearRange[0] !== YEAR_RANGE[0] || filters.yearRange[1] !== YEAR_RANGE[1]) ||
-      filters.availability !== null ||
-      (filters.location && filters.location !== "Alle Standorte");
-
-    console.log("BookManagement EFFECT (isFilteredState) - hasActiveSearch:", hasActiveSearch, "hasActiveFilters:", hasActiveFilters);
-    setIsFilteredState(hasActiveSearch || hasActiveFilters);
+    const filtersActive = hasActiveFilters(filters);
+
+    console.log("BookManagement EFFECT (isFilteredState) - hasActiveSearch:", hasActiveSearch, "hasActiveFilters:", filtersActive);
+    setIsFilteredState(hasActiveSearch || filtersActive);
 
     // Wenn nur Filter aktiv sind und kein Suchbegriff, setze displayQuery entsprechend
-    if (hasActiveFilters && !hasActiveSearch) {
+    if (filtersActive && !hasActiveSearch) {
       setDisplayQuery(""); // War vorher "Aktive Filter", jetzt leer
-    } else if (!hasActiveFilters && !hasActiveSearch) {
+    } else if (!filtersActive && !hasActiveSearch) {
       setDisplayQuery(""); // Kein Suchbegriff, keine Filter
     }
     // Sonst bleibt displayQuery vom Suchbegriff bestimmt (handleSearch)
@@ -292,6 +274,14 @@ const BookManagement = ({
     // fetchBooks wird durch den useEffect oben getriggert, da sich Filter geändert haben
   };
 
+  // Gescanntes Etikett öffnet das Exemplar
+  const handleCopyScan = useCallback((code: string) => {
+    setShowScanner(false);
+    navigate(`/copy/${code}`);
+  }, [navigate]);
+
+  const handleScannerClose = useCallback(() => setShowScanner(false), []);
+
   const handleBookChange = () => {
     setOffset(0);
     fetchBooks(searchQuery, false, getCurrentFilters());
@@ -381,6 +371,36 @@ const BookManagement = ({
 
         <main className="flex-1">
           <div className="w-full px-2 sm:px-4">
+            <div className="flex justify-end gap-2 py-2">
+              <Button variant="outline" size="sm" onClick={() => setShowScanner(true)}>
+                <ScanLine className="h-4 w-4 mr-1" />
+                Exemplar scannen
+              </Button>
+              {isAdmin && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate("/admin/labels", { state: { filters: getCurrentFilters(), searchQuery } })}
+                >
+                  <Tags className="h-4 w-4 mr-1" />
+                  Etiketten drucken
+                </Button>
+              )}
+              {isAdmin && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={exporting}>
+                      <Download className="h-4 w-4 mr-1" />
+                      {exporting ? "Exportiert..." : "Exportieren"}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleExport("csv")}>Als CSV</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport("xlsx")}>Als Excel (XLSX)</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
             {loadingError && (
               <div className="p-4 mb-4 text-red-800 bg-red-100 rounded-md">
                 {loadingError}
@@ -417,6 +437,12 @@ const BookManagement = ({
         </main>
         <ChatButton />
       </div>
+
+      <Dialog open={showScanner} onOpenChange={setShowScanner}>
+        {showScanner && (
+          <BarcodeScanner mode="copy" onScan={handleCopyScan} onClose={handleScannerClose} />
+        )}
+      </Dialog>
     </div>
   );
 };
@@ -3,9 +3,10 @@ import { DashboardHeader } from './DashboardHeader';
 import { useSupabase } from '@/contexts/SupabaseContext';
 import { useAuth } from '@/hooks/useAuth';
 import { Book } from '@/lib/books';
+import { countOpenLoans } from '@/lib/loans';
 import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { BookOpen, Clock, BookText, TrendingUp, Eye } from 'lucide-react';
+import { BookOpen, Clock, BookText, TrendingUp, Eye, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import BookDetails from '../books/BookDetails';
 
@@ -15,6 +16,7 @@ export default function Dashboard() {
   const [recentBooks, setRecentBooks] = useState<Book[]>([]);
   const [bookCount, setBookCount] = useState<number>(0);
   const [borrowedCount, setBorrowedCount] = useState<number>(0);
+  const [overdueCount, setOverdueCount] = useState<number>(0);
   const [booksAddedThisMonth, setBooksAddedThisMonth] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [totalVisits, setTotalVisits] = useState<number>(1254);
@@ -41,11 +43,8 @@ export default function Dashboard() {
           .from("books")
           .select("*", { count: 'exact', head: true });
 
-        // Zähle die ausgeliehenen Bücher
-        const { count: borrowedBooks } = await supabase
-          .from("books")
-          .select("*", { count: 'exact', head: true })
-          .eq("available", false);
+        // Zähle die offenen Ausleihen, aufgeteilt in fristgerecht und überfällig
+        const loanCounts = await countOpenLoans(supabase);
 
         // Berechne das Datum vor 30 Tagen
         const thirtyDaysAgo = new Date();
@@ -62,7 +61,8 @@ export default function Dashboard() {
           setRecentBooks(latestBooks as Book[]);
         }
         if (totalBooks !== null) setBookCount(totalBooks);
-        if (borrowedBooks !== null) setBorrowedCount(borrowedBooks);
+        setBorrowedCount(loanCounts.onTime);
+        setOverdueCount(loanCounts.overdue);
         if (recentlyAddedBooks !== null) setBooksAddedThisMonth(recentlyAddedBooks);
       } catch (error) {
         console.error("Fehler beim Laden der Dashboard-Daten:", error);
@@ -104,12 +104,13 @@ export default function Dashboard() {
     }
 
     // Aktualisiere auch die andere Statistik
-    const { count: borrowedBooks } = await supabase
-      .from("books")
-      .select("*", { count: 'exact', head: true })
-      .eq("available", false);
-
-    if (borrowedBooks !== null) setBorrowedCount(borrowedBooks);
+    try {
+      const loanCounts = await countOpenLoans(supabase);
+      setBorrowedCount(loanCounts.onTime);
+      setOverdueCount(loanCounts.overdue);
+    } catch (error) {
+      console.error("Fehler beim Laden der Ausleih-Statistik:", error);
+    }
 
     // Berechne das Datum vor 30 Tagen
     const thirtyDaysAgo = new Date();
@@ -160,7 +161,7 @@ export default function Dashboard() {
         </div>
 
         {/* Statistik-Karten */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <Card>
             <CardContent className="pt-6">
               <div className="flex items-center space-x-4">
@@ -182,12 +183,26 @@ export default function Dashboard() {
                   <Clock className="h-6 w-6 text-blue-600" />
                 </div>
                 <div>
-                  <p className="text-sm font-medium text-gray-500">Ausgeliehen</p>
+                  <p className="text-sm font-medium text-gray-500">Ausgeliehen (fristgerecht)</p>
                   <h3 className="text-2xl font-bold">{borrowedCount}</h3>
                 </div>
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center space-x-4">
+                <div className="bg-red-100 p-3 rounded-full">
+                  <AlertTriangle className="h-6 w-6 text-red-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-500">Überfällig</p>
+                  <h3 className="text-2xl font-bold">{overdueCount}</h3>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
           
           <Card>
             <CardContent className="pt-6">
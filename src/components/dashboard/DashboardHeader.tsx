@@ -1,7 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { Link, useNavigate, useLocation } from "react-router-dom";
-import { LogOut, Users, BookOpen, Upload, Menu, X, FileText, LayoutDashboard } from "lucide-react";
+import { LogOut, Users, BookOpen, Upload, Menu, X, FileText, LayoutDashboard, BookMarked, CalendarClock, Tags, ClipboardCheck, DatabaseZap, CopyCheck, History, Trash2 } from "lucide-react";
 import { UserButton } from "@clerk/clerk-react";
 import { useState } from "react";
 
@@ -41,6 +41,15 @@ export function DashboardHeader({ className = "" }: DashboardHeaderProps) {
         <BookOpen className="h-5 w-5 mr-2" />
         <span>Bücher</span>
       </Link>
+
+      <Link
+        to="/my-loans"
+        className={`flex items-center px-3 py-2 rounded-md hover:bg-gray-100 text-gray-700 ${isActive('/my-loans')}`}
+        onClick={() => setMobileMenuOpen(false)}
+      >
+        <BookMarked className="h-5 w-5 mr-2" />
+        <span>Meine Ausleihen</span>
+      </Link>
       
       <Link
         to="/pdf-chat"
@@ -74,6 +83,90 @@ export function DashboardHeader({ className = "" }: DashboardHeaderProps) {
           <span>Massenimport</span>
         </Link>
       )}
+
+      {/* Reservationen für alle Admins */}
+      {isAdmin && (
+        <Link
+          to="/admin/reservations"
+          className={`flex items-center px-3 py-2 rounded-md hover:bg-gray-100 text-gray-700 ${isActive('/admin/reservations')}`}
+          onClick={() => setMobileMenuOpen(false)}
+        >
+          <CalendarClock className="h-5 w-5 mr-2" />
+          <span>Reservationen</span>
+        </Link>
+      )}
+
+      {/* Etiketten für alle Admins */}
+      {isAdmin && (
+        <Link
+          to="/admin/labels"
+          className={`flex items-center px-3 py-2 rounded-md hover:bg-gray-100 text-gray-700 ${isActive('/admin/labels')}`}
+          onClick={() => setMobileMenuOpen(false)}
+        >
+          <Tags className="h-5 w-5 mr-2" />
+          <span>Etiketten</span>
+        </Link>
+      )}
+
+      {/* Inventur für alle Admins */}
+      {isAdmin && (
+        <Link
+          to="/admin/inventory"
+          className={`flex items-center px-3 py-2 rounded-md hover:bg-gray-100 text-gray-700 ${isActive('/admin/inventory')}`}
+          onClick={() => setMobileMenuOpen(false)}
+        >
+          <ClipboardCheck className="h-5 w-5 mr-2" />
+          <span>Inventur</span>
+        </Link>
+      )}
+
+      {/* ISBN-Cache für alle Admins */}
+      {isAdmin && (
+        <Link
+          to="/admin/isbn-cache"
+          className={`flex items-center px-3 py-2 rounded-md hover:bg-gray-100 text-gray-700 ${isActive('/admin/isbn-cache')}`}
+          onClick={() => setMobileMenuOpen(false)}
+        >
+          <DatabaseZap className="h-5 w-5 mr-2" />
+          <span>ISBN-Cache</span>
+        </Link>
+      )}
+
+      {/* Duplikate für alle Admins */}
+      {isAdmin && (
+        <Link
+          to="/admin/duplicates"
+          className={`flex items-center px-3 py-2 rounded-md hover:bg-gray-100 text-gray-700 ${isActive('/admin/duplicates')}`}
+          onClick={() => setMobileMenuOpen(false)}
+        >
+          <CopyCheck className="h-5 w-5 mr-2" />
+          <span>Duplikate</span>
+        </Link>
+      )}
+
+      {/* Änderungsprotokoll für alle Admins */}
+      {isAdmin && (
+        <Link
+          to="/admin/audit"
+          className={`flex items-center px-3 py-2 rounded-md hover:bg-gray-100 text-gray-700 ${isActive('/admin/audit')}`}
+          onClick={() => setMobileMenuOpen(false)}
+        >
+          <History className="h-5 w-5 mr-2" />
+          <span>Protokoll</span>
+        </Link>
+      )}
+
+      {/* Papierkorb für alle Admins */}
+      {isAdmin && (
+        <Link
+          to="/admin/trash"
+          className={`flex items-center px-3 py-2 rounded-md hover:bg-gray-100 text-gray-700 ${isActive('/admin/trash')}`}
+          onClick={() => setMobileMenuOpen(false)}
+        >
+          <Trash2 className="h-5 w-5 mr-2" />
+          <span>Papierkorb</span>
+        </Link>
+      )}
     </>
   );
 
@@ -29,6 +29,8 @@ export function useAuth() {
   const userRole = user?.publicMetadata?.role as string || null;
   const isAdmin = userRole === 'admin' || userRole === 'superadmin';
   const isSuperAdmin = userRole === 'superadmin';
+  // Schulhäuser der Person, steuern die Sichtbarkeit von PDFs
+  const userSchools = (user?.publicMetadata?.schools as string[] | undefined) || [];
   
   return {
     user,
@@ -37,6 +39,7 @@ export function useAuth() {
     isSuperAdmin,
     userId,
     userRole,
+    userSchools,
     isAuthenticated: !!userId,
     getToken  // Hinzufügen der getToken-Funktion für direkten Zugriff
   };
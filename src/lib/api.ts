@@ -63,14 +63,107 @@ export async function fetchBookInfo(isbn: string, authToken?: string) {
   }
 }
 
+// Ein Beitrag im bisherigen Gespräch, wird an processPdf mitgeschickt
+export interface PdfChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Höchstens so viele frühere Beiträge mitschicken (processPdf begrenzt zusätzlich)
+export const MAX_PDF_CHAT_HISTORY = 20;
+
+// Quelle einer Antwort: Seite in der PDF-Datei (1 = erste Seite) und ein kurzes Zitat
+export interface PdfCitation {
+  page: number;
+  quote: string;
+}
+
+export interface PdfAnswer {
+  answer: string;
+  citations: PdfCitation[];
+}
+
+export interface AskPdfQuestionOptions {
+  // Bricht die Anfrage samt Gemini-Stream ab
+  signal?: AbortSignal;
+  // Wird für jedes neu eintreffende Textstück aufgerufen
+  onDelta?: (text: string) => void;
+}
+
+// Fehler, wenn der Antwort-Stream vor dem Ende abreisst. partialAnswer enthält den bis dahin erhaltenen Text.
+export class PdfStreamInterruptedError extends Error {
+  constructor(message: string, public partialAnswer: string) {
+    super(message);
+    this.name = 'PdfStreamInterruptedError';
+  }
+}
+
+/**
+ * Liest die NDJSON-Antwort von processPdf ({type: 'delta' | 'done' | 'error'} pro Zeile)
+ * @returns Die vollständige Antwort und die Quellen aus dem done-Ereignis
+ */
+async function readPdfAnswerStream(response: Response, onDelta?: (text: string) => void): Promise<PdfAnswer> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let answer = '';
+
+  const handleLine = (line: string): PdfAnswer | null => {
+    if (!line.trim()) return null;
+    const event = JSON.parse(line);
+    if (event.type === 'delta') {
+      answer += event.text;
+      onDelta?.(event.text);
+    } else if (event.type === 'done') {
+      return { answer: event.answer, citations: event.citations || [] };
+    } else if (event.type === 'error') {
+      throw new PdfStreamInterruptedError(event.error || 'Fehler beim Erzeugen der Antwort', answer);
+    }
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const result = handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        if (result !== null) return result;
+      }
+    }
+
+    const result = handleLine(buffer + decoder.decode());
+    if (result !== null) return result;
+  } catch (error: any) {
+    // Abbruch durch den Benutzer unverändert weitergeben
+    if (error instanceof PdfStreamInterruptedError || error?.name === 'AbortError') throw error;
+    console.error('PDF-Chat Stream unterbrochen:', error);
+    throw new PdfStreamInterruptedError('Die Verbindung wurde unterbrochen', answer);
+  }
+
+  throw new PdfStreamInterruptedError('Die Verbindung wurde unterbrochen', answer);
+}
+
 /**
  * Sendet eine Frage zu einer PDF-Datei an die processPdf-API und gibt die Antwort zurück
  * @param pdfPath Der Pfad zur PDF-Datei im Cloudflare R2 Bucket
  * @param question Die Frage, die zu dieser PDF beantwortet werden soll
+ * @param history Der bisherige Gesprächsverlauf (ohne die aktuelle Frage), für Folgefragen
  * @param authToken Optionaler Auth-Token für authentifizierte Anfragen
- * @returns Die Antwort der Gemini-API
+ * @param options Abbruch-Signal und Callback für die gestreamten Textstücke
+ * @returns Die Antwort der Gemini-API mit den zitierten Seiten
  */
-export async function askPdfQuestion(pdfPath: string, question: string, authToken?: string) {
+export async function askPdfQuestion(
+  pdfPath: string,
+  question: string,
+  history: PdfChatTurn[] = [],
+  authToken?: string,
+  options: AskPdfQuestionOptions = {}
+): Promise<PdfAnswer> {
   try {
     // Domain-Erkennung mit erweiterter Bedingung und Logging
     const hostname = window.location.hostname;
@@ -92,14 +185,14 @@ export async function askPdfQuestion(pdfPath: string, question: string, authToke
       ? 'https://www.wanna-books.ch'
       : window.location.origin;
     
-    // Request URL konstruieren, ohne Cache-Buster da dies für Fragen nicht nötig ist
-    const requestUrl = `${baseUrl}${basePath}?key=${encodeURIComponent(cleanPdfPath)}&question=${encodeURIComponent(question)}`;
+    const requestUrl = `${baseUrl}${basePath}`;
     
     console.log('PDF-Chat API-Aufruf:', requestUrl);
     
     // Headers vorbereiten
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
+      "Accept": "application/x-ndjson, application/json",
     };
     
     // Auth-Token hinzufügen, falls vorhanden
@@ -107,11 +200,17 @@ export async function askPdfQuestion(pdfPath: string, question: string, authToke
       headers["Authorization"] = `Bearer ${authToken}`;
     }
     
-    // GET-Anfrage mit Query-Parametern
+    // POST-Anfrage: Frage und Verlauf im Body, damit auch lange Gespräche Platz haben
     const response = await fetch(requestUrl, {
-      method: "GET",
+      method: "POST",
       headers,
-      cache: "no-store"
+      cache: "no-store",
+      signal: options.signal,
+      body: JSON.stringify({
+        key: cleanPdfPath,
+        question,
+        history: history.slice(-MAX_PDF_CHAT_HISTORY),
+      }),
     });
 
     if (!response.ok) {
@@ -132,6 +231,11 @@ export async function askPdfQuestion(pdfPath: string, question: string, authToke
       throw new Error(`HTTP error! status: ${response.status}, message: ${errorData?.error || errorText || 'Unbekannter Fehler'}`);
     }
 
+    // Gestreamte Antwort (NDJSON), Cache-Treffer kommen weiterhin als JSON
+    if (response.headers.get('Content-Type')?.includes('application/x-ndjson')) {
+      return await readPdfAnswerStream(response, options.onDelta);
+    }
+
     // Antwort abrufen und analysieren
     const data = await response.json();
     console.log('PDF-Chat API-Antwort:', data);
@@ -149,7 +253,7 @@ export async function askPdfQuestion(pdfPath: string, question: string, authToke
       for (const field of ['summary', 'text', 'content', 'result']) {
         if (data[field] && typeof data[field] === 'string' && data[field].trim()) {
           console.log(`Alternatives Feld '${field}' verwendet`);
-          return data[field];
+          return { answer: data[field], citations: [] };
         }
       }
       
@@ -162,31 +266,60 @@ export async function askPdfQuestion(pdfPath: string, question: string, authToke
       throw new Error("Die API hat eine leere Antwort zurückgegeben");
     }
 
-    return data.answer;
+    return { answer: data.answer, citations: data.citations || [] };
   } catch (error: any) {
     console.error('PDF-Chat Fehler:', error);
     throw error;
   }
 }
 
+// URL einer Cloudflare Pages Function, lokal über den Vite-Proxy unter /api
+const getPagesFunctionUrl = (name: string) => {
+  const hostname = window.location.hostname;
+  const isCloudflare = hostname.includes('pages.dev') || hostname.includes('wanna-books.ch');
+  const baseUrl = hostname.includes('wanna-books.ch') ? 'https://www.wanna-books.ch' : window.location.origin;
+  return `${baseUrl}${isCloudflare ? '' : '/api'}/${name}`;
+};
+
+// Eintrag aus functions/listPdfs.ts
+export interface ListedPdf {
+  name: string;
+  size: number | null;
+  lastModified: string | null;
+  etag: string | null;
+  bookId: string | null;
+  kind: string | null;
+  label: string | null;
+  visibility: string | null;
+  book: { title: string; author: string; subject: string } | null;
+}
+
+export interface PdfPage {
+  files: ListedPdf[];
+  // Für die nächste Seite, null auf der letzten Seite
+  cursor: string | null;
+}
+
+export interface FetchPdfsOptions {
+  // Suche in Dateiname, Bezeichnung und den Angaben des Buchs
+  search?: string;
+  cursor?: string | null;
+  limit?: number;
+  // Genau eine Datei, z.B. ein verlinktes PDF
+  key?: string;
+  signal?: AbortSignal;
+}
+
 /**
- * Ruft die Liste der verfügbaren PDF-Dateien vom API-Endpunkt ab
+ * Ruft eine Seite der verfügbaren PDF-Dateien vom API-Endpunkt ab (nur die für die Person sichtbaren)
  * @param authToken Der JWT-Token für die Authentifizierung
- * @returns Eine Liste mit PDF-Datei-Informationen
+ * @param options Suche, Cursor der vorherigen Seite, Seitengrösse oder ein einzelner Key
+ * @returns Die Dateien der Seite und der Cursor für die nächste
  */
-export async function fetchPdfs(authToken?: string) {
-  try {
-    // Domain-Erkennung mit erweiterter Bedingung und Logging
-    const hostname = window.location.hostname;
-    console.log('Hostname:', hostname);
-    
-    // Cloudflare oder Produktions-Domain erkennen
-    const isCloudflare = hostname.includes('pages.dev') || hostname.includes('wanna-books.ch');
-    console.log('isCloudflare erkannt:', isCloudflare);
-    
-    // Für Cloudflare oder Produktion direkt /listPdfs verwenden, sonst /api/listPdfs
-    const endpoint = isCloudflare ? "/listPdfs" : "/api/listPdfs";
+export async function fetchPdfs(authToken?: string, options: FetchPdfsOptions = {}): Promise<PdfPage> {
+  const { search, cursor, limit, key, signal } = options;
 
+  try {
     // Headers vorbereiten
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
@@ -196,37 +329,20 @@ export async function fetchPdfs(authToken?: string) {
     if (authToken) {
       headers["Authorization"] = `Bearer ${authToken}`;
     }
-    
-    // Cache-Strategie verbessern - nur alle 5 Minuten aktualisieren
-    // Statische Variable für den letzten API-Aufruf und die Ergebnisse
-    if (!fetchPdfs.lastFetchTime) {
-      fetchPdfs.lastFetchTime = 0;
-      fetchPdfs.cachedResults = null;
-    }
-    
-    // Prüfen, ob der Cache noch gültig ist (nicht älter als 5 Minuten)
-    const now = Date.now();
-    const cacheAge = now - fetchPdfs.lastFetchTime;
-    const cacheValidDuration = 5 * 60 * 1000; // 5 Minuten in Millisekunden
-    
-    // Wenn wir gültige Ergebnisse im Cache haben, verwenden wir diese
-    if (fetchPdfs.cachedResults && cacheAge < cacheValidDuration) {
-      console.log('Verwende zwischengespeicherte PDF-Liste (Alter:', Math.round(cacheAge/1000), 's)');
-      return fetchPdfs.cachedResults;
-    }
-    
-    // Absolute URL direkt verwenden, wenn auf Produktionsdomäne
-    const requestUrl = hostname.includes('wanna-books.ch') 
-      ? `https://www.wanna-books.ch${endpoint}`
-      : `${window.location.origin}${endpoint}`;
-    
-    console.log('ListPDFs API-Aufruf:', requestUrl);
+
+    const query = new URLSearchParams();
+    if (search?.trim()) query.set('q', search.trim());
+    if (cursor) query.set('cursor', cursor);
+    if (limit) query.set('limit', String(limit));
+    if (key) query.set('key', key);
+
+    const requestUrl = `${getPagesFunctionUrl('listPdfs')}?${query}`;
     
     const response = await fetch(requestUrl, {
       method: "GET",
       headers,
-      // Cache-Kontrolle festlegen - wir verwenden jetzt unseren eigenen Cache
-      cache: "no-store"
+      cache: "no-store",
+      signal,
     });
 
     if (!response.ok) {
@@ -253,21 +369,199 @@ export async function fetchPdfs(authToken?: string) {
       throw new Error("Keine gültigen Daten von der API erhalten");
     }
 
-    // Ergebnisse im Cache speichern
-    fetchPdfs.lastFetchTime = now;
-    fetchPdfs.cachedResults = data.files;
-    
-    return data.files;
+    return { files: data.files, cursor: data.cursor ?? null };
   } catch (error) {
     console.error('ListPDFs Fehler:', error);
     throw error;
   }
 }
 
-// Typdefinitionen für die statischen Eigenschaften der fetchPdfs-Funktion
-declare global {
-  interface Function {
-    lastFetchTime?: number;
-    cachedResults?: any;
+/**
+ * Ruft alle sichtbaren PDF-Dateien Seite für Seite ab, z.B. für die Zuordnung in den Buchdetails
+ * @param authToken Der JWT-Token für die Authentifizierung
+ */
+export async function fetchAllPdfs(authToken?: string): Promise<ListedPdf[]> {
+  const files: ListedPdf[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await fetchPdfs(authToken, { cursor, limit: 100 });
+    files.push(...page.files);
+    cursor = page.cursor;
+  } while (cursor);
+
+  return files;
+}
+
+/**
+ * Lädt ein PDF für den Viewer im PDF-Chat (gleiche Sichtbarkeit wie listPdfs)
+ * @param pdfPath Der Pfad zur PDF-Datei im Cloudflare R2 Bucket
+ * @param authToken Der JWT-Token für die Authentifizierung
+ * @param signal Optionales Abbruch-Signal
+ */
+export async function fetchPdfBlob(pdfPath: string, authToken?: string, signal?: AbortSignal): Promise<Blob> {
+  const headers: Record<string, string> = {};
+  if (authToken) {
+    headers["Authorization"] = `Bearer ${authToken}`;
+  }
+
+  const requestUrl = `${getPagesFunctionUrl('getPdf')}?${new URLSearchParams({ key: pdfPath.replace(/^\/+/, '') })}`;
+  const response = await fetch(requestUrl, { headers, signal });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let errorData;
+    try {
+      errorData = JSON.parse(errorText);
+    } catch {
+      errorData = { error: errorText };
+    }
+    console.error('GetPdf API-Fehler:', { status: response.status, url: requestUrl, response: errorData });
+    throw new Error(errorData?.error || 'Das PDF konnte nicht geladen werden');
+  }
+
+  return await response.blob();
+}
+
+// PDF-Upload (nur Admins), siehe functions/uploadPdf.ts
+export const MAX_PDF_UPLOAD_SIZE = 1024 * 1024 * 200; // 200 MB
+// Grössere Dateien werden in Teilen hochgeladen (R2 verlangt mind. 5 MB pro Teil)
+const SINGLE_PDF_UPLOAD_SIZE = 1024 * 1024 * 20;
+const PDF_UPLOAD_PART_SIZE = 1024 * 1024 * 10;
+
+export interface UploadBookPdfOptions {
+  kind?: string;
+  label?: string;
+  // Sichtbarkeit im PDF-Chat, ohne Angabe entscheidet die Function nach der Art
+  visibility?: string;
+  schools?: string[];
+  authToken?: string;
+  // Anteil der hochgeladenen Bytes (0 bis 1)
+  onProgress?: (progress: number) => void;
+}
+
+// Führt eine Anfrage an uploadPdf aus und wirft bei Fehlern die Meldung der Function
+async function callUploadPdf(query: Record<string, string>, init: RequestInit, authToken?: string) {
+  const headers = new Headers(init.headers);
+  if (authToken) {
+    headers.set("Authorization", `Bearer ${authToken}`);
+  }
+
+  const response = await fetch(`${getPagesFunctionUrl('uploadPdf')}?${new URLSearchParams(query)}`, {
+    ...init,
+    headers,
+    cache: "no-store",
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    console.error('uploadPdf API-Fehler:', { status: response.status, response: data });
+    throw new Error(data?.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * Lädt ein PDF zu einem Buch in den R2-Bucket und ordnet es dem Buch zu
+ * @param bookId Die ID des Buchs
+ * @param file Die PDF-Datei
+ * @param options Art, Bezeichnung und Sichtbarkeit der Datei, Auth-Token und Fortschritts-Callback
+ * @returns Der neue Eintrag in book_files
+ */
+export async function uploadBookPdf(bookId: string, file: File, options: UploadBookPdfOptions = {}) {
+  const { kind = 'student_book', label = '', visibility, schools = [], authToken, onProgress } = options;
+  const access = visibility ? { visibility, schools } : {};
+
+  if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+    throw new Error('Nur PDF-Dateien können hochgeladen werden.');
+  }
+  if (file.size > MAX_PDF_UPLOAD_SIZE) {
+    throw new Error(`Das PDF ist zu gross (höchstens ${MAX_PDF_UPLOAD_SIZE / 1024 / 1024} MB).`);
+  }
+
+  onProgress?.(0);
+
+  // Kleine Dateien in einer Anfrage
+  if (file.size <= SINGLE_PDF_UPLOAD_SIZE) {
+    const data = await callUploadPdf(
+      {
+        action: 'upload',
+        bookId,
+        filename: file.name,
+        kind,
+        label,
+        ...(visibility ? { visibility, schools: schools.join(',') } : {}),
+      },
+      { method: 'PUT', headers: { 'Content-Type': 'application/pdf' }, body: file },
+      authToken
+    );
+    onProgress?.(1);
+    return data.file;
+  }
+
+  // Grosse Dateien als Multipart-Upload
+  const { key, uploadId } = await callUploadPdf(
+    { action: 'create' },
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ bookId, filename: file.name, size: file.size }),
+    },
+    authToken
+  );
+
+  try {
+    const parts = [];
+    for (let offset = 0, partNumber = 1; offset < file.size; offset += PDF_UPLOAD_PART_SIZE, partNumber++) {
+      const part = await callUploadPdf(
+        { action: 'part', key, uploadId, partNumber: String(partNumber) },
+        { method: 'PUT', body: file.slice(offset, offset + PDF_UPLOAD_PART_SIZE) },
+        authToken
+      );
+      parts.push(part);
+      onProgress?.(Math.min(1, (offset + PDF_UPLOAD_PART_SIZE) / file.size));
+    }
+
+    const data = await callUploadPdf(
+      { action: 'complete' },
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookId, key, uploadId, parts, kind, label, ...access }),
+      },
+      authToken
+    );
+    return data.file;
+  } catch (error) {
+    // Angefangenen Upload verwerfen, sonst bleiben die Teile im Bucket liegen
+    await callUploadPdf({ action: 'abort', key, uploadId }, { method: 'DELETE' }, authToken).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Löscht eine Datei eines Buchs: das R2-Objekt und die Zuordnung in book_files
+ * @param fileId Die ID des Eintrags in book_files
+ * @param authToken Auth-Token (nur Admins)
+ */
+export async function deleteBookPdf(fileId: string, authToken?: string): Promise<void> {
+  await callUploadPdf({ fileId }, { method: 'DELETE' }, authToken);
+}
+
+/**
+ * Löscht R2-Objekte, die keinem Buch mehr zugeordnet sind (nach dem endgültigen Löschen von Büchern)
+ * @param keys Die R2-Pfade
+ * @param authToken Auth-Token (nur Admins)
+ * @returns Warnungen für Dateien, die nicht gelöscht werden konnten
+ */
+export async function deleteUnattachedPdfs(keys: string[], authToken?: string): Promise<string[]> {
+  const warnings: string[] = [];
+  for (const key of keys) {
+    try {
+      await callUploadPdf({ key }, { method: 'DELETE' }, authToken);
+    } catch (error: any) {
+      warnings.push(`${key}: ${error.message}`);
+    }
   }
+  return warnings;
 }
@@ -0,0 +1,88 @@
+import type { Database } from "@/types/supabase";
+
+// Verwendung der generierten Typen
+export type AuditLogEntry = Database["public"]["Tables"]["audit_log"]["Row"];
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  create: "Erstellt",
+  update: "Geändert",
+  delete: "Gelöscht",
+  checkout: "Ausgeliehen",
+  return: "Zurückgegeben",
+  role_change: "Rolle geändert",
+  schools_change: "Schulhäuser geändert",
+  block: "Gesperrt",
+  unblock: "Entsperrt",
+};
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  book: "Buch",
+  book_copy: "Exemplar",
+  book_file: "Datei",
+  loan: "Ausleihe",
+  class_loan: "Klassensatz",
+  reservation: "Reservation",
+  user: "Benutzer",
+};
+
+export interface AuditLogFilters {
+  // Clerk-ID der handelnden oder betroffenen Person
+  userId?: string;
+  // Buchtitel (Teil davon) oder ID des Katalogeintrags
+  book?: string;
+  action?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Holt die neuesten Einträge des Änderungsprotokolls
+ * @param filters Optionale Filter nach Person, Buch und Aktion
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @param limit Maximale Anzahl Einträge
+ */
+export async function getAuditLog(
+  filters: AuditLogFilters,
+  supabaseClient: any,
+  limit = 200
+): Promise<AuditLogEntry[]> {
+  requireClient(supabaseClient);
+
+  let query = supabaseClient
+    .from("audit_log")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  const userId = filters.userId?.trim();
+  if (userId) {
+    // Auch Einträge, die die Person betreffen (Rollen, Sperren)
+    query = query.or(`actor_id.eq.${userId},and(entity_type.eq.user,entity_id.eq.${userId})`);
+  }
+
+  const book = filters.book?.trim();
+  if (book) {
+    query = UUID_PATTERN.test(book)
+      ? query.eq("book_id", book)
+      : query.not("book_id", "is", null).ilike("entity_label", `%${book}%`);
+  }
+
+  if (filters.action) {
+    query = query.eq("action", filters.action);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching audit log:", error);
+    throw error;
+  }
+
+  return data || [];
+}
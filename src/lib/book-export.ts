@@ -0,0 +1,141 @@
+import type { Database } from "@/types/supabase";
+import { applyBookFilters, hasCopyFilters, type ActiveFilters } from "@/lib/book-filters";
+import { toCsv, downloadCsv, type CsvColumn } from "@/lib/csv";
+import { downloadXlsx } from "@/lib/xlsx";
+
+type Book = Database["public"]["Tables"]["books"]["Row"];
+
+// Felder aus books, die exportiert werden (siehe EXPORT_SELECT_FIELDS)
+type ExportBookFields = Pick<
+  Book,
+  | "id" | "title" | "author" | "isbn" | "subject" | "level" | "year" | "type" | "publisher" | "description"
+  | "available" | "copy_count" | "available_count" | "location" | "school" | "has_pdf" | "created_at"
+  | "user_id" | "vector_source"
+>;
+
+// Katalogeintrag für den Export, dazu die aktuellen Ausleihenden und der Beginn der ältesten offenen Ausleihe
+export type ExportBook = ExportBookFields & {
+  borrower_names: string[];
+  borrowed_since: string | null;
+};
+
+export type ExportFormat = "csv" | "xlsx";
+
+// Seitengrösse beim Laden (PostgREST liefert standardmässig höchstens 1000 Zeilen)
+const EXPORT_PAGE_SIZE = 1000;
+// Anzahl IDs pro .in()-Abfrage, damit die URL nicht zu lang wird
+const ID_CHUNK_SIZE = 200;
+
+const EXPORT_SELECT_FIELDS =
+  "id, title, author, isbn, subject, level, year, type, publisher, description, available, copy_count, available_count, location, school, has_pdf, created_at, user_id, vector_source";
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+const formatExportDate = (value: string | null) => (value ? new Date(value).toLocaleDateString("de-CH") : "");
+
+export const BOOK_EXPORT_COLUMNS: CsvColumn<ExportBook>[] = [
+  { header: "ID", value: (book) => book.id },
+  { header: "Titel", value: (book) => book.title },
+  { header: "Autor", value: (book) => book.author },
+  { header: "ISBN", value: (book) => book.isbn },
+  { header: "Fach", value: (book) => book.subject },
+  { header: "Stufe", value: (book) => book.level },
+  { header: "Jahr", value: (book) => book.year },
+  { header: "Typ", value: (book) => book.type },
+  { header: "Verlag", value: (book) => book.publisher },
+  { header: "Beschreibung", value: (book) => book.description },
+  { header: "Schule", value: (book) => book.school },
+  { header: "Standort", value: (book) => book.location },
+  { header: "Exemplare", value: (book) => book.copy_count },
+  { header: "Verfügbar", value: (book) => book.available_count },
+  { header: "Ausgeliehen an", value: (book) => book.borrower_names.join(", ") },
+  { header: "Ausgeliehen seit", value: (book) => formatExportDate(book.borrowed_since) },
+  { header: "PDF vorhanden", value: (book) => (book.has_pdf ? "Ja" : "Nein") },
+  { header: "Erfasst am", value: (book) => formatExportDate(book.created_at) },
+  { header: "Erfasst von", value: (book) => book.user_id },
+  { header: "Vektorquelle", value: (book) => book.vector_source },
+];
+
+/**
+ * Lädt alle Bücher, die den aktuellen Filtern der Buchübersicht entsprechen, inkl. Namen der Ausleihenden
+ * @param filters Die aktiven Filter
+ * @param searchTerm Der aktuelle Suchbegriff
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getBooksForExport(filters: ActiveFilters, searchTerm: string, supabaseClient: any): Promise<ExportBook[]> {
+  requireClient(supabaseClient);
+
+  const selectFields = hasCopyFilters(filters)
+    ? `${EXPORT_SELECT_FIELDS}, book_copies!inner(school, location)`
+    : EXPORT_SELECT_FIELDS;
+
+  const books: ExportBookFields[] = [];
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const query = applyBookFilters(supabaseClient.from("books").select(selectFields), filters, searchTerm);
+    const { data, error } = await query
+      .order("title", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching books for export:", error);
+      throw error;
+    }
+
+    // Den Join nur für den Filter verwenden, nicht exportieren
+    books.push(...(data || []).map(({ book_copies, ...book }: any) => book));
+    if (!data || data.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  const borrowerNames = new Map<string, string[]>();
+  const borrowedSince = new Map<string, string>();
+  const bookIds = books.map((book) => book.id);
+  for (let i = 0; i < bookIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("loans")
+      .select("book_id, borrower_name, checked_out_at")
+      .in("book_id", bookIds.slice(i, i + ID_CHUNK_SIZE))
+      .is("returned_at", null);
+
+    if (error) {
+      console.error("Error fetching open loans for export:", error);
+      throw error;
+    }
+
+    (data || []).forEach((loan: { book_id: string; borrower_name: string | null; checked_out_at: string }) => {
+      const names = borrowerNames.get(loan.book_id) || [];
+      names.push(loan.borrower_name || "Unbekannt");
+      borrowerNames.set(loan.book_id, names);
+
+      const since = borrowedSince.get(loan.book_id);
+      if (!since || new Date(loan.checked_out_at) < new Date(since)) {
+        borrowedSince.set(loan.book_id, loan.checked_out_at);
+      }
+    });
+  }
+
+  return books.map((book) => ({
+    ...book,
+    borrower_names: borrowerNames.get(book.id) || [],
+    borrowed_since: borrowedSince.get(book.id) || null,
+  }));
+}
+
+/**
+ * Lädt die Bücher als CSV- oder Excel-Datei herunter
+ * @param books Die zu exportierenden Bücher
+ * @param format "csv" oder "xlsx"
+ */
+export async function downloadBookExport(books: ExportBook[], format: ExportFormat): Promise<void> {
+  const filename = `buecher-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === "xlsx") {
+    await downloadXlsx(filename, "Bücher", books, BOOK_EXPORT_COLUMNS);
+  } else {
+    downloadCsv(filename, toCsv(books, BOOK_EXPORT_COLUMNS));
+  }
+}
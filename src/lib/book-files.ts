@@ -0,0 +1,169 @@
+import type { Database } from "@/types/supabase";
+import { canAccessPdfFile, type PdfAccess } from "@/lib/pdf-access";
+
+export type { PdfAccess };
+
+// Verwendung der generierten Typen
+export type BookFile = Database["public"]["Tables"]["book_files"]["Row"];
+export type NewBookFile = Database["public"]["Tables"]["book_files"]["Insert"];
+
+export type BookFileKind = "student_book" | "solutions" | "worksheets" | "other";
+
+// Reihenfolge = Anzeigereihenfolge, das Schülerbuch ist die Standarddatei für den PDF-Chat
+export const BOOK_FILE_KIND_LABELS: Record<BookFileKind, string> = {
+  student_book: "Schülerbuch",
+  solutions: "Lösungen",
+  worksheets: "Arbeitsblätter",
+  other: "Sonstiges",
+};
+
+const KIND_ORDER = Object.keys(BOOK_FILE_KIND_LABELS);
+
+export type BookFileVisibility = "public" | "teachers" | "admins" | "schools";
+
+// Wer eine Datei im PDF-Chat sieht, Regeln in pdf-access.ts
+export const BOOK_FILE_VISIBILITY_LABELS: Record<BookFileVisibility, string> = {
+  public: "Alle angemeldeten Personen",
+  teachers: "Lehrpersonen",
+  admins: "Nur Admins",
+  schools: "Bestimmte Schulhäuser",
+};
+
+// Standard-Sichtbarkeit beim Hochladen oder Zuordnen, Lösungen sind meist nur für Lehrpersonen lizenziert
+export function getDefaultVisibility(kind: BookFileKind): BookFileVisibility {
+  return kind === "solutions" ? "teachers" : "public";
+}
+
+/**
+ * Prüft, ob eine Person eine Datei sehen darf (gleiche Regeln wie in den Pages Functions, siehe pdf-access.ts)
+ * @param file Die Datei
+ * @param access Rolle und Schulhäuser aus den Clerk-Metadaten
+ */
+export function canAccessBookFile(file: Pick<BookFile, "visibility" | "schools">, access: PdfAccess): boolean {
+  return canAccessPdfFile(file, access);
+}
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Anzeigename einer Datei: eigene Bezeichnung oder die Art der Datei
+ * @param file Die Datei
+ */
+export function getBookFileLabel(file: Pick<BookFile, "kind" | "label">): string {
+  return file.label?.trim() || BOOK_FILE_KIND_LABELS[file.kind as BookFileKind] || file.kind;
+}
+
+/**
+ * Pfad des PDF-Chats für ein Buch, optional direkt mit einer bestimmten Datei
+ * @param bookId Die ID des Buchs
+ * @param file Die Datei, sonst wählt die Chat-Seite die erste Datei des Buchs
+ */
+export function getPdfChatPath(bookId: string, file?: Pick<BookFile, "id"> | null): string {
+  return file ? `/chat/${bookId}?file=${file.id}` : `/chat/${bookId}`;
+}
+
+/**
+ * Holt alle Dateien eines Buchs, Schülerbuch zuerst
+ * @param bookId Die ID des Buchs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getBookFiles(bookId: string, supabaseClient: any): Promise<BookFile[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("book_files")
+    .select()
+    .eq("book_id", bookId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching book files:", error);
+    throw error;
+  }
+
+  return ((data || []) as BookFile[]).sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+}
+
+/**
+ * Ordnet einem Buch eine Datei aus dem R2-Bucket zu (nur Admins)
+ * @param file Buch, R2-Pfad, Art und optionale Angaben zur Datei
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function attachBookFile(file: NewBookFile, supabaseClient: any): Promise<BookFile> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("book_files")
+    .insert(file)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error attaching book file:", error);
+    if (error.code === "23505") {
+      throw new Error("Diese Datei ist bereits einem Buch zugeordnet.");
+    }
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Holt die R2-Pfade aller Dateien der angegebenen Bücher, z.B. um sie nach dem endgültigen Löschen zu entfernen
+ * @param bookIds Die IDs der Bücher
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getBookFileKeys(bookIds: string[], supabaseClient: any): Promise<string[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("book_files")
+    .select("key")
+    .in("book_id", bookIds);
+
+  if (error) {
+    console.error("Error fetching book file keys:", error);
+    throw error;
+  }
+
+  return (data || []).map((file: { key: string }) => file.key);
+}
+
+/**
+ * Ändert, wer eine Datei im PDF-Chat sieht (nur Admins)
+ * @param fileId Die ID der Datei
+ * @param visibility Die neue Sichtbarkeit
+ * @param schools Schulhäuser bei der Sichtbarkeit "schools", sonst ignoriert
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function updateBookFileVisibility(
+  fileId: string,
+  visibility: BookFileVisibility,
+  schools: string[],
+  supabaseClient: any
+): Promise<BookFile> {
+  requireClient(supabaseClient);
+
+  if (visibility === "schools" && schools.length === 0) {
+    throw new Error("Bitte mindestens ein Schulhaus auswählen.");
+  }
+
+  const { data, error } = await supabaseClient
+    .from("book_files")
+    .update({ visibility, schools: visibility === "schools" ? schools : [] })
+    .eq("id", fileId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating book file visibility:", error);
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,107 @@
+import { YEAR_RANGE } from "@/lib/constants";
+import { cleanIsbn, isbnVariants, looksLikeIsbn, parseIsbn } from "@/lib/isbn";
+
+// Aktive Filter der Buchübersicht (BookManagement), auch für die Etiketten-Auswahl verwendet
+export interface ActiveFilters {
+  levels: string[];
+  school: string;
+  type: string;
+  subjects: string[];
+  yearRange: [number, number];
+  availability: boolean | null;
+  location: string;
+}
+
+export const EMPTY_FILTERS: ActiveFilters = {
+  levels: [],
+  school: "",
+  type: "",
+  subjects: [],
+  yearRange: [YEAR_RANGE[0], YEAR_RANGE[1]],
+  availability: null,
+  location: "",
+};
+
+export const isUUID = (str: string): boolean => !!str.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i);
+
+/**
+ * Schule und Standort gehören zu den Exemplaren. Sind sie gefiltert, muss book_copies per Inner-Join
+ * mitgeladen werden (select "..., book_copies!inner(...)").
+ */
+export function hasCopyFilters(filters: ActiveFilters): boolean {
+  return (
+    (!!filters.school && filters.school !== "Alle") ||
+    (!!filters.location && filters.location !== "Alle Standorte")
+  );
+}
+
+/**
+ * Prüft, ob irgendein Filter von den Standardwerten abweicht
+ */
+export function hasActiveFilters(filters: ActiveFilters): boolean {
+  return (
+    filters.levels.length > 0 ||
+    (!!filters.school && filters.school !== "Alle") ||
+    (!!filters.type && filters.type !== "Alle Typen") ||
+    filters.subjects.length > 0 ||
+    filters.yearRange[0] !== YEAR_RANGE[0] || filters.yearRange[1] !== YEAR_RANGE[1] ||
+    filters.availability !== null ||
+    (!!filters.location && filters.location !== "Alle Standorte")
+  );
+}
+
+/**
+ * Bedingung für die ISBN-Spalte innerhalb von .or(): eine vollständige ISBN wird in allen Schreibweisen
+ * (ISBN-13, ISBN-10) gesucht, ein Teil einer ISBN ohne Bindestriche und Leerzeichen
+ * @param searchTerm Der Suchbegriff
+ * @param pattern Das ilike-Muster für Suchbegriffe, die keine ISBN sind
+ */
+export function isbnOrFilter(searchTerm: string, pattern: string): string {
+  if (!looksLikeIsbn(searchTerm)) return `isbn.ilike.${pattern}`;
+  if (parseIsbn(searchTerm).kind !== "invalid") return `isbn.in.(${isbnVariants(searchTerm).join(",")})`;
+  return `isbn.ilike.%${cleanIsbn(searchTerm)}%`;
+}
+
+/**
+ * Wendet Suchbegriff und Filter auf eine Supabase-Abfrage der Tabelle books an
+ * @param query Die Abfrage (nach .select())
+ * @param filters Die aktiven Filter
+ * @param searchTerm Optionaler Suchbegriff oder Buch-ID
+ */
+export function applyBookFilters(query: any, filters: ActiveFilters, searchTerm = ""): any {
+  // Suchbegriff-Filterung
+  if (searchTerm && isUUID(searchTerm)) {
+    query = query.eq("id", searchTerm);
+  } else if (searchTerm) {
+    const searchTermProcessed = `%${searchTerm.replace(/ /g, '%')}%`;
+    query = query.or(
+      `title.ilike.${searchTermProcessed},author.ilike.${searchTermProcessed},${isbnOrFilter(searchTerm, searchTermProcessed)},subject.ilike.${searchTermProcessed},description.ilike.${searchTermProcessed},level.ilike.${searchTermProcessed},type.ilike.${searchTermProcessed}`
+    );
+  }
+
+  // Filter anwenden
+  if (filters.levels.length > 0) {
+    query = query.in("level", filters.levels);
+  }
+  if (filters.school && filters.school !== "Alle") {
+    query = query.ilike("book_copies.school", filters.school);
+  }
+  if (filters.type && filters.type !== "Alle Typen") {
+    query = query.ilike("type", filters.type);
+  }
+  if (filters.subjects.length > 0) {
+    query = query.in("subject", filters.subjects);
+  }
+  if (filters.yearRange[0] !== YEAR_RANGE[0] || filters.yearRange[1] !== YEAR_RANGE[1]) {
+    query = query.gte("year", filters.yearRange[0]);
+    query = query.lte("year", filters.yearRange[1]);
+  }
+  if (filters.availability !== null) {
+    query = query.eq("available", filters.availability);
+  }
+  if (filters.location && filters.location !== "Alle Standorte") {
+    query = query.ilike("book_copies.location", filters.location);
+  }
+
+  return query;
+}
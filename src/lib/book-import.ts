@@ -0,0 +1,198 @@
+import { LEVELS, SUBJECTS, BOOK_TYPES, SCHOOLS, LOCATIONS } from "@/lib/constants";
+import { parseCsv } from "@/lib/csv";
+import { readXlsx } from "@/lib/xlsx";
+import { normalizeIsbn, validateIsbn } from "@/lib/isbn";
+
+// Buchfelder, die aus einer Tabellenspalte übernommen werden können
+export type ImportField =
+  | "isbn"
+  | "title"
+  | "author"
+  | "year"
+  | "subject"
+  | "level"
+  | "type"
+  | "publisher"
+  | "description"
+  | "school"
+  | "location";
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  // Spaltenüberschriften, die automatisch diesem Feld zugeordnet werden (klein geschrieben)
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: "isbn", label: "ISBN", aliases: ["isbn", "isbn-13", "isbn13", "isbn-10", "ean"] },
+  { field: "title", label: "Titel", aliases: ["titel", "title", "buchtitel", "name"] },
+  { field: "author", label: "Autor", aliases: ["autor", "author", "autorin", "autoren", "verfasser"] },
+  { field: "year", label: "Jahr", aliases: ["jahr", "year", "erscheinungsjahr", "jahrgang"] },
+  { field: "subject", label: "Fach", aliases: ["fach", "subject", "fachbereich"] },
+  { field: "level", label: "Stufe", aliases: ["stufe", "level", "klasse", "schulstufe"] },
+  { field: "type", label: "Typ", aliases: ["typ", "type", "art", "medientyp"] },
+  { field: "publisher", label: "Verlag", aliases: ["verlag", "publisher"] },
+  { field: "description", label: "Beschreibung", aliases: ["beschreibung", "description", "bemerkung"] },
+  { field: "school", label: "Schule", aliases: ["schule", "school", "schulhaus"] },
+  { field: "location", label: "Standort", aliases: ["standort", "location", "ort", "raum"] },
+];
+
+// Ohne diese Felder muss das Buch per ISBN nachgeschlagen werden
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["title", "author", "year", "subject", "level"];
+
+// Zuordnung Feld -> Spaltenindex (null = nicht zugeordnet)
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+// Buchdaten einer Tabellenzeile, wie sie als Import-Job an bulk-import-books gesendet werden
+export interface ImportBookData {
+  isbn: string;
+  title: string | null;
+  author: string | null;
+  year: number | null;
+  subject: string | null;
+  level: string | null;
+  type: string | null;
+  publisher: string | null;
+  description: string | null;
+  school: string | null;
+  location: string | null;
+}
+
+// complete: direkt importieren, lookup: fehlende Angaben per ISBN ergänzen, invalid: nicht importierbar
+export type ImportRowStatus = "complete" | "lookup" | "invalid";
+
+export interface ImportRow {
+  rowNumber: number;
+  data: ImportBookData;
+  status: ImportRowStatus;
+  errors: string[];
+  selected: boolean;
+}
+
+/**
+ * Liest eine hochgeladene CSV- oder Excel-Datei. Die erste Zeile enthält die Spaltenüberschriften.
+ * @param file Die Datei (.csv, .txt oder .xlsx)
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  const cells = isExcel ? await readXlsx(file) : parseCsv(await file.text());
+
+  if (cells.length < 2) {
+    throw new Error("Die Datei enthält keine Datenzeilen.");
+  }
+
+  const [headers, ...rows] = cells;
+  return { headers: headers.map((header, index) => header || `Spalte ${index + 1}`), rows };
+}
+
+/**
+ * Ordnet die Spalten anhand ihrer Überschriften automatisch den Buchfeldern zu
+ * @param headers Die Spaltenüberschriften
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalizedHeaders = headers.map((header) => header.trim().toLowerCase());
+
+  return IMPORT_FIELDS.reduce((mapping, definition) => {
+    const index = normalizedHeaders.findIndex((header) => definition.aliases.includes(header));
+    mapping[definition.field] = index >= 0 ? index : null;
+    return mapping;
+  }, {} as ColumnMapping);
+}
+
+// Wert aus einer erlaubten Liste suchen (Gross-/Kleinschreibung egal) und in der offiziellen Schreibweise zurückgeben
+const matchAllowedValue = (value: string, allowed: string[]): string | null =>
+  allowed.find((candidate) => candidate.toLowerCase() === value.trim().toLowerCase()) || null;
+
+/**
+ * Wandelt die Tabellenzeilen anhand der Zuordnung in Buchdaten um und prüft sie gegen die erlaubten Werte
+ * @param spreadsheet Die eingelesene Tabelle
+ * @param mapping Die Zuordnung der Spalten
+ */
+export function buildImportRows(spreadsheet: SpreadsheetData, mapping: ColumnMapping): ImportRow[] {
+  return spreadsheet.rows.map((cells, index) => {
+    const errors: string[] = [];
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null || column === undefined ? "" : (cells[column] || "").trim();
+    };
+
+    const data: ImportBookData = {
+      isbn: normalizeIsbn(cell("isbn")),
+      title: cell("title") || null,
+      author: cell("author") || null,
+      year: null,
+      subject: null,
+      level: null,
+      type: null,
+      publisher: cell("publisher") || null,
+      description: cell("description") || null,
+      school: null,
+      location: null,
+    };
+
+    const year = cell("year");
+    if (year) {
+      const parsedYear = parseInt(year, 10);
+      if (Number.isNaN(parsedYear) || parsedYear < 1000 || parsedYear > new Date().getFullYear() + 1) {
+        errors.push(`Ungültiges Jahr "${year}"`);
+      } else {
+        data.year = parsedYear;
+      }
+    }
+
+    // Stufen dürfen mehrfach (kommagetrennt) angegeben werden
+    const levels = cell("level").split(/[,;]/).map((level) => level.trim()).filter(Boolean);
+    if (levels.length > 0) {
+      const matchedLevels = levels.map((level) => matchAllowedValue(level, LEVELS));
+      levels.forEach((level, levelIndex) => {
+        if (!matchedLevels[levelIndex]) errors.push(`Unbekannte Stufe "${level}"`);
+      });
+      data.level = matchedLevels.every(Boolean) ? matchedLevels.join(",") : null;
+    }
+
+    const validatedFields: { field: "subject" | "type" | "school" | "location"; allowed: string[]; message: string }[] = [
+      { field: "subject", allowed: SUBJECTS, message: "Unbekanntes Fach" },
+      { field: "type", allowed: BOOK_TYPES, message: "Unbekannter Typ" },
+      { field: "school", allowed: SCHOOLS, message: "Unbekannte Schule" },
+      { field: "location", allowed: LOCATIONS, message: "Unbekannter Standort" },
+    ];
+    validatedFields.forEach(({ field, allowed, message }) => {
+      const value = cell(field);
+      if (!value) return;
+      const matched = matchAllowedValue(value, allowed);
+      if (matched) {
+        data[field] = matched;
+      } else {
+        errors.push(`${message} "${value}"`);
+      }
+    });
+
+    const isbnError = validateIsbn(cell("isbn"));
+    if (isbnError) {
+      errors.push(isbnError);
+    }
+
+    const isComplete = REQUIRED_IMPORT_FIELDS.every((field) => data[field] !== null && data[field] !== "");
+    if (!isComplete && !data.isbn) {
+      const missing = IMPORT_FIELDS
+        .filter((definition) => REQUIRED_IMPORT_FIELDS.includes(definition.field) && !data[definition.field])
+        .map((definition) => definition.label);
+      errors.push(`Fehlende Angaben ohne ISBN: ${missing.join(", ")}`);
+    }
+
+    const status: ImportRowStatus = errors.length > 0 ? "invalid" : isComplete ? "complete" : "lookup";
+    return {
+      rowNumber: index + 2, // Zeile 1 enthält die Überschriften
+      data,
+      status,
+      errors,
+      selected: status !== "invalid",
+    };
+  });
+}
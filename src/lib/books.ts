@@ -1,5 +1,6 @@
 import type { Database } from "@/types/supabase";
 import { useAuth } from "@/hooks/useAuth";
+import { isbnVariants } from "@/lib/isbn";
 
 // Verwendung der generierten Typen
 export type Book = Database["public"]["Tables"]["books"]["Row"];
@@ -30,4 +31,32 @@ export async function getBookById(id: string, supabaseClient: any) {
   return data;
 }
 
+/**
+ * Holt ein Buch anhand seiner ISBN (Bindestriche werden ignoriert, ISBN-10 und ISBN-13 sind gleichwertig)
+ * @param isbn Die ISBN
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getBookByIsbn(
+  isbn: string,
+  supabaseClient: any
+): Promise<Pick<Book, "id" | "title" | "author" | "isbn" | "type"> | null> {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+
+  const { data, error } = await supabaseClient
+    .from("books")
+    .select("id, title, author, isbn, type")
+    .in("isbn", isbnVariants(isbn))
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching book by ISBN:", error);
+    throw error;
+  }
+
+  return data;
+}
+
 // Remove the subscribeToBooks function as we're handling it directly in BookManagement
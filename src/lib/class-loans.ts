@@ -0,0 +1,111 @@
+import type { Database } from "@/types/supabase";
+import type { Loan } from "@/lib/loans";
+
+// Verwendung der generierten Typen
+export type ClassLoan = Database["public"]["Tables"]["class_loans"]["Row"];
+
+// Klassensatz inkl. der einzelnen Exemplar-Ausleihen
+export type ClassLoanWithLoans = ClassLoan & {
+  loans: (Loan & { book_copies: { barcode: string } | null })[];
+};
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Holt die offenen Klassensätze eines Buchs inkl. der Exemplare
+ * @param bookId Die ID des Buchs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getOpenClassLoans(bookId: string, supabaseClient: any): Promise<ClassLoanWithLoans[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("class_loans")
+    .select("*, loans(*, book_copies(barcode))")
+    .eq("book_id", bookId)
+    .is("returned_at", null)
+    .order("checked_out_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching class loans:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Leiht einen Klassensatz aus. Entweder wird eine Anzahl angegeben (die Datenbank wählt freie Exemplare)
+ * oder die IDs der gescannten Exemplare.
+ * @param bookId Die ID des Buchs
+ * @param details Klasse, Anzahl bzw. Exemplare, Rückgabedatum und Name der Lehrperson
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @returns Die ID des neuen Klassensatzes
+ */
+export async function borrowClassSet(
+  bookId: string,
+  details: {
+    className: string;
+    quantity?: number;
+    copyIds?: string[];
+    dueAt?: string | null;
+    teacherName?: string | null;
+  },
+  supabaseClient: any
+): Promise<string> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient.rpc("borrow_class_set", {
+    p_book_id: bookId,
+    p_class_name: details.className,
+    p_quantity: details.copyIds?.length ? null : details.quantity ?? null,
+    p_copy_ids: details.copyIds?.length ? details.copyIds : null,
+    p_due_at: details.dueAt || null,
+    p_teacher_name: details.teacherName || null,
+  });
+
+  if (error) {
+    console.error("Error borrowing class set:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Gibt Exemplare eines Klassensatzes zurück. Ohne Exemplar-Liste werden alle offenen Exemplare zurückgegeben.
+ * Der Klassensatz wird per Trigger abgeschlossen, sobald das letzte Exemplar zurück ist.
+ * @param classLoanId Die ID des Klassensatzes
+ * @param copyIds Optional: nur diese Exemplare zurückgeben
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function returnClassLoan(
+  classLoanId: string,
+  copyIds: string[] | null,
+  supabaseClient: any
+): Promise<Loan[]> {
+  requireClient(supabaseClient);
+
+  let query = supabaseClient
+    .from("loans")
+    .update({ returned_at: new Date().toISOString() })
+    .eq("class_loan_id", classLoanId)
+    .is("returned_at", null);
+
+  if (copyIds) {
+    query = query.in("copy_id", copyIds);
+  }
+
+  const { data, error } = await query.select();
+
+  if (error) {
+    console.error("Error returning class loan:", error);
+    throw error;
+  }
+
+  return data || [];
+}
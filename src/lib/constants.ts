@@ -34,6 +34,22 @@ export const BOOK_TYPES = [
   "Comic"
 ];
 
+// Standard-Ausleihdauer in Tagen pro Buchtyp (Admins können das Rückgabedatum anpassen)
+export const LOAN_PERIOD_DAYS: Record<string, number> = {
+  "Lehrmittel": 180,
+  "Lesebuch": 28,
+  "Lernmaterial": 28,
+  "Fachbuch": 28,
+  "Sachbuch": 28,
+  "Bilderbuch": 14,
+  "Comic": 14
+};
+
+export const DEFAULT_LOAN_PERIOD_DAYS = 28;
+
+// Kiosk-Modus: automatische Abmeldung nach dieser Zeit ohne Eingabe (Sekunden)
+export const KIOSK_IDLE_TIMEOUT_SECONDS = 120;
+
 export const SCHOOLS = [
   "Chriesiweg",
   "Aesch",
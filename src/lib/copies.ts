@@ -0,0 +1,197 @@
+import type { Database } from "@/types/supabase";
+
+// Verwendung der generierten Typen
+export type BookCopy = Database["public"]["Tables"]["book_copies"]["Row"];
+export type NewBookCopy = Database["public"]["Tables"]["book_copies"]["Insert"];
+export type BookCopyUpdate = Database["public"]["Tables"]["book_copies"]["Update"];
+
+// Exemplar inkl. der Buchangaben für Etiketten
+export type BookCopyWithBook = BookCopy & {
+  books: { id: string; title: string; author: string; school: string | null } | null;
+};
+
+// Exemplar-Codes haben die Form WB000123
+const COPY_CODE_PATTERN = /WB\d{6}/;
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Holt alle Exemplare eines Buchs, sortiert nach Exemplar-Code
+ * @param bookId Die ID des Buchs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getCopies(bookId: string, supabaseClient: any): Promise<BookCopy[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("book_copies")
+    .select()
+    .eq("book_id", bookId)
+    .order("barcode", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching copies:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Holt ein Exemplar anhand seines Exemplar-Codes
+ * @param barcode Der Exemplar-Code (z.B. WB000123)
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getCopyByBarcode(barcode: string, supabaseClient: any): Promise<BookCopy | null> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("book_copies")
+    .select()
+    .eq("barcode", barcode.toUpperCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching copy by barcode:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Fügt einem Buch weitere Exemplare hinzu (nur Admins)
+ * @param bookId Die ID des Buchs
+ * @param count Anzahl neuer Exemplare
+ * @param details Standort und Schule der neuen Exemplare
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function addCopies(
+  bookId: string,
+  count: number,
+  details: { location?: string | null; school?: string | null },
+  supabaseClient: any
+): Promise<BookCopy[]> {
+  requireClient(supabaseClient);
+
+  const newCopies: NewBookCopy[] = Array.from({ length: count }, () => ({
+    book_id: bookId,
+    location: details.location || null,
+    school: details.school || null,
+  }));
+
+  const { data, error } = await supabaseClient
+    .from("book_copies")
+    .insert(newCopies)
+    .select();
+
+  if (error) {
+    console.error("Error adding copies:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Aktualisiert ein Exemplar (nur Admins)
+ * @param copyId Die ID des Exemplars
+ * @param updates Die zu ändernden Felder
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function updateCopy(copyId: string, updates: BookCopyUpdate, supabaseClient: any): Promise<BookCopy> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("book_copies")
+    .update(updates)
+    .eq("id", copyId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating copy:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Setzt Schule und Standort mehrerer Exemplare auf einmal (nur Admins)
+ * @param copyIds Die IDs der Exemplare
+ * @param details Neue Schule und neuer Standort
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function moveCopies(
+  copyIds: string[],
+  details: { school: string | null; location: string | null },
+  supabaseClient: any
+): Promise<BookCopy[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("book_copies")
+    .update({ school: details.school, location: details.location })
+    .in("id", copyIds)
+    .select();
+
+  if (error) {
+    console.error("Error moving copies:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Löscht ein Exemplar (nur Admins)
+ * @param copyId Die ID des Exemplars
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function deleteCopy(copyId: string, supabaseClient: any): Promise<void> {
+  requireClient(supabaseClient);
+
+  const { error } = await supabaseClient
+    .from("book_copies")
+    .delete()
+    .eq("id", copyId);
+
+  if (error) {
+    console.error("Error deleting copy:", error);
+    throw error;
+  }
+}
+
+/**
+ * Formatiert die Verfügbarkeit eines Katalogeintrags, z.B. "12 von 25 verfügbar"
+ */
+export function formatCopyAvailability(book: { copy_count?: number | null; available_count?: number | null }): string {
+  const total = book.copy_count ?? 0;
+  const free = book.available_count ?? 0;
+
+  if (total === 0) return "Keine Exemplare";
+  if (total === 1) return free > 0 ? "Verfügbar" : "Ausgeliehen";
+  return `${free} von ${total} verfügbar`;
+}
+
+/**
+ * Liest den Exemplar-Code aus einem gescannten Text. Etiketten enthalten entweder den Code selbst
+ * oder einen Link auf /copy/<Code>.
+ * @returns Der Exemplar-Code oder null, wenn der Text keinen enthält
+ */
+export function parseCopyCode(text: string): string | null {
+  const match = text.trim().toUpperCase().match(COPY_CODE_PATTERN);
+  return match ? match[0] : null;
+}
+
+/**
+ * Link, der direkt das Exemplar öffnet (Inhalt der QR-Codes auf den Etiketten)
+ */
+export function getCopyUrl(barcode: string): string {
+  return `${window.location.origin}/copy/${barcode}`;
+}
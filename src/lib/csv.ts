@@ -0,0 +1,110 @@
+// Spalte einer Exportdatei (CSV oder XLSX): Überschrift und Wert pro Zeile
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+// Semikolon als Trennzeichen, damit Excel mit deutschen Ländereinstellungen die Datei direkt öffnet
+const CSV_SEPARATOR = ";";
+
+/**
+ * Verhindert, dass Tabellenprogramme Text als Formel ausführen (Formel-Injection über Titel o.ä.).
+ * Text, der mit =, +, -, @, Tabulator oder Wagenrücklauf beginnt, erhält ein führendes Apostroph.
+ * @param value Der Zellwert
+ */
+export function neutralizeFormula<V>(value: V): V | string {
+  return typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+const escapeCsvValue = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return "";
+  const text = String(neutralizeFormula(value));
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Wandelt Zeilen in CSV-Text um
+ * @param rows Die Datenzeilen
+ * @param columns Die Spalten mit Überschrift und Wert
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const header = columns.map((column) => escapeCsvValue(column.header)).join(CSV_SEPARATOR);
+  const lines = rows.map((row) => columns.map((column) => escapeCsvValue(column.value(row))).join(CSV_SEPARATOR));
+  return [header, ...lines].join("\r\n");
+}
+
+/**
+ * Zerlegt CSV-Text in Zeilen und Zellen. Das Trennzeichen (Semikolon, Komma oder Tabulator)
+ * wird aus der ersten Zeile erkannt, Werte in Anführungszeichen dürfen Trennzeichen und Zeilenumbrüche enthalten.
+ * @param text Der CSV-Text
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  const separator = [";", ",", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(value.trim());
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(value.trim());
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell !== ""));
+}
+
+/**
+ * Lädt eine Datei im Browser herunter
+ * @param filename Dateiname inkl. Endung
+ * @param blob Der Dateiinhalt
+ */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Lädt CSV-Text als Datei herunter (mit BOM, damit Umlaute in Excel korrekt erscheinen)
+ * @param filename Dateiname inkl. Endung
+ * @param csv Der CSV-Text
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  downloadBlob(filename, new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }));
+}
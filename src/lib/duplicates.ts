@@ -0,0 +1,129 @@
+import type { Book } from "@/lib/books";
+
+export type DuplicateReason = "isbn" | "title" | "embedding";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  isbn: "Gleiche ISBN",
+  title: "Ähnlicher Titel",
+  embedding: "Ähnlicher Inhalt",
+};
+
+export type DuplicateBook = Pick<
+  Book,
+  | "id"
+  | "title"
+  | "author"
+  | "isbn"
+  | "year"
+  | "publisher"
+  | "subject"
+  | "level"
+  | "type"
+  | "school"
+  | "copy_count"
+  | "has_pdf"
+  | "created_at"
+>;
+
+export interface DuplicatePair {
+  a: DuplicateBook;
+  b: DuplicateBook;
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+const DUPLICATE_BOOK_FIELDS = "id, title, author, isbn, year, publisher, subject, level, type, school, copy_count, has_pdf, created_at";
+
+// Grösse der Blöcke für .in()-Abfragen, damit die URL nicht zu lang wird
+const ID_CHUNK_SIZE = 200;
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Sucht mögliche Duplikate (gleiche ISBN, ähnlicher Titel oder ähnliches Embedding)
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @returns Die Paare, sortiert nach Wahrscheinlichkeit
+ */
+export async function findDuplicateCandidates(supabaseClient: any): Promise<DuplicatePair[]> {
+  requireClient(supabaseClient);
+
+  const { data: candidates, error } = await supabaseClient.rpc("find_duplicate_books");
+
+  if (error) {
+    console.error("Error finding duplicate books:", error);
+    throw error;
+  }
+  if (!candidates || candidates.length === 0) return [];
+
+  const ids = [...new Set<string>(candidates.flatMap((candidate: any) => [candidate.book_id_a, candidate.book_id_b]))];
+  const booksById = new Map<string, DuplicateBook>();
+
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data: books, error: booksError } = await supabaseClient
+      .from("books")
+      .select(DUPLICATE_BOOK_FIELDS)
+      .in("id", ids.slice(i, i + ID_CHUNK_SIZE));
+
+    if (booksError) {
+      console.error("Error fetching duplicate books:", booksError);
+      throw booksError;
+    }
+    (books || []).forEach((book: DuplicateBook) => booksById.set(book.id, book));
+  }
+
+  return candidates
+    .filter((candidate: any) => booksById.has(candidate.book_id_a) && booksById.has(candidate.book_id_b))
+    .map((candidate: any) => ({
+      a: booksById.get(candidate.book_id_a),
+      b: booksById.get(candidate.book_id_b),
+      reasons: candidate.reasons as DuplicateReason[],
+      score: candidate.score,
+    }));
+}
+
+/**
+ * Führt Katalogeinträge zusammen. Exemplare, Dateien, Ausleihen und Reservationen gehen an den behaltenen Eintrag.
+ * @param keep Der Eintrag, der bestehen bleibt
+ * @param duplicates Die Einträge, die darin aufgehen und gelöscht werden
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function mergeBooks(
+  keep: DuplicateBook,
+  duplicates: DuplicateBook[],
+  supabaseClient: any
+): Promise<void> {
+  requireClient(supabaseClient);
+
+  const { error } = await supabaseClient.rpc("merge_books", {
+    p_keep_id: keep.id,
+    p_merge_ids: duplicates.map((duplicate) => duplicate.id),
+  });
+
+  if (error) {
+    console.error("Error merging books:", error);
+    throw error;
+  }
+}
+
+/**
+ * Markiert ein Paar als "kein Duplikat", es wird danach nicht mehr vorgeschlagen
+ * @param pair Das Paar
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function dismissDuplicate(pair: Pick<DuplicatePair, "a" | "b">, supabaseClient: any): Promise<void> {
+  requireClient(supabaseClient);
+
+  const [first, second] = [pair.a.id, pair.b.id].sort();
+  const { error } = await supabaseClient
+    .from("book_duplicate_dismissals")
+    .insert({ book_id_a: first, book_id_b: second });
+
+  if (error) {
+    console.error("Error dismissing duplicate:", error);
+    throw error;
+  }
+}
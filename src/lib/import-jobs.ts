@@ -0,0 +1,158 @@
+import type { Database } from "@/types/supabase";
+import type { ImportBookData } from "@/lib/book-import";
+
+// Verwendung der generierten Typen
+export type ImportJob = Database["public"]["Tables"]["import_jobs"]["Row"];
+export type ImportJobItem = Database["public"]["Tables"]["import_job_items"]["Row"];
+
+export type ImportItemStatus = "pending" | "fetched" | "imported" | "duplicate" | "failed";
+
+export const IMPORT_ITEM_STATUS_LABELS: Record<ImportItemStatus, string> = {
+  pending: "Ausstehend",
+  fetched: "Nachgeschlagen",
+  imported: "Importiert",
+  duplicate: "Weiteres Exemplar",
+  failed: "Fehlgeschlagen",
+};
+
+// Ohne Fortschritt seit dieser Zeit gilt ein laufender Job als hängengeblieben (Sekunden)
+export const IMPORT_JOB_STALE_SECONDS = 120;
+
+// Seitengrösse beim Laden (PostgREST liefert standardmässig höchstens 1000 Zeilen)
+const ITEM_PAGE_SIZE = 1000;
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+const invokeBulkImport = async (body: Record<string, unknown>, supabaseClient: any) => {
+  const { data, error } = await supabaseClient.functions.invoke("bulk-import-books", { body });
+
+  if (error) {
+    console.error("Error calling bulk-import-books:", error);
+    throw new Error(`Fehler beim Aufruf der Funktion: ${error.message}`);
+  }
+
+  return data;
+};
+
+/**
+ * Legt einen Import-Job an. Die Verarbeitung läuft danach im Hintergrund weiter.
+ * @param input Entweder eine ISBN-Liste oder Buchzeilen aus einer Tabelle
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @returns Die ID des Jobs
+ */
+export async function startImportJob(
+  input: { isbns: string[] } | { books: ImportBookData[] },
+  supabaseClient: any
+): Promise<string> {
+  requireClient(supabaseClient);
+
+  const data = await invokeBulkImport(input, supabaseClient);
+  return data.jobId;
+}
+
+/**
+ * Setzt einen hängengebliebenen Job fort
+ * @param jobId Die ID des Jobs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function resumeImportJob(jobId: string, supabaseClient: any): Promise<void> {
+  requireClient(supabaseClient);
+  await invokeBulkImport({ action: "resume", jobId }, supabaseClient);
+}
+
+/**
+ * Setzt alle fehlgeschlagenen Zeilen eines Jobs zurück und verarbeitet sie erneut
+ * @param jobId Die ID des Jobs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function retryFailedImportItems(jobId: string, supabaseClient: any): Promise<void> {
+  requireClient(supabaseClient);
+  await invokeBulkImport({ action: "retry", jobId }, supabaseClient);
+}
+
+/**
+ * Holt die zuletzt angelegten Import-Jobs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @param limit Maximale Anzahl Jobs
+ */
+export async function getRecentImportJobs(supabaseClient: any, limit = 10): Promise<ImportJob[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("import_jobs")
+    .select()
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching import jobs:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Holt einen Job mit allen Zeilen
+ * @param jobId Die ID des Jobs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getImportJobWithItems(
+  jobId: string,
+  supabaseClient: any
+): Promise<{ job: ImportJob; items: ImportJobItem[] }> {
+  requireClient(supabaseClient);
+
+  const { data: job, error: jobError } = await supabaseClient.from("import_jobs").select().eq("id", jobId).single();
+
+  if (jobError) {
+    console.error("Error fetching import job:", jobError);
+    throw jobError;
+  }
+
+  const items: ImportJobItem[] = [];
+  for (let offset = 0; ; offset += ITEM_PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("import_job_items")
+      .select("id, job_id, position, isbn, status, title, error, book_id, attempts, claimed_at, updated_at")
+      .eq("job_id", jobId)
+      .order("position", { ascending: true })
+      .range(offset, offset + ITEM_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching import job items:", error);
+      throw error;
+    }
+
+    items.push(...(data || []));
+    if (!data || data.length < ITEM_PAGE_SIZE) break;
+  }
+
+  return { job, items };
+}
+
+/**
+ * Zählt die Zeilen eines Jobs pro Status
+ * @param items Die Zeilen des Jobs
+ */
+export function countImportItems(items: Pick<ImportJobItem, "status">[]): Record<ImportItemStatus, number> {
+  const counts: Record<ImportItemStatus, number> = { pending: 0, fetched: 0, imported: 0, duplicate: 0, failed: 0 };
+  items.forEach((item) => {
+    counts[item.status as ImportItemStatus] += 1;
+  });
+  return counts;
+}
+
+/**
+ * Prüft, ob ein nicht abgeschlossener Job seit längerer Zeit keinen Fortschritt mehr gemacht hat
+ * @param job Der Job
+ * @param now Aktueller Zeitpunkt
+ */
+export function isImportJobStalled(job: Pick<ImportJob, "status" | "updated_at">, now: Date = new Date()): boolean {
+  if (job.status === "completed") return false;
+  return now.getTime() - new Date(job.updated_at).getTime() > IMPORT_JOB_STALE_SECONDS * 1000;
+}
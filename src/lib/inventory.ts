@@ -0,0 +1,265 @@
+import type { Database } from "@/types/supabase";
+import type { BookCopy } from "@/lib/copies";
+import { getCopyByBarcode } from "@/lib/copies";
+
+// Verwendung der generierten Typen
+export type InventorySession = Database["public"]["Tables"]["inventory_sessions"]["Row"];
+export type InventoryScan = Database["public"]["Tables"]["inventory_scans"]["Row"];
+
+// Exemplar inkl. Buchangaben für den Inventurbericht
+export type InventoryCopy = BookCopy & {
+  books: { id: string; title: string; author: string; isbn: string } | null;
+};
+
+// Ergebnis einer Inventur
+export interface InventoryReport {
+  // Am Standort erwartet, nicht ausgeliehen, aber nicht gescannt
+  missing: InventoryCopy[];
+  // Gescannt, gehören aber an eine andere Schule oder einen anderen Standort
+  misplaced: InventoryCopy[];
+  // Gescannt, obwohl eine offene Ausleihe besteht
+  borrowedButPresent: InventoryCopy[];
+  // Gescannte Codes ohne passendes Exemplar
+  unknownBarcodes: string[];
+  expectedCount: number;
+  scannedCount: number;
+}
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+const COPY_WITH_BOOK_SELECT = "*, books(id, title, author, isbn)";
+// Seitengrösse beim Laden (PostgREST liefert standardmässig höchstens 1000 Zeilen)
+const COPY_PAGE_SIZE = 1000;
+// Anzahl IDs pro .in()-Abfrage, damit die URL nicht zu lang wird
+const ID_CHUNK_SIZE = 200;
+
+/**
+ * Holt alle Inventuren, neueste zuerst
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getInventorySessions(supabaseClient: any): Promise<InventorySession[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("inventory_sessions")
+    .select()
+    .order("started_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching inventory sessions:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Startet eine neue Inventur für eine Schule und einen Standort
+ * @param details Schule, Standort und Name der startenden Person
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function createInventorySession(
+  details: { school: string; location: string; startedByName?: string | null },
+  supabaseClient: any
+): Promise<InventorySession> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("inventory_sessions")
+    .insert({
+      school: details.school,
+      location: details.location,
+      started_by_name: details.startedByName || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating inventory session:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Schliesst eine Inventur ab
+ * @param sessionId Die ID der Inventur
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function completeInventorySession(sessionId: string, supabaseClient: any): Promise<InventorySession> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("inventory_sessions")
+    .update({ completed_at: new Date().toISOString() })
+    .eq("id", sessionId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error completing inventory session:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Holt alle Scans einer Inventur
+ * @param sessionId Die ID der Inventur
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getInventoryScans(sessionId: string, supabaseClient: any): Promise<InventoryScan[]> {
+  requireClient(supabaseClient);
+
+  const scans: InventoryScan[] = [];
+  for (let offset = 0; ; offset += COPY_PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("inventory_scans")
+      .select()
+      .eq("session_id", sessionId)
+      .order("scanned_at", { ascending: false })
+      .order("id", { ascending: true })
+      .range(offset, offset + COPY_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching inventory scans:", error);
+      throw error;
+    }
+
+    scans.push(...(data || []));
+    if (!data || data.length < COPY_PAGE_SIZE) break;
+  }
+
+  return scans;
+}
+
+/**
+ * Erfasst einen gescannten Exemplar-Code. Unbekannte Codes werden ohne Exemplar gespeichert,
+ * doppelte Scans innerhalb derselben Inventur ignoriert.
+ * @param sessionId Die ID der Inventur
+ * @param barcode Der gescannte Exemplar-Code
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @returns Der Scan oder null, wenn der Code bereits erfasst war
+ */
+export async function addInventoryScan(sessionId: string, barcode: string, supabaseClient: any): Promise<InventoryScan | null> {
+  requireClient(supabaseClient);
+
+  const copy = await getCopyByBarcode(barcode, supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("inventory_scans")
+    .upsert(
+      { session_id: sessionId, barcode: barcode.toUpperCase(), copy_id: copy?.id || null },
+      { onConflict: "session_id,barcode", ignoreDuplicates: true }
+    )
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error adding inventory scan:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Holt die Exemplare, die laut Katalog an einer Schule und einem Standort stehen
+ * @param school Die Schule
+ * @param location Der Standort
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getCopiesAtLocation(school: string, location: string, supabaseClient: any): Promise<InventoryCopy[]> {
+  requireClient(supabaseClient);
+
+  const copies: InventoryCopy[] = [];
+  for (let offset = 0; ; offset += COPY_PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("book_copies")
+      .select(COPY_WITH_BOOK_SELECT)
+      .eq("school", school)
+      .eq("location", location)
+      .order("barcode", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + COPY_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching copies at location:", error);
+      throw error;
+    }
+
+    copies.push(...(data || []));
+    if (!data || data.length < COPY_PAGE_SIZE) break;
+  }
+
+  return copies;
+}
+
+/**
+ * Erstellt den Bericht einer Inventur
+ * @param session Die Inventur
+ * @param scans Die erfassten Scans
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function buildInventoryReport(
+  session: InventorySession,
+  scans: InventoryScan[],
+  supabaseClient: any
+): Promise<InventoryReport> {
+  requireClient(supabaseClient);
+
+  const expectedCopies = await getCopiesAtLocation(session.school, session.location, supabaseClient);
+  const scannedCopyIds = scans.filter((scan) => scan.copy_id).map((scan) => scan.copy_id as string);
+
+  // Gescannte Exemplare, die nicht zum Standort gehören, separat laden
+  const expectedIds = new Set(expectedCopies.map((copy) => copy.id));
+  const foreignIds = scannedCopyIds.filter((id) => !expectedIds.has(id));
+  const foreignCopies: InventoryCopy[] = [];
+  for (let i = 0; i < foreignIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("book_copies")
+      .select(COPY_WITH_BOOK_SELECT)
+      .in("id", foreignIds.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) {
+      console.error("Error fetching scanned copies:", error);
+      throw error;
+    }
+    foreignCopies.push(...(data || []));
+  }
+
+  // Offene Ausleihen aller beteiligten Exemplare
+  const relevantIds = [...expectedIds, ...foreignIds];
+  const borrowedIds = new Set<string>();
+  for (let i = 0; i < relevantIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("loans")
+      .select("copy_id")
+      .in("copy_id", relevantIds.slice(i, i + ID_CHUNK_SIZE))
+      .is("returned_at", null);
+
+    if (error) {
+      console.error("Error fetching open loans for inventory:", error);
+      throw error;
+    }
+    (data || []).forEach((loan: { copy_id: string }) => borrowedIds.add(loan.copy_id));
+  }
+
+  const scannedIds = new Set(scannedCopyIds);
+  const scannedCopies = [...expectedCopies.filter((copy) => scannedIds.has(copy.id)), ...foreignCopies];
+
+  return {
+    missing: expectedCopies.filter((copy) => !scannedIds.has(copy.id) && !borrowedIds.has(copy.id)),
+    misplaced: foreignCopies,
+    borrowedButPresent: scannedCopies.filter((copy) => borrowedIds.has(copy.id)),
+    unknownBarcodes: scans.filter((scan) => !scan.copy_id).map((scan) => scan.barcode),
+    expectedCount: expectedCopies.length,
+    scannedCount: scans.length,
+  };
+}
@@ -0,0 +1,91 @@
+import type { Database } from "@/types/supabase";
+
+// Verwendung der generierten Typen
+export type IsbnCacheEntry = Omit<Database["public"]["Tables"]["isbn_lookup_cache"]["Row"], "raw_response">;
+
+// Zwischengespeicherte Buchangaben (Spalte result)
+export interface CachedBookMetadata {
+  title: string | null;
+  author: string | null;
+  isbn: string;
+  year: number | null;
+  publisher: string | null;
+  level: string | null;
+  subject: string | null;
+  type: string | null;
+}
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Holt die neuesten Einträge des ISBN-Caches
+ * @param searchTerm Optionaler Suchbegriff für ISBN oder Titel
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @param limit Maximale Anzahl Einträge
+ */
+export async function getIsbnCacheEntries(
+  searchTerm: string,
+  supabaseClient: any,
+  limit = 100
+): Promise<IsbnCacheEntry[]> {
+  requireClient(supabaseClient);
+
+  let query = supabaseClient
+    .from("isbn_lookup_cache")
+    .select("isbn, provider, sources, result, hit_count, last_hit_at, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  const term = searchTerm.trim();
+  if (term) {
+    const digits = term.replace(/[^0-9X]/gi, "");
+    query = digits.length >= 3 && digits.length === term.replace(/[\s-]/g, "").length
+      ? query.ilike("isbn", `%${digits}%`)
+      : query.ilike("result->>title", `%${term}%`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching ISBN cache:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Löscht einen Eintrag, die nächste Abfrage dieser ISBN fragt wieder Kataloge und Gemini an
+ * @param isbn Die ISBN des Eintrags (Schlüssel des Caches)
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function deleteIsbnCacheEntry(isbn: string, supabaseClient: any): Promise<void> {
+  requireClient(supabaseClient);
+
+  const { error } = await supabaseClient.from("isbn_lookup_cache").delete().eq("isbn", isbn);
+
+  if (error) {
+    console.error("Error deleting ISBN cache entry:", error);
+    throw error;
+  }
+}
+
+/**
+ * Leert den gesamten ISBN-Cache
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function clearIsbnCache(supabaseClient: any): Promise<void> {
+  requireClient(supabaseClient);
+
+  // Ohne Filter verweigert PostgREST das Löschen
+  const { error } = await supabaseClient.from("isbn_lookup_cache").delete().neq("isbn", "");
+
+  if (error) {
+    console.error("Error clearing ISBN cache:", error);
+    throw error;
+  }
+}
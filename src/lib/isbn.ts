@@ -0,0 +1,2 @@
+// Gemeinsames ISBN-Modul mit den Edge Functions (dort als "../isbn.ts" importiert)
+export * from "../../supabase/functions/isbn";
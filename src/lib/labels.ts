@@ -0,0 +1,163 @@
+import { jsPDF } from "jspdf";
+import { QRCodeEncoder, QRCodeDecoderErrorCorrectionLevel } from "@zxing/library";
+import { getCopyUrl } from "@/lib/copies";
+
+// Ein Etikett pro Exemplar
+export interface CopyLabel {
+  barcode: string;
+  title: string;
+  school?: string | null;
+}
+
+// Etikettenbogen im A4-Format, alle Masse in Millimetern
+export interface LabelLayout {
+  id: string;
+  name: string;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  horizontalPitch: number;
+  verticalPitch: number;
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: "L7160",
+    name: "Avery L7160 (63,5 × 38,1 mm, 21 pro Bogen)",
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.25,
+    horizontalPitch: 66,
+    verticalPitch: 38.1,
+  },
+  {
+    id: "L7159",
+    name: "Avery L7159 (63,5 × 33,9 mm, 24 pro Bogen)",
+    columns: 3,
+    rows: 8,
+    labelWidth: 63.5,
+    labelHeight: 33.9,
+    marginTop: 12.9,
+    marginLeft: 7.25,
+    horizontalPitch: 66,
+    verticalPitch: 33.9,
+  },
+  {
+    id: "L7163",
+    name: "Avery L7163 (99,1 × 38,1 mm, 14 pro Bogen)",
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    horizontalPitch: 101.6,
+    verticalPitch: 38.1,
+  },
+  {
+    id: "L7651",
+    name: "Avery L7651 (38,1 × 21,2 mm, 65 pro Bogen)",
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.75,
+    horizontalPitch: 40.6,
+    verticalPitch: 21.2,
+  },
+  {
+    id: "3474",
+    name: "Zweckform 3474 (70 × 37 mm, 24 pro Bogen)",
+    columns: 3,
+    rows: 8,
+    labelWidth: 70,
+    labelHeight: 37,
+    marginTop: 0.5,
+    marginLeft: 0,
+    horizontalPitch: 70,
+    verticalPitch: 37,
+  },
+];
+
+/**
+ * Zeichnet einen QR-Code als Vektorgrafik (einzelne Rechtecke) in das PDF
+ */
+function drawQrCode(doc: jsPDF, content: string, x: number, y: number, size: number) {
+  const matrix = QRCodeEncoder.encode(content, QRCodeDecoderErrorCorrectionLevel.M).getMatrix();
+  const modules = matrix.getWidth();
+  const moduleSize = size / modules;
+
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < modules; row++) {
+    for (let col = 0; col < modules; col++) {
+      if (matrix.get(col, row) === 1) {
+        doc.rect(x + col * moduleSize, y + row * moduleSize, moduleSize, moduleSize, "F");
+      }
+    }
+  }
+}
+
+/**
+ * Erstellt ein PDF mit Etiketten (QR-Code, Exemplar-Code, Titel und Schule) für den gewählten Etikettenbogen
+ * @param labels Die zu druckenden Etiketten
+ * @param layout Der Etikettenbogen
+ * @param startPosition Erste freie Position auf dem ersten Bogen (1-basiert), um angebrochene Bögen zu nutzen
+ */
+export function generateLabelPdf(labels: CopyLabel[], layout: LabelLayout, startPosition = 1): Blob {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const perSheet = layout.columns * layout.rows;
+  const padding = Math.min(2.5, layout.labelHeight * 0.08);
+  const qrSize = Math.min(layout.labelHeight - 2 * padding, layout.labelWidth * 0.45);
+  const textX = padding + qrSize + 2;
+  const textWidth = layout.labelWidth - textX - padding;
+  // Kleine Etiketten erhalten eine kleinere Schrift
+  const baseFontSize = layout.labelHeight < 25 ? 6 : 8;
+
+  const offset = Math.min(Math.max(startPosition, 1), perSheet) - 1;
+
+  labels.forEach((label, index) => {
+    const slot = (index + offset) % perSheet;
+
+    if (slot === 0 && index > 0) {
+      doc.addPage();
+    }
+
+    const column = slot % layout.columns;
+    const row = Math.floor(slot / layout.columns);
+    const x = layout.marginLeft + column * layout.horizontalPitch;
+    const y = layout.marginTop + row * layout.verticalPitch;
+
+    drawQrCode(doc, getCopyUrl(label.barcode), x + padding, y + (layout.labelHeight - qrSize) / 2, qrSize);
+
+    let textY = y + padding + baseFontSize * 0.4;
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(baseFontSize + 1);
+    doc.setTextColor(0, 0, 0);
+    doc.text(label.barcode, x + textX, textY);
+    textY += baseFontSize * 0.5;
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(baseFontSize);
+    const maxTitleLines = layout.labelHeight < 25 ? 2 : 3;
+    const titleLines: string[] = doc.splitTextToSize(label.title || "", textWidth).slice(0, maxTitleLines);
+    titleLines.forEach((line) => {
+      doc.text(line, x + textX, textY);
+      textY += baseFontSize * 0.4;
+    });
+
+    if (label.school) {
+      doc.setTextColor(100, 100, 100);
+      doc.text(label.school, x + textX, y + layout.labelHeight - padding);
+    }
+  });
+
+  return doc.output("blob");
+}
@@ -0,0 +1,255 @@
+import type { Database } from "@/types/supabase";
+import { LOAN_PERIOD_DAYS, DEFAULT_LOAN_PERIOD_DAYS } from "@/lib/constants";
+
+// Verwendung der generierten Typen
+export type Loan = Database["public"]["Tables"]["loans"]["Row"];
+export type NewLoan = Database["public"]["Tables"]["loans"]["Insert"];
+
+// Ausleihe inkl. der wichtigsten Buchangaben (für Listen wie "Meine Ausleihen")
+export type LoanWithBook = Loan & {
+  books: { id: string; title: string; author: string; isbn: string; type: string | null } | null;
+  book_copies: { barcode: string } | null;
+};
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Holt die offenen (noch nicht zurückgegebenen) Ausleihen aller Exemplare eines Buchs
+ * @param bookId Die ID des Buchs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getOpenLoans(bookId: string, supabaseClient: any): Promise<Loan[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("loans")
+    .select()
+    .eq("book_id", bookId)
+    .is("returned_at", null)
+    .order("checked_out_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching open loans:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Holt die offene Ausleihe eines Exemplars, falls es ausgeliehen ist
+ * @param copyId Die ID des Exemplars
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getOpenLoanForCopy(copyId: string, supabaseClient: any): Promise<Loan | null> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("loans")
+    .select()
+    .eq("copy_id", copyId)
+    .is("returned_at", null)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching open loan for copy:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Holt die Ausleih-Historie eines Buchs, neueste zuerst
+ * @param bookId Die ID des Buchs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @param limit Maximale Anzahl Einträge
+ */
+export async function getLoanHistory(bookId: string, supabaseClient: any, limit = 20): Promise<Loan[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("loans")
+    .select()
+    .eq("book_id", bookId)
+    .order("checked_out_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching loan history:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Holt alle Ausleihen einer Person inkl. Buchangaben, neueste zuerst
+ * @param borrowerId Die Clerk-ID der ausleihenden Person
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getLoansForBorrower(borrowerId: string, supabaseClient: any): Promise<LoanWithBook[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("loans")
+    .select("*, books(id, title, author, isbn, type), book_copies(barcode)")
+    .eq("borrower_id", borrowerId)
+    .order("checked_out_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching borrower loans:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Zählt die offenen Ausleihen, aufgeteilt in fristgerecht und überfällig
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function countOpenLoans(supabaseClient: any): Promise<{ onTime: number; overdue: number }> {
+  requireClient(supabaseClient);
+
+  const [openResult, overdueResult] = await Promise.all([
+    supabaseClient
+      .from("loans")
+      .select("*", { count: "exact", head: true })
+      .is("returned_at", null),
+    supabaseClient
+      .from("loans")
+      .select("*", { count: "exact", head: true })
+      .is("returned_at", null)
+      .lt("due_at", new Date().toISOString()),
+  ]);
+
+  if (openResult.error || overdueResult.error) {
+    console.error("Error counting open loans:", openResult.error || overdueResult.error);
+    throw openResult.error || overdueResult.error;
+  }
+
+  const open = openResult.count || 0;
+  const overdue = overdueResult.count || 0;
+
+  return { onTime: open - overdue, overdue };
+}
+
+/**
+ * Leiht ein Buch aus, indem eine neue Ausleihe angelegt wird.
+ * Ohne copyId wählt die Datenbank ein freies Exemplar; die Verfügbarkeit
+ * von Exemplar und Buch wird per Trigger nachgeführt. Das Rückgabedatum setzt
+ * die Datenbank (set_loan_due_at), ein mitgegebenes dueAt gilt nur für Admins.
+ * @param bookId Die ID des Buchs
+ * @param details Ausleihende Person (ID, Anzeigename), Rückgabedatum und optional das Exemplar
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function borrowBook(
+  bookId: string,
+  details: { borrowerId: string; borrowerName?: string | null; dueAt?: string | null; copyId?: string | null },
+  supabaseClient: any
+): Promise<Loan> {
+  requireClient(supabaseClient);
+
+  const newLoan: NewLoan = {
+    book_id: bookId,
+    copy_id: details.copyId || null,
+    borrower_id: details.borrowerId,
+    borrower_name: details.borrowerName || null,
+    due_at: details.dueAt || null,
+  };
+
+  const { data, error } = await supabaseClient
+    .from("loans")
+    .insert(newLoan)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating loan:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Schliesst eine Ausleihe ab (Rückgabe)
+ * @param loanId Die ID der Ausleihe
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function returnLoan(loanId: string, supabaseClient: any): Promise<Loan> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("loans")
+    .update({ returned_at: new Date().toISOString() })
+    .eq("id", loanId)
+    .is("returned_at", null)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error returning loan:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Setzt das Rückgabedatum einer Ausleihe (nur Admins, siehe protect_loan_fields)
+ * @param loanId Die ID der Ausleihe
+ * @param dueAt Neues Rückgabedatum als ISO-String
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function updateLoanDueDate(loanId: string, dueAt: string, supabaseClient: any): Promise<Loan> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("loans")
+    .update({ due_at: dueAt })
+    .eq("id", loanId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating loan due date:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Berechnet das Standard-Rückgabedatum anhand des Buchtyps
+ * @param type Buchtyp aus BOOK_TYPES
+ * @param from Ausleihdatum (Standard: jetzt)
+ */
+export function getDefaultDueDate(type: string | null | undefined, from: Date = new Date()): Date {
+  const days = (type && LOAN_PERIOD_DAYS[type]) || DEFAULT_LOAN_PERIOD_DAYS;
+  const dueDate = new Date(from);
+  dueDate.setDate(dueDate.getDate() + days);
+  // Rückgabe bis Ende des Tages
+  dueDate.setHours(23, 59, 59, 999);
+  return dueDate;
+}
+
+/**
+ * Prüft, ob eine offene Ausleihe überfällig ist
+ */
+export function isLoanOverdue(loan: Pick<Loan, "due_at" | "returned_at">, now: Date = new Date()): boolean {
+  return !loan.returned_at && !!loan.due_at && new Date(loan.due_at) < now;
+}
+
+/**
+ * Liefert einen lesbaren Namen für die ausleihende Person eines Clerk-Benutzers
+ */
+export function getBorrowerDisplayName(user: any): string | null {
+  if (!user) return null;
+  return user.fullName || user.primaryEmailAddress?.emailAddress || user.username || null;
+}
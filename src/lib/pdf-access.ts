@@ -0,0 +1,87 @@
+// Wer welches PDF sieht (book_files.visibility, Clerk-Metadaten role/schools).
+// Gemeinsam für die Pages Functions (listPdfs, processPdf, getPdf) und den Client (book-files.ts),
+// search_pdf_files wendet dieselben Regeln in SQL an. Die Pages Functions und die Deno-Tests
+// importieren die Datei direkt, deshalb keine Imports.
+
+const ADMIN_ROLES = ["admin", "superadmin"];
+
+export interface PdfAccess {
+  role: string | null;
+  schools: string[];
+}
+
+export interface PdfFileVisibility {
+  visibility: string;
+  schools: string[];
+  // Buch der Datei, falls mitgeladen (Dateien von Büchern im Papierkorb sehen nur Admins)
+  books?: { deleted_at: string | null } | null;
+}
+
+// Ausschnitt aus dem Clerk-Backend-Client, damit diese Datei ohne @clerk/backend auskommt
+interface ClerkUsers {
+  users: { getUser: (userId: string) => Promise<{ publicMetadata?: Record<string, unknown> }> };
+}
+
+// Ausschnitt aus dem Supabase-Client (Service Role), aus demselben Grund ohne @supabase/supabase-js
+interface SupabaseTables {
+  from: (table: string) => any;
+}
+
+export function isPdfAdmin(access: PdfAccess): boolean {
+  return !!access.role && ADMIN_ROLES.includes(access.role);
+}
+
+/**
+ * Liest Rolle und Schulhäuser einer Person. Sie stehen in den Public Metadata, nicht zwingend im Session-Token.
+ * @param clerk Der Clerk-Backend-Client
+ * @param userId Die Clerk-ID der angemeldeten Person
+ */
+export async function getPdfAccess(clerk: ClerkUsers, userId: string): Promise<PdfAccess> {
+  const { publicMetadata } = await clerk.users.getUser(userId);
+  return {
+    role: (publicMetadata?.role as string) || null,
+    schools: Array.isArray(publicMetadata?.schools) ? (publicMetadata.schools as string[]) : [],
+  };
+}
+
+/**
+ * Prüft, ob eine Person eine Datei sehen darf
+ * @param file Sichtbarkeit aus book_files, null für Objekte im Bucket ohne Zuordnung
+ * @param access Rolle und Schulhäuser aus den Clerk-Metadaten
+ */
+export function canAccessPdfFile(file: PdfFileVisibility | null | undefined, access: PdfAccess): boolean {
+  if (isPdfAdmin(access)) return true;
+  // Ohne Zuordnung ist unklar, welche Lizenz gilt. Ältere PDFs ordnet scripts/backfill-book-files.mjs zu.
+  if (!file) return false;
+  if (file.books?.deleted_at) return false;
+
+  switch (file.visibility) {
+    case "public":
+      return true;
+    case "teachers":
+      return access.role === "teacher";
+    case "schools":
+      return access.schools.some((school) => file.schools.includes(school));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Prüft die Sichtbarkeit eines Objekts im Bucket anhand seines Eintrags in book_files
+ * @param supabase Service-Role-Client
+ * @param key Pfad der Datei im R2-Bucket
+ * @param access Rolle und Schulhäuser aus den Clerk-Metadaten
+ */
+export async function canAccessPdfKey(supabase: SupabaseTables, key: string, access: PdfAccess): Promise<boolean> {
+  if (isPdfAdmin(access)) return true;
+
+  const { data: file, error } = await supabase
+    .from("book_files")
+    .select("visibility, schools, books(deleted_at)")
+    .eq("key", key)
+    .maybeSingle();
+  if (error) throw error;
+
+  return canAccessPdfFile(file as unknown as PdfFileVisibility | null, access);
+}
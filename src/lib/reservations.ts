@@ -0,0 +1,156 @@
+import type { Database } from "@/types/supabase";
+
+// Verwendung der generierten Typen
+export type Reservation = Database["public"]["Tables"]["reservations"]["Row"];
+export type NewReservation = Database["public"]["Tables"]["reservations"]["Insert"];
+
+export type ReservationStatus = "waiting" | "ready" | "fulfilled" | "cancelled";
+
+// Reservation inkl. Buchangaben und Schulhäusern der Exemplare (für die Admin-Übersicht)
+export type ReservationWithBook = Reservation & {
+  books: {
+    id: string;
+    title: string;
+    author: string;
+    available: boolean;
+    book_copies: { school: string | null }[];
+  } | null;
+};
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  waiting: "Wartend",
+  ready: "Zurückgelegt",
+  fulfilled: "Ausgeliehen",
+  cancelled: "Storniert",
+};
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Storniert abgelaufene Rückstellungen, damit die nächste Person nachrückt.
+ * Läuft auch regelmässig per pg_cron, hier nur, damit gelesene Warteschlangen aktuell sind.
+ * @param bookId Nur Rückstellungen dieses Buchs (ohne: alle)
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+async function expireReservationHolds(bookId: string | null, supabaseClient: any): Promise<void> {
+  const { error } = await supabaseClient.rpc("expire_reservation_holds", { p_book_id: bookId });
+
+  if (error) {
+    console.error("Error expiring reservation holds:", error);
+    throw error;
+  }
+}
+
+/**
+ * Holt die aktiven Reservationen (wartend oder zurückgelegt) eines Buchs in Reihenfolge der Warteschlange
+ * @param bookId Die ID des Buchs
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getReservationQueue(bookId: string, supabaseClient: any): Promise<Reservation[]> {
+  requireClient(supabaseClient);
+  await expireReservationHolds(bookId, supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("reservations")
+    .select()
+    .eq("book_id", bookId)
+    .in("status", ["waiting", "ready"])
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching reservation queue:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Holt alle aktiven Reservationen inkl. Buchangaben (Admin-Übersicht)
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getOpenReservations(supabaseClient: any): Promise<ReservationWithBook[]> {
+  requireClient(supabaseClient);
+  await expireReservationHolds(null, supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("reservations")
+    .select("*, books(id, title, author, available, book_copies(school))")
+    .in("status", ["waiting", "ready"])
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching open reservations:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Reserviert ein Buch für die angemeldete Person (Eintrag in die Warteschlange)
+ * @param bookId Die ID des Buchs
+ * @param details ID und Anzeigename der reservierenden Person
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function createReservation(
+  bookId: string,
+  details: { userId: string; userName?: string | null },
+  supabaseClient: any
+): Promise<Reservation> {
+  requireClient(supabaseClient);
+
+  const newReservation: NewReservation = {
+    book_id: bookId,
+    user_id: details.userId,
+    user_name: details.userName || null,
+    status: "waiting",
+  };
+
+  const { data, error } = await supabaseClient
+    .from("reservations")
+    .insert(newReservation)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating reservation:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Storniert eine Reservation
+ * @param reservationId Die ID der Reservation
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function cancelReservation(reservationId: string, supabaseClient: any): Promise<Reservation> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .from("reservations")
+    .update({ status: "cancelled" })
+    .eq("id", reservationId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error cancelling reservation:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Prüft, ob eine Rückstellung noch gültig ist
+ */
+export function isHoldActive(reservation: Pick<Reservation, "status" | "hold_until">, now: Date = new Date()): boolean {
+  return reservation.status === "ready" && (!reservation.hold_until || new Date(reservation.hold_until) > now);
+}
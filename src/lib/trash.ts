@@ -0,0 +1,91 @@
+import type { Book } from "@/lib/books";
+
+export type TrashedBook = Pick<
+  Book,
+  "id" | "title" | "author" | "isbn" | "year" | "subject" | "level" | "type" | "copy_count" | "has_pdf" | "deleted_at" | "deleted_by"
+>;
+
+const TRASHED_BOOK_FIELDS = "id, title, author, isbn, year, subject, level, type, copy_count, has_pdf, deleted_at, deleted_by";
+
+const requireClient = (supabaseClient: any) => {
+  if (!supabaseClient) {
+    throw new Error("Diese Funktion benötigt einen authentifizierten Supabase-Client. Verwende useSupabase() in deiner Komponente.");
+  }
+};
+
+/**
+ * Verschiebt Bücher in den Papierkorb. Sie verschwinden aus Katalog, Suche und Zählern,
+ * Exemplare und Ausleih-Historie bleiben erhalten.
+ * @param bookIds Die IDs der Katalogeinträge
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @returns Anzahl verschobener Einträge
+ */
+export async function trashBooks(bookIds: string[], supabaseClient: any): Promise<number> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient.rpc("trash_books", { p_book_ids: bookIds });
+
+  if (error) {
+    console.error("Error moving books to trash:", error);
+    throw error;
+  }
+
+  return data ?? 0;
+}
+
+/**
+ * Holt Bücher aus dem Papierkorb zurück
+ * @param bookIds Die IDs der Katalogeinträge
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @returns Anzahl wiederhergestellter Einträge
+ */
+export async function restoreBooks(bookIds: string[], supabaseClient: any): Promise<number> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient.rpc("restore_books", { p_book_ids: bookIds });
+
+  if (error) {
+    console.error("Error restoring books:", error);
+    throw error;
+  }
+
+  return data ?? 0;
+}
+
+/**
+ * Löscht Bücher aus dem Papierkorb endgültig, samt Exemplaren und Ausleih-Historie
+ * @param bookIds Die IDs der Katalogeinträge
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ * @returns Anzahl gelöschter Einträge
+ */
+export async function purgeBooks(bookIds: string[], supabaseClient: any): Promise<number> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient.rpc("purge_books", { p_book_ids: bookIds });
+
+  if (error) {
+    console.error("Error purging books:", error);
+    throw error;
+  }
+
+  return data ?? 0;
+}
+
+/**
+ * Holt den Inhalt des Papierkorbs, zuletzt gelöschte zuerst
+ * @param supabaseClient Der authentifizierte Supabase-Client aus useSupabase()
+ */
+export async function getTrashedBooks(supabaseClient: any): Promise<TrashedBook[]> {
+  requireClient(supabaseClient);
+
+  const { data, error } = await supabaseClient
+    .rpc("get_trashed_books")
+    .select(TRASHED_BOOK_FIELDS);
+
+  if (error) {
+    console.error("Error fetching trashed books:", error);
+    throw error;
+  }
+
+  return data || [];
+}
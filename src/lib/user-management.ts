@@ -2,7 +2,7 @@
 import { useUser } from "@clerk/clerk-react";
 
 // Typdeklarationen
-export type UserRole = 'admin' | 'superadmin';
+export type UserRole = 'teacher' | 'admin' | 'superadmin';
 
 export interface User {
   id: string;
@@ -10,6 +10,8 @@ export interface User {
   created_at: string;
   last_sign_in_at: string | null;
   roles: string[];
+  // Schulhäuser (SCHOOLS), steuern die Sichtbarkeit von PDFs
+  schools: string[];
   is_blocked: boolean;
   block_reason: string | null;
 }
@@ -0,0 +1,59 @@
+import { downloadBlob, neutralizeFormula, type CsvColumn } from "@/lib/csv";
+
+const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// exceljs ist gross und wird nur für Export und Import benötigt, daher erst bei Bedarf laden
+const loadExcelJs = async () => (await import("exceljs")).default;
+
+/**
+ * Erstellt eine Excel-Datei mit einem Tabellenblatt und lädt sie herunter
+ * @param filename Dateiname inkl. Endung
+ * @param sheetName Name des Tabellenblatts
+ * @param rows Die Datenzeilen
+ * @param columns Die Spalten mit Überschrift und Wert
+ */
+export async function downloadXlsx<T>(filename: string, sheetName: string, rows: T[], columns: CsvColumn<T>[]): Promise<void> {
+  const ExcelJS = await loadExcelJs();
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    width: Math.max(column.header.length + 2, 12),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  rows.forEach((row) => {
+    sheet.addRow(columns.map((column) => neutralizeFormula(column.value(row) ?? null)));
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(filename, new Blob([buffer], { type: XLSX_MIME_TYPE }));
+}
+
+/**
+ * Liest das erste Tabellenblatt einer Excel-Datei als Zeilen mit Textzellen
+ * @param file Die hochgeladene .xlsx-Datei
+ */
+export async function readXlsx(file: File): Promise<string[][]> {
+  const ExcelJS = await loadExcelJs();
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push((row.getCell(column).text || "").trim());
+    }
+    if (cells.some((cell) => cell !== "")) {
+      rows.push(cells);
+    }
+  });
+
+  return rows;
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
+import BookDetails from "@/components/books/BookDetails";
+import type { FetchedBook } from "@/components/dashboard/BookManagement";
+import { Button } from '@/components/ui/button';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { useAuth } from '@/hooks/useAuth';
+import { getCopyByBarcode, parseCopyCode, type BookCopy } from '@/lib/copies';
+
+// Öffnet ein Exemplar direkt über seinen Exemplar-Code (Ziel der QR-Codes auf den Etiketten)
+export default function CopyPage() {
+  const { barcode = "" } = useParams();
+  const navigate = useNavigate();
+  const supabase = useSupabase();
+  const { loading: authLoading } = useAuth();
+  const [copy, setCopy] = useState<BookCopy | null>(null);
+  const [book, setBook] = useState<FetchedBook | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    const loadCopy = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const code = parseCopyCode(barcode);
+        const foundCopy = code ? await getCopyByBarcode(code, supabase) : null;
+        if (!foundCopy) {
+          setError(`Kein Exemplar mit dem Code "${barcode}" gefunden.`);
+          return;
+        }
+
+        const { data, error: bookError } = await supabase
+          .from("books")
+          .select("id, title, author, isbn, subject, level, year, type, publisher, description, available, copy_count, available_count, location, school, has_pdf, created_at, borrowed_at, borrowed_by")
+          .eq("id", foundCopy.book_id)
+          .single();
+
+        if (bookError) throw bookError;
+
+        setCopy(foundCopy);
+        setBook(data as unknown as FetchedBook);
+      } catch (err) {
+        console.error("Error loading copy:", err);
+        setError("Fehler beim Laden des Exemplars.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadCopy();
+  }, [barcode, authLoading, supabase]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader />
+      <div className="container py-4 px-2 sm:py-6 sm:px-4 max-w-4xl mx-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 mb-4">{error}</p>
+            <Button variant="outline" onClick={() => navigate("/books")}>Zur Buchübersicht</Button>
+          </div>
+        ) : null}
+      </div>
+
+      {book && copy && (
+        <BookDetails
+          book={book}
+          open={true}
+          onOpenChange={(open) => !open && navigate("/books")}
+          highlightCopyId={copy.id}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SignIn, SignedIn, SignedOut, useClerk } from '@clerk/clerk-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog } from '@/components/ui/dialog';
+import { BarcodeScanner } from '@/components/books/BarcodeScanner';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { useAuth } from '@/hooks/useAuth';
+import { KIOSK_IDLE_TIMEOUT_SECONDS } from '@/lib/constants';
+import { getBookById, getBookByIsbn } from '@/lib/books';
+import { getCopyByBarcode, parseCopyCode } from '@/lib/copies';
+import {
+  borrowBook,
+  returnLoan,
+  getOpenLoans,
+  getOpenLoanForCopy,
+  getBorrowerDisplayName,
+} from '@/lib/loans';
+import { CheckCircle2, Lock, ScanLine, XCircle } from 'lucide-react';
+
+// Ergebnis eines Scans für die Anzeige
+interface KioskResult {
+  id: number;
+  success: boolean;
+  action: string;
+  title: string;
+  detail?: string;
+}
+
+/**
+ * Kurzer Signalton: hoch bei Erfolg, tief bei Fehler
+ */
+function playFeedbackTone(audioContext: AudioContext | null, success: boolean) {
+  if (!audioContext) return;
+
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  oscillator.type = 'sine';
+  oscillator.frequency.value = success ? 880 : 220;
+  gain.gain.value = 0.2;
+  oscillator.connect(gain);
+  gain.connect(audioContext.destination);
+  oscillator.start();
+  oscillator.stop(audioContext.currentTime + (success ? 0.15 : 0.4));
+}
+
+// Angemeldete Sitzung am Kiosk: Scannen, Ausleihen, Zurückgeben
+function KioskSession() {
+  const supabase = useSupabase();
+  const { user, isAdmin } = useAuth();
+  const { signOut } = useClerk();
+  const [results, setResults] = useState<KioskResult[]>([]);
+  const [manualCode, setManualCode] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(KIOSK_IDLE_TIMEOUT_SECONDS);
+  const lastActivityRef = useRef(Date.now());
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const processingRef = useRef(false);
+  const lockingRef = useRef(false);
+  const resultIdRef = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Nur einmal abmelden, auch wenn Timer und Sperr-Knopf gleichzeitig auslösen
+  const lock = useCallback(() => {
+    if (lockingRef.current) return;
+    lockingRef.current = true;
+    signOut({ redirectUrl: '/kiosk' });
+  }, [signOut]);
+
+  const registerActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    // Audio erst nach einer Benutzerinteraktion erlaubt
+    if (!audioContextRef.current && typeof AudioContext !== 'undefined') {
+      audioContextRef.current = new AudioContext();
+    }
+  }, []);
+
+  // Automatische Abmeldung bei Inaktivität
+  useEffect(() => {
+    const events = ['pointerdown', 'keydown', 'touchstart', 'mousemove'];
+    events.forEach((event) => window.addEventListener(event, registerActivity));
+
+    const interval = setInterval(() => {
+      const idleSeconds = Math.floor((Date.now() - lastActivityRef.current) / 1000);
+      const remaining = KIOSK_IDLE_TIMEOUT_SECONDS - idleSeconds;
+      setSecondsLeft(remaining);
+      if (remaining <= 0) {
+        clearInterval(interval);
+        lock();
+      }
+    }, 1000);
+
+    return () => {
+      events.forEach((event) => window.removeEventListener(event, registerActivity));
+      clearInterval(interval);
+      audioContextRef.current?.close();
+    };
+  }, [registerActivity, lock]);
+
+  const addResult = (result: Omit<KioskResult, 'id'>) => {
+    playFeedbackTone(audioContextRef.current, result.success);
+    resultIdRef.current += 1;
+    setResults((previous) => [{ ...result, id: resultIdRef.current }, ...previous].slice(0, 20));
+  };
+
+  const processCode = async (rawCode: string) => {
+    if (!user) return;
+
+    const copyCode = parseCopyCode(rawCode);
+    const borrowerName = getBorrowerDisplayName(user);
+
+    try {
+      if (copyCode) {
+        // Exemplar-Etikett: genau dieses Exemplar ausleihen oder zurückgeben
+        const copy = await getCopyByBarcode(copyCode, supabase);
+        if (!copy) {
+          addResult({ success: false, action: 'Unbekannt', title: copyCode, detail: 'Kein Exemplar mit diesem Code gefunden.' });
+          return;
+        }
+
+        const book = await getBookById(copy.book_id, supabase);
+        const openLoan = await getOpenLoanForCopy(copy.id, supabase);
+
+        if (openLoan) {
+          if (openLoan.borrower_id !== user.id && !isAdmin) {
+            addResult({ success: false, action: 'Nicht möglich', title: book.title, detail: 'Dieses Exemplar ist von einer anderen Person ausgeliehen.' });
+            return;
+          }
+          await returnLoan(openLoan.id, supabase);
+          addResult({ success: true, action: 'Zurückgegeben', title: book.title, detail: copy.barcode });
+        } else {
+          // Das Rückgabedatum setzt die Datenbank (Standard-Ausleihdauer des Buchtyps)
+          const loan = await borrowBook(book.id, { borrowerId: user.id, borrowerName, copyId: copy.id }, supabase);
+          addResult({ success: true, action: 'Ausgeliehen', title: book.title, detail: `${copy.barcode} · Rückgabe bis ${new Date(loan.due_at!).toLocaleDateString()}` });
+        }
+        return;
+      }
+
+      // ISBN: eigene Ausleihe dieses Buchs zurückgeben, sonst ein freies Exemplar ausleihen
+      const book = await getBookByIsbn(rawCode, supabase);
+      if (!book) {
+        addResult({ success: false, action: 'Unbekannt', title: rawCode, detail: 'Kein Buch mit dieser ISBN gefunden.' });
+        return;
+      }
+
+      const myLoan = (await getOpenLoans(book.id, supabase)).find((loan) => loan.borrower_id === user.id);
+      if (myLoan) {
+        await returnLoan(myLoan.id, supabase);
+        addResult({ success: true, action: 'Zurückgegeben', title: book.title });
+      } else {
+        const loan = await borrowBook(book.id, { borrowerId: user.id, borrowerName }, supabase);
+        addResult({ success: true, action: 'Ausgeliehen', title: book.title, detail: `Rückgabe bis ${new Date(loan.due_at!).toLocaleDateString()}` });
+      }
+    } catch (error: any) {
+      // Meldungen der Datenbank-Trigger (z.B. kein freies Exemplar, Rückstellung) direkt anzeigen
+      addResult({ success: false, action: 'Fehler', title: rawCode, detail: error?.message || 'Die Aktion konnte nicht ausgeführt werden.' });
+    }
+  };
+
+  // Immer die aktuelle Version verwenden, der Scanner erhält einen stabilen Callback
+  const processCodeRef = useRef(processCode);
+  processCodeRef.current = processCode;
+
+  const handleScan = useCallback(async (code: string) => {
+    registerActivity();
+    if (processingRef.current) return;
+
+    processingRef.current = true;
+    setIsProcessing(true);
+    try {
+      await processCodeRef.current(code);
+    } finally {
+      processingRef.current = false;
+      setIsProcessing(false);
+    }
+  }, [registerActivity]);
+
+  const handleScannerClose = useCallback(() => {
+    setShowScanner(false);
+    inputRef.current?.focus();
+  }, []);
+
+  // Hand-Scanner verhalten sich wie eine Tastatur und schliessen mit Enter ab
+  const handleManualSubmit = () => {
+    const code = manualCode.trim();
+    if (!code) return;
+    setManualCode('');
+    handleScan(code);
+  };
+
+  const lastResult = results[0];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white border-b px-4 py-3 flex items-center justify-between">
+        <div>
+          <p className="text-sm text-gray-500">Ausleihstation</p>
+          <p className="text-lg font-semibold">{getBorrowerDisplayName(user) || 'Angemeldet'}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {secondsLeft <= 30 && (
+            <span className="text-sm text-orange-600">Automatische Abmeldung in {Math.max(secondsLeft, 0)} s</span>
+          )}
+          <Button variant="outline" size="lg" onClick={lock}>
+            <Lock className="h-5 w-5 mr-2" />
+            Sperren
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 sm:p-8 max-w-3xl w-full mx-auto space-y-6">
+        {lastResult ? (
+          <div
+            className={`rounded-xl p-6 flex items-start gap-4 ${lastResult.success ? 'bg-green-100 text-green-900' : 'bg-red-100 text-red-900'}`}
+          >
+            {lastResult.success ? (
+              <CheckCircle2 className="h-12 w-12 shrink-0" />
+            ) : (
+              <XCircle className="h-12 w-12 shrink-0" />
+            )}
+            <div>
+              <p className="text-2xl font-bold">{lastResult.action}</p>
+              <p className="text-lg">{lastResult.title}</p>
+              {lastResult.detail && <p className="mt-1">{lastResult.detail}</p>}
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-xl p-6 bg-white border text-center text-gray-600">
+            Etikett oder ISBN scannen, um ein Buch auszuleihen oder zurückzugeben.
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Input
+            ref={inputRef}
+            autoFocus
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleManualSubmit();
+              }
+            }}
+            placeholder="Code eingeben oder mit Hand-Scanner scannen"
+            className="h-14 text-lg"
+            disabled={isProcessing}
+          />
+          <Button size="lg" className="h-14" onClick={() => setShowScanner(true)}>
+            <ScanLine className="h-5 w-5 mr-2" />
+            Kamera-Scanner
+          </Button>
+        </div>
+
+        {results.length > 1 && (
+          <div>
+            <h2 className="text-md font-semibold mb-2">Bisher in dieser Sitzung</h2>
+            <ul className="rounded-md border divide-y bg-white text-sm">
+              {results.slice(1).map((result) => (
+                <li key={result.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <span className="truncate">{result.title}</span>
+                  <span className={result.success ? 'text-green-700' : 'text-red-600'}>{result.action}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+
+      <Dialog open={showScanner} onOpenChange={(open) => (open ? setShowScanner(true) : handleScannerClose())}>
+        {showScanner && (
+          <BarcodeScanner mode="any" continuous onScan={handleScan} onClose={handleScannerClose} />
+        )}
+      </Dialog>
+    </div>
+  );
+}
+
+// Kiosk-Modus für das Tablet im Lehrerzimmer: Sperrbildschirm mit Anmeldung, danach Scan-Ausleihe
+export default function KioskPage() {
+  return (
+    <>
+      <SignedIn>
+        <KioskSession />
+      </SignedIn>
+      <SignedOut>
+        <div className="flex min-h-screen w-full flex-col items-center justify-center bg-gray-50 p-4">
+          <div className="mb-6 text-center">
+            <Lock className="h-10 w-10 mx-auto text-gray-400 mb-2" />
+            <h1 className="text-2xl font-bold">Ausleihstation</h1>
+            <p className="text-gray-600">Bitte melden Sie sich an, um Bücher auszuleihen oder zurückzugeben.</p>
+          </div>
+          <SignIn routing="hash" forceRedirectUrl="/kiosk" />
+        </div>
+      </SignedOut>
+    </>
+  );
+}
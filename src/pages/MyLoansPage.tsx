@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useSupabase } from '@/contexts/SupabaseContext';
+import { useAuth } from '@/hooks/useAuth';
+import { getLoansForBorrower, returnLoan, isLoanOverdue, type LoanWithBook } from '@/lib/loans';
+import { BookOpen, History } from 'lucide-react';
+
+export default function MyLoansPage() {
+  const supabase = useSupabase();
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [loans, setLoans] = useState<LoanWithBook[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [returningId, setReturningId] = useState<string | null>(null);
+
+  const loadLoans = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const data = await getLoansForBorrower(user.id, supabase);
+      setLoans(data);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Fehler beim Laden Ihrer Ausleihen.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    loadLoans();
+  }, [user?.id, authLoading, supabase]);
+
+  const handleReturn = async (loan: LoanWithBook) => {
+    setReturningId(loan.id);
+    try {
+      await returnLoan(loan.id, supabase);
+      toast({
+        title: "Erfolg",
+        description: "Buch erfolgreich zurückgegeben.",
+      });
+      await loadLoans();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Fehler beim Zurückgeben des Buchs.",
+      });
+    } finally {
+      setReturningId(null);
+    }
+  };
+
+  // Formatiere das Datum für die Anzeige
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "–";
+    return new Intl.DateTimeFormat('de-DE', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    }).format(new Date(dateString));
+  };
+
+  const currentLoans = loans.filter((loan) => !loan.returned_at);
+  const pastLoans = loans.filter((loan) => loan.returned_at);
+  const overdueCount = currentLoans.filter((loan) => isLoanOverdue(loan)).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DashboardHeader />
+
+      <div className="container mx-auto p-4">
+        <div className="flex flex-col items-start mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Meine Ausleihen</h1>
+          <p className="text-gray-600">
+            {overdueCount > 0
+              ? `Sie haben ${overdueCount} überfällige ${overdueCount === 1 ? "Ausleihe" : "Ausleihen"}.`
+              : "Übersicht über Ihre aktuellen und früheren Ausleihen."}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <p className="text-gray-500">Lade Ausleihen...</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Aktuelle Ausleihen */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold flex items-center">
+                  <BookOpen className="h-5 w-5 mr-2 text-purple-600" />
+                  Aktuell ausgeliehen
+                </CardTitle>
+                <CardDescription>Bücher, die Sie noch zurückgeben müssen</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {currentLoans.length > 0 ? (
+                  <div className="rounded-md border divide-y">
+                    {currentLoans.map((loan) => (
+                      <div key={loan.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3">
+                        <div className="flex flex-col">
+                          <span className="font-medium text-blue-600">{loan.books?.title || "Unbekanntes Buch"}</span>
+                          <div className="flex flex-wrap gap-x-4 mt-1 text-sm text-gray-500">
+                            {loan.books?.author && <span>{loan.books.author}</span>}
+                            {loan.book_copies?.barcode && <span>Exemplar {loan.book_copies.barcode}</span>}
+                            <span>Ausgeliehen am {formatDate(loan.checked_out_at)}</span>
+                            <span>Rückgabe bis {formatDate(loan.due_at)}</span>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {isLoanOverdue(loan) ? (
+                            <Badge variant="destructive">Überfällig</Badge>
+                          ) : (
+                            <Badge variant="secondary">Fristgerecht</Badge>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReturn(loan)}
+                            disabled={returningId === loan.id}
+                          >
+                            {returningId === loan.id && (
+                              <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-b-transparent" />
+                            )}
+                            Zurückgeben
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-gray-500">
+                    Sie haben zurzeit keine Bücher ausgeliehen.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Frühere Ausleihen */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold flex items-center">
+                  <History className="h-5 w-5 mr-2 text-blue-600" />
+                  Frühere Ausleihen
+                </CardTitle>
+                <CardDescription>Bereits zurückgegebene Bücher</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {pastLoans.length > 0 ? (
+                  <div className="rounded-md border divide-y">
+                    {pastLoans.map((loan) => (
+                      <div key={loan.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3">
+                        <div className="flex flex-col">
+                          <span className="font-medium">{loan.books?.title || "Unbekanntes Buch"}</span>
+                          {loan.books?.author && (
+                            <span className="text-sm text-gray-500 mt-1">{loan.books.author}</span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-gray-500 whitespace-nowrap">
+                          <span>{formatDate(loan.checked_out_at)} – {formatDate(loan.returned_at)}</span>
+                          {loan.due_at && new Date(loan.returned_at) > new Date(loan.due_at) && (
+                            <Badge variant="outline" className="text-red-600 border-red-200">Verspätet</Badge>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-gray-500">
+                    Noch keine früheren Ausleihen.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
 import { useSearchParams, useParams } from 'react-router-dom';
 import { useSupabase } from '@/contexts/SupabaseContext';
+import { getBookFiles, canAccessBookFile } from '@/lib/book-files';
+import { useAuth } from '@/hooks/useAuth';
 
 export default function PdfChatPage() {
   // Chat ist standardmäßig geöffnet
@@ -13,8 +15,10 @@ export default function PdfChatPage() {
   const params = useParams();
   const chatId = params.id;
   const pdfParam = searchParams.get('pdf');
+  const fileParam = searchParams.get('file');
   const [pdfFile, setPdfFile] = useState<string | undefined>(pdfParam || undefined);
   const supabase = useSupabase();
+  const { userRole, userSchools } = useAuth();
 
   // Wenn ein chatId in der URL ist, suche nach dem passenden PDF
   useEffect(() => {
@@ -30,12 +34,20 @@ export default function PdfChatPage() {
           return;
         }
 
-        // Suche nach Buchinformationen basierend auf der chatId
-        // Implementiere hier deine Logik, um ein Buch anhand der ID zu finden
-        // Beispiel: Bei einer Buch-ID könntest du zuerst das Buch abrufen
+        // Die chatId ist die ID des Buchs, seine PDFs stehen in book_files
+        const files = await getBookFiles(chatId, supabase);
+        if (files.length > 0) {
+          // Nur Dateien, die die Person sehen darf (listPdfs und processPdf prüfen dasselbe)
+          const visibleFiles = files.filter((entry) => canAccessBookFile(entry, { role: userRole, schools: userSchools }));
+          const file = visibleFiles.find((entry) => entry.id === fileParam) || visibleFiles[0];
+          if (file) setPdfFile(file.key);
+          return;
+        }
+
+        // Noch keine Datei zugeordnet (ältere Einträge mit has_pdf): PdfChat sucht per ISBN im Dateinamen
         const { data: book, error } = await supabase
           .from("books")
-          .select("isbn, title")
+          .select("isbn, has_pdf")
           .eq("id", chatId)
           .single();
 
@@ -44,16 +56,8 @@ export default function PdfChatPage() {
           return;
         }
 
-        // Wenn die ISBN gefunden wurde, suche nach dem zugehörigen PDF
-        if (book.isbn) {
-          // Suche nach PDF im R2 Bucket mit ISBN-Präfix
-          const bucketName = import.meta.env.VITE_PDF_BUCKET_NAME || 'books';
-          
-          // PDF-Dateiname nach dem Muster aus BookDetails.tsx
-          const pdfPath = `${book.isbn} _${book.title?.replace(/[^\w\säöüÄÖÜß]/g, '')}.pdf`;
-          
-          // Setze die PDF-Datei
-          setPdfFile(pdfPath);
+        if (book.isbn && book.has_pdf) {
+          setPdfFile(`${book.isbn}.pdf`);
         }
       } catch (err) {
         console.error("Fehler beim Laden des PDFs für Chat:", err);
@@ -61,7 +65,7 @@ export default function PdfChatPage() {
     };
 
     loadPdfForChatId();
-  }, [chatId, pdfParam, supabase]);
+  }, [chatId, pdfParam, fileParam, supabase, userRole, userSchools.join(',')]);
 
   return (
     <ProtectedRoute>
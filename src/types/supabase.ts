@@ -9,13 +9,189 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_role: string | null
+          book_id: string | null
+          created_at: string
+          entity_id: string | null
+          entity_label: string | null
+          entity_type: string
+          id: number
+          new_values: Json | null
+          old_values: Json | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_role?: string | null
+          book_id?: string | null
+          created_at?: string
+          entity_id?: string | null
+          entity_label?: string | null
+          entity_type: string
+          id?: number
+          new_values?: Json | null
+          old_values?: Json | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_role?: string | null
+          book_id?: string | null
+          created_at?: string
+          entity_id?: string | null
+          entity_label?: string | null
+          entity_type?: string
+          id?: number
+          new_values?: Json | null
+          old_values?: Json | null
+        }
+        Relationships: []
+      }
+      book_copies: {
+        Row: {
+          available: boolean
+          barcode: string
+          book_id: string
+          created_at: string
+          id: string
+          location: string | null
+          notes: string | null
+          school: string | null
+        }
+        Insert: {
+          available?: boolean
+          barcode?: string
+          book_id: string
+          created_at?: string
+          id?: string
+          location?: string | null
+          notes?: string | null
+          school?: string | null
+        }
+        Update: {
+          available?: boolean
+          barcode?: string
+          book_id?: string
+          created_at?: string
+          id?: string
+          location?: string | null
+          notes?: string | null
+          school?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_copies_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_duplicate_dismissals: {
+        Row: {
+          book_id_a: string
+          book_id_b: string
+          created_at: string
+          dismissed_by: string
+        }
+        Insert: {
+          book_id_a: string
+          book_id_b: string
+          created_at?: string
+          dismissed_by?: string
+        }
+        Update: {
+          book_id_a?: string
+          book_id_b?: string
+          created_at?: string
+          dismissed_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_duplicate_dismissals_book_id_a_fkey"
+            columns: ["book_id_a"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "book_duplicate_dismissals_book_id_b_fkey"
+            columns: ["book_id_b"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_files: {
+        Row: {
+          book_id: string
+          created_at: string
+          etag: string | null
+          id: string
+          key: string
+          kind: string
+          label: string | null
+          page_count: number | null
+          schools: string[]
+          size: number | null
+          uploaded_by: string | null
+          visibility: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string
+          etag?: string | null
+          id?: string
+          key: string
+          kind?: string
+          label?: string | null
+          page_count?: number | null
+          schools?: string[]
+          size?: number | null
+          uploaded_by?: string | null
+          visibility?: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string
+          etag?: string | null
+          id?: string
+          key?: string
+          kind?: string
+          label?: string | null
+          page_count?: number | null
+          schools?: string[]
+          size?: number | null
+          uploaded_by?: string | null
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_files_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       books: {
         Row: {
           author: string
           available: boolean
+          available_count: number
           borrowed_at: string | null
           borrowed_by: string | null
+          copy_count: number
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           embedding: string | null
           has_pdf: boolean
@@ -35,9 +211,13 @@ export type Database = {
         Insert: {
           author: string
           available?: boolean
+          available_count?: number
           borrowed_at?: string | null
           borrowed_by?: string | null
+          copy_count?: number
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           embedding?: string | null
           has_pdf?: boolean
@@ -57,9 +237,13 @@ export type Database = {
         Update: {
           author?: string
           available?: boolean
+          available_count?: number
           borrowed_at?: string | null
           borrowed_by?: string | null
+          copy_count?: number
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           embedding?: string | null
           has_pdf?: boolean
@@ -78,6 +262,389 @@ export type Database = {
         }
         Relationships: []
       }
+      class_loans: {
+        Row: {
+          book_id: string
+          checked_out_at: string
+          class_name: string
+          created_at: string
+          due_at: string | null
+          id: string
+          returned_at: string | null
+          teacher_id: string
+          teacher_name: string | null
+        }
+        Insert: {
+          book_id: string
+          checked_out_at?: string
+          class_name: string
+          created_at?: string
+          due_at?: string | null
+          id?: string
+          returned_at?: string | null
+          teacher_id?: string
+          teacher_name?: string | null
+        }
+        Update: {
+          book_id?: string
+          checked_out_at?: string
+          class_name?: string
+          created_at?: string
+          due_at?: string | null
+          id?: string
+          returned_at?: string | null
+          teacher_id?: string
+          teacher_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_loans_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gemini_files: {
+        Row: {
+          created_at: string
+          etag: string
+          expires_at: string
+          file_name: string
+          file_uri: string
+          key: string
+          size: number | null
+        }
+        Insert: {
+          created_at?: string
+          etag: string
+          expires_at: string
+          file_name: string
+          file_uri: string
+          key: string
+          size?: number | null
+        }
+        Update: {
+          created_at?: string
+          etag?: string
+          expires_at?: string
+          file_name?: string
+          file_uri?: string
+          key?: string
+          size?: number | null
+        }
+        Relationships: []
+      }
+      import_job_items: {
+        Row: {
+          attempts: number
+          book_data: Json | null
+          book_id: string | null
+          claimed_at: string | null
+          error: string | null
+          id: string
+          isbn: string | null
+          job_id: string
+          payload: Json | null
+          position: number
+          status: string
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          book_data?: Json | null
+          book_id?: string | null
+          claimed_at?: string | null
+          error?: string | null
+          id?: string
+          isbn?: string | null
+          job_id: string
+          payload?: Json | null
+          position: number
+          status?: string
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          book_data?: Json | null
+          book_id?: string | null
+          claimed_at?: string | null
+          error?: string | null
+          id?: string
+          isbn?: string | null
+          job_id?: string
+          payload?: Json | null
+          position?: number
+          status?: string
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_items_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          id: string
+          source: string
+          status: string
+          total_count: number
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          source?: string
+          status?: string
+          total_count?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          source?: string
+          status?: string
+          total_count?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      inventory_scans: {
+        Row: {
+          barcode: string
+          copy_id: string | null
+          id: string
+          scanned_at: string
+          scanned_by: string
+          session_id: string
+        }
+        Insert: {
+          barcode: string
+          copy_id?: string | null
+          id?: string
+          scanned_at?: string
+          scanned_by?: string
+          session_id: string
+        }
+        Update: {
+          barcode?: string
+          copy_id?: string | null
+          id?: string
+          scanned_at?: string
+          scanned_by?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_scans_copy_id_fkey"
+            columns: ["copy_id"]
+            isOneToOne: false
+            referencedRelation: "book_copies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_scans_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_sessions: {
+        Row: {
+          completed_at: string | null
+          id: string
+          location: string
+          notes: string | null
+          school: string
+          started_at: string
+          started_by: string
+          started_by_name: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          id?: string
+          location: string
+          notes?: string | null
+          school: string
+          started_at?: string
+          started_by?: string
+          started_by_name?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          id?: string
+          location?: string
+          notes?: string | null
+          school?: string
+          started_at?: string
+          started_by?: string
+          started_by_name?: string | null
+        }
+        Relationships: []
+      }
+      isbn_lookup_cache: {
+        Row: {
+          created_at: string
+          hit_count: number
+          isbn: string
+          last_hit_at: string | null
+          provider: string
+          raw_response: Json | null
+          result: Json
+          sources: string[]
+        }
+        Insert: {
+          created_at?: string
+          hit_count?: number
+          isbn: string
+          last_hit_at?: string | null
+          provider: string
+          raw_response?: Json | null
+          result: Json
+          sources?: string[]
+        }
+        Update: {
+          created_at?: string
+          hit_count?: number
+          isbn?: string
+          last_hit_at?: string | null
+          provider?: string
+          raw_response?: Json | null
+          result?: Json
+          sources?: string[]
+        }
+        Relationships: []
+      }
+      loans: {
+        Row: {
+          book_id: string
+          borrower_id: string
+          borrower_name: string | null
+          checked_out_at: string
+          class_loan_id: string | null
+          copy_id: string | null
+          created_at: string
+          due_at: string | null
+          id: string
+          returned_at: string | null
+        }
+        Insert: {
+          book_id: string
+          borrower_id?: string
+          borrower_name?: string | null
+          checked_out_at?: string
+          class_loan_id?: string | null
+          copy_id?: string | null
+          created_at?: string
+          due_at?: string | null
+          id?: string
+          returned_at?: string | null
+        }
+        Update: {
+          book_id?: string
+          borrower_id?: string
+          borrower_name?: string | null
+          checked_out_at?: string
+          class_loan_id?: string | null
+          copy_id?: string | null
+          created_at?: string
+          due_at?: string | null
+          id?: string
+          returned_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loans_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_class_loan_id_fkey"
+            columns: ["class_loan_id"]
+            isOneToOne: false
+            referencedRelation: "class_loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_copy_id_fkey"
+            columns: ["copy_id"]
+            isOneToOne: false
+            referencedRelation: "book_copies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservations: {
+        Row: {
+          book_id: string
+          closed_at: string | null
+          created_at: string
+          hold_until: string | null
+          id: string
+          ready_at: string | null
+          status: string
+          user_id: string
+          user_name: string | null
+        }
+        Insert: {
+          book_id: string
+          closed_at?: string | null
+          created_at?: string
+          hold_until?: string | null
+          id?: string
+          ready_at?: string | null
+          status?: string
+          user_id?: string
+          user_name?: string | null
+        }
+        Update: {
+          book_id?: string
+          closed_at?: string | null
+          created_at?: string
+          hold_until?: string | null
+          id?: string
+          ready_at?: string | null
+          status?: string
+          user_id?: string
+          user_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservations_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -89,14 +656,87 @@ export type Database = {
         }
         Returns: boolean
       }
+      backfill_book_files: {
+        Args: { p_objects: Json }
+        Returns: number
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      borrow_class_set: {
+        Args: {
+          p_book_id: string
+          p_class_name: string
+          p_quantity?: number
+          p_copy_ids?: string[]
+          p_due_at?: string
+          p_teacher_name?: string
+        }
+        Returns: string
+      }
+      claim_import_job_items: {
+        Args: { p_job_id: string; p_limit: number }
+        Returns: Database["public"]["Tables"]["import_job_items"]["Row"][]
+      }
+      count_free_book_copies: {
+        Args: { p_book_id: string }
+        Returns: number
+      }
+      default_loan_due_at: {
+        Args: { p_book_id: string; p_from?: string }
+        Returns: string
+      }
+      expire_reservation_holds: {
+        Args: { p_book_id?: string }
+        Returns: number
+      }
+      find_duplicate_books: {
+        Args: {
+          p_title_threshold?: number
+          p_embedding_threshold?: number
+          p_limit?: number
+        }
+        Returns: {
+          book_id_a: string
+          book_id_b: string
+          reasons: string[]
+          score: number
+        }[]
+      }
       get_auth_user_id: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_trashed_books: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          author: string
+          available: boolean
+          available_count: number
+          borrowed_at: string | null
+          borrowed_by: string | null
+          copy_count: number
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string | null
+          embedding: string | null
+          has_pdf: boolean
+          id: string
+          isbn: string
+          level: string
+          location: string
+          publisher: string | null
+          school: string | null
+          subject: string
+          title: string
+          type: string | null
+          user_id: string | null
+          vector_source: string | null
+          year: number
+        }[]
+      }
       gtrgm_compress: {
         Args: { "": unknown }
         Returns: unknown
@@ -197,10 +837,56 @@ export type Database = {
           similarity: number
         }[]
       }
+      merge_books: {
+        Args: { p_keep_id: string; p_merge_ids: string[] }
+        Returns: undefined
+      }
+      normalize_isbn: {
+        Args: { p_isbn: string }
+        Returns: string
+      }
+      promote_next_reservation: {
+        Args: { p_book_id: string }
+        Returns: undefined
+      }
+      purge_books: {
+        Args: { p_book_ids: string[] }
+        Returns: number
+      }
+      refresh_book_copy_counts: {
+        Args: { p_book_id: string }
+        Returns: undefined
+      }
       requesting_user_id: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      restore_books: {
+        Args: { p_book_ids: string[] }
+        Returns: number
+      }
+      search_pdf_files: {
+        Args: {
+          p_query: string
+          p_role: string | null
+          p_schools: string[]
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          key: string
+          book_id: string
+          kind: string
+          label: string | null
+          visibility: string
+          size: number | null
+          etag: string | null
+          created_at: string
+          title: string
+          author: string
+          subject: string
+        }[]
+      }
       set_limit: {
         Args: { "": number }
         Returns: number
@@ -229,6 +915,10 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: Json
       }
+      trash_books: {
+        Args: { p_book_ids: string[] }
+        Returns: number
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
@@ -0,0 +1,9 @@
+/**
+ * Gemeinsame Vorgaben für Exemplare (book_copies), die book-info und bulk-import-books anlegen
+ *
+ * Der Standort des ersten Exemplars kommt über den Trigger create_initial_book_copy aus
+ * books.location, weitere Exemplare werden direkt angelegt. Beide verwenden denselben Standard
+ * wie das Buchformular der App.
+ */
+
+export const DEFAULT_COPY_LOCATION = "Bibliothek";
@@ -2,12 +2,84 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
 import { getCorsHeaders, handleCorsPreflightRequest } from "../cors.ts";
 import { GoogleGenAI } from "https://esm.sh/@google/genai";
+import { createDefaultProviders, lookupBookMetadata, type PartialBookMetadata, type ProviderResult } from "../metadata-providers.ts";
+import { readCachedLookup, writeCachedLookup } from "../isbn-cache.ts";
+import { isbnVariants, normalizeIsbn, parseIsbn } from "../isbn.ts";
+import { DEFAULT_COPY_LOCATION } from "../book-copies.ts";
 
 const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") || Deno.env.get("VITE_SUPABASE_URL") || "";
 const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY") || "";
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
 
+const GEMINI_SYSTEM_INSTRUCTION = 'Du bist ein präziser Buchinformations-Assistent. Deine Aufgabe ist es, genaue Daten zu Lehrmitteln, Büchern oder Lernmaterialien basierend auf ihrer ISBN zu liefern. Antworte ausschließlich mit einem validen JSON-Objekt. Verwende immer die Google-Suche, um die Informationen zu finden. Falls ich dir in Klammer Begriffe gebe, verwende ausschließlich diese Begriffe für das JSON-Objekt.';
+
+const CLASSIFICATION_FIELDS_PROMPT = `'Stufe' (Kindergarten, 1. Klasse, 2. Klasse, 3. Klasse, 4. Klasse, 5. Klasse, 6. Klasse) es könenn auch mehrere Stufen sein, 'Fach' (Mathematik, Deutsch, Französisch, NMG, Sport, Musik, Englisch, Bildnerisches Gestalten, TTG, Medien und Informatik, Deutsch als Zweitsprache, Förderung, Divers), 'Typ' (Lehrmittel, Lesebuch, Fachbuch, Sachbuch, Comic, Bilderbuch, Lernmaterial), 'Beschreibung'. Es sollte eine allgemeine Beschriebung sein, in der steht welche Themen im Lehrmittel/Buch behandelt werden und für welches Schuljahre es ist. Wenn es sich beim Fach um Deutsch als Zweitsprache handelt, dann füge auch immer noch das Fach "Deutsch" hinzu. Beim Typ "Lernmateial" sind Spiele, Karten, Poster etc. gemeint.`;
+
+/**
+ * Fragt Gemini mit Google-Suche nach den Buchangaben. Sind Titel und Autor aus einem Katalog
+ * bekannt, werden nur Stufe, Fach, Typ und Beschreibung erfragt.
+ */
+async function askGemini(isbn: string, known: PartialBookMetadata): Promise<ProviderResult | null> {
+  if (!GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY ist nicht konfiguriert");
+  }
+
+  const ai = new GoogleGenAI({vertexai: false, apiKey: GEMINI_API_KEY});
+
+  const prompt = known.title
+    ? `Bitte verwende die Google-Suche, um dieses Buch einzuordnen: "${known.title}"${known.author ? ` von ${known.author}` : ''}${known.publisher ? ` (${known.publisher})` : ''}, ISBN ${isbn}. Gib die Informationen ausschließlich als valides JSON-Objekt zurück, ohne zusätzlichen Text. Das JSON sollte folgende Felder enthalten: ${CLASSIFICATION_FIELDS_PROMPT} Wenn eine Information nicht verfügbar ist, verwende null als Wert.`
+    : `Bitte verwende unbedingt die Google-Suche, um genaue Informationen zu diesem Buch zu finden: Suche nach dem Buch mit der ISBN ${isbn}. Gib die Informationen ausschließlich als valides JSON-Objekt zurück, ohne zusätzlichen Text. Das JSON sollte folgende Felder enthalten: 'Titel', 'Autor', 'ISBN', ${CLASSIFICATION_FIELDS_PROMPT} 'Erscheinungsjahr', 'Verlag'. Wenn eine Information nicht verfügbar ist, verwende null als Wert.`;
+
+  console.log(`Sende Anfrage an Gemini API (${known.title ? 'nur Einordnung' : 'vollständige Suche'})...`);
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.0-flash',
+    contents: prompt,
+    config: {
+      temperature: 0.1,
+      tools: [{googleSearch: {}}],
+      systemInstruction: [{ text: GEMINI_SYSTEM_INSTRUCTION }],
+    },
+  });
+
+  // Logging der Grounding-Metadaten für Debugging
+  if (response?.candidates?.[0]?.groundingMetadata) {
+    console.log("Grounding-Metadaten:", JSON.stringify(response.candidates[0].groundingMetadata));
+  }
+
+  const content = response?.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  console.log("Content from API:", content);
+
+  // JSON aus dem AI-Content extrahieren (Markdown-Block entfernen, falls vorhanden)
+  let bookData;
+  try {
+    bookData = JSON.parse(content.replace(/```json\n?|```/g, "").trim());
+  } catch (e) {
+    console.error("Fehler beim JSON-Parsen der AI-Antwort:", content);
+    return null;
+  }
+
+  if (bookData?.ISBN && normalizeIsbn(String(bookData.ISBN)) !== normalizeIsbn(isbn)) {
+    console.warn(
+      `API hat eine andere ISBN zurückgegeben als angefragt. Erwartet: ${isbn}, erhalten: ${bookData.ISBN}`
+    );
+  }
+
+  const metadata: PartialBookMetadata = {
+    title: bookData?.Titel || null,
+    author: Array.isArray(bookData?.Autor) ? bookData.Autor.join(", ") : bookData?.Autor || null,
+    year: bookData?.Erscheinungsjahr ? parseInt(bookData.Erscheinungsjahr, 10) || null : null,
+    publisher: bookData?.Verlag || null,
+    // Falls "Stufe" als Array zurückkommt, in String umwandeln
+    level: Array.isArray(bookData?.Stufe) ? bookData.Stufe.join(", ") : bookData?.Stufe?.toString() || null,
+    subject: bookData?.Fach || null,
+    type: bookData?.Typ || null,
+    description: bookData?.Beschreibung || null,
+  };
+  return { metadata, raw: bookData };
+}
+
 serve(async (req) => {
   // CORS-Präflight-Anfrage
   const corsResponse = handleCorsPreflightRequest(req);
@@ -88,10 +160,12 @@ serve(async (req) => {
     }
     
     const requestBody = await req.json();
-    const { isbn, preview } = requestBody;
+    const { isbn: requestedIsbn, preview, refresh } = requestBody;
     const isPreviewMode = preview === true;
+    // Admins können den ISBN-Cache umgehen und eine neue Abfrage erzwingen
+    const skipCache = refresh === true && isAdmin;
     
-    console.log(`Modus: ${isPreviewMode ? 'Vorschau' : 'Import'} für ISBN: ${isbn}`);
+    console.log(`Modus: ${isPreviewMode ? 'Vorschau' : 'Import'} für ISBN: ${requestedIsbn}`);
     
     // Für Import-Modus benötigen wir Admin-Rechte
     if (!isPreviewMode && !isAdmin) {
@@ -119,7 +193,7 @@ serve(async (req) => {
       );
     }
 
-    if (!isbn) {
+    if (!requestedIsbn) {
       return new Response(
         JSON.stringify({
           error: "Ungültige Anfrage. Bitte geben Sie eine ISBN an.",
@@ -131,119 +205,84 @@ serve(async (req) => {
       );
     }
 
+    // ISBN-10 und Schreibweisen mit Bindestrichen auf die ISBN-13 vereinheitlichen
+    const parsedIsbn = parseIsbn(String(requestedIsbn));
+    if (parsedIsbn.kind === "invalid") {
+      return new Response(
+        JSON.stringify({
+          error: "Ungültige ISBN",
+          details: parsedIsbn.error,
+          isbn: requestedIsbn,
+        }),
+        {
+          status: 400,
+          headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+        }
+      );
+    }
+    const isbn = parsedIsbn.isbn13 || parsedIsbn.cleaned;
+
     // Prüfen, ob das Buch bereits existiert
     const { data: existingBook } = await createClient(SUPABASE_URL, SUPABASE_ANON_KEY)
       .from("books")
       .select("*")
-      .eq("isbn", isbn)
+      .in("isbn", isbnVariants(isbn))
+      .is("deleted_at", null)
+      .limit(1)
       .maybeSingle();
 
     if (existingBook) {
       console.log(`Buch mit ISBN ${isbn} existiert bereits:`, existingBook);
-      return new Response(JSON.stringify(existingBook), {
-        headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
-      });
-    }
 
-    // === Neuer Teil: Gemini API-Aufruf ===
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY ist nicht konfiguriert");
-    }
+      if (isPreviewMode) {
+        return new Response(JSON.stringify(existingBook), {
+          headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+        });
+      }
 
-    // API initialisieren genau wie im Beispiel
-    const ai = new GoogleGenAI({vertexai: false, apiKey: GEMINI_API_KEY});
-    
-    console.log("GEMINI_API_KEY vorhanden:", !!GEMINI_API_KEY);
-    console.log("API-Objekt erstellt");
-    
-    // Prompt für die Buchinformationen
-    const prompt = `Bitte verwende unbedingt die Google-Suche, um genaue Informationen zu diesem Buch zu finden: Suche nach dem Buch mit der ISBN ${isbn}. Gib die Informationen ausschließlich als valides JSON-Objekt zurück, ohne zusätzlichen Text. Das JSON sollte folgende Felder enthalten: 'Titel', 'Autor', 'ISBN', 'Stufe' (Kindergarten, 1. Klasse, 2. Klasse, 3. Klasse, 4. Klasse, 5. Klasse, 6. Klasse) es könenn auch mehrere Stufen sein, 'Fach' (Mathematik, Deutsch, Französisch, NMG, Sport, Musik, Englisch, Bildnerisches Gestalten, TTG, Medien und Informatik, Deutsch als Zweitsprache, Förderung, Divers), 'Erscheinungsjahr', 'Typ' (Lehrmittel, Lesebuch, Fachbuch, Sachbuch, Comic, Bilderbuch, Lernmaterial), 'Verlag', 'Beschreibung'. Es sollte eine allgemeine Beschriebung sein, in der steht welche Themen im Lehrmittel/Buch behandelt werden und für welches Schuljahre es ist. Wenn es sich beim Fach um Deutsch als Zweitsprache handelt, dann füge auch immer noch das Fach "Deutsch" hinzu. Beim Typ "Lernmateial" sind Spiele, Karten, Poster etc. gemeint. Wenn eine Information nicht verfügbar ist, verwende null als Wert.`;
+      // Import einer bekannten ISBN: weiteres Exemplar zum bestehenden Katalogeintrag anlegen
+      const { error: copyError } = await createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+        .from("book_copies")
+        .insert([{ book_id: existingBook.id, location: DEFAULT_COPY_LOCATION, school: existingBook.school }]);
 
-    console.log("Sende Anfrage an Gemini API...");
-    
-    let content;
-    try {
-      // Exakt den gleichen Anfragestruktur wie im Beispiel verwenden
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.0-flash',
-        contents: prompt,
-        config: {
-          temperature: 0.1,
-          tools: [{googleSearch: {}}],
-          systemInstruction: [
-            {
-              text: 'Du bist ein präziser Buchinformations-Assistent. Deine Aufgabe ist es, genaue Daten zu Lehrmitteln, Büchern oder Lernmaterialien basierend auf ihrer ISBN zu liefern. Antworte ausschließlich mit einem validen JSON-Objekt. Verwende immer die Google-Suche, um die Informationen zu finden. Falls ich dir in Klammer Begriffe gebe, verwende ausschließlich diese Begriffe für das JSON-Objekt.',
-            }
-        ],
-        },
-      });
-      
-      console.log("Antwort von Gemini API erhalten");
-      
-      // Logging der Grounding-Metadaten für Debugging
-      if (response?.candidates?.[0]?.groundingMetadata) {
-        console.log("Grounding-Metadaten:", JSON.stringify(response.candidates[0].groundingMetadata));
+      if (copyError) {
+        console.error("Fehler beim Anlegen des Exemplars:", copyError);
+        return new Response(
+          JSON.stringify({
+            error: "Fehler beim Anlegen eines weiteren Exemplars",
+            details: copyError.message,
+          }),
+          {
+            headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+            status: 500,
+          }
+        );
       }
-      
-      // Text aus der Antwort extrahieren
-      content = response?.candidates?.[0]?.content?.parts?.[0]?.text || "";
-      
-      console.log("Content from API:", content);
-    } catch (error) {
-      console.error("Fehler beim Aufruf der Gemini API:", error);
-      throw error;
-    }
-
-    // JSON aus dem AI-Content extrahieren
-    let bookData;
-    try {
-      // Markdown-Block entfernen, falls vorhanden
-      const cleanContent = content.replace(/```json\n?|```/g, "").trim();
-      console.log("Bereinigter JSON-Content:", cleanContent);
-      bookData = JSON.parse(cleanContent);
-    } catch (e) {
-      console.error("Fehler beim JSON-Parsen der AI-Antwort:", content);
-      return new Response(
-        JSON.stringify({
-          error: "Invalid JSON response from AI",
-          content: content,
-        }),
-        {
-          headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
-          status: 500,
-        }
-      );
-    }
 
-    // Falls "Stufe" als Array zurückkommt, in String umwandeln
-    if (bookData?.Stufe && Array.isArray(bookData.Stufe)) {
-      bookData.Stufe = bookData.Stufe.join(", ");
+      return new Response(JSON.stringify({ ...existingBook, copy_added: true }), {
+        headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+      });
     }
 
-    // Standardwerte für fehlende Felder
-    const defaultValues = {
-      Titel: null,
-      Autor: null,
-      ISBN: isbn,
-      Stufe: null,
-      Fach: null,
-      Erscheinungsjahr: null,
-      Beschreibung: null,
-      Typ: null,
-      Verlag: null,
-    };
-    bookData = { ...defaultValues, ...bookData };
+    // Zuerst der ISBN-Cache, dann strukturierte Kataloge, Gemini nur für Stufe, Fach, Typ und Beschreibung
+    const cacheClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const cached = skipCache ? null : await readCachedLookup(cacheClient, isbn);
 
-    // ISBN prüfen
-    if (bookData.ISBN !== isbn) {
-      console.warn(
-        `API hat eine andere ISBN zurückgegeben als angefragt. Erwartet: ${isbn}, erhalten: ${bookData.ISBN}`
-      );
-      bookData.ISBN = isbn; // Wir erzwingen die ursprüngliche ISBN
+    let metadata;
+    let sources: string[];
+    if (cached) {
+      ({ metadata, sources } = cached);
+      console.log(`Buchangaben für ISBN ${isbn} aus dem Cache (abgefragt am ${cached.cachedAt})`);
+    } else {
+      const lookup = await lookupBookMetadata(isbn, createDefaultProviders(), askGemini);
+      ({ metadata, sources } = lookup);
+      console.log(`Buchangaben für ISBN ${isbn} aus: ${sources.join(", ") || "keiner Quelle"}`);
+      // Ohne Stufe, Fach und Typ nicht cachen, sonst fehlen sie auch bei späteren Abfragen
+      if (!lookup.enrichmentFailed) await writeCachedLookup(cacheClient, lookup);
     }
 
     // Prüfe, ob genug Buch-Infos vorliegen
-    if (!bookData.Titel) {
+    if (!metadata.title) {
       console.error("Keine ausreichenden Buchinformationen gefunden für ISBN:", isbn);
       return new Response(
         JSON.stringify({ 
@@ -260,24 +299,15 @@ serve(async (req) => {
 
     // Buchdaten für Antwort/DB formatieren
     const formattedBookData = {
-      title: bookData.Titel || "Unbekannter Titel",
-      author: bookData.Autor || "Unbekannt",
-      isbn: isbn, // erzwungene ursprüngliche ISBN
-      level: typeof bookData.Stufe === "string"
-        ? bookData.Stufe
-        : Array.isArray(bookData.Stufe)
-          ? bookData.Stufe.join(", ")
-          : bookData.Stufe?.toString() || "Unbekannt",
-      subject: bookData.Fach || "Unbekannt",
-      year: bookData.Erscheinungsjahr ? parseInt(bookData.Erscheinungsjahr, 10) : new Date().getFullYear(),
-      description: bookData.Beschreibung || "Keine Beschreibung verfügbar",
-      type: bookData.Typ || "Lehrmittel",
-      publisher: bookData.Verlag || "Unbekannt",
-    };
-
-    // ISBN-Bereinigungsfunktion - entfernt alle Bindestriche
-    const cleanIsbn = (isbn: string): string => {
-      return isbn ? isbn.replace(/-/g, '') : isbn;
+      title: metadata.title,
+      author: metadata.author || "Unbekannt",
+      isbn: isbn, // immer die angefragte ISBN (normalisiert)
+      level: metadata.level || "Unbekannt",
+      subject: metadata.subject || "Unbekannt",
+      year: metadata.year || new Date().getFullYear(),
+      description: metadata.description || "Keine Beschreibung verfügbar",
+      type: metadata.type || "Lehrmittel",
+      publisher: metadata.publisher || "Unbekannt",
     };
 
     // Im Vorschaumodus nur Daten zurückgeben, nicht in DB speichern
@@ -285,7 +315,8 @@ serve(async (req) => {
       console.log("Vorschaumodus aktiv – kein DB-Eintrag");
       return new Response(JSON.stringify({
         ...formattedBookData,
-        isbn: cleanIsbn(formattedBookData.isbn)
+        metadata_sources: sources,
+        metadata_cached_at: cached?.cachedAt ?? null
       }), {
         headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
       });
@@ -298,12 +329,10 @@ serve(async (req) => {
 
     const bookEntry = {
       ...formattedBookData,
-      // Bereinigte ISBN ohne Bindestriche verwenden
-      isbn: cleanIsbn(formattedBookData.isbn),
       user_id: userId,
       created_at: new Date().toISOString(),
       available: true,
-      location: "Schule",
+      location: DEFAULT_COPY_LOCATION,
     };
 
     console.log("Füge Buch in Datenbank ein:", bookEntry);
@@ -318,9 +347,12 @@ serve(async (req) => {
       console.error("Fehler beim Einfügen des Buchs:", insertError);
       return new Response(
         JSON.stringify({ 
-          error: "Fehler beim Speichern des Buchs in der Datenbank", 
+          // Die ISBN ist eindeutig, auch für Einträge im Papierkorb
+          error: insertError.code === "23505"
+            ? "Ein Buch mit dieser ISBN liegt im Papierkorb. Bitte dort wiederherstellen."
+            : "Fehler beim Speichern des Buchs in der Datenbank", 
           details: insertError.message,
-          bookData 
+          bookData: formattedBookData 
         }),
         {
           headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
@@ -353,7 +385,7 @@ serve(async (req) => {
       console.error("Fehler nach dem Einfügen des Buchs:", error);
     }
 
-    return new Response(JSON.stringify(insertedBook || bookData), {
+    return new Response(JSON.stringify(insertedBook || formattedBookData), {
       headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
     });
 
@@ -1,6 +1,256 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.23.0';
 import { getCorsHeaders, handleCorsPreflightRequest } from "../cors.ts";
+import { isbnVariants, normalizeIsbn, parseIsbn } from "../isbn.ts";
+import { DEFAULT_COPY_LOCATION } from "../book-copies.ts";
+
+// Pflichtfelder eines Buchs: fehlt eines davon, werden die Angaben per ISBN über book-info ergänzt
+const REQUIRED_BOOK_FIELDS = ['title', 'author', 'year', 'subject', 'level'];
+
+// Anzahl Zeilen pro Verarbeitungsaufruf, damit ein einzelner Aufruf nicht in ein Timeout läuft
+const JOB_CHUNK_SIZE = 10;
+
+const isCompleteBookRow = (row: Record<string, unknown>) =>
+  REQUIRED_BOOK_FIELDS.every((field) => row[field] !== null && row[field] !== undefined && row[field] !== '');
+
+// Arbeit nach dem Senden der Antwort weiterlaufen lassen (Supabase Edge Runtime)
+function runInBackground(promise: Promise<unknown>) {
+  const edgeRuntime = (globalThis as any).EdgeRuntime;
+  if (edgeRuntime?.waitUntil) {
+    edgeRuntime.waitUntil(promise);
+  }
+}
+
+/**
+ * Startet einen neuen Aufruf dieser Funktion für den nächsten Abschnitt eines Jobs
+ */
+async function triggerJobProcessing(supabaseUrl: string, supabaseServiceKey: string, jobId: string) {
+  try {
+    await fetch(`${supabaseUrl}/functions/v1/bulk-import-books`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`
+      },
+      body: JSON.stringify({ action: 'process', jobId })
+    });
+  } catch (error) {
+    console.error(`Fehler beim Anstossen der Verarbeitung von Job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Holt die Buchinformationen zu einer ISBN über die book-info Funktion
+ */
+async function fetchBookInfo(supabaseUrl: string, authorization: string, isbn: string) {
+  const bookInfoResponse = await fetch(`${supabaseUrl}/functions/v1/book-info`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': authorization
+    },
+    body: JSON.stringify({ isbn, preview: true }) // Wir holen nur die Informationen
+  });
+
+  if (!bookInfoResponse.ok) {
+    const errorText = await bookInfoResponse.text();
+    throw new Error(`HTTP ${bookInfoResponse.status}: ${errorText}`);
+  }
+
+  return await bookInfoResponse.json();
+}
+
+/**
+ * Speichert ein Buch. Existiert die ISBN bereits, wird nur ein weiteres Exemplar angelegt.
+ */
+async function saveImportedBook(adminClient: any, bookInfo: Record<string, any>, userId: string) {
+  const isbn = bookInfo.isbn ? normalizeIsbn(bookInfo.isbn) : '';
+  const location = bookInfo.location || DEFAULT_COPY_LOCATION;
+  const school = bookInfo.school || null;
+
+  const addCopy = async () => {
+    const { data: existingBook, error: queryError } = await adminClient
+      .from("books")
+      .select("id, title")
+      .in("isbn", isbnVariants(isbn))
+      .is("deleted_at", null)
+      .limit(1)
+      .maybeSingle();
+
+    if (queryError) throw new Error(`Datenbankfehler: ${queryError.message}`);
+    if (!existingBook) return null;
+
+    const { error: copyError } = await adminClient
+      .from("book_copies")
+      .insert({ book_id: existingBook.id, location, school });
+
+    if (copyError) throw new Error(copyError.message);
+    return { status: 'duplicate', bookId: existingBook.id, title: existingBook.title };
+  };
+
+  if (isbn) {
+    const duplicate = await addCopy();
+    if (duplicate) return duplicate;
+  }
+
+  const bookEntry = {
+    isbn,
+    title: bookInfo.title,
+    author: Array.isArray(bookInfo.author) ? bookInfo.author.join(', ') : bookInfo.author,
+    year: bookInfo.year,
+    subject: bookInfo.subject,
+    level: bookInfo.level,
+    type: bookInfo.type || 'Lehrmittel',
+    publisher: bookInfo.publisher || null,
+    description: bookInfo.description || null,
+    school,
+    location,
+    user_id: userId,
+    created_at: new Date().toISOString(),
+    available: true
+  };
+
+  const { data: insertedBook, error: insertError } = await adminClient
+    .from("books")
+    .insert(bookEntry)
+    .select("id, title")
+    .single();
+
+  if (insertError) {
+    // Dieselbe ISBN wurde parallel im selben Job importiert: als weiteres Exemplar anlegen
+    if (insertError.code === '23505' && isbn) {
+      const duplicate = await addCopy();
+      if (duplicate) return duplicate;
+      // Kein aktiver Eintrag, die ISBN gehört also zu einem Buch im Papierkorb
+      throw new Error('Ein Buch mit dieser ISBN liegt im Papierkorb. Bitte dort wiederherstellen.');
+    }
+    throw new Error(insertError.message);
+  }
+
+  return { status: 'imported', bookId: insertedBook.id, title: insertedBook.title };
+}
+
+/**
+ * Verarbeitet eine Zeile eines Jobs: nachschlagen (falls nötig), speichern und Status festhalten
+ */
+async function processJobItem(adminClient: any, supabaseUrl: string, supabaseServiceKey: string, item: any, userId: string) {
+  const updateItem = async (values: Record<string, unknown>) => {
+    const { error } = await adminClient
+      .from("import_job_items")
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq("id", item.id);
+    if (error) console.error(`Fehler beim Aktualisieren der Job-Zeile ${item.id}:`, error);
+  };
+
+  try {
+    let bookInfo = item.book_data;
+
+    if (item.status === 'pending' || !bookInfo) {
+      const row = item.payload || { isbn: item.isbn };
+
+      if (isCompleteBookRow(row)) {
+        bookInfo = row;
+      } else {
+        if (!row.isbn) throw new Error('Unvollständige Zeile ohne ISBN');
+
+        // Angaben aus der Tabelle haben Vorrang vor den nachgeschlagenen
+        const lookedUp = await fetchBookInfo(supabaseUrl, `Bearer ${supabaseServiceKey}`, row.isbn);
+        const filledFields = Object.fromEntries(
+          Object.entries(row).filter(([, value]) => value !== null && value !== undefined && value !== '')
+        );
+        bookInfo = { ...lookedUp, ...filledFields };
+      }
+
+      await updateItem({ status: 'fetched', book_data: bookInfo, title: bookInfo.title || null });
+    }
+
+    const saved = await saveImportedBook(adminClient, bookInfo, userId);
+    await updateItem({ status: saved.status, book_id: saved.bookId, title: saved.title, error: null, claimed_at: null });
+  } catch (error) {
+    console.error(`Fehler bei Job-Zeile ${item.position} (${item.isbn || 'ohne ISBN'}):`, error);
+    await updateItem({ status: 'failed', error: error.message, claimed_at: null });
+  }
+}
+
+/**
+ * Verarbeitet den nächsten Abschnitt eines Jobs
+ * @returns true, wenn danach noch offene Zeilen übrig sind
+ */
+async function processJobChunk(adminClient: any, supabaseUrl: string, supabaseServiceKey: string, jobId: string) {
+  const { data: job, error: jobError } = await adminClient
+    .from("import_jobs")
+    .select()
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (jobError || !job) {
+    console.error(`Job ${jobId} nicht gefunden:`, jobError);
+    return false;
+  }
+
+  await adminClient
+    .from("import_jobs")
+    .update({ status: 'running', updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  const { data: items, error: claimError } = await adminClient
+    .rpc("claim_import_job_items", { p_job_id: jobId, p_limit: JOB_CHUNK_SIZE });
+
+  if (claimError) {
+    console.error(`Fehler beim Reservieren der Zeilen von Job ${jobId}:`, claimError);
+    return false;
+  }
+
+  console.log(`Job ${jobId}: verarbeite ${items.length} Zeilen`);
+  await Promise.all(items.map((item) => processJobItem(adminClient, supabaseUrl, supabaseServiceKey, item, job.created_by)));
+
+  const { count: remaining } = await adminClient
+    .from("import_job_items")
+    .select("id", { count: 'exact', head: true })
+    .eq("job_id", jobId)
+    .in("status", ['pending', 'fetched']);
+
+  if (remaining && remaining > 0) {
+    await adminClient
+      .from("import_jobs")
+      .update({ updated_at: new Date().toISOString() })
+      .eq("id", jobId);
+    // Zeilen, die gerade ein anderer Aufruf bearbeitet, nicht erneut anstossen
+    return items.length > 0;
+  }
+
+  await adminClient
+    .from("import_jobs")
+    .update({ status: 'completed', completed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  // Embeddings nur für neu angelegte Bücher erstellen (weitere Exemplare haben bereits eines)
+  const { data: importedItems } = await adminClient
+    .from("import_job_items")
+    .select("book_id")
+    .eq("job_id", jobId)
+    .eq("status", 'imported');
+
+  const bookIds = (importedItems || []).map((item) => item.book_id).filter(Boolean);
+  if (bookIds.length > 0) {
+    console.log(`Job ${jobId} abgeschlossen, sende ${bookIds.length} Buch-IDs an createEmbeddings`);
+    try {
+      await fetch(`${supabaseUrl}/functions/v1/createEmbeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`
+        },
+        body: JSON.stringify({ bookIds })
+      });
+    } catch (embedError) {
+      // Nicht kritisch, die Bücher sind bereits importiert
+      console.error("Fehler beim Aufruf der Embedding-Funktion:", embedError);
+    }
+  }
+
+  return false;
+}
 
 serve(async (req) => {
   console.log('Bulk Import Books function called');
@@ -164,198 +414,154 @@ serve(async (req) => {
     
     // Request-Body parsen
     const requestData = await req.json();
-    const isbns = requestData.isbns;
+    const action = requestData.action || 'create';
+    const jsonHeaders = { ...getCorsHeaders(req), 'Content-Type': 'application/json' };
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Nächsten Abschnitt eines Jobs verarbeiten (Aufruf durch diese Funktion selbst)
+    if (action === 'process') {
+      const jobId = requestData.jobId;
+      const hasMore = await processJobChunk(adminClient, supabaseUrl, supabaseServiceKey, jobId);
+      if (hasMore) {
+        runInBackground(triggerJobProcessing(supabaseUrl, supabaseServiceKey, jobId));
+      }
+      return new Response(JSON.stringify({ jobId, hasMore }), { headers: jsonHeaders });
+    }
+
+    // Hängengebliebenen Job fortsetzen oder fehlgeschlagene Zeilen erneut versuchen
+    if (action === 'resume' || action === 'retry') {
+      const jobId = requestData.jobId;
+      if (!jobId) {
+        return new Response(
+          JSON.stringify({ error: 'Ungültige Anfrage - jobId erforderlich' }), 
+          { status: 400, headers: jsonHeaders }
+        );
+      }
+
+      if (action === 'retry') {
+        const { error: retryError } = await adminClient
+          .from("import_job_items")
+          .update({ status: 'pending', error: null, claimed_at: null, attempts: 0, updated_at: new Date().toISOString() })
+          .eq("job_id", jobId)
+          .eq("status", 'failed');
+
+        if (retryError) throw new Error(retryError.message);
+      }
+
+      await adminClient
+        .from("import_jobs")
+        .update({ status: 'running', completed_at: null, updated_at: new Date().toISOString() })
+        .eq("id", jobId);
+
+      runInBackground(triggerJobProcessing(supabaseUrl, supabaseServiceKey, jobId));
+      return new Response(JSON.stringify({ jobId }), { status: 202, headers: jsonHeaders });
+    }
+
+    const isbns = Array.isArray(requestData.isbns) ? requestData.isbns : [];
+    // Zeilen aus einer importierten Tabelle (CSV/XLSX) mit bereits erfassten Buchangaben
+    const tableBooks = Array.isArray(requestData.books) ? requestData.books : [];
     
     // Neuer Parameter für den Preview-Modus
     const isPreviewMode = requestData.preview === true;
     console.log(`Modus: ${isPreviewMode ? 'Vorschau' : 'Import'}, preview-Parameter:`, requestData.preview);
     
-    if (!isbns || !Array.isArray(isbns) || isbns.length === 0) {
-      console.error('Ungültige Anfrage: Keine ISBN-Liste vorhanden');
+    if (isbns.length === 0 && tableBooks.length === 0) {
+      console.error('Ungültige Anfrage: Keine ISBN-Liste oder Buchzeilen vorhanden');
       return new Response(
-        JSON.stringify({ error: 'Ungültige Anfrage - ISBN-Liste erforderlich' }), 
-        { status: 400, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Ungültige Anfrage - ISBN-Liste oder Buchzeilen erforderlich' }), 
+        { status: 400, headers: jsonHeaders }
       );
     }
-    
-    console.log(`${isPreviewMode ? 'Vorschau' : 'Massenimport'} gestartet für ${isbns.length} Bücher`);
-    
-    // Ergebnisse und Fehler sammeln
-    const results = {
-      successful: [],
-      failed: [],
-      total: isbns.length,
-      completed: 0
-    };
-    
-    // Batch-Verarbeitung der ISBN-Nummern
-    // Pro Batch maximal 10 parallele Anfragen, um API-Limits zu respektieren
-    const batchSize = 10;
-    for (let i = 0; i < isbns.length; i += batchSize) {
-      const batch = isbns.slice(i, i + batchSize);
-      console.log(`Verarbeite Batch ${Math.floor(i/batchSize) + 1} von ${Math.ceil(isbns.length/batchSize)}`);
-      
-      // Parallele Verarbeitung innerhalb eines Batches
-      const batchPromises = batch.map(async (isbn) => {
-        try {
-          console.log(`Verarbeite ISBN: ${isbn}, im ${isPreviewMode ? 'Vorschau' : 'Import'}-Modus`);
-          
-          // Service-Role für den Import verwenden, um Authentifizierungsprobleme zu umgehen
-          const useServiceRole = !isPreviewMode;
-          const headers = {
-            'Content-Type': 'application/json',
-            'Authorization': useServiceRole ? 
-                            `Bearer ${supabaseServiceKey}` : 
-                            authHeader
-          };
-          
-          console.log(`Verwende ${useServiceRole ? 'Service-Role' : 'Benutzer'}-Authentifizierung für ISBN: ${isbn}`);
-          
-          // Im Vorschaumodus verwenden wir die book-info Funktion normal
-          if (isPreviewMode) {
-            const bookInfoResponse = await fetch(`${supabaseUrl}/functions/v1/book-info`, {
-              method: 'POST',
-              headers,
-              body: JSON.stringify({ isbn, preview: true })
-            });
-            
-            if (bookInfoResponse.ok) {
-              const bookData = await bookInfoResponse.json();
-              console.log(`Erfolgreiche Vorschau für ISBN: ${isbn}`);
-              return { status: 'success', isbn, data: bookData };
-            } else {
-              const errorText = await bookInfoResponse.text();
-              console.error(`Fehler bei der Vorschau für ISBN ${isbn}: ${errorText}`);
-              return { status: 'error', isbn, error: `HTTP ${bookInfoResponse.status}: ${errorText}` };
-            }
-          } else {
-            // Im Import-Modus: Zuerst Buchinformationen holen
-            const bookInfoResponse = await fetch(`${supabaseUrl}/functions/v1/book-info`, {
-              method: 'POST',
-              headers,
-              body: JSON.stringify({ isbn, preview: true }) // Wir holen nur die Informationen
-            });
-            
-            if (!bookInfoResponse.ok) {
-              const errorText = await bookInfoResponse.text();
-              console.error(`Fehler beim Abrufen der Buchinformationen für ISBN ${isbn}: ${errorText}`);
-              return { status: 'error', isbn, error: `HTTP ${bookInfoResponse.status}: ${errorText}` };
-            }
-            
-            // Buchinformationen erfolgreich erhalten
-            const bookInfo = await bookInfoResponse.json();
-            
-            // Sicherstellen, dass Autor als String und nicht als Array gespeichert wird
-            let authorField = bookInfo.author;
-            if (Array.isArray(authorField)) {
-              authorField = authorField.join(', ');
-            }
-            
-            // Prüfen, ob ein Buch mit dieser ISBN bereits existiert
-            const adminClient = createClient(supabaseUrl, supabaseServiceKey);
-            const { data: existingBook, error: queryError } = await adminClient
-              .from("books")
-              .select("id, title")
-              .eq("isbn", isbn)
-              .maybeSingle();
-              
-            if (queryError) {
-              console.error(`Fehler bei der Prüfung auf existierendes Buch mit ISBN ${isbn}:`, queryError);
-              return { status: 'error', isbn, error: `Datenbankfehler: ${queryError.message}` };
-            }
-            
-            // Wenn das Buch bereits existiert, geben wir eine entsprechende Fehlermeldung zurück
-            if (existingBook) {
-              console.log(`Buch mit ISBN ${isbn} existiert bereits: "${existingBook.title}" (ID: ${existingBook.id})`);
-              return { 
-                status: 'error', 
-                isbn, 
-                error: `Dieses Buch existiert bereits in der Datenbank: "${existingBook.title}"`,
-                existingId: existingBook.id
-              };
-            }
-            
-            // Jetzt direkt in die Datenbank einfügen wie in BookGrid.tsx
-            const bookEntry = {
-              ...bookInfo,
-              author: authorField, // Den korrekt formatierten Autor verwenden
-              user_id: userId,
-              created_at: new Date().toISOString(),
-              available: true,
-              location: 'Bibliothek'
-            };
-            
-            console.log(`Füge Buch in die Datenbank ein: ${isbn}`);
-            const { data: insertedBook, error: insertError } = await adminClient
-              .from("books")
-              .insert(bookEntry)
-              .select();
-              
-            if (insertError) {
-              console.error(`Fehler beim Einfügen des Buchs ${isbn} in die Datenbank:`, insertError);
-              return { status: 'error', isbn, error: insertError.message };
-            }
-            
-            console.log(`Buch mit ISBN ${isbn} erfolgreich in die Datenbank eingefügt:`, insertedBook);
-            return { status: 'success', isbn, data: insertedBook[0] };
-          }
-        } catch (error) {
-          console.error(`Ausnahme beim ${isPreviewMode ? 'Vorschau' : 'Import'} für ISBN ${isbn}:`, error);
-          return { status: 'error', isbn, error: error.message };
-        }
-      });
+
+    if (isPreviewMode) {
+      if (tableBooks.length > 0) {
+        return new Response(
+          JSON.stringify({ error: 'Ungültige Anfrage - Buchzeilen werden im Browser geprüft, keine Vorschau möglich' }), 
+          { status: 400, headers: jsonHeaders }
+        );
+      }
+
+      console.log(`Vorschau gestartet für ${isbns.length} Bücher`);
       
-      // Warten auf alle Anfragen im aktuellen Batch
-      const batchResults = await Promise.all(batchPromises);
+      // Ergebnisse und Fehler sammeln
+      const results = {
+        successful: [],
+        failed: [],
+        total: isbns.length,
+        completed: 0
+      };
       
-      // Ergebnisse verarbeiten
-      for (const result of batchResults) {
-        if (result.status === 'success') {
-          results.successful.push({ isbn: result.isbn, data: result.data });
-        } else {
-          results.failed.push({ isbn: result.isbn, error: result.error });
-        }
-        results.completed++;
-      }
-    }
-    
-    console.log(`Massenimport abgeschlossen. Erfolg: ${results.successful.length}, Fehlgeschlagen: ${results.failed.length}`);
-    
-    // Nach erfolgreichem Import, die Embedding-Generierung starten
-    if (results.successful.length > 0 && !isPreviewMode) {
-      try {
-        console.log("Starte Embedding-Generierung für erfolgreich importierte Bücher");
+      // Pro Batch maximal 10 parallele Anfragen, um API-Limits zu respektieren
+      const batchSize = 10;
+      for (let i = 0; i < isbns.length; i += batchSize) {
+        const batch = isbns.slice(i, i + batchSize);
+        console.log(`Verarbeite Batch ${Math.floor(i/batchSize) + 1} von ${Math.ceil(isbns.length/batchSize)}`);
         
-        // Sammle die Buch-IDs der erfolgreich importierten Bücher
-        const bookIds = results.successful
-          .filter(item => item.data && item.data.id)
-          .map(item => item.data.id);
+        const batchResults = await Promise.all(batch.map(async (isbn) => {
+          const parsedIsbn = parseIsbn(isbn);
+          if (parsedIsbn.kind === 'invalid') {
+            return { status: 'error', isbn, error: `Ungültige ISBN: ${parsedIsbn.error}` };
+          }
+          try {
+            const bookData = await fetchBookInfo(supabaseUrl, authHeader, isbn);
+            console.log(`Erfolgreiche Vorschau für ISBN: ${isbn}`);
+            return { status: 'success', isbn, data: bookData };
+          } catch (error) {
+            console.error(`Fehler bei der Vorschau für ISBN ${isbn}:`, error);
+            return { status: 'error', isbn, error: error.message };
+          }
+        }));
         
-        if (bookIds.length > 0) {
-          // Rufe die createEmbeddings-Funktion auf
-          console.log(`Sende ${bookIds.length} Buch-IDs an createEmbeddings`);
-          
-          fetch(`${supabaseUrl}/functions/v1/createEmbeddings`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${supabaseServiceKey}`
-            },
-            body: JSON.stringify({ bookIds })
-          }).catch(embedError => {
-            console.error("Fehler beim Aufruf der Embedding-Funktion:", embedError);
-          });
+        for (const result of batchResults) {
+          if (result.status === 'success') {
+            results.successful.push({ isbn: result.isbn, data: result.data });
+          } else {
+            results.failed.push({ isbn: result.isbn, error: result.error });
+          }
+          results.completed++;
         }
-      } catch (error) {
-        console.error("Fehler beim Starten der Embedding-Generierung:", error);
-        // Wir behandeln diesen Fehler nicht als kritisch, da die Bücher bereits importiert wurden
       }
+      
+      console.log(`Vorschau abgeschlossen. Erfolg: ${results.successful.length}, Fehlgeschlagen: ${results.failed.length}`);
+      return new Response(JSON.stringify(results), { headers: jsonHeaders });
     }
-    
-    return new Response(
-      JSON.stringify(results), 
-      { headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
-    );
+
+    // Import: Job anlegen und abschnittsweise im Hintergrund verarbeiten
+    const source = tableBooks.length > 0 ? 'table' : 'isbn';
+    const { data: job, error: jobError } = await adminClient
+      .from("import_jobs")
+      .insert({ created_by: userId, source, total_count: isbns.length + tableBooks.length })
+      .select()
+      .single();
+
+    if (jobError) throw new Error(`Job konnte nicht angelegt werden: ${jobError.message}`);
+
+    const items = source === 'table'
+      ? tableBooks.map((row, index) => ({
+          job_id: job.id,
+          position: index,
+          isbn: row.isbn ? normalizeIsbn(row.isbn) : null,
+          title: row.title || null,
+          payload: row
+        }))
+      : isbns.map((isbn, index) => {
+          // Ungültige ISBNs gar nicht erst nachschlagen
+          const parsedIsbn = parseIsbn(isbn);
+          return parsedIsbn.kind === 'invalid'
+            ? { job_id: job.id, position: index, isbn, status: 'failed', error: `Ungültige ISBN: ${parsedIsbn.error}` }
+            : { job_id: job.id, position: index, isbn: normalizeIsbn(isbn), status: 'pending', error: null };
+        });
+
+    const { error: itemsError } = await adminClient.from("import_job_items").insert(items);
+    if (itemsError) {
+      await adminClient.from("import_jobs").delete().eq("id", job.id);
+      throw new Error(`Job-Zeilen konnten nicht gespeichert werden: ${itemsError.message}`);
+    }
+
+    console.log(`Import-Job ${job.id} angelegt mit ${items.length} Zeilen`);
+    runInBackground(triggerJobProcessing(supabaseUrl, supabaseServiceKey, job.id));
+
+    return new Response(JSON.stringify({ jobId: job.id }), { status: 202, headers: jsonHeaders });
     
   } catch (error) {
     console.error('Unbehandelte Ausnahme:', error);
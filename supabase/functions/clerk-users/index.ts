@@ -1,4 +1,5 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.8.0';
 import { getCorsHeaders, handleCorsPreflightRequest } from '../cors.ts';
 
 // Clerk API URL
@@ -46,11 +47,62 @@ function transformClerkUser(user: any) {
     created_at: user.created_at,
     last_sign_in_at: user.last_sign_in_at,
     roles: [user.public_metadata?.role || 'user'].filter(Boolean),
+    schools: Array.isArray(user.public_metadata?.schools) ? user.public_metadata.schools : [],
     is_blocked: user.locked,
     block_reason: user.public_metadata?.block_reason || null
   };
 }
 
+// Handelnde Person aus dem JWT lesen (für das Änderungsprotokoll)
+function getRequestActor(req: Request): { id: string | null; role: string | null } {
+  const token = req.headers.get('Authorization')?.split(' ')[1] || '';
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return { id: null, role: 'service_role' };
+  }
+
+  try {
+    const payload = JSON.parse(
+      new TextDecoder().decode(
+        Uint8Array.from(atob(token.split('.')[1]), c => c.charCodeAt(0))
+      )
+    );
+    return { id: payload.sub || null, role: payload.user_role || null };
+  } catch {
+    return { id: null, role: null };
+  }
+}
+
+// Rollen und Sperren liegen in Clerk, deshalb trägt diese Funktion sie selbst in audit_log ein.
+// Ein Fehler beim Protokollieren macht die bereits ausgeführte Änderung nicht rückgängig.
+async function writeAuditLog(req: Request, entry: {
+  action: string;
+  userId: string;
+  email: string | null;
+  oldValues: Record<string, unknown>;
+  newValues: Record<string, unknown>;
+}) {
+  const actor = getRequestActor(req);
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL') || '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+  );
+
+  const { error } = await adminClient.from('audit_log').insert({
+    actor_id: actor.id,
+    actor_role: actor.role,
+    action: entry.action,
+    entity_type: 'user',
+    entity_id: entry.userId,
+    entity_label: entry.email,
+    old_values: entry.oldValues,
+    new_values: entry.newValues,
+  });
+
+  if (error) {
+    console.error('Fehler beim Schreiben des Änderungsprotokolls:', error);
+  }
+}
+
 // Funktion zur JWT-Authentifizierung
 async function isAuthorized(req: Request): Promise<boolean> {
   // Prüfe Authorization Header
@@ -79,9 +131,6 @@ async function isAuthorized(req: Request): Promise<boolean> {
       return false;
     }
     
-    // Import vom createClient
-    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2.8.0');
-    
     // Client mit dem Token als Authorization Header erstellen
     const authClient = createClient(supabaseUrl, supabaseAnonKey, {
       global: {
@@ -283,6 +332,18 @@ serve(async (req) => {
           // Aktuelle Rolle ermitteln
           const currentRole = userData.public_metadata?.role || '';
           
+          // Es gibt nur eine Rolle: "teacher" würde Admins stillschweigend herabstufen,
+          // Admins sehen ohnehin alle PDFs
+          if (role === 'teacher' && ['admin', 'superadmin'].includes(currentRole)) {
+            return new Response(
+              JSON.stringify({ error: 'Admins können nicht als Lehrperson markiert werden. Zuerst die Admin-Rolle entfernen.' }),
+              {
+                headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+                status: 409,
+              }
+            );
+          }
+          
           // Neue Rolle bestimmen (entfernen, wenn bereits vorhanden, sonst hinzufügen)
           const newRole = currentRole === role ? '' : role;
           
@@ -295,6 +356,14 @@ serve(async (req) => {
               role: newRole
             }
           });
+
+          await writeAuditLog(req, {
+            action: 'role_change',
+            userId,
+            email: userData.email_addresses?.[0]?.email_address || null,
+            oldValues: { role: currentRole },
+            newValues: { role: newRole },
+          });
           
           return new Response(
             JSON.stringify({ hasRole: updatedUser.public_metadata?.role === role }),
@@ -314,6 +383,60 @@ serve(async (req) => {
           );
         }
         
+      case 'set-schools':
+        console.log('Schulhäuser setzen...');
+        const schoolsUserId = body.userId;
+        const schools = body.schools;
+
+        if (!schoolsUserId || !Array.isArray(schools) || schools.some((school: unknown) => typeof school !== 'string')) {
+          return new Response(
+            JSON.stringify({ error: 'userId und schools (Liste) sind erforderlich' }),
+            {
+              headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+              status: 400,
+            }
+          );
+        }
+
+        try {
+          // Benutzerdetails abrufen
+          const schoolsUserData = await clerkApiRequest(`/users/${schoolsUserId}`);
+          const currentSchools = schoolsUserData.public_metadata?.schools || [];
+
+          // Die Schulhäuser steuern, welche PDFs die Person sieht (book_files.visibility = 'schools')
+          const schoolsUser = await clerkApiRequest(`/users/${schoolsUserId}/metadata`, 'PATCH', {
+            public_metadata: {
+              ...schoolsUserData.public_metadata,
+              schools
+            }
+          });
+
+          await writeAuditLog(req, {
+            action: 'schools_change',
+            userId: schoolsUserId,
+            email: schoolsUserData.email_addresses?.[0]?.email_address || null,
+            oldValues: { schools: currentSchools },
+            newValues: { schools },
+          });
+
+          return new Response(
+            JSON.stringify({ schools: schoolsUser.public_metadata?.schools || [] }),
+            {
+              headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+              status: 200,
+            }
+          );
+        } catch (error) {
+          console.error('Fehler beim Setzen der Schulhäuser:', error);
+          return new Response(
+            JSON.stringify({ error: 'Fehler beim Setzen der Schulhäuser', details: error.message }),
+            {
+              headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+              status: 500,
+            }
+          );
+        }
+
       case 'toggle-block':
         console.log('Benutzer sperren/entsperren...');
         const blockUserId = body.userId;
@@ -349,6 +472,14 @@ serve(async (req) => {
           // Benutzer sperren oder entsperren
           const blockAction = isCurrentlyBlocked ? 'unblock' : 'block';
           const blockedUser = await clerkApiRequest(`/users/${blockUserId}/${blockAction}`, 'POST');
+
+          await writeAuditLog(req, {
+            action: blockAction,
+            userId: blockUserId,
+            email: blockUserData.email_addresses?.[0]?.email_address || null,
+            oldValues: { is_blocked: isCurrentlyBlocked, block_reason: blockUserData.public_metadata?.block_reason || null },
+            newValues: { is_blocked: blockedUser.locked || false, block_reason: isCurrentlyBlocked ? null : reason || null },
+          });
           
           return new Response(
             JSON.stringify({ isBlocked: blockedUser.locked || false }),
@@ -0,0 +1,96 @@
+/**
+ * Cache für ISBN-Abfragen (Tabelle isbn_lookup_cache)
+ *
+ * book-info liest hier zuerst nach, bevor Kataloge und Gemini abgefragt werden.
+ * Vorschau, Buchformular und Massenimport laufen alle über book-info und teilen
+ * sich dadurch denselben Cache. Geschrieben wird nur mit dem Service-Role-Client.
+ */
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
+import type { BookMetadata } from "./metadata-providers.ts";
+import { parseIsbn } from "./isbn.ts";
+
+const CACHE_TABLE = "isbn_lookup_cache";
+
+export interface CachedLookup {
+  metadata: BookMetadata;
+  sources: string[];
+  cachedAt: string;
+}
+
+/**
+ * Schlüssel für den Cache: ISBN-13 ohne Bindestriche, ISBN-10 wird umgerechnet,
+ * damit beide Schreibweisen desselben Buchs denselben Eintrag treffen
+ * @returns Den Schlüssel oder null, falls die Eingabe weder ISBN noch EAN-13 ist
+ */
+export function isbnCacheKey(isbn: string): string | null {
+  const parsed = parseIsbn(isbn);
+  if (parsed.kind === "invalid") return null;
+  return parsed.isbn13 || parsed.cleaned;
+}
+
+/**
+ * Liest einen Cache-Eintrag und zählt den Treffer
+ * @param client Service-Role-Client
+ * @param isbn Die angefragte ISBN (beliebige Schreibweise)
+ */
+export async function readCachedLookup(client: SupabaseClient, isbn: string): Promise<CachedLookup | null> {
+  const key = isbnCacheKey(isbn);
+  if (!key) return null;
+
+  const { data, error } = await client
+    .from(CACHE_TABLE)
+    .select("isbn, result, sources, hit_count, created_at")
+    .eq("isbn", key)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`ISBN-Cache für ${key} konnte nicht gelesen werden:`, error.message);
+    return null;
+  }
+  if (!data) return null;
+
+  const { error: hitError } = await client
+    .from(CACHE_TABLE)
+    .update({ hit_count: data.hit_count + 1, last_hit_at: new Date().toISOString() })
+    .eq("isbn", key);
+
+  if (hitError) {
+    console.warn(`Treffer im ISBN-Cache für ${key} konnte nicht gezählt werden:`, hitError.message);
+  }
+
+  return {
+    // Die ISBN immer so zurückgeben, wie sie angefragt wurde
+    metadata: { ...(data.result as BookMetadata), isbn },
+    sources: data.sources || [],
+    cachedAt: data.created_at,
+  };
+}
+
+/**
+ * Speichert das Ergebnis einer Abfrage. Bestehende Einträge werden überschrieben.
+ * Fehler werden nur protokolliert, die Abfrage selbst war ja erfolgreich.
+ * @param client Service-Role-Client
+ * @param lookup Ergebnis von lookupBookMetadata
+ */
+export async function writeCachedLookup(
+  client: SupabaseClient,
+  lookup: { metadata: BookMetadata; sources: string[]; raw: Record<string, unknown> }
+): Promise<void> {
+  const key = isbnCacheKey(lookup.metadata.isbn);
+  if (!key || !lookup.metadata.title) return;
+
+  const { error } = await client.from(CACHE_TABLE).upsert({
+    isbn: key,
+    provider: lookup.sources[0] || "unbekannt",
+    sources: lookup.sources,
+    result: { ...lookup.metadata, isbn: key },
+    raw_response: lookup.raw,
+    hit_count: 0,
+    last_hit_at: null,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.warn(`ISBN-Cache für ${key} konnte nicht geschrieben werden:`, error.message);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * ISBN-Prüfung und -Normalisierung
+ *
+ * Wird von den Edge Functions (Deno) und über src/lib/isbn.ts von der App verwendet.
+ * Die Datei darf deshalb nichts importieren. Gespeichert wird jede gültige ISBN als
+ * ISBN-13 ohne Bindestriche, ISBN-10 wird umgerechnet.
+ */
+
+// isbn13/isbn10: gültige ISBN, ean: gültiger EAN-13-Code ohne ISBN (z.B. Spiele, Noten), invalid: weder noch
+export type IsbnKind = "isbn13" | "isbn10" | "ean" | "invalid";
+
+export interface ParsedIsbn {
+  cleaned: string;
+  kind: IsbnKind;
+  isbn13: string | null;
+  isbn10: string | null;
+  // Grund, falls kind "invalid" ist
+  error: string | null;
+}
+
+/**
+ * Entfernt alles ausser Ziffern und X (Prüfziffer der ISBN-10)
+ */
+export function cleanIsbn(value: string | null | undefined): string {
+  return (value || "").replace(/[^0-9X]/gi, "").toUpperCase();
+}
+
+const ean13CheckDigit = (first12: string) => {
+  const sum = first12
+    .split("")
+    .reduce((total, digit, index) => total + parseInt(digit, 10) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+const isbn10CheckDigit = (first9: string) => {
+  const sum = first9.split("").reduce((total, digit, index) => total + parseInt(digit, 10) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : String(check);
+};
+
+/**
+ * Prüft Länge und Prüfziffer eines EAN-13-Codes
+ */
+export function isValidEan13(value: string): boolean {
+  const code = cleanIsbn(value);
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === code[12];
+}
+
+/**
+ * Prüft eine ISBN-13: gültiger EAN-13 mit Präfix 978 oder 979 (979-0 ist ISMN für Noten, keine ISBN)
+ */
+export function isValidIsbn13(value: string): boolean {
+  const code = cleanIsbn(value);
+  return isValidEan13(code) && (code.startsWith("978") || (code.startsWith("979") && code[3] !== "0"));
+}
+
+/**
+ * Prüft Länge und Prüfziffer einer ISBN-10
+ */
+export function isValidIsbn10(value: string): boolean {
+  const code = cleanIsbn(value);
+  return /^\d{9}[\dX]$/.test(code) && isbn10CheckDigit(code.slice(0, 9)) === code[9];
+}
+
+/**
+ * Rechnet eine gültige ISBN-10 in die ISBN-13 um (Präfix 978)
+ */
+export function isbn10To13(value: string): string | null {
+  const code = cleanIsbn(value);
+  if (!isValidIsbn10(code)) return null;
+  const base = `978${code.slice(0, 9)}`;
+  return base + ean13CheckDigit(base);
+}
+
+/**
+ * Rechnet eine gültige ISBN-13 in die ISBN-10 um. Nur für das Präfix 978 möglich.
+ */
+export function isbn13To10(value: string): string | null {
+  const code = cleanIsbn(value);
+  if (!isValidIsbn13(code) || !code.startsWith("978")) return null;
+  const base = code.slice(3, 12);
+  return base + isbn10CheckDigit(base);
+}
+
+/**
+ * Bestimmt, ob eine Eingabe (Tastatur, Scanner, Import) eine gültige ISBN ist
+ * @param value Die Eingabe mit oder ohne Bindestriche
+ */
+export function parseIsbn(value: string | null | undefined): ParsedIsbn {
+  const cleaned = cleanIsbn(value);
+
+  if (cleaned.length === 10) {
+    return isValidIsbn10(cleaned)
+      ? { cleaned, kind: "isbn10", isbn13: isbn10To13(cleaned), isbn10: cleaned, error: null }
+      : { cleaned, kind: "invalid", isbn13: null, isbn10: null, error: "Die Prüfziffer der ISBN-10 stimmt nicht" };
+  }
+
+  if (cleaned.length === 13) {
+    if (isValidIsbn13(cleaned)) {
+      return { cleaned, kind: "isbn13", isbn13: cleaned, isbn10: isbn13To10(cleaned), error: null };
+    }
+    return isValidEan13(cleaned)
+      ? { cleaned, kind: "ean", isbn13: null, isbn10: null, error: null }
+      : { cleaned, kind: "invalid", isbn13: null, isbn10: null, error: "Die Prüfziffer der ISBN-13 stimmt nicht" };
+  }
+
+  return {
+    cleaned,
+    kind: "invalid",
+    isbn13: null,
+    isbn10: null,
+    error: cleaned ? "Eine ISBN hat 10 oder 13 Stellen" : "Keine ISBN angegeben",
+  };
+}
+
+/**
+ * Speicherform einer ISBN: ISBN-13 ohne Bindestriche, andere Codes nur bereinigt
+ */
+export function normalizeIsbn(value: string | null | undefined): string {
+  const parsed = parseIsbn(value);
+  return parsed.isbn13 || parsed.cleaned;
+}
+
+/**
+ * Prüft eine ISBN für das Speichern. Leere Werte und EAN-13-Codes ohne ISBN sind erlaubt.
+ * @returns Die Fehlermeldung oder null
+ */
+export function validateIsbn(value: string | null | undefined): string | null {
+  if (!cleanIsbn(value)) return null;
+  const parsed = parseIsbn(value);
+  return parsed.kind === "invalid" ? `Ungültige ISBN "${(value || "").trim()}": ${parsed.error}` : null;
+}
+
+/**
+ * Alle Schreibweisen, unter denen eine ISBN in älteren Datensätzen gespeichert sein kann
+ * (ISBN-13, ISBN-10, bereinigte Eingabe), z.B. für .in("isbn", ...)
+ */
+export function isbnVariants(value: string | null | undefined): string[] {
+  const parsed = parseIsbn(value);
+  return [...new Set([parsed.isbn13, parsed.isbn10, parsed.cleaned].filter(Boolean) as string[])];
+}
+
+/**
+ * Sieht ein Suchbegriff wie eine (Teil-)ISBN aus? Nur Ziffern, Bindestriche, Leerzeichen und X,
+ * mindestens vier Ziffern
+ */
+export function looksLikeIsbn(value: string): boolean {
+  const trimmed = value.trim();
+  return /^[\d\s-]+[xX]?$/.test(trimmed) && trimmed.replace(/\D/g, "").length >= 4;
+}
+
+/**
+ * Prüft, ob ein Suchbegriff (ganze ISBN oder Teil davon) zu einer gespeicherten ISBN passt
+ * @param isbn Die gespeicherte ISBN
+ * @param query Der Suchbegriff
+ */
+export function matchesIsbn(isbn: string | null | undefined, query: string): boolean {
+  const cleanedQuery = cleanIsbn(query);
+  if (!isbn || !cleanedQuery || !/^[\d\s-]+[xX]?$/.test(query.trim())) return false;
+
+  const queryVariants = parseIsbn(query).kind === "invalid" ? [cleanedQuery] : isbnVariants(query);
+  return isbnVariants(isbn).some((variant) => queryVariants.some((part) => variant.includes(part)));
+}
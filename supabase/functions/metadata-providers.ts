@@ -0,0 +1,301 @@
+/**
+ * Bibliografische Quellen für book-info
+ *
+ * Strukturierte Kataloge (swisscovery, DNB, Open Library) werden der Reihe nach
+ * abgefragt. Das Sprachmodell ergänzt danach nur noch Stufe, Fach, Typ und
+ * Beschreibung. Jede Quelle erhält ihre fetch-Funktion als Parameter, damit sie
+ * mit lokalen Fixtures ohne Netzwerk geprüft werden kann (siehe createFixtureFetch und
+ * tests/metadata-providers.test.ts).
+ */
+
+// Normalisierte Buchangaben, unabhängig von der Quelle
+export interface BookMetadata {
+  title: string | null;
+  author: string | null;
+  isbn: string;
+  year: number | null;
+  publisher: string | null;
+  description: string | null;
+  level: string | null;
+  subject: string | null;
+  type: string | null;
+}
+
+export type PartialBookMetadata = Partial<Omit<BookMetadata, "isbn">>;
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+// Ergebnis einer Quelle: normalisierte Angaben und die unveränderte Antwort (für den Lookup-Cache)
+export interface ProviderResult {
+  metadata: PartialBookMetadata;
+  raw: unknown;
+}
+
+export interface MetadataProvider {
+  name: string;
+  lookup: (isbn: string) => Promise<ProviderResult | null>;
+}
+
+// Ergänzt fehlende Angaben (z.B. per Sprachmodell); erhält die bisher gefundenen Angaben
+export type MetadataEnricher = (isbn: string, known: PartialBookMetadata) => Promise<ProviderResult | null>;
+
+// Felder, die nur das Sprachmodell liefert (Kataloge kennen unsere Stufen und Fächer nicht)
+export const ENRICHED_FIELDS: (keyof PartialBookMetadata)[] = ["level", "subject", "type", "description"];
+
+// Sobald diese Felder gefunden sind, werden keine weiteren Kataloge abgefragt
+// (die Beschreibung fehlt in den meisten Katalogdaten und kommt vom Sprachmodell)
+const BIBLIOGRAPHIC_FIELDS: (keyof PartialBookMetadata)[] = ["title", "author"];
+
+const PROVIDER_TIMEOUT_MS = 8000;
+
+const isFilled = (value: unknown) => value !== null && value !== undefined && value !== "";
+
+// Satzzeichen am Ende von MARC-Feldern entfernen (" /", " :", ",", ".")
+const cleanMarcValue = (value: string | null) =>
+  value ? value.replace(/\s*[/:;,.=]\s*$/, "").replace(/<<|>>/g, "").trim() || null : null;
+
+const decodeXmlEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, "&");
+
+const parseYear = (value: string | null | undefined) => {
+  const match = value?.match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : null;
+};
+
+/**
+ * Liest ein Unterfeld aus dem ersten passenden MARC21-XML-Datenfeld (mit oder ohne Namespace-Präfix)
+ */
+export function getMarcSubfield(xml: string, tag: string, code: string): string | null {
+  const fieldPattern = new RegExp(
+    `<(?:\\w+:)?datafield[^>]*tag="${tag}"[^>]*>([\\s\\S]*?)</(?:\\w+:)?datafield>`,
+    "g"
+  );
+  const subfieldPattern = new RegExp(`<(?:\\w+:)?subfield[^>]*code="${code}"[^>]*>([\\s\\S]*?)</(?:\\w+:)?subfield>`);
+
+  for (const field of xml.matchAll(fieldPattern)) {
+    const subfield = field[1].match(subfieldPattern);
+    if (subfield) return decodeXmlEntities(subfield[1].trim());
+  }
+  return null;
+}
+
+/**
+ * Wandelt den ersten Datensatz einer SRU-Antwort im MARC21-XML-Format in Buchangaben um
+ */
+export function parseMarcRecord(xml: string): PartialBookMetadata | null {
+  if (!/<(?:\w+:)?record[\s>]/.test(xml) || !/<(?:\w+:)?datafield/.test(xml)) return null;
+
+  const title = cleanMarcValue(getMarcSubfield(xml, "245", "a"));
+  if (!title) return null;
+
+  const subtitle = cleanMarcValue(getMarcSubfield(xml, "245", "b"));
+  // Personen in MARC: "Nachname, Vorname"
+  const authorName = cleanMarcValue(getMarcSubfield(xml, "100", "a") || getMarcSubfield(xml, "700", "a"));
+  const author = authorName?.includes(",")
+    ? authorName.split(",").map((part) => part.trim()).reverse().join(" ")
+    : authorName;
+
+  return {
+    title: subtitle ? `${title}: ${subtitle}` : title,
+    author: author || cleanMarcValue(getMarcSubfield(xml, "110", "a")),
+    year: parseYear(getMarcSubfield(xml, "264", "c") || getMarcSubfield(xml, "260", "c")),
+    publisher: cleanMarcValue(getMarcSubfield(xml, "264", "b") || getMarcSubfield(xml, "260", "b")),
+    description: cleanMarcValue(getMarcSubfield(xml, "520", "a")),
+  };
+}
+
+const fetchWithTimeout = async (fetchImpl: FetchLike, url: string) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS);
+  try {
+    return await fetchImpl(url, { signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Quelle für SRU-Schnittstellen mit MARC21-XML (DNB, swisscovery)
+ */
+function createSruProvider(name: string, buildUrl: (isbn: string) => string, fetchImpl: FetchLike): MetadataProvider {
+  return {
+    name,
+    lookup: async (isbn) => {
+      const response = await fetchWithTimeout(fetchImpl, buildUrl(isbn));
+      if (!response.ok) {
+        throw new Error(`${name}: HTTP ${response.status}`);
+      }
+      const xml = await response.text();
+      const metadata = parseMarcRecord(xml);
+      return metadata ? { metadata, raw: xml } : null;
+    },
+  };
+}
+
+/**
+ * Schweizer Bibliothekskatalog (SLSP swisscovery, SRU)
+ */
+export function createSwisscoveryProvider(fetchImpl: FetchLike = fetch): MetadataProvider {
+  return createSruProvider(
+    "swisscovery",
+    (isbn) =>
+      `https://swisscovery.slsp.ch/view/sru/41SLSP_NETWORK?version=1.2&operation=searchRetrieve&recordSchema=marcxml&maximumRecords=1&query=alma.isbn=${encodeURIComponent(isbn)}`,
+    fetchImpl
+  );
+}
+
+/**
+ * Deutsche Nationalbibliothek (SRU)
+ */
+export function createDnbProvider(fetchImpl: FetchLike = fetch): MetadataProvider {
+  return createSruProvider(
+    "dnb",
+    (isbn) =>
+      `https://services.dnb.de/sru/dnb?version=1.1&operation=searchRetrieve&recordSchema=MARC21-xml&maximumRecords=1&query=num%3D${encodeURIComponent(isbn)}`,
+    fetchImpl
+  );
+}
+
+/**
+ * Open Library (Books API, JSON)
+ */
+export function createOpenLibraryProvider(fetchImpl: FetchLike = fetch): MetadataProvider {
+  return {
+    name: "openlibrary",
+    lookup: async (isbn) => {
+      const response = await fetchWithTimeout(
+        fetchImpl,
+        `https://openlibrary.org/api/books?bibkeys=ISBN:${encodeURIComponent(isbn)}&format=json&jscmd=data`
+      );
+      if (!response.ok) {
+        throw new Error(`openlibrary: HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const record = data?.[`ISBN:${isbn}`];
+      if (!record?.title) return null;
+
+      return {
+        metadata: {
+          title: record.subtitle ? `${record.title}: ${record.subtitle}` : record.title,
+          author: (record.authors || []).map((author: { name: string }) => author.name).join(", ") || null,
+          year: parseYear(record.publish_date),
+          publisher: record.publishers?.[0]?.name || null,
+          description: typeof record.notes === "string" ? record.notes : null,
+        },
+        raw: record,
+      };
+    },
+  };
+}
+
+/**
+ * Quelle aus festen Datensätzen, z.B. für lokale Tests oder eine eigene ISBN-Liste
+ * @param records Buchangaben pro ISBN
+ */
+export function createStaticProvider(name: string, records: Record<string, PartialBookMetadata>): MetadataProvider {
+  return {
+    name,
+    lookup: async (isbn) => (records[isbn] ? { metadata: records[isbn], raw: records[isbn] } : null),
+  };
+}
+
+/**
+ * fetch-Ersatz, der Antworten aus lokalen Fixtures liefert: der erste Schlüssel, der in der URL
+ * vorkommt, bestimmt den Antworttext. Ohne Treffer wird 404 zurückgegeben.
+ * @param fixtures Antworttexte pro URL-Ausschnitt (z.B. ISBN oder Hostname)
+ */
+export function createFixtureFetch(fixtures: Record<string, string>): FetchLike {
+  return async (url) => {
+    const key = Object.keys(fixtures).find((candidate) => url.includes(candidate));
+    return key !== undefined
+      ? new Response(fixtures[key], { status: 200 })
+      : new Response("Not Found", { status: 404 });
+  };
+}
+
+/**
+ * Standardreihenfolge der Quellen: Schweizer Lehrmittel zuerst, dann DNB, dann Open Library
+ */
+export function createDefaultProviders(fetchImpl: FetchLike = fetch): MetadataProvider[] {
+  return [createSwisscoveryProvider(fetchImpl), createDnbProvider(fetchImpl), createOpenLibraryProvider(fetchImpl)];
+}
+
+/**
+ * Fragt die Quellen der Reihe nach ab und ergänzt fehlende Felder danach mit dem Enricher.
+ * Fehler einzelner Quellen und des Enrichers werden protokolliert und übersprungen.
+ * @param isbn Die gesuchte ISBN
+ * @param providers Die strukturierten Quellen in der gewünschten Reihenfolge
+ * @param enrich Optionale Ergänzung (Sprachmodell) für Stufe, Fach, Typ, Beschreibung bzw. alles, falls kein Katalog das Buch kennt
+ * @returns Die zusammengeführten Angaben, die beteiligten Quellen, deren unveränderte Antworten
+ *          und ob die Ergänzung fehlgeschlagen ist (dann nicht cachen)
+ */
+export async function lookupBookMetadata(
+  isbn: string,
+  providers: MetadataProvider[],
+  enrich?: MetadataEnricher
+): Promise<{ metadata: BookMetadata; sources: string[]; raw: Record<string, unknown>; enrichmentFailed: boolean }> {
+  const merged: PartialBookMetadata = {};
+  const sources: string[] = [];
+  const raw: Record<string, unknown> = {};
+  let enrichmentFailed = false;
+
+  const mergeMissing = (result: ProviderResult | null, source: string) => {
+    if (!result) return;
+    let contributed = false;
+    for (const [field, value] of Object.entries(result.metadata) as [keyof PartialBookMetadata, unknown][]) {
+      if (isFilled(value) && !isFilled(merged[field])) {
+        (merged as Record<string, unknown>)[field] = value;
+        contributed = true;
+      }
+    }
+    if (contributed) {
+      sources.push(source);
+      raw[source] = result.raw;
+    }
+  };
+
+  for (const provider of providers) {
+    if (BIBLIOGRAPHIC_FIELDS.every((field) => isFilled(merged[field]))) break;
+
+    try {
+      mergeMissing(await provider.lookup(isbn), provider.name);
+    } catch (error) {
+      console.warn(`Quelle ${provider.name} für ISBN ${isbn} fehlgeschlagen:`, error);
+    }
+  }
+
+  const needsEnrichment = !isFilled(merged.title) || ENRICHED_FIELDS.some((field) => !isFilled(merged[field]));
+  if (enrich && needsEnrichment) {
+    try {
+      mergeMissing(await enrich(isbn, { ...merged }), "llm");
+    } catch (error) {
+      // Die Katalogangaben bleiben auch ohne Ergänzung brauchbar
+      console.warn(`Ergänzung für ISBN ${isbn} fehlgeschlagen:`, error);
+      enrichmentFailed = true;
+    }
+  }
+
+  return {
+    metadata: {
+      title: merged.title ?? null,
+      author: merged.author ?? null,
+      isbn,
+      year: merged.year ?? null,
+      publisher: merged.publisher ?? null,
+      description: merged.description ?? null,
+      level: merged.level ?? null,
+      subject: merged.subject ?? null,
+      type: merged.type ?? null,
+    },
+    sources,
+    raw,
+    enrichmentFailed,
+  };
+}
@@ -157,7 +157,8 @@ serve(async (req) => {
         const { data: fullBooks, error: fullBooksError } = await supabase
           .from('books')
           .select('id, title, author, isbn, subject, level, year, type, publisher, description, available, location, school, has_pdf, created_at, borrowed_at, borrowed_by')
-          .in('id', bookIds);
+          .in('id', bookIds)
+          .is('deleted_at', null);
           
         if (fullBooksError) {
           console.error('Fehler beim Abrufen vollständiger Buchdaten:', fullBooksError);
@@ -406,6 +407,7 @@ async function performKeywordSearch(supabase, query) {
     .from('books')
     .select('id, title, author, isbn, subject, level, year, type, publisher, description, available, location, school, has_pdf, created_at, borrowed_at, borrowed_by')
     .or(searchQuery)
+    .is('deleted_at', null) // Service Role umgeht RLS, Papierkorb selbst ausschliessen
     .limit(20);
 }
 
@@ -0,0 +1,145 @@
+/**
+ * Tests für die bibliografischen Quellen von book-info, ohne Netzwerk
+ *
+ * Die Kataloge erhalten ihre Antworten aus fixtures/ über createFixtureFetch.
+ * Ausführen: deno test supabase/functions/tests/ --allow-read
+ */
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  createDnbProvider,
+  createFixtureFetch,
+  createOpenLibraryProvider,
+  createStaticProvider,
+  createSwisscoveryProvider,
+  lookupBookMetadata,
+  type FetchLike,
+} from "../metadata-providers.ts";
+
+const readFixture = (name: string) => Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+// Zählt die Abfragen, um zu prüfen, welche Kataloge gefragt wurden
+const countingFetch = (fetchImpl: FetchLike) => {
+  const urls: string[] = [];
+  const counted: FetchLike = (url, init) => {
+    urls.push(url);
+    return fetchImpl(url, init);
+  };
+  return { fetch: counted, urls };
+};
+
+Deno.test("swisscovery: liest MARC21-XML mit Namespace-Präfix", async () => {
+  const provider = createSwisscoveryProvider(
+    createFixtureFetch({ "swisscovery.slsp.ch": await readFixture("swisscovery-9783292004231.xml") })
+  );
+
+  const result = await provider.lookup("9783292004231");
+
+  assertEquals(result?.metadata, {
+    title: "Mathematik 5: Schulbuch",
+    author: "Franziska Keller",
+    year: 2021,
+    publisher: "Lehrmittelverlag Zürich",
+    description: null,
+  });
+});
+
+Deno.test("DNB: liest MARC21-XML ohne Präfix, Entities und Nichtsortierzeichen", async () => {
+  const provider = createDnbProvider(
+    createFixtureFetch({ "services.dnb.de": await readFixture("dnb-9783125632505.xml") })
+  );
+
+  const result = await provider.lookup("9783125632505");
+
+  assertEquals(result?.metadata, {
+    title: "Die Welt der Physik & Chemie",
+    author: "Thomas Berger",
+    year: 2019,
+    publisher: "Klett",
+    description: "Einführung in Physik und Chemie für die Sekundarstufe",
+  });
+});
+
+Deno.test("DNB: kein Treffer ergibt null", async () => {
+  const provider = createDnbProvider(createFixtureFetch({ "services.dnb.de": await readFixture("dnb-empty.xml") }));
+
+  assertEquals(await provider.lookup("9783000000000"), null);
+});
+
+Deno.test("Open Library: liest die Books API", async () => {
+  const provider = createOpenLibraryProvider(
+    createFixtureFetch({ "openlibrary.org": await readFixture("openlibrary-9780140328721.json") })
+  );
+
+  const result = await provider.lookup("9780140328721");
+
+  assertEquals(result?.metadata, {
+    title: "Fantastic Mr. Fox: A Puffin Book",
+    author: "Roald Dahl",
+    year: 1988,
+    publisher: "Puffin",
+    description: "Illustrated by Quentin Blake.",
+  });
+});
+
+Deno.test("Kette: frühere Quellen gewinnen, spätere und das Sprachmodell füllen nur Lücken", async () => {
+  const isbn = "9780140328721";
+  const { fetch, urls } = countingFetch(
+    createFixtureFetch({ "openlibrary.org": await readFixture("openlibrary-9780140328721.json") })
+  );
+
+  const lookup = await lookupBookMetadata(
+    isbn,
+    [
+      // swisscovery kennt das Buch nicht (404), wird protokolliert und übersprungen
+      createSwisscoveryProvider(fetch),
+      createStaticProvider("schulliste", { [isbn]: { title: "Der fantastische Mr. Fox", year: 2005 } }),
+      createOpenLibraryProvider(fetch),
+    ],
+    async () => ({
+      metadata: { title: "Vom Sprachmodell", level: "Primar", subject: "Deutsch", type: "Lektüre", description: "Beschreibung" },
+      raw: null,
+    })
+  );
+
+  assertEquals(lookup.metadata, {
+    title: "Der fantastische Mr. Fox",
+    author: "Roald Dahl",
+    isbn,
+    year: 2005,
+    publisher: "Puffin",
+    description: "Illustrated by Quentin Blake.",
+    level: "Primar",
+    subject: "Deutsch",
+    type: "Lektüre",
+  });
+  assertEquals(lookup.sources, ["schulliste", "openlibrary", "llm"]);
+  assertEquals(urls.length, 2);
+  assertEquals(lookup.enrichmentFailed, false);
+});
+
+Deno.test("Kette: keine weiteren Kataloge, sobald Titel und Autor bekannt sind", async () => {
+  const { fetch, urls } = countingFetch(
+    createFixtureFetch({
+      "swisscovery.slsp.ch": await readFixture("swisscovery-9783292004231.xml"),
+      "services.dnb.de": await readFixture("dnb-9783125632505.xml"),
+    })
+  );
+
+  const lookup = await lookupBookMetadata("9783292004231", [createSwisscoveryProvider(fetch), createDnbProvider(fetch)]);
+
+  assertEquals(lookup.sources, ["swisscovery"]);
+  assertEquals(urls.length, 1);
+  assertEquals(lookup.metadata.description, null);
+});
+
+Deno.test("Kette: Fehler des Sprachmodells behalten die Katalogangaben", async () => {
+  const lookup = await lookupBookMetadata(
+    "9783125632505",
+    [createDnbProvider(createFixtureFetch({ "services.dnb.de": await readFixture("dnb-9783125632505.xml") }))],
+    () => Promise.reject(new Error("GEMINI_API_KEY fehlt"))
+  );
+
+  assertEquals(lookup.metadata.title, "Die Welt der Physik & Chemie");
+  assertEquals(lookup.sources, ["dnb"]);
+  assertEquals(lookup.enrichmentFailed, true);
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests für die Sichtbarkeitsregeln der PDFs (src/lib/pdf-access.ts)
+ *
+ * Die Regeln gelten für listPdfs, getPdf und processPdf, deshalb hier zusammen mit den Edge-Function-Tests.
+ * Ausführen: deno test supabase/functions/tests/ --allow-read
+ */
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { canAccessPdfFile, canAccessPdfKey, type PdfAccess } from "../../../src/lib/pdf-access.ts";
+
+const teacher: PdfAccess = { role: "teacher", schools: ["Chriesiweg"] };
+const admin: PdfAccess = { role: "admin", schools: [] };
+
+// Liefert für jede Abfrage auf book_files dieselbe Zeile
+const fakeSupabase = (row: unknown) => ({
+  from: () => {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      maybeSingle: () => Promise.resolve({ data: row, error: null }),
+    };
+    return query;
+  },
+});
+
+Deno.test("PDFs ohne Eintrag in book_files sehen nur Admins", async () => {
+  assertEquals(canAccessPdfFile(null, teacher), false);
+  assertEquals(canAccessPdfFile(undefined, { role: null, schools: [] }), false);
+  assertEquals(canAccessPdfFile(null, admin), true);
+
+  assertEquals(await canAccessPdfKey(fakeSupabase(null), "9783292004231.pdf", teacher), false);
+  assertEquals(await canAccessPdfKey(fakeSupabase(null), "9783292004231.pdf", admin), true);
+});
+
+Deno.test("Sichtbarkeit zugeordneter PDFs", () => {
+  assertEquals(canAccessPdfFile({ visibility: "public", schools: [] }, { role: null, schools: [] }), true);
+  assertEquals(canAccessPdfFile({ visibility: "teachers", schools: [] }, teacher), true);
+  assertEquals(canAccessPdfFile({ visibility: "teachers", schools: [] }, { role: null, schools: [] }), false);
+  assertEquals(canAccessPdfFile({ visibility: "schools", schools: ["Chriesiweg"] }, teacher), true);
+  assertEquals(canAccessPdfFile({ visibility: "schools", schools: ["Aesch"] }, teacher), false);
+  assertEquals(canAccessPdfFile({ visibility: "admins", schools: [] }, teacher), false);
+});
+
+Deno.test("PDFs von Büchern im Papierkorb sehen nur Admins", () => {
+  const trashed = { visibility: "public", schools: [], books: { deleted_at: "2025-06-01T00:00:00Z" } };
+
+  assertEquals(canAccessPdfFile(trashed, teacher), false);
+  assertEquals(canAccessPdfFile(trashed, admin), true);
+});
@@ -0,0 +1,173 @@
+-- Ausleihen als eigene Tabelle statt available/borrowed_at/borrowed_by auf books,
+-- damit die Ausleih-Historie bei der Rückgabe erhalten bleibt.
+
+create table if not exists public.loans (
+    id uuid primary key default gen_random_uuid(),
+    book_id uuid not null references public.books(id) on delete cascade,
+    borrower_id text not null default public.requesting_user_id(),
+    borrower_name text,
+    checked_out_at timestamp with time zone not null default timezone('utc'::text, now()),
+    due_at timestamp with time zone,
+    returned_at timestamp with time zone,
+    created_at timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+alter table public.loans owner to postgres;
+
+comment on table public.loans is 'Ausleihen von Büchern inkl. Historie (eine Zeile pro Ausleihe)';
+comment on column public.loans.borrower_name is 'Anzeigename der ausleihenden Person zum Zeitpunkt der Ausleihe';
+comment on column public.loans.returned_at is 'NULL, solange das Buch noch ausgeliehen ist';
+
+create index if not exists loans_book_id_idx on public.loans (book_id, checked_out_at desc);
+create index if not exists loans_borrower_id_idx on public.loans (borrower_id);
+
+-- Pro Buch darf es höchstens eine offene Ausleihe geben
+create unique index if not exists loans_one_open_per_book_idx on public.loans (book_id) where returned_at is null;
+
+-- Bestehende Ausleihen aus der books-Tabelle übernehmen
+insert into public.loans (book_id, borrower_id, checked_out_at)
+select id, borrowed_by, coalesce(borrowed_at, timezone('utc'::text, now()))
+from public.books
+where available = false and borrowed_by is not null;
+
+
+-- books.available / borrowed_at / borrowed_by aus den Ausleihen ableiten.
+-- SECURITY DEFINER, damit der Abgleich unabhängig von den books-Policies und -Triggern greift.
+create or replace function public.sync_book_availability_from_loans() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if tg_op = 'INSERT' and new.returned_at is null then
+    update public.books
+       set available = false,
+           borrowed_at = new.checked_out_at,
+           borrowed_by = new.borrower_id
+     where id = new.book_id;
+  elsif tg_op = 'UPDATE' and old.returned_at is null and new.returned_at is not null then
+    update public.books
+       set available = true,
+           borrowed_at = null,
+           borrowed_by = null
+     where id = new.book_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+alter function public.sync_book_availability_from_loans() owner to postgres;
+
+create or replace trigger sync_book_availability_from_loans
+    after insert or update on public.loans
+    for each row execute function public.sync_book_availability_from_loans();
+
+
+-- Standard-Rückgabedatum einer neuen Ausleihe: Ende des Tages nach der Ausleihdauer des Buchtyps.
+-- Die Tage entsprechen LOAN_PERIOD_DAYS / DEFAULT_LOAN_PERIOD_DAYS in src/lib/constants.ts.
+create or replace function public.default_loan_due_at(
+    p_book_id uuid,
+    p_from timestamp with time zone default now()
+) returns timestamp with time zone
+    language sql stable security definer
+    set search_path to ''
+    as $$
+  select (date_trunc('day', p_from at time zone 'Europe/Zurich')
+          + make_interval(days => case b.type
+                                    when 'Lehrmittel' then 180
+                                    when 'Bilderbuch' then 14
+                                    when 'Comic' then 14
+                                    else 28
+                                  end)
+          + interval '1 day' - interval '1 millisecond') at time zone 'Europe/Zurich'
+    from public.books b
+   where b.id = p_book_id;
+$$;
+
+alter function public.default_loan_due_at(uuid, timestamp with time zone) owner to postgres;
+
+-- Ausleihdatum und Rückgabedatum setzt die Datenbank. Nur Admins dürfen ein eigenes
+-- Rückgabedatum mitgeben, ohne Datum gilt auch für sie die Standard-Ausleihdauer.
+create or replace function public.set_loan_due_at() returns trigger
+    language plpgsql
+    as $$
+begin
+  if not public.is_clerk_admin() then
+    new.checked_out_at := timezone('utc'::text, now());
+    new.due_at := null;
+  end if;
+
+  if new.due_at is null then
+    new.due_at := public.default_loan_due_at(new.book_id, new.checked_out_at);
+  end if;
+
+  return new;
+end;
+$$;
+
+alter function public.set_loan_due_at() owner to postgres;
+
+create or replace trigger set_loan_due_at_trigger
+    before insert on public.loans
+    for each row execute function public.set_loan_due_at();
+
+
+-- Nicht-Admins dürfen an einer bestehenden Ausleihe nur das Rückgabedatum setzen
+create or replace function public.protect_loan_fields() returns trigger
+    language plpgsql
+    as $$
+begin
+  if not public.is_clerk_admin() then
+    new.book_id := old.book_id;
+    new.borrower_id := old.borrower_id;
+    new.borrower_name := old.borrower_name;
+    new.checked_out_at := old.checked_out_at;
+    new.due_at := old.due_at;
+    new.created_at := old.created_at;
+
+    -- Eine bereits abgeschlossene Ausleihe kann nicht wieder geöffnet werden
+    if old.returned_at is not null then
+      new.returned_at := old.returned_at;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+alter function public.protect_loan_fields() owner to postgres;
+
+create or replace trigger protect_loan_fields_trigger
+    before update on public.loans
+    for each row execute function public.protect_loan_fields();
+
+
+-- RLS
+alter table public.loans enable row level security;
+
+-- Alle angemeldeten Benutzer sehen die Historie ("Wer hatte dieses Lehrmittel?")
+create policy "loans_select_policy" on public.loans for select to authenticated
+    using (public.is_clerk_authenticated());
+
+-- Ausleihen nur auf sich selbst, Admins auch für andere
+create policy "loans_insert_policy" on public.loans for insert to authenticated
+    with check (
+        public.is_clerk_authenticated()
+        and (borrower_id = public.requesting_user_id() or public.is_clerk_admin())
+    );
+
+-- Zurückgeben nur die eigene Ausleihe, Admins alle
+create policy "loans_return_policy" on public.loans for update to authenticated
+    using (borrower_id = public.requesting_user_id() or public.is_clerk_admin())
+    with check (borrower_id = public.requesting_user_id() or public.is_clerk_admin());
+
+create policy "loans_delete_admin" on public.loans for delete to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.loans to anon;
+grant all on table public.loans to authenticated;
+grant all on table public.loans to service_role;
+
+grant all on function public.default_loan_due_at(uuid, timestamp with time zone) to anon;
+grant all on function public.default_loan_due_at(uuid, timestamp with time zone) to authenticated;
+grant all on function public.default_loan_due_at(uuid, timestamp with time zone) to service_role;
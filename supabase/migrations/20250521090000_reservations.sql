@@ -0,0 +1,241 @@
+-- Reservationen (Warteliste) für ausgeliehene Bücher.
+-- Bei der Rückgabe wird das Buch automatisch für die erste Person in der Warteschlange zurückgelegt.
+
+create table if not exists public.reservations (
+    id uuid primary key default gen_random_uuid(),
+    book_id uuid not null references public.books(id) on delete cascade,
+    user_id text not null default public.requesting_user_id(),
+    user_name text,
+    status text not null default 'waiting',
+    created_at timestamp with time zone not null default timezone('utc'::text, now()),
+    ready_at timestamp with time zone,
+    hold_until timestamp with time zone,
+    closed_at timestamp with time zone,
+    constraint reservations_status_check check (status in ('waiting', 'ready', 'fulfilled', 'cancelled'))
+);
+
+alter table public.reservations owner to postgres;
+
+comment on table public.reservations is 'Warteliste für ausgeliehene Bücher';
+comment on column public.reservations.status is 'waiting = in der Warteschlange, ready = zurückgelegt, fulfilled = ausgeliehen, cancelled = storniert/abgelaufen';
+comment on column public.reservations.hold_until is 'Bis wann das zurückgegebene Buch für diese Person zurückgelegt bleibt';
+
+create index if not exists reservations_book_id_idx on public.reservations (book_id, created_at);
+create index if not exists reservations_user_id_idx on public.reservations (user_id);
+
+-- Pro Person und Buch höchstens eine aktive Reservation
+create unique index if not exists reservations_one_active_per_user_idx
+    on public.reservations (book_id, user_id)
+    where status in ('waiting', 'ready');
+
+
+-- Legt das Buch für die nächste wartende Person zurück (sofern es nicht ausgeliehen ist)
+create or replace function public.promote_next_reservation(p_book_id uuid) returns void
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if exists (select 1 from public.loans where book_id = p_book_id and returned_at is null) then
+    return;
+  end if;
+
+  if exists (select 1 from public.reservations where book_id = p_book_id and status = 'ready') then
+    return;
+  end if;
+
+  update public.reservations
+     set status = 'ready',
+         ready_at = timezone('utc'::text, now()),
+         hold_until = timezone('utc'::text, now()) + interval '3 days'
+   where id = (
+     select id from public.reservations
+      where book_id = p_book_id and status = 'waiting'
+      order by created_at
+      limit 1
+   );
+end;
+$$;
+
+alter function public.promote_next_reservation(uuid) owner to postgres;
+
+
+-- Bei der Rückgabe einer Ausleihe die nächste Reservation bedienen
+create or replace function public.handle_loan_return_reservations() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if old.returned_at is null and new.returned_at is not null then
+    perform public.promote_next_reservation(new.book_id);
+  end if;
+
+  return new;
+end;
+$$;
+
+alter function public.handle_loan_return_reservations() owner to postgres;
+
+create or replace trigger handle_loan_return_reservations
+    after update on public.loans
+    for each row execute function public.handle_loan_return_reservations();
+
+
+-- Zurückgelegte Bücher dürfen nur von der reservierenden Person ausgeliehen werden.
+-- Abgelaufene Rückstellungen werden dabei storniert, die eigene Reservation als erfüllt markiert.
+create or replace function public.check_loan_against_reservations() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  update public.reservations
+     set status = 'cancelled',
+         closed_at = timezone('utc'::text, now())
+   where book_id = new.book_id
+     and status = 'ready'
+     and hold_until < timezone('utc'::text, now());
+
+  if not public.is_clerk_admin() and exists (
+    select 1 from public.reservations
+     where book_id = new.book_id
+       and status = 'ready'
+       and user_id <> new.borrower_id
+  ) then
+    raise exception 'Dieses Buch ist für eine andere Person zurückgelegt';
+  end if;
+
+  update public.reservations
+     set status = 'fulfilled',
+         closed_at = timezone('utc'::text, now())
+   where book_id = new.book_id
+     and user_id = new.borrower_id
+     and status in ('waiting', 'ready');
+
+  return new;
+end;
+$$;
+
+alter function public.check_loan_against_reservations() owner to postgres;
+
+create or replace trigger check_loan_against_reservations
+    before insert on public.loans
+    for each row execute function public.check_loan_against_reservations();
+
+
+-- Nicht-Admins dürfen eine Reservation nur stornieren. Änderungen aus SECURITY-DEFINER-Funktionen
+-- (Nachrücken, Ablauf der Rückstellung) laufen als postgres und sind davon ausgenommen.
+create or replace function public.protect_reservation_fields() returns trigger
+    language plpgsql
+    as $$
+begin
+  if current_user in ('anon', 'authenticated') and not public.is_clerk_admin() then
+    new.book_id := old.book_id;
+    new.user_id := old.user_id;
+    new.user_name := old.user_name;
+    new.created_at := old.created_at;
+    new.ready_at := old.ready_at;
+    new.hold_until := old.hold_until;
+
+    if new.status is distinct from old.status and new.status <> 'cancelled' then
+      new.status := old.status;
+    end if;
+  end if;
+
+  if new.status in ('fulfilled', 'cancelled') and new.closed_at is null then
+    new.closed_at := timezone('utc'::text, now());
+  end if;
+
+  return new;
+end;
+$$;
+
+alter function public.protect_reservation_fields() owner to postgres;
+
+create or replace trigger protect_reservation_fields_trigger
+    before update on public.reservations
+    for each row execute function public.protect_reservation_fields();
+
+
+-- Wird eine Rückstellung storniert, rückt die nächste Person nach
+create or replace function public.handle_reservation_cancel() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if old.status = 'ready' and new.status = 'cancelled' then
+    perform public.promote_next_reservation(new.book_id);
+  end if;
+
+  return new;
+end;
+$$;
+
+alter function public.handle_reservation_cancel() owner to postgres;
+
+create or replace trigger handle_reservation_cancel
+    after update on public.reservations
+    for each row execute function public.handle_reservation_cancel();
+
+
+-- Abgelaufene Rückstellungen stornieren, handle_reservation_cancel lässt die nächste Person nachrücken.
+-- Läuft regelmässig per pg_cron und zusätzlich beim Lesen der Warteschlange eines Buchs.
+create or replace function public.expire_reservation_holds(p_book_id uuid default null) returns integer
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_expired integer;
+begin
+  update public.reservations
+     set status = 'cancelled',
+         closed_at = timezone('utc'::text, now())
+   where status = 'ready'
+     and hold_until < timezone('utc'::text, now())
+     and (p_book_id is null or book_id = p_book_id);
+
+  get diagnostics v_expired = row_count;
+  return v_expired;
+end;
+$$;
+
+alter function public.expire_reservation_holds(uuid) owner to postgres;
+
+create extension if not exists pg_cron with schema pg_catalog;
+
+select cron.schedule(
+    'expire-reservation-holds',
+    '*/15 * * * *',
+    $$select public.expire_reservation_holds()$$
+);
+
+
+-- RLS
+alter table public.reservations enable row level security;
+
+-- Alle angemeldeten Benutzer sehen die Warteschlange (für die Positionsanzeige)
+create policy "reservations_select_policy" on public.reservations for select to authenticated
+    using (public.is_clerk_authenticated());
+
+-- Reservieren nur für sich selbst, neue Reservationen starten immer in der Warteschlange
+create policy "reservations_insert_policy" on public.reservations for insert to authenticated
+    with check (
+        public.is_clerk_authenticated()
+        and user_id = public.requesting_user_id()
+        and status = 'waiting'
+    );
+
+create policy "reservations_update_policy" on public.reservations for update to authenticated
+    using (user_id = public.requesting_user_id() or public.is_clerk_admin())
+    with check (user_id = public.requesting_user_id() or public.is_clerk_admin());
+
+create policy "reservations_delete_admin" on public.reservations for delete to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.reservations to anon;
+grant all on table public.reservations to authenticated;
+grant all on table public.reservations to service_role;
+
+grant all on function public.promote_next_reservation(uuid) to service_role;
+
+grant all on function public.expire_reservation_holds(uuid) to anon;
+grant all on function public.expire_reservation_holds(uuid) to authenticated;
+grant all on function public.expire_reservation_holds(uuid) to service_role;
@@ -0,0 +1,397 @@
+-- Werk/Exemplar-Modell: books ist der Katalogeintrag (ein Eintrag pro ISBN),
+-- book_copies sind die physischen Exemplare mit eigenem Standort, Schule, Etikett und Verfügbarkeit.
+
+create sequence if not exists public.book_copy_barcode_seq;
+
+create table if not exists public.book_copies (
+    id uuid primary key default gen_random_uuid(),
+    book_id uuid not null references public.books(id) on delete cascade,
+    barcode text not null default ('WB' || lpad(nextval('public.book_copy_barcode_seq')::text, 6, '0')),
+    location text,
+    school text,
+    available boolean not null default true,
+    notes text,
+    created_at timestamp with time zone not null default timezone('utc'::text, now()),
+    constraint book_copies_barcode_key unique (barcode)
+);
+
+alter table public.book_copies owner to postgres;
+alter sequence public.book_copy_barcode_seq owned by public.book_copies.barcode;
+
+comment on table public.book_copies is 'Physische Exemplare eines Katalogeintrags';
+comment on column public.book_copies.barcode is 'Exemplar-Code für Etiketten (z.B. WB000123)';
+comment on column public.book_copies.available is 'false, solange das Exemplar ausgeliehen ist (per Trigger aus loans)';
+
+create index if not exists book_copies_book_id_idx on public.book_copies (book_id);
+
+alter table public.books
+    add column if not exists copy_count integer not null default 0,
+    add column if not exists available_count integer not null default 0;
+
+comment on column public.books.copy_count is 'Anzahl Exemplare (per Trigger aus book_copies)';
+comment on column public.books.available_count is 'Anzahl verfügbarer Exemplare (per Trigger aus book_copies)';
+
+
+-- Bisher war jede books-Zeile genau ein Exemplar
+insert into public.book_copies (book_id, location, school, available, created_at)
+select id, location, school, available, created_at
+from public.books;
+
+alter table public.loans
+    add column if not exists copy_id uuid references public.book_copies(id) on delete set null;
+
+create index if not exists loans_copy_id_idx on public.loans (copy_id);
+
+alter table public.loans disable trigger user;
+alter table public.reservations disable trigger user;
+
+update public.loans l
+   set copy_id = c.id
+  from public.book_copies c
+ where c.book_id = l.book_id
+   and l.copy_id is null;
+
+-- Offene Ausleihen sind jetzt pro Exemplar eindeutig, nicht mehr pro Buch
+drop index if exists public.loans_one_open_per_book_idx;
+create unique index if not exists loans_one_open_per_copy_idx on public.loans (copy_id) where returned_at is null;
+
+
+-- Katalogeinträge mit gleicher ISBN zusammenführen (ältester Eintrag bleibt bestehen)
+create temporary table book_merge_map as
+select id as duplicate_id, canonical_id
+from (
+    select id,
+           first_value(id) over (partition by isbn_key order by created_at, id) as canonical_id
+    from (
+        select id, created_at, regexp_replace(upper(coalesce(isbn, '')), '[^0-9X]', '', 'g') as isbn_key
+        from public.books
+    ) keyed
+    where isbn_key <> ''
+) ranked
+where id <> canonical_id;
+
+update public.book_copies c
+   set book_id = m.canonical_id
+  from book_merge_map m
+ where c.book_id = m.duplicate_id;
+
+update public.loans l
+   set book_id = m.canonical_id
+  from book_merge_map m
+ where l.book_id = m.duplicate_id;
+
+-- Pro Person nur die älteste aktive Reservation behalten
+update public.reservations r
+   set status = 'cancelled',
+       closed_at = timezone('utc'::text, now())
+  from (
+    select res.id,
+           row_number() over (
+               partition by coalesce(m.canonical_id, res.book_id), res.user_id
+               order by res.created_at
+           ) as rn
+      from public.reservations res
+      left join book_merge_map m on m.duplicate_id = res.book_id
+     where res.status in ('waiting', 'ready')
+  ) ranked
+ where r.id = ranked.id
+   and ranked.rn > 1;
+
+update public.reservations r
+   set book_id = m.canonical_id
+  from book_merge_map m
+ where r.book_id = m.duplicate_id;
+
+update public.books b
+   set has_pdf = true
+  from book_merge_map m
+  join public.books d on d.id = m.duplicate_id
+ where b.id = m.canonical_id
+   and d.has_pdf;
+
+delete from public.books
+ where id in (select duplicate_id from book_merge_map);
+
+drop table book_merge_map;
+
+alter table public.loans enable trigger user;
+alter table public.reservations enable trigger user;
+
+-- Pro ISBN nur noch ein Katalogeintrag
+create unique index if not exists books_isbn_key_idx
+    on public.books ((regexp_replace(upper(isbn), '[^0-9X]', '', 'g')))
+    where regexp_replace(upper(isbn), '[^0-9X]', '', 'g') <> '';
+
+
+-- Zähler und Verfügbarkeit des Katalogeintrags aus den Exemplaren ableiten
+create or replace function public.refresh_book_copy_counts(p_book_id uuid) returns void
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  update public.books b
+     set copy_count = counts.total,
+         available_count = counts.free,
+         available = counts.free > 0
+    from (
+      select count(*)::integer as total,
+             (count(*) filter (where available))::integer as free
+        from public.book_copies
+       where book_id = p_book_id
+    ) counts
+   where b.id = p_book_id;
+end;
+$$;
+
+alter function public.refresh_book_copy_counts(uuid) owner to postgres;
+
+create or replace function public.sync_book_copy_counts() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform public.refresh_book_copy_counts(new.book_id);
+  end if;
+
+  if tg_op = 'DELETE' or (tg_op = 'UPDATE' and old.book_id is distinct from new.book_id) then
+    perform public.refresh_book_copy_counts(old.book_id);
+  end if;
+
+  return null;
+end;
+$$;
+
+alter function public.sync_book_copy_counts() owner to postgres;
+
+create or replace trigger sync_book_copy_counts
+    after insert or update or delete on public.book_copies
+    for each row execute function public.sync_book_copy_counts();
+
+-- Neue Katalogeinträge erhalten automatisch ein erstes Exemplar
+create or replace function public.create_initial_book_copy() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  insert into public.book_copies (book_id, location, school)
+  values (new.id, new.location, new.school);
+
+  return new;
+end;
+$$;
+
+alter function public.create_initial_book_copy() owner to postgres;
+
+create or replace trigger create_initial_book_copy
+    after insert on public.books
+    for each row execute function public.create_initial_book_copy();
+
+-- Bestehende Zähler einmalig berechnen
+update public.books b
+   set copy_count = counts.total,
+       available_count = counts.free,
+       available = counts.free > 0,
+       borrowed_at = null,
+       borrowed_by = null
+  from (
+    select book_id,
+           count(*)::integer as total,
+           (count(*) filter (where available))::integer as free
+      from public.book_copies
+     group by book_id
+  ) counts
+ where b.id = counts.book_id;
+
+
+-- Ausleihen beziehen sich auf ein Exemplar. Ohne Angabe wird ein freies Exemplar gewählt.
+create or replace function public.assign_loan_copy() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if new.copy_id is null then
+    select c.id into new.copy_id
+      from public.book_copies c
+     where c.book_id = new.book_id
+       and c.available
+       and not exists (
+         select 1 from public.loans l
+          where l.copy_id = c.id and l.returned_at is null
+       )
+     order by c.barcode
+     limit 1
+     for update skip locked;
+
+    if new.copy_id is null then
+      raise exception 'Kein verfügbares Exemplar für dieses Buch';
+    end if;
+  else
+    select c.book_id into new.book_id
+      from public.book_copies c
+     where c.id = new.copy_id;
+
+    if new.book_id is null then
+      raise exception 'Exemplar nicht gefunden';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+alter function public.assign_loan_copy() owner to postgres;
+
+create or replace trigger assign_loan_copy
+    before insert on public.loans
+    for each row execute function public.assign_loan_copy();
+
+-- Die Verfügbarkeit wird jetzt am Exemplar geführt, books wird über sync_book_copy_counts nachgeführt
+create or replace function public.sync_book_availability_from_loans() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if tg_op = 'INSERT' and new.returned_at is null then
+    update public.book_copies
+       set available = false
+     where id = new.copy_id;
+  elsif tg_op = 'UPDATE' and old.returned_at is null and new.returned_at is not null then
+    update public.book_copies
+       set available = true
+     where id = new.copy_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.protect_loan_fields() returns trigger
+    language plpgsql
+    as $$
+begin
+  if not public.is_clerk_admin() then
+    new.book_id := old.book_id;
+    new.copy_id := old.copy_id;
+    new.borrower_id := old.borrower_id;
+    new.borrower_name := old.borrower_name;
+    new.checked_out_at := old.checked_out_at;
+    new.due_at := old.due_at;
+    new.created_at := old.created_at;
+
+    -- Eine bereits abgeschlossene Ausleihe kann nicht wieder geöffnet werden
+    if old.returned_at is not null then
+      new.returned_at := old.returned_at;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+
+-- Reservationen: Rückstellungen pro freiem Exemplar statt pro Buch
+create or replace function public.count_free_book_copies(p_book_id uuid) returns integer
+    language sql stable security definer
+    set search_path to ''
+    as $$
+  select count(*)::integer
+    from public.book_copies c
+   where c.book_id = p_book_id
+     and not exists (
+       select 1 from public.loans l
+        where l.copy_id = c.id and l.returned_at is null
+     );
+$$;
+
+alter function public.count_free_book_copies(uuid) owner to postgres;
+
+create or replace function public.promote_next_reservation(p_book_id uuid) returns void
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_free integer;
+  v_holds integer;
+begin
+  v_free := public.count_free_book_copies(p_book_id);
+
+  select count(*) into v_holds
+    from public.reservations
+   where book_id = p_book_id and status = 'ready';
+
+  while v_holds < v_free loop
+    update public.reservations
+       set status = 'ready',
+           ready_at = timezone('utc'::text, now()),
+           hold_until = timezone('utc'::text, now()) + interval '3 days'
+     where id = (
+       select id from public.reservations
+        where book_id = p_book_id and status = 'waiting'
+        order by created_at
+        limit 1
+     );
+
+    exit when not found;
+    v_holds := v_holds + 1;
+  end loop;
+end;
+$$;
+
+create or replace function public.check_loan_against_reservations() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  update public.reservations
+     set status = 'cancelled',
+         closed_at = timezone('utc'::text, now())
+   where book_id = new.book_id
+     and status = 'ready'
+     and hold_until < timezone('utc'::text, now());
+
+  -- Alle freien Exemplare sind für andere Personen zurückgelegt
+  if not public.is_clerk_admin() and (
+    select count(*) from public.reservations
+     where book_id = new.book_id
+       and status = 'ready'
+       and user_id <> new.borrower_id
+  ) >= public.count_free_book_copies(new.book_id) then
+    raise exception 'Dieses Buch ist für eine andere Person zurückgelegt';
+  end if;
+
+  update public.reservations
+     set status = 'fulfilled',
+         closed_at = timezone('utc'::text, now())
+   where book_id = new.book_id
+     and user_id = new.borrower_id
+     and status in ('waiting', 'ready');
+
+  return new;
+end;
+$$;
+
+
+-- RLS
+alter table public.book_copies enable row level security;
+
+create policy "book_copies_select_policy" on public.book_copies for select to authenticated
+    using (public.is_clerk_authenticated());
+
+create policy "book_copies_insert_admin" on public.book_copies for insert to authenticated
+    with check (public.is_clerk_admin());
+
+create policy "book_copies_update_admin" on public.book_copies for update to authenticated
+    using (public.is_clerk_admin())
+    with check (public.is_clerk_admin());
+
+create policy "book_copies_delete_admin" on public.book_copies for delete to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.book_copies to anon;
+grant all on table public.book_copies to authenticated;
+grant all on table public.book_copies to service_role;
+
+grant all on sequence public.book_copy_barcode_seq to anon;
+grant all on sequence public.book_copy_barcode_seq to authenticated;
+grant all on sequence public.book_copy_barcode_seq to service_role;
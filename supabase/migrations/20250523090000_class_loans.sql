@@ -0,0 +1,187 @@
+-- Klassensätze: eine Lehrperson leiht mehrere Exemplare eines Buchs für eine Klasse aus.
+-- Jedes Exemplar bleibt eine eigene Zeile in loans, class_loans fasst sie zusammen.
+
+create table if not exists public.class_loans (
+    id uuid primary key default gen_random_uuid(),
+    book_id uuid not null references public.books(id) on delete cascade,
+    teacher_id text not null default public.requesting_user_id(),
+    teacher_name text,
+    class_name text not null,
+    checked_out_at timestamp with time zone not null default timezone('utc'::text, now()),
+    due_at timestamp with time zone,
+    returned_at timestamp with time zone,
+    created_at timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+alter table public.class_loans owner to postgres;
+
+comment on table public.class_loans is 'Klassensatz-Ausleihen (mehrere Exemplare für eine Klasse)';
+comment on column public.class_loans.class_name is 'Klasse bzw. Stufe (siehe LEVELS im Frontend)';
+comment on column public.class_loans.returned_at is 'Wird gesetzt, sobald alle Exemplare zurückgegeben sind';
+
+create index if not exists class_loans_book_id_idx on public.class_loans (book_id);
+create index if not exists class_loans_teacher_id_idx on public.class_loans (teacher_id);
+
+alter table public.loans
+    add column if not exists class_loan_id uuid references public.class_loans(id) on delete set null;
+
+create index if not exists loans_class_loan_id_idx on public.loans (class_loan_id);
+
+
+-- Ausleihe eines Klassensatzes: entweder eine Anzahl (freie Exemplare werden gewählt)
+-- oder eine Liste gescannter Exemplare. Läuft mit den Rechten der aufrufenden Person (RLS),
+-- jedes Exemplar wird einzeln eingefügt, damit die Trigger auf loans pro Exemplar greifen.
+create or replace function public.borrow_class_set(
+    p_book_id uuid,
+    p_class_name text,
+    p_quantity integer default null,
+    p_copy_ids uuid[] default null,
+    p_due_at timestamp with time zone default null,
+    p_teacher_name text default null
+) returns uuid
+    language plpgsql
+    as $$
+declare
+  v_class_loan_id uuid;
+  v_quantity integer;
+  v_free integer;
+  v_copy_id uuid;
+  v_due_at timestamp with time zone;
+begin
+  if coalesce(trim(p_class_name), '') = '' then
+    raise exception 'Bitte eine Klasse angeben';
+  end if;
+
+  if p_copy_ids is not null and array_length(p_copy_ids, 1) > 0 then
+    if exists (
+      select 1 from unnest(p_copy_ids) as ids(copy_id)
+       where not exists (
+         select 1 from public.book_copies c
+          where c.id = ids.copy_id and c.book_id = p_book_id
+       )
+    ) then
+      raise exception 'Mindestens ein Exemplar gehört nicht zu diesem Buch';
+    end if;
+
+    v_quantity := array_length(p_copy_ids, 1);
+  else
+    v_quantity := coalesce(p_quantity, 0);
+  end if;
+
+  if v_quantity < 1 then
+    raise exception 'Bitte mindestens ein Exemplar auswählen';
+  end if;
+
+  v_free := public.count_free_book_copies(p_book_id);
+  if v_quantity > v_free then
+    raise exception 'Nur % Exemplare verfügbar', v_free;
+  end if;
+
+  -- Wie bei einzelnen Ausleihen (set_loan_due_at) bestimmen nur Admins das Rückgabedatum selbst
+  v_due_at := case
+                when public.is_clerk_admin() and p_due_at is not null then p_due_at
+                else public.default_loan_due_at(p_book_id)
+              end;
+
+  insert into public.class_loans (book_id, teacher_name, class_name, due_at)
+  values (p_book_id, p_teacher_name, trim(p_class_name), v_due_at)
+  returning id into v_class_loan_id;
+
+  if p_copy_ids is not null and array_length(p_copy_ids, 1) > 0 then
+    foreach v_copy_id in array p_copy_ids loop
+      insert into public.loans (book_id, copy_id, borrower_name, due_at, class_loan_id)
+      values (p_book_id, v_copy_id, p_teacher_name, v_due_at, v_class_loan_id);
+    end loop;
+  else
+    for i in 1..v_quantity loop
+      insert into public.loans (book_id, borrower_name, due_at, class_loan_id)
+      values (p_book_id, p_teacher_name, v_due_at, v_class_loan_id);
+    end loop;
+  end if;
+
+  return v_class_loan_id;
+end;
+$$;
+
+alter function public.borrow_class_set(uuid, text, integer, uuid[], timestamp with time zone, text) owner to postgres;
+
+-- Klassensatz abschliessen, sobald das letzte Exemplar zurückgegeben wurde
+create or replace function public.close_class_loan() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if new.class_loan_id is not null and old.returned_at is null and new.returned_at is not null then
+    update public.class_loans
+       set returned_at = timezone('utc'::text, now())
+     where id = new.class_loan_id
+       and returned_at is null
+       and not exists (
+         select 1 from public.loans
+          where class_loan_id = new.class_loan_id and returned_at is null
+       );
+  end if;
+
+  return new;
+end;
+$$;
+
+alter function public.close_class_loan() owner to postgres;
+
+create or replace trigger close_class_loan
+    after update on public.loans
+    for each row execute function public.close_class_loan();
+
+-- Die Zuordnung zum Klassensatz darf nur von Admins geändert werden
+create or replace function public.protect_loan_fields() returns trigger
+    language plpgsql
+    as $$
+begin
+  if not public.is_clerk_admin() then
+    new.book_id := old.book_id;
+    new.copy_id := old.copy_id;
+    new.class_loan_id := old.class_loan_id;
+    new.borrower_id := old.borrower_id;
+    new.borrower_name := old.borrower_name;
+    new.checked_out_at := old.checked_out_at;
+    new.due_at := old.due_at;
+    new.created_at := old.created_at;
+
+    -- Eine bereits abgeschlossene Ausleihe kann nicht wieder geöffnet werden
+    if old.returned_at is not null then
+      new.returned_at := old.returned_at;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+
+-- RLS
+alter table public.class_loans enable row level security;
+
+create policy "class_loans_select_policy" on public.class_loans for select to authenticated
+    using (public.is_clerk_authenticated());
+
+-- Klassensätze nur auf sich selbst, Admins auch für andere
+create policy "class_loans_insert_policy" on public.class_loans for insert to authenticated
+    with check (
+        public.is_clerk_authenticated()
+        and (teacher_id = public.requesting_user_id() or public.is_clerk_admin())
+    );
+
+create policy "class_loans_update_admin" on public.class_loans for update to authenticated
+    using (public.is_clerk_admin())
+    with check (public.is_clerk_admin());
+
+create policy "class_loans_delete_admin" on public.class_loans for delete to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.class_loans to anon;
+grant all on table public.class_loans to authenticated;
+grant all on table public.class_loans to service_role;
+
+grant all on function public.borrow_class_set(uuid, text, integer, uuid[], timestamp with time zone, text) to anon;
+grant all on function public.borrow_class_set(uuid, text, integer, uuid[], timestamp with time zone, text) to authenticated;
+grant all on function public.borrow_class_set(uuid, text, integer, uuid[], timestamp with time zone, text) to service_role;
@@ -0,0 +1,54 @@
+-- Inventur: Admins zählen pro Schule und Standort alle vorhandenen Exemplare.
+-- Der Bericht (fehlend, falscher Standort, ausgeliehen aber vorhanden) wird im Frontend berechnet.
+
+create table if not exists public.inventory_sessions (
+    id uuid primary key default gen_random_uuid(),
+    school text not null,
+    location text not null,
+    started_by text not null default public.requesting_user_id(),
+    started_by_name text,
+    started_at timestamp with time zone not null default timezone('utc'::text, now()),
+    completed_at timestamp with time zone,
+    notes text
+);
+
+alter table public.inventory_sessions owner to postgres;
+
+comment on table public.inventory_sessions is 'Inventur-Durchgänge pro Schule und Standort';
+
+create table if not exists public.inventory_scans (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references public.inventory_sessions(id) on delete cascade,
+    copy_id uuid references public.book_copies(id) on delete cascade,
+    barcode text not null,
+    scanned_by text not null default public.requesting_user_id(),
+    scanned_at timestamp with time zone not null default timezone('utc'::text, now()),
+    constraint inventory_scans_session_barcode_key unique (session_id, barcode)
+);
+
+alter table public.inventory_scans owner to postgres;
+
+comment on table public.inventory_scans is 'Gescannte Exemplare einer Inventur (copy_id ist null bei unbekannten Codes)';
+
+create index if not exists inventory_scans_session_id_idx on public.inventory_scans (session_id);
+
+
+-- RLS: Inventur ist Admins vorbehalten
+alter table public.inventory_sessions enable row level security;
+alter table public.inventory_scans enable row level security;
+
+create policy "inventory_sessions_admin_policy" on public.inventory_sessions for all to authenticated
+    using (public.is_clerk_admin())
+    with check (public.is_clerk_admin());
+
+create policy "inventory_scans_admin_policy" on public.inventory_scans for all to authenticated
+    using (public.is_clerk_admin())
+    with check (public.is_clerk_admin());
+
+grant all on table public.inventory_sessions to anon;
+grant all on table public.inventory_sessions to authenticated;
+grant all on table public.inventory_sessions to service_role;
+
+grant all on table public.inventory_scans to anon;
+grant all on table public.inventory_scans to authenticated;
+grant all on table public.inventory_scans to service_role;
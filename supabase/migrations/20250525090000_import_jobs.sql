@@ -0,0 +1,110 @@
+-- Import-Jobs für den Massenimport: Die Liste wird gespeichert und von bulk-import-books
+-- in Abschnitten abgearbeitet. Der Status jeder ISBN bzw. Tabellenzeile bleibt erhalten,
+-- ein abgebrochener Import kann dadurch fortgesetzt werden.
+
+create table if not exists public.import_jobs (
+    id uuid primary key default gen_random_uuid(),
+    created_by text not null default public.requesting_user_id(),
+    source text not null default 'isbn',
+    status text not null default 'pending',
+    total_count integer not null default 0,
+    created_at timestamp with time zone not null default timezone('utc'::text, now()),
+    updated_at timestamp with time zone not null default timezone('utc'::text, now()),
+    completed_at timestamp with time zone,
+    constraint import_jobs_source_check check (source in ('isbn', 'table')),
+    constraint import_jobs_status_check check (status in ('pending', 'running', 'completed'))
+);
+
+alter table public.import_jobs owner to postgres;
+
+comment on table public.import_jobs is 'Massenimporte (ISBN-Listen oder Tabellen), werden abschnittsweise verarbeitet';
+comment on column public.import_jobs.updated_at is 'Letzter Fortschritt, dient zur Erkennung hängengebliebener Jobs';
+
+create table if not exists public.import_job_items (
+    id uuid primary key default gen_random_uuid(),
+    job_id uuid not null references public.import_jobs(id) on delete cascade,
+    "position" integer not null,
+    isbn text,
+    payload jsonb,
+    book_data jsonb,
+    status text not null default 'pending',
+    book_id uuid references public.books(id) on delete set null,
+    title text,
+    error text,
+    attempts integer not null default 0,
+    claimed_at timestamp with time zone,
+    updated_at timestamp with time zone not null default timezone('utc'::text, now()),
+    constraint import_job_items_status_check check (status in ('pending', 'fetched', 'imported', 'duplicate', 'failed'))
+);
+
+alter table public.import_job_items owner to postgres;
+
+comment on table public.import_job_items is 'Einzelne ISBNs bzw. Tabellenzeilen eines Import-Jobs';
+comment on column public.import_job_items.payload is 'Buchangaben aus der importierten Tabelle (null bei ISBN-Listen)';
+comment on column public.import_job_items.book_data is 'Nachgeschlagene Buchangaben (ab Status fetched), damit ein Neustart nicht erneut nachschlägt';
+comment on column public.import_job_items.claimed_at is 'Gesetzt, solange ein Aufruf die Zeile verarbeitet';
+
+create index if not exists import_job_items_job_id_status_idx on public.import_job_items (job_id, status);
+create index if not exists import_jobs_created_at_idx on public.import_jobs (created_at desc);
+
+
+-- Reserviert die nächsten offenen Zeilen eines Jobs für einen Verarbeitungsaufruf.
+-- Zeilen, deren Reservation älter als zwei Minuten ist (abgebrochener Aufruf), werden erneut vergeben,
+-- nach drei abgebrochenen Versuchen aber als fehlgeschlagen markiert (z.B. wenn die Zeile den Aufruf abstürzen lässt).
+create or replace function public.claim_import_job_items(p_job_id uuid, p_limit integer) returns setof public.import_job_items
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  update public.import_job_items i
+     set status = 'failed',
+         error = 'Verarbeitung nach ' || i.attempts || ' Versuchen abgebrochen',
+         claimed_at = null,
+         updated_at = timezone('utc'::text, now())
+   where i.job_id = p_job_id
+     and i.status in ('pending', 'fetched')
+     and i.attempts >= 3
+     and (i.claimed_at is null or i.claimed_at < timezone('utc'::text, now()) - interval '2 minutes');
+
+  return query
+  update public.import_job_items i
+     set claimed_at = timezone('utc'::text, now()),
+         attempts = i.attempts + 1,
+         updated_at = timezone('utc'::text, now())
+   where i.id in (
+     select c.id
+       from public.import_job_items c
+      where c.job_id = p_job_id
+        and c.status in ('pending', 'fetched')
+        and (c.claimed_at is null or c.claimed_at < timezone('utc'::text, now()) - interval '2 minutes')
+      order by c."position"
+      limit p_limit
+      for update skip locked
+   )
+  returning i.*;
+end;
+$$;
+
+alter function public.claim_import_job_items(uuid, integer) owner to postgres;
+
+
+-- RLS: Admins dürfen Jobs lesen, geschrieben wird nur von der Edge Function (Service Role)
+alter table public.import_jobs enable row level security;
+alter table public.import_job_items enable row level security;
+
+create policy "import_jobs_select_policy" on public.import_jobs for select to authenticated
+    using (public.is_clerk_admin());
+
+create policy "import_job_items_select_policy" on public.import_job_items for select to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.import_jobs to anon;
+grant all on table public.import_jobs to authenticated;
+grant all on table public.import_jobs to service_role;
+
+grant all on table public.import_job_items to anon;
+grant all on table public.import_job_items to authenticated;
+grant all on table public.import_job_items to service_role;
+
+revoke all on function public.claim_import_job_items(uuid, integer) from public;
+grant all on function public.claim_import_job_items(uuid, integer) to service_role;
@@ -0,0 +1,38 @@
+-- Cache für ISBN-Abfragen: book-info speichert das Ergebnis jeder erfolgreichen Abfrage
+-- (Kataloge und Gemini), damit Vorschau, Formular und Massenimport dieselbe ISBN nicht
+-- erneut nachschlagen. Admins können Einträge löschen, um eine neue Abfrage zu erzwingen.
+
+create table if not exists public.isbn_lookup_cache (
+    isbn text primary key,
+    provider text not null,
+    sources text[] not null default '{}',
+    result jsonb not null,
+    raw_response jsonb,
+    hit_count integer not null default 0,
+    last_hit_at timestamp with time zone,
+    created_at timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+alter table public.isbn_lookup_cache owner to postgres;
+
+comment on table public.isbn_lookup_cache is 'Zwischengespeicherte Buchangaben pro ISBN, geschrieben von book-info';
+comment on column public.isbn_lookup_cache.isbn is 'Normalisierte ISBN (ISBN-10 wird als ISBN-13 gespeichert, ohne Bindestriche)';
+comment on column public.isbn_lookup_cache.provider is 'Quelle, die den Titel geliefert hat (z.B. swisscovery, dnb, openlibrary, llm)';
+comment on column public.isbn_lookup_cache.result is 'Zusammengeführte, normalisierte Buchangaben';
+comment on column public.isbn_lookup_cache.raw_response is 'Unveränderte Antworten der beteiligten Quellen, pro Quelle';
+
+create index if not exists isbn_lookup_cache_created_at_idx on public.isbn_lookup_cache (created_at desc);
+
+
+-- RLS: Admins dürfen lesen und löschen, geschrieben wird nur von der Edge Function (Service Role)
+alter table public.isbn_lookup_cache enable row level security;
+
+create policy "isbn_lookup_cache_select_policy" on public.isbn_lookup_cache for select to authenticated
+    using (public.is_clerk_admin());
+
+create policy "isbn_lookup_cache_delete_policy" on public.isbn_lookup_cache for delete to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.isbn_lookup_cache to anon;
+grant all on table public.isbn_lookup_cache to authenticated;
+grant all on table public.isbn_lookup_cache to service_role;
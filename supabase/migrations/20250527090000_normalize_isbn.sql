@@ -0,0 +1,80 @@
+-- ISBNs einheitlich speichern: Bindestriche und Leerzeichen entfernen, gültige ISBN-10 in die
+-- ISBN-13 umrechnen. Entspricht normalizeIsbn() in supabase/functions/isbn.ts.
+
+create or replace function public.normalize_isbn(p_isbn text) returns text
+    language plpgsql immutable
+    set search_path to ''
+    as $$
+declare
+  v_clean text := regexp_replace(upper(coalesce(p_isbn, '')), '[^0-9X]', '', 'g');
+  v_base text;
+  v_sum integer := 0;
+  i integer;
+begin
+  if v_clean !~ '^[0-9]{9}[0-9X]$' then
+    return v_clean;
+  end if;
+
+  -- Prüfziffer der ISBN-10 (Gewichte 10 bis 1, Summe durch 11 teilbar)
+  for i in 1..9 loop
+    v_sum := v_sum + substr(v_clean, i, 1)::integer * (11 - i);
+  end loop;
+  v_sum := v_sum + case when substr(v_clean, 10, 1) = 'X' then 10 else substr(v_clean, 10, 1)::integer end;
+  if v_sum % 11 <> 0 then
+    return v_clean;
+  end if;
+
+  -- ISBN-13 mit Präfix 978 und neuer EAN-Prüfziffer (Gewichte 1 und 3)
+  v_base := '978' || substr(v_clean, 1, 9);
+  v_sum := 0;
+  for i in 1..12 loop
+    v_sum := v_sum + substr(v_base, i, 1)::integer * case when i % 2 = 1 then 1 else 3 end;
+  end loop;
+  return v_base || ((10 - v_sum % 10) % 10)::text;
+end;
+$$;
+
+alter function public.normalize_isbn(text) owner to postgres;
+
+
+-- Bestehende Einträge normalisieren. Ohne Trigger, da protect_book_fields Änderungen an der ISBN
+-- ohne Admin-Token zurücksetzt. Einträge, deren ISBN-10 einem vorhandenen Eintrag mit der ISBN-13
+-- entspricht, bleiben unverändert und müssen zusammengeführt werden.
+alter table public.books disable trigger user;
+
+update public.books b
+   set isbn = public.normalize_isbn(b.isbn)
+ where public.normalize_isbn(b.isbn) <> ''
+   and public.normalize_isbn(b.isbn) <> b.isbn
+   and not exists (
+     select 1
+       from public.books other
+      where other.id <> b.id
+        and regexp_replace(upper(other.isbn), '[^0-9X]', '', 'g') = public.normalize_isbn(b.isbn)
+   );
+
+alter table public.books enable trigger user;
+
+
+-- Neue und geänderte Einträge beim Speichern normalisieren (Werte ohne Ziffern bleiben unverändert)
+create or replace function public.normalize_book_isbn() returns trigger
+    language plpgsql
+    set search_path to ''
+    as $$
+begin
+  if public.normalize_isbn(new.isbn) <> '' then
+    new.isbn := public.normalize_isbn(new.isbn);
+  end if;
+  return new;
+end;
+$$;
+
+alter function public.normalize_book_isbn() owner to postgres;
+
+create or replace trigger normalize_book_isbn
+    before insert or update of isbn on public.books
+    for each row execute function public.normalize_book_isbn();
+
+grant all on function public.normalize_isbn(text) to anon;
+grant all on function public.normalize_isbn(text) to authenticated;
+grant all on function public.normalize_isbn(text) to service_role;
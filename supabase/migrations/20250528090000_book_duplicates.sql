@@ -0,0 +1,183 @@
+-- Duplikate im Katalog finden und zusammenführen.
+-- Kandidaten: gleiche ISBN nach Normalisierung, ähnliche Titel (pg_trgm) oder fast identische
+-- Embeddings. Beim Zusammenführen wandern Exemplare, Ausleihen und Reservationen zum behaltenen Eintrag.
+
+create index if not exists books_title_trgm_idx on public.books using gin (lower(title) public.gin_trgm_ops);
+
+-- Als "kein Duplikat" markierte Paare (book_id_a < book_id_b), werden nicht mehr vorgeschlagen
+create table if not exists public.book_duplicate_dismissals (
+    book_id_a uuid not null references public.books(id) on delete cascade,
+    book_id_b uuid not null references public.books(id) on delete cascade,
+    dismissed_by text not null default public.requesting_user_id(),
+    created_at timestamp with time zone not null default timezone('utc'::text, now()),
+    primary key (book_id_a, book_id_b),
+    constraint book_duplicate_dismissals_order_check check (book_id_a < book_id_b)
+);
+
+alter table public.book_duplicate_dismissals owner to postgres;
+
+comment on table public.book_duplicate_dismissals is 'Von Admins geprüfte Paare, die keine Duplikate sind';
+
+
+-- Kandidatenpaare mit Gründen (isbn, title, embedding) und der höchsten Ähnlichkeit
+create or replace function public.find_duplicate_books(
+    p_title_threshold real default 0.6,
+    p_embedding_threshold double precision default 0.95,
+    p_limit integer default 200
+) returns table (book_id_a uuid, book_id_b uuid, reasons text[], score double precision)
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if not public.is_clerk_admin() then
+    raise exception 'Nur Administratoren dürfen nach Duplikaten suchen';
+  end if;
+
+  -- Schwelle für den Trigramm-Operator %, gilt nur für diese Transaktion
+  perform set_config('pg_trgm.similarity_threshold', p_title_threshold::text, true);
+
+  return query
+  with candidates as (
+    -- Gleiche ISBN, z.B. ISBN-10 und ISBN-13 desselben Buchs
+    select a.id as a_id, b.id as b_id, 'isbn'::text as reason, 1.0::double precision as similarity
+      from public.books a
+      join public.books b
+        on a.id < b.id
+       and public.normalize_isbn(a.isbn) = public.normalize_isbn(b.isbn)
+     where public.normalize_isbn(a.isbn) <> ''
+
+    union all
+
+    -- Ähnliche Titel; der Autor muss ebenfalls ähnlich sein, sofern bei beiden erfasst
+    select a.id, b.id, 'title', public.similarity(lower(a.title), lower(b.title))::double precision
+      from public.books a
+      join public.books b
+        on a.id < b.id
+       and lower(a.title) operator(public.%) lower(b.title)
+     where coalesce(a.author, '') = ''
+        or coalesce(b.author, '') = ''
+        or public.similarity(lower(a.author), lower(b.author)) >= 0.5
+
+    union all
+
+    -- Nächste Nachbarn über den Embedding-Index (gleiche Berechnung wie match_books)
+    select a.id, n.id, 'embedding', n.similarity
+      from public.books a
+      cross join lateral (
+        select b.id, 1 - (b.embedding operator(public.<=>) a.embedding) as similarity
+          from public.books b
+         where b.id <> a.id
+           and b.embedding is not null
+         order by b.embedding operator(public.<=>) a.embedding
+         limit 3
+      ) n
+     where a.embedding is not null
+       and a.id < n.id
+       and n.similarity >= p_embedding_threshold
+  )
+  select c.a_id, c.b_id, array_agg(distinct c.reason), max(c.similarity)
+    from candidates c
+   where not exists (
+     select 1
+       from public.book_duplicate_dismissals d
+      where d.book_id_a = c.a_id
+        and d.book_id_b = c.b_id
+   )
+   group by c.a_id, c.b_id
+   order by bool_or(c.reason = 'isbn') desc, max(c.similarity) desc
+   limit p_limit;
+end;
+$$;
+
+alter function public.find_duplicate_books(real, double precision, integer) owner to postgres;
+
+
+-- Führt Katalogeinträge in p_keep_id zusammen. Exemplare, Ausleihen (auch Klassensätze),
+-- Reservationen und Import-Zeilen werden umgehängt, danach werden die übrigen Einträge gelöscht.
+create or replace function public.merge_books(p_keep_id uuid, p_merge_ids uuid[]) returns void
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_isbn text;
+  v_has_pdf boolean;
+begin
+  if not public.is_clerk_admin() then
+    raise exception 'Nur Administratoren dürfen Katalogeinträge zusammenführen';
+  end if;
+
+  p_merge_ids := array_remove(p_merge_ids, p_keep_id);
+  if coalesce(array_length(p_merge_ids, 1), 0) = 0 then
+    return;
+  end if;
+
+  if not exists (select 1 from public.books where id = p_keep_id) then
+    raise exception 'Der zu behaltende Katalogeintrag existiert nicht';
+  end if;
+
+  -- Pro Person nur die älteste aktive Reservation behalten
+  update public.reservations r
+     set status = 'cancelled',
+         closed_at = timezone('utc'::text, now())
+    from (
+      select res.id,
+             row_number() over (partition by res.user_id order by res.created_at) as rn
+        from public.reservations res
+       where (res.book_id = p_keep_id or res.book_id = any(p_merge_ids))
+         and res.status in ('waiting', 'ready')
+    ) ranked
+   where r.id = ranked.id
+     and ranked.rn > 1;
+
+  update public.reservations set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.loans set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.class_loans set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.book_copies set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.import_job_items set book_id = p_keep_id where book_id = any(p_merge_ids);
+
+  -- ISBN und PDF übernehmen, falls der behaltene Eintrag keine hat
+  select isbn into v_isbn
+    from public.books
+   where id = any(p_merge_ids)
+     and coalesce(isbn, '') <> ''
+   order by created_at
+   limit 1;
+
+  select bool_or(has_pdf) into v_has_pdf from public.books where id = any(p_merge_ids);
+
+  delete from public.books where id = any(p_merge_ids);
+
+  update public.books
+     set isbn = case when coalesce(isbn, '') = '' and v_isbn is not null then v_isbn else isbn end,
+         has_pdf = coalesce(has_pdf, false) or coalesce(v_has_pdf, false)
+   where id = p_keep_id;
+
+  perform public.refresh_book_copy_counts(p_keep_id);
+end;
+$$;
+
+alter function public.merge_books(uuid, uuid[]) owner to postgres;
+
+
+-- RLS: nur Admins
+alter table public.book_duplicate_dismissals enable row level security;
+
+create policy "book_duplicate_dismissals_select_policy" on public.book_duplicate_dismissals for select to authenticated
+    using (public.is_clerk_admin());
+
+create policy "book_duplicate_dismissals_insert_policy" on public.book_duplicate_dismissals for insert to authenticated
+    with check (public.is_clerk_admin());
+
+create policy "book_duplicate_dismissals_delete_policy" on public.book_duplicate_dismissals for delete to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.book_duplicate_dismissals to anon;
+grant all on table public.book_duplicate_dismissals to authenticated;
+grant all on table public.book_duplicate_dismissals to service_role;
+
+grant all on function public.find_duplicate_books(real, double precision, integer) to anon;
+grant all on function public.find_duplicate_books(real, double precision, integer) to authenticated;
+grant all on function public.find_duplicate_books(real, double precision, integer) to service_role;
+grant all on function public.merge_books(uuid, uuid[]) to anon;
+grant all on function public.merge_books(uuid, uuid[]) to authenticated;
+grant all on function public.merge_books(uuid, uuid[]) to service_role;
@@ -0,0 +1,166 @@
+-- Protokoll aller Änderungen an Katalog, Exemplaren, Ausleihen und Reservationen.
+-- Geschrieben wird per Trigger in der Datenbank, der Client kann es also nicht umgehen.
+-- Rollen- und Sperränderungen (Clerk) trägt die Edge Function clerk-users mit der Service Role ein.
+
+create table if not exists public.audit_log (
+    id bigint generated always as identity primary key,
+    actor_id text default public.requesting_user_id(),
+    actor_role text,
+    action text not null,
+    entity_type text not null,
+    entity_id text,
+    book_id uuid,
+    entity_label text,
+    old_values jsonb,
+    new_values jsonb,
+    created_at timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+alter table public.audit_log owner to postgres;
+
+comment on table public.audit_log is 'Unveränderliches Änderungsprotokoll (nur anfügen)';
+comment on column public.audit_log.actor_id is 'Clerk-ID der handelnden Person, NULL bei Änderungen ohne Benutzer (z.B. Service Role)';
+comment on column public.audit_log.action is 'create, update, delete, checkout, return, role_change, block, unblock';
+comment on column public.audit_log.entity_type is 'book, book_copy, loan, class_loan, reservation oder user';
+comment on column public.audit_log.book_id is 'Betroffener Katalogeintrag, bleibt auch nach dem Löschen des Buchs erhalten (kein Fremdschlüssel)';
+comment on column public.audit_log.entity_label is 'Buchtitel bzw. E-Mail zum Zeitpunkt der Änderung';
+comment on column public.audit_log.old_values is 'Bei Änderungen nur die geänderten Felder, beim Löschen der ganze Datensatz';
+comment on column public.audit_log.new_values is 'Bei Änderungen nur die geänderten Felder, beim Anlegen der ganze Datensatz';
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_actor_id_idx on public.audit_log (actor_id, created_at desc);
+create index if not exists audit_log_book_id_idx on public.audit_log (book_id, created_at desc);
+create index if not exists audit_log_action_idx on public.audit_log (action, created_at desc);
+
+
+-- Schreibt eine Zeile pro geänderten Datensatz. tg_argv[0] ist der entity_type.
+create or replace function public.write_audit_log() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_entity text := tg_argv[0];
+  -- Abgeleitete oder sehr grosse Felder, die andere Trigger nachführen
+  v_ignored text[] := array['embedding', 'vector_source', 'available', 'available_count', 'borrowed_at', 'borrowed_by', 'copy_count'];
+  v_claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_key text;
+  v_action text;
+  v_book_id uuid;
+  v_label text;
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    v_old := to_jsonb(old) - v_ignored;
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    v_new := to_jsonb(new) - v_ignored;
+  end if;
+  v_row := coalesce(v_new, v_old);
+
+  -- Bei Änderungen nur die geänderten Felder festhalten
+  if tg_op = 'UPDATE' then
+    v_old := '{}'::jsonb;
+    v_new := '{}'::jsonb;
+    for v_key in select jsonb_object_keys(v_row) loop
+      if (to_jsonb(new) -> v_key) is distinct from (to_jsonb(old) -> v_key) then
+        v_old := v_old || jsonb_build_object(v_key, to_jsonb(old) -> v_key);
+        v_new := v_new || jsonb_build_object(v_key, to_jsonb(new) -> v_key);
+      end if;
+    end loop;
+
+    if v_new = '{}'::jsonb then
+      return null;
+    end if;
+  end if;
+
+  v_action := case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'update' else 'delete' end;
+  if v_entity in ('loan', 'class_loan') then
+    if tg_op = 'INSERT' then
+      v_action := 'checkout';
+    elsif tg_op = 'UPDATE' and v_new ? 'returned_at' and v_old ->> 'returned_at' is null then
+      v_action := 'return';
+    end if;
+  end if;
+
+  if v_entity = 'book' then
+    v_book_id := (v_row ->> 'id')::uuid;
+    v_label := coalesce(to_jsonb(new), to_jsonb(old)) ->> 'title';
+  else
+    v_book_id := (v_row ->> 'book_id')::uuid;
+    select title into v_label from public.books where id = v_book_id;
+  end if;
+
+  insert into public.audit_log (actor_id, actor_role, action, entity_type, entity_id, book_id, entity_label, old_values, new_values)
+  values (
+    public.requesting_user_id(),
+    coalesce(v_claims ->> 'user_role', v_claims ->> 'role'),
+    v_action,
+    v_entity,
+    v_row ->> 'id',
+    v_book_id,
+    v_label,
+    v_old,
+    v_new
+  );
+
+  return null;
+end;
+$$;
+
+alter function public.write_audit_log() owner to postgres;
+
+create or replace trigger audit_books
+    after insert or update or delete on public.books
+    for each row execute function public.write_audit_log('book');
+
+create or replace trigger audit_book_copies
+    after insert or update or delete on public.book_copies
+    for each row execute function public.write_audit_log('book_copy');
+
+create or replace trigger audit_loans
+    after insert or update or delete on public.loans
+    for each row execute function public.write_audit_log('loan');
+
+create or replace trigger audit_class_loans
+    after insert or update or delete on public.class_loans
+    for each row execute function public.write_audit_log('class_loan');
+
+create or replace trigger audit_reservations
+    after insert or update or delete on public.reservations
+    for each row execute function public.write_audit_log('reservation');
+
+
+-- Das Protokoll kann nur ergänzt werden, auch nicht von der Service Role geändert oder geleert
+create or replace function public.prevent_audit_log_changes() returns trigger
+    language plpgsql
+    set search_path to ''
+    as $$
+begin
+  raise exception 'Das Änderungsprotokoll kann nicht verändert oder gelöscht werden';
+end;
+$$;
+
+alter function public.prevent_audit_log_changes() owner to postgres;
+
+create or replace trigger prevent_audit_log_changes
+    before update or delete on public.audit_log
+    for each row execute function public.prevent_audit_log_changes();
+
+create or replace trigger prevent_audit_log_truncate
+    before truncate on public.audit_log
+    for each statement execute function public.prevent_audit_log_changes();
+
+
+-- RLS: Admins dürfen lesen. Geschrieben wird nur von den Triggern und der Service Role.
+alter table public.audit_log enable row level security;
+
+create policy "audit_log_select_policy" on public.audit_log for select to authenticated
+    using (public.is_clerk_admin());
+
+grant select on table public.audit_log to anon;
+grant select on table public.audit_log to authenticated;
+grant all on table public.audit_log to service_role;
+
+grant all on function public.write_audit_log() to service_role;
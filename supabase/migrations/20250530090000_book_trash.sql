@@ -0,0 +1,242 @@
+-- Papierkorb für Katalogeinträge: Löschen setzt nur deleted_at, Admins können Einträge
+-- unter /admin/trash wiederherstellen oder endgültig löschen.
+-- Gelöschte Einträge bleiben in books, damit Exemplare, Ausleih-Historie und PDFs erhalten bleiben.
+
+alter table public.books
+    add column if not exists deleted_at timestamp with time zone,
+    add column if not exists deleted_by text;
+
+comment on column public.books.deleted_at is 'Zeitpunkt, zu dem der Eintrag in den Papierkorb verschoben wurde, NULL = aktiv';
+comment on column public.books.deleted_by is 'Clerk-ID der Person, die den Eintrag gelöscht hat';
+
+create index if not exists books_deleted_at_idx on public.books (deleted_at desc) where deleted_at is not null;
+
+
+-- Gelöschte Einträge sind über die API für alle unsichtbar (auch für Admins), die Liste des
+-- Papierkorbs kommt aus get_trashed_books(). Restriktiv, gilt also zusätzlich zu books_select_policy.
+create policy "books_hide_deleted_policy" on public.books as restrictive for select to anon, authenticated
+    using (deleted_at is null);
+
+
+-- Semantische Suche ohne gelöschte Einträge (search-books ruft match_books mit der Service Role auf)
+create or replace function public.match_books(query_embedding public.vector, match_threshold double precision, match_count integer)
+    returns table (id uuid, title text, author text, subject text, level text, description text, similarity double precision)
+    language plpgsql
+    as $$
+begin
+  return query
+  select
+    books.id,
+    books.title,
+    books.author,
+    books.subject,
+    books.level,
+    books.description,
+    1 - (books.embedding <=> query_embedding) as similarity
+  from books
+  where 1 - (books.embedding <=> query_embedding) > match_threshold
+    and books.deleted_at is null
+  order by books.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+
+-- Duplikatsuche ohne gelöschte Einträge
+create or replace function public.find_duplicate_books(
+    p_title_threshold real default 0.6,
+    p_embedding_threshold double precision default 0.95,
+    p_limit integer default 200
+) returns table (book_id_a uuid, book_id_b uuid, reasons text[], score double precision)
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  if not public.is_clerk_admin() then
+    raise exception 'Nur Administratoren dürfen nach Duplikaten suchen';
+  end if;
+
+  -- Schwelle für den Trigramm-Operator %, gilt nur für diese Transaktion
+  perform set_config('pg_trgm.similarity_threshold', p_title_threshold::text, true);
+
+  return query
+  with candidates as (
+    -- Gleiche ISBN, z.B. ISBN-10 und ISBN-13 desselben Buchs
+    select a.id as a_id, b.id as b_id, 'isbn'::text as reason, 1.0::double precision as similarity
+      from public.books a
+      join public.books b
+        on a.id < b.id
+       and public.normalize_isbn(a.isbn) = public.normalize_isbn(b.isbn)
+     where public.normalize_isbn(a.isbn) <> ''
+       and a.deleted_at is null
+       and b.deleted_at is null
+
+    union all
+
+    -- Ähnliche Titel; der Autor muss ebenfalls ähnlich sein, sofern bei beiden erfasst
+    select a.id, b.id, 'title', public.similarity(lower(a.title), lower(b.title))::double precision
+      from public.books a
+      join public.books b
+        on a.id < b.id
+       and lower(a.title) operator(public.%) lower(b.title)
+     where a.deleted_at is null
+       and b.deleted_at is null
+       and (coalesce(a.author, '') = ''
+            or coalesce(b.author, '') = ''
+            or public.similarity(lower(a.author), lower(b.author)) >= 0.5)
+
+    union all
+
+    -- Nächste Nachbarn über den Embedding-Index (gleiche Berechnung wie match_books)
+    select a.id, n.id, 'embedding', n.similarity
+      from public.books a
+      cross join lateral (
+        select b.id, 1 - (b.embedding operator(public.<=>) a.embedding) as similarity
+          from public.books b
+         where b.id <> a.id
+           and b.embedding is not null
+           and b.deleted_at is null
+         order by b.embedding operator(public.<=>) a.embedding
+         limit 3
+      ) n
+     where a.embedding is not null
+       and a.deleted_at is null
+       and a.id < n.id
+       and n.similarity >= p_embedding_threshold
+  )
+  select c.a_id, c.b_id, array_agg(distinct c.reason), max(c.similarity)
+    from candidates c
+   where not exists (
+     select 1
+       from public.book_duplicate_dismissals d
+      where d.book_id_a = c.a_id
+        and d.book_id_b = c.b_id
+   )
+   group by c.a_id, c.b_id
+   order by bool_or(c.reason = 'isbn') desc, max(c.similarity) desc
+   limit p_limit;
+end;
+$$;
+
+
+-- Verschiebt Katalogeinträge in den Papierkorb. Ausgeliehene Bücher können nicht gelöscht werden,
+-- offene Reservationen verfallen.
+create or replace function public.trash_books(p_book_ids uuid[]) returns integer
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_count integer;
+begin
+  if not public.is_clerk_admin() then
+    raise exception 'Nur Administratoren dürfen Bücher löschen';
+  end if;
+
+  if exists (select 1 from public.loans where book_id = any(p_book_ids) and returned_at is null) then
+    raise exception 'Ausgeliehene Bücher können nicht gelöscht werden. Bitte zuerst alle Exemplare zurücknehmen.';
+  end if;
+
+  update public.reservations
+     set status = 'cancelled',
+         closed_at = timezone('utc'::text, now())
+   where book_id = any(p_book_ids)
+     and status in ('waiting', 'ready');
+
+  update public.books
+     set deleted_at = timezone('utc'::text, now()),
+         deleted_by = public.requesting_user_id()
+   where id = any(p_book_ids)
+     and deleted_at is null;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+alter function public.trash_books(uuid[]) owner to postgres;
+
+
+-- Holt Einträge aus dem Papierkorb zurück
+create or replace function public.restore_books(p_book_ids uuid[]) returns integer
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_count integer;
+begin
+  if not public.is_clerk_admin() then
+    raise exception 'Nur Administratoren dürfen Bücher wiederherstellen';
+  end if;
+
+  update public.books
+     set deleted_at = null,
+         deleted_by = null
+   where id = any(p_book_ids)
+     and deleted_at is not null;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+alter function public.restore_books(uuid[]) owner to postgres;
+
+
+-- Löscht Einträge aus dem Papierkorb endgültig (samt Exemplaren und Ausleih-Historie).
+-- Aktive Einträge werden nicht angetastet.
+create or replace function public.purge_books(p_book_ids uuid[]) returns integer
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_count integer;
+begin
+  if not public.is_clerk_admin() then
+    raise exception 'Nur Administratoren dürfen Bücher endgültig löschen';
+  end if;
+
+  delete from public.books
+   where id = any(p_book_ids)
+     and deleted_at is not null;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+alter function public.purge_books(uuid[]) owner to postgres;
+
+
+-- Inhalt des Papierkorbs, die neuesten zuerst
+create or replace function public.get_trashed_books() returns setof public.books
+    language plpgsql stable security definer
+    set search_path to ''
+    as $$
+begin
+  if not public.is_clerk_admin() then
+    raise exception 'Nur Administratoren dürfen den Papierkorb sehen';
+  end if;
+
+  return query
+  select *
+    from public.books
+   where deleted_at is not null
+   order by deleted_at desc;
+end;
+$$;
+
+alter function public.get_trashed_books() owner to postgres;
+
+
+grant all on function public.trash_books(uuid[]) to anon;
+grant all on function public.trash_books(uuid[]) to authenticated;
+grant all on function public.trash_books(uuid[]) to service_role;
+grant all on function public.restore_books(uuid[]) to anon;
+grant all on function public.restore_books(uuid[]) to authenticated;
+grant all on function public.restore_books(uuid[]) to service_role;
+grant all on function public.purge_books(uuid[]) to anon;
+grant all on function public.purge_books(uuid[]) to authenticated;
+grant all on function public.purge_books(uuid[]) to service_role;
+grant all on function public.get_trashed_books() to anon;
+grant all on function public.get_trashed_books() to authenticated;
+grant all on function public.get_trashed_books() to service_role;
@@ -0,0 +1,37 @@
+-- Zuordnung R2-PDF → hochgeladene Datei in der Gemini Files API.
+-- processPdf lädt ein PDF nur noch hoch, wenn es hier fehlt, abgelaufen ist oder sich
+-- das R2-Objekt geändert hat (anderes ETag). Gilt über alle Worker-Instanzen hinweg.
+
+create table if not exists public.gemini_files (
+    key text primary key,
+    etag text not null,
+    size bigint,
+    file_name text not null,
+    file_uri text not null,
+    expires_at timestamp with time zone not null,
+    created_at timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+alter table public.gemini_files owner to postgres;
+
+comment on table public.gemini_files is 'Hochgeladene PDFs in der Gemini Files API, geschrieben von processPdf';
+comment on column public.gemini_files.key is 'Pfad des PDFs im R2-Bucket';
+comment on column public.gemini_files.etag is 'ETag des R2-Objekts beim Hochladen, bei Abweichung wird neu hochgeladen';
+comment on column public.gemini_files.file_name is 'Name in der Files API (files/…), zum Löschen';
+comment on column public.gemini_files.expires_at is 'Ablauf laut Files API (Dateien werden nach 48 h gelöscht)';
+
+create index if not exists gemini_files_expires_at_idx on public.gemini_files (expires_at);
+
+
+-- RLS: Admins dürfen lesen und löschen, geschrieben wird nur von processPdf (Service Role)
+alter table public.gemini_files enable row level security;
+
+create policy "gemini_files_select_policy" on public.gemini_files for select to authenticated
+    using (public.is_clerk_admin());
+
+create policy "gemini_files_delete_policy" on public.gemini_files for delete to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.gemini_files to anon;
+grant all on table public.gemini_files to authenticated;
+grant all on table public.gemini_files to service_role;
@@ -0,0 +1,185 @@
+-- Dateien (PDFs in R2) zu einem Katalogeintrag. Ersetzt das Raten des Dateinamens aus
+-- ISBN und Titel: die App findet das PDF über book_files.key, Titeländerungen sind egal.
+-- Ein Buch kann mehrere Dateien haben (Schülerbuch, Lösungen, Arbeitsblätter).
+-- books.has_pdf wird per Trigger aus book_files nachgeführt. Bestehende PDFs im Bucket
+-- (Muster ISBN_Name.pdf) ordnet scripts/backfill-book-files.mjs über backfill_book_files zu,
+-- PDFs ohne passende ISBN danach Admins in den Buchdetails.
+
+create table if not exists public.book_files (
+    id uuid primary key default gen_random_uuid(),
+    book_id uuid not null references public.books(id) on delete cascade,
+    key text not null,
+    kind text not null default 'student_book',
+    label text,
+    size bigint,
+    etag text,
+    page_count integer,
+    uploaded_by text default public.requesting_user_id(),
+    created_at timestamp with time zone not null default timezone('utc'::text, now()),
+    constraint book_files_key_key unique (key),
+    constraint book_files_kind_check check (kind in ('student_book', 'solutions', 'worksheets', 'other'))
+);
+
+alter table public.book_files owner to postgres;
+
+comment on table public.book_files is 'PDF-Dateien (R2) eines Katalogeintrags';
+comment on column public.book_files.key is 'Pfad der Datei im R2-Bucket, gehört zu genau einem Buch';
+comment on column public.book_files.kind is 'student_book, solutions, worksheets oder other';
+comment on column public.book_files.label is 'Optionale Bezeichnung, sonst wird die Art angezeigt';
+comment on column public.book_files.uploaded_by is 'Clerk-ID der Person, die die Datei zugeordnet oder hochgeladen hat';
+
+create index if not exists book_files_book_id_idx on public.book_files (book_id);
+
+
+-- has_pdf des betroffenen Buchs nachführen
+create or replace function public.refresh_book_has_pdf() returns trigger
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+begin
+  update public.books b
+     set has_pdf = exists (select 1 from public.book_files f where f.book_id = b.id)
+   where b.id in (
+     select (to_jsonb(old) ->> 'book_id')::uuid
+     union
+     select (to_jsonb(new) ->> 'book_id')::uuid
+   );
+  return null;
+end;
+$$;
+
+alter function public.refresh_book_has_pdf() owner to postgres;
+
+create or replace trigger refresh_book_has_pdf
+    after insert or update of book_id or delete on public.book_files
+    for each row execute function public.refresh_book_has_pdf();
+
+create or replace trigger audit_book_files
+    after insert or update or delete on public.book_files
+    for each row execute function public.write_audit_log('book_file');
+
+comment on column public.audit_log.entity_type is 'book, book_copy, book_file, loan, class_loan, reservation oder user';
+
+
+-- Zusammenführen: Dateien gehen wie Exemplare an den behaltenen Eintrag
+create or replace function public.merge_books(p_keep_id uuid, p_merge_ids uuid[]) returns void
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_isbn text;
+  v_has_pdf boolean;
+begin
+  if not public.is_clerk_admin() then
+    raise exception 'Nur Administratoren dürfen Katalogeinträge zusammenführen';
+  end if;
+
+  p_merge_ids := array_remove(p_merge_ids, p_keep_id);
+  if coalesce(array_length(p_merge_ids, 1), 0) = 0 then
+    return;
+  end if;
+
+  if not exists (select 1 from public.books where id = p_keep_id) then
+    raise exception 'Der zu behaltende Katalogeintrag existiert nicht';
+  end if;
+
+  -- Pro Person nur die älteste aktive Reservation behalten
+  update public.reservations r
+     set status = 'cancelled',
+         closed_at = timezone('utc'::text, now())
+    from (
+      select res.id,
+             row_number() over (partition by res.user_id order by res.created_at) as rn
+        from public.reservations res
+       where (res.book_id = p_keep_id or res.book_id = any(p_merge_ids))
+         and res.status in ('waiting', 'ready')
+    ) ranked
+   where r.id = ranked.id
+     and ranked.rn > 1;
+
+  update public.reservations set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.loans set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.class_loans set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.book_copies set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.book_files set book_id = p_keep_id where book_id = any(p_merge_ids);
+  update public.import_job_items set book_id = p_keep_id where book_id = any(p_merge_ids);
+
+  -- ISBN und PDF-Kennzeichen (noch nicht zugeordnete PDFs) übernehmen, falls der behaltene Eintrag keine hat
+  select isbn into v_isbn
+    from public.books
+   where id = any(p_merge_ids)
+     and coalesce(isbn, '') <> ''
+   order by created_at
+   limit 1;
+
+  select bool_or(has_pdf) into v_has_pdf from public.books where id = any(p_merge_ids);
+
+  delete from public.books where id = any(p_merge_ids);
+
+  update public.books
+     set isbn = case when coalesce(isbn, '') = '' and v_isbn is not null then v_isbn else isbn end,
+         has_pdf = coalesce(has_pdf, false) or coalesce(v_has_pdf, false)
+   where id = p_keep_id;
+
+  perform public.refresh_book_copy_counts(p_keep_id);
+end;
+$$;
+
+alter function public.merge_books(uuid, uuid[]) owner to postgres;
+
+
+-- RLS: Angemeldete dürfen lesen, zuordnen und entfernen nur Admins
+alter table public.book_files enable row level security;
+
+create policy "book_files_select_policy" on public.book_files for select to authenticated
+    using (public.is_clerk_authenticated());
+
+create policy "book_files_insert_policy" on public.book_files for insert to authenticated
+    with check (public.is_clerk_admin());
+
+create policy "book_files_update_policy" on public.book_files for update to authenticated
+    using (public.is_clerk_admin())
+    with check (public.is_clerk_admin());
+
+create policy "book_files_delete_policy" on public.book_files for delete to authenticated
+    using (public.is_clerk_admin());
+
+grant all on table public.book_files to anon;
+grant all on table public.book_files to authenticated;
+grant all on table public.book_files to service_role;
+
+grant all on function public.refresh_book_has_pdf() to service_role;
+
+
+-- Bestehende PDFs anhand der ISBN am Anfang des Dateinamens zuordnen. Die Objekte im Bucket
+-- kennt nur R2, deshalb übergibt das Skript sie seitenweise als [{ key, size, etag }].
+-- Bei mehreren Einträgen mit derselben ISBN gewinnt der älteste aktive. has_pdf führt der
+-- Trigger nach.
+create or replace function public.backfill_book_files(p_objects jsonb) returns integer
+    language plpgsql security definer
+    set search_path to ''
+    as $$
+declare
+  v_count integer;
+begin
+  insert into public.book_files (book_id, key, size, etag)
+  select distinct on (o.key) b.id, o.key, o.size, o.etag
+    from jsonb_to_recordset(p_objects) as o(key text, size bigint, etag text)
+   cross join lateral (
+     select public.normalize_isbn(substring(o.key from '^([0-9Xx-]{10,17})[_. ]')) as isbn
+   ) k
+    join public.books b on public.normalize_isbn(b.isbn) = k.isbn
+   where length(k.isbn) >= 10
+     and lower(o.key) like '%.pdf'
+   order by o.key, b.deleted_at nulls first, b.created_at
+  on conflict (key) do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+alter function public.backfill_book_files(jsonb) owner to postgres;
+
+revoke all on function public.backfill_book_files(jsonb) from public, anon, authenticated;
+grant all on function public.backfill_book_files(jsonb) to service_role;
@@ -0,0 +1,20 @@
+-- Sichtbarkeit der PDFs pro Datei. Die Verlagslizenzen erlauben z.B. Lösungen nur für Lehrpersonen
+-- oder einzelne Schulhäuser. Durchgesetzt wird die Sichtbarkeit in den Pages Functions listPdfs und
+-- processPdf anhand der Clerk-Metadaten (role, schools), die Zeilen selbst bleiben lesbar.
+-- PDFs im Bucket ohne Eintrag in book_files sehen nur Admins, ältere PDFs ordnet backfill_book_files zu.
+
+alter table public.book_files
+    add column if not exists visibility text not null default 'public',
+    add column if not exists schools text[] not null default '{}';
+
+alter table public.book_files drop constraint if exists book_files_visibility_check;
+alter table public.book_files
+    add constraint book_files_visibility_check check (visibility in ('public', 'teachers', 'admins', 'schools'));
+
+-- Lösungen waren bisher für alle sichtbar, ab jetzt standardmässig nur für Lehrpersonen
+update public.book_files set visibility = 'teachers' where kind = 'solutions' and visibility = 'public';
+
+comment on column public.book_files.visibility is 'public, teachers (Lehrpersonen und Admins), admins oder schools (nur die Schulhäuser in schools)';
+comment on column public.book_files.schools is 'Schulhäuser (SCHOOLS) bei visibility = schools';
+
+comment on column public.audit_log.action is 'create, update, delete, checkout, return, role_change, schools_change, block, unblock';
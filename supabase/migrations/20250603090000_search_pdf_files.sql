@@ -0,0 +1,67 @@
+-- Suche im PDF-Chat über Dateiname, Bezeichnung und die Angaben des Buchs (Titel, Autor, Fach).
+-- Wird nur von der Pages Function listPdfs mit dem Service-Role-Key aufgerufen: Rolle und
+-- Schulhäuser kommen aus den Clerk-Metadaten und werden als Parameter übergeben, die
+-- Sichtbarkeit entspricht canAccessPdfFile in src/lib/pdf-access.ts: Admins finden alles,
+-- alle anderen keine Dateien von Büchern im Papierkorb.
+
+create or replace function public.search_pdf_files(
+    p_query text,
+    p_role text,
+    p_schools text[],
+    p_limit integer default 50,
+    p_offset integer default 0
+) returns table (
+    key text,
+    book_id uuid,
+    kind text,
+    label text,
+    visibility text,
+    size bigint,
+    etag text,
+    created_at timestamp with time zone,
+    title text,
+    author text,
+    subject text
+)
+    language plpgsql stable security definer
+    set search_path to ''
+    as $$
+declare
+  -- % und _ aus der Eingabe wörtlich suchen
+  v_pattern text := '%' || replace(replace(replace(trim(coalesce(p_query, '')), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+begin
+  return query
+  select f.key, f.book_id, f.kind, f.label, f.visibility, f.size, f.etag, f.created_at,
+         b.title, b.author, b.subject
+    from public.book_files f
+    join public.books b on b.id = f.book_id
+   where (
+           p_role in ('admin', 'superadmin')
+           or (
+                b.deleted_at is null
+                and (
+                      f.visibility = 'public'
+                      or (f.visibility = 'teachers' and p_role = 'teacher')
+                      or (f.visibility = 'schools' and f.schools && coalesce(p_schools, '{}'::text[]))
+                    )
+              )
+         )
+     and (
+           f.key ilike v_pattern
+           or f.label ilike v_pattern
+           or b.title ilike v_pattern
+           or b.author ilike v_pattern
+           or b.subject ilike v_pattern
+           or b.isbn ilike v_pattern
+         )
+   order by b.title, f.kind, f.key
+   limit least(greatest(coalesce(p_limit, 50), 1), 200)
+  offset greatest(coalesce(p_offset, 0), 0);
+end;
+$$;
+
+alter function public.search_pdf_files(text, text, text[], integer, integer) owner to postgres;
+
+-- Rolle und Schulhäuser sind Parameter, deshalb nicht für angemeldete Personen aufrufbar
+revoke all on function public.search_pdf_files(text, text, text[], integer, integer) from public, anon, authenticated;
+grant all on function public.search_pdf_files(text, text, text[], integer, integer) to service_role;